@@ -0,0 +1,267 @@
+import { timingSafeEqual } from "node:crypto";
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { resolveConfigUpdate } from "../bots/mm/config.js";
+import { MarketMakerGroup } from "../bots/mm/group.js";
+import { type MarketMaker, MarketMakerStateError } from "../bots/mm/index.js";
+import { logger } from "../utils/logger.js";
+import { metrics } from "../utils/metrics.js";
+
+/**
+ * Maximum accepted request body size
+ */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Control API configuration
+ */
+export interface ApiServerConfig {
+  /** Port to listen on (0 = any free port) */
+  port: number;
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string;
+  /** Bearer token required on every request */
+  token: string;
+}
+
+/**
+ * Route handler, called once per selected engine
+ */
+type EngineHandler = (engine: MarketMaker, body: Record<string, unknown>) => unknown;
+
+/**
+ * Error carrying an HTTP status code
+ */
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const ROUTES: Record<string, EngineHandler> = {
+  "GET /status": (engine) => engine.getStatus(),
+  "GET /orders": (engine) => engine.getOrders(),
+  "GET /position": (engine) => engine.getPosition(),
+  "GET /config": (engine) => engine.getConfig(),
+  "POST /pause": async (engine) => {
+    await engine.pause();
+    return engine.getStatus();
+  },
+  "POST /resume": (engine) => {
+    engine.resume();
+    return engine.getStatus();
+  },
+  "POST /flatten": (engine) => engine.flatten(),
+  "PATCH /config": (engine, body) => engine.updateConfig(body),
+};
+
+/**
+ * HTTP status and control API for a running market maker or group
+ * Responses for a group are keyed by symbol; `?symbol=BTC` selects one engine
+ * Also serves the process metrics registry at /metrics in Prometheus text format
+ */
+export class ApiServer {
+  private target: MarketMaker | MarketMakerGroup;
+  private config: ApiServerConfig;
+  private server: Server | null = null;
+
+  /**
+   * Create an API server
+   * @param target - Market maker or group to expose
+   * @param config - Listen address and bearer token
+   */
+  constructor(target: MarketMaker | MarketMakerGroup, config: ApiServerConfig) {
+    if (!config.token) {
+      throw new Error("API token is required");
+    }
+    this.target = target;
+    this.config = config;
+  }
+
+  /**
+   * Start listening
+   */
+  async start(): Promise<void> {
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res);
+    });
+
+    const host = this.config.host ?? "127.0.0.1";
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.config.port, host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    logger.info(`API server listening on http://${host}:${this.getPort()}`);
+  }
+
+  /**
+   * Stop listening and close open connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Get the bound port (useful when started with port 0)
+   */
+  getPort(): number | null {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    return address?.port ?? null;
+  }
+
+  /**
+   * Authenticate, route and respond to a request
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      if (!this.isAuthorized(req.headers.authorization)) {
+        throw new HttpError(401, "Unauthorized");
+      }
+
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (req.method === "GET" && url.pathname === "/metrics") {
+        res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+        res.end(metrics.render());
+        return;
+      }
+
+      const handler = ROUTES[`${req.method} ${url.pathname}`];
+      if (!handler) {
+        const known = Object.keys(ROUTES).some((route) => route.endsWith(` ${url.pathname}`));
+        throw new HttpError(known ? 405 : 404, known ? "Method not allowed" : "Not found");
+      }
+
+      const body = req.method === "GET" ? {} : await this.readBody(req);
+      const selected = url.searchParams.get("symbol");
+      const engines = this.selectEngines(selected);
+
+      // Validate a config change against every engine before applying it to any
+      if (req.method === "PATCH") {
+        for (const engine of engines.values()) {
+          try {
+            resolveConfigUpdate(engine.getConfig(), body);
+          } catch (error) {
+            throw new HttpError(400, (error as Error).message);
+          }
+        }
+      }
+
+      const results: Record<string, unknown> = {};
+      if (
+        req.method === "POST" &&
+        url.pathname === "/resume" &&
+        this.target instanceof MarketMakerGroup &&
+        selected === null
+      ) {
+        // The engines share their loss limits, so a halt is lifted for all of them at once
+        this.target.resume();
+        for (const [symbol, engine] of engines) {
+          results[symbol] = engine.getStatus();
+        }
+      } else {
+        for (const [symbol, engine] of engines) {
+          results[symbol] = await handler(engine, body);
+        }
+      }
+
+      const payload = this.target instanceof MarketMakerGroup ? results : Object.values(results)[0];
+      this.send(res, 200, payload ?? null);
+    } catch (error) {
+      // Anything but a rejected request is a failure of the bot or the exchange
+      const status =
+        error instanceof HttpError
+          ? error.status
+          : error instanceof MarketMakerStateError
+            ? 400
+            : 500;
+      const message = (error as Error).message;
+      if (status >= 500) {
+        logger.error(`API ${req.method} ${req.url} failed:`, error);
+      } else if (status !== 401) {
+        logger.warn(`API ${req.method} ${req.url} failed: ${message}`);
+      }
+      this.send(res, status, { error: message });
+    }
+  }
+
+  /**
+   * Check the bearer token in constant time
+   */
+  private isAuthorized(header: string | undefined): boolean {
+    if (!header?.startsWith("Bearer ")) return false;
+    const given = Buffer.from(header.slice("Bearer ".length));
+    const expected = Buffer.from(this.config.token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  /**
+   * Resolve the engines a request applies to
+   */
+  private selectEngines(symbol: string | null): Map<string, MarketMaker> {
+    const engines =
+      this.target instanceof MarketMakerGroup
+        ? this.target.getEngines()
+        : new Map([[this.target.getConfig().symbol, this.target]]);
+
+    if (symbol === null) {
+      return engines;
+    }
+    const engine = engines.get(symbol);
+    if (!engine) {
+      throw new HttpError(404, `Unknown symbol: ${symbol}`);
+    }
+    return new Map([[symbol, engine]]);
+  }
+
+  /**
+   * Read and parse a JSON request body (empty body = {})
+   */
+  private async readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new HttpError(413, "Request body too large");
+      }
+      chunks.push(chunk);
+    }
+
+    const text = Buffer.concat(chunks).toString("utf8").trim();
+    if (text.length === 0) return {};
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new HttpError(400, "Invalid JSON body");
+    }
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      throw new HttpError(400, "Body must be a JSON object");
+    }
+    return body as Record<string, unknown>;
+  }
+
+  /**
+   * Write a JSON response
+   */
+  private send(res: ServerResponse, status: number, payload: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(payload));
+  }
+}
@@ -0,0 +1,597 @@
+import { DEFAULT_CONFIG, type MarketMakerConfig, validateConfig } from "../bots/mm/config.js";
+import { PositionManager } from "../bots/mm/position.js";
+import { Quoter } from "../bots/mm/quoter.js";
+import { type OrderPlan, reconcileOrders } from "../bots/mm/reconciler.js";
+import { midPrice } from "../exchanges/paper/orders.js";
+import type { PriceCallback } from "../pricing/binance.js";
+import { FairPriceCalculator } from "../pricing/fair-price.js";
+import type { IPriceFeed } from "../pricing/index.js";
+import { type MarketDataEvent, applyBookEvent } from "../recorder/reader.js";
+import type { Fill, Market, Order, OrderRequest, Orderbook } from "../types.js";
+import { VirtualClock } from "../utils/clock.js";
+import { logger } from "../utils/logger.js";
+import { type FillModelEvent, QueueFillModel } from "./fill-model.js";
+
+/**
+ * Backtest configuration (the shape of the --config file)
+ */
+export interface BacktestConfig {
+  /** Symbol the recorded data belongs to */
+  symbol: string;
+  /** Market precision used for rounding quotes */
+  market: {
+    tickSize: number;
+    sizePrecision: number;
+    minSize: number;
+  };
+  /** Market maker settings on top of the defaults (environment variables are not read) */
+  overrides?: Partial<MarketMakerConfig>;
+  /** Delay before orders and cancels reach the book in ms (default: 50) */
+  latencyMs?: number;
+  /** Maker fee in basis points, negative for rebates (default: 1.5) */
+  makerFeeBps?: number;
+  /** Fair price input: recorded price ticks, or the recorded book mid (default: "ticks") */
+  priceFrom?: "ticks" | "mid";
+  /** Interval between inventory path samples in ms (default: 60000) */
+  sampleIntervalMs?: number;
+}
+
+/**
+ * A point on the inventory path
+ */
+export interface InventorySample {
+  ts: number;
+  /** Signed position size (negative when short) */
+  size: number;
+  /** Signed position notional at the mark price */
+  notionalUsd: number;
+  /** Realized PnL net of fees plus unrealized PnL */
+  equityUsd: number;
+  fairPrice: number | null;
+}
+
+/**
+ * Backtest outcome
+ */
+export interface BacktestResult {
+  startTs: number;
+  endTs: number;
+  events: number;
+  fills: {
+    total: number;
+    buys: number;
+    sells: number;
+    volumeUsd: number;
+  };
+  orders: {
+    placed: number;
+    canceled: number;
+    rejected: number;
+  };
+  pnl: {
+    /** Realized PnL net of fees */
+    realizedUsd: number;
+    feesUsd: number;
+    /** Unrealized PnL of the final position at the last mark price */
+    unrealizedUsd: number;
+    totalUsd: number;
+  };
+  /** Largest drop of equity from a previous peak */
+  maxDrawdownUsd: number;
+  /** Largest absolute position notional */
+  maxPositionUsd: number;
+  /** Signed position size at the end */
+  finalPosition: number;
+  inventory: InventorySample[];
+}
+
+const DEFAULT_LATENCY_MS = 50;
+const DEFAULT_MAKER_FEE_BPS = 1.5;
+const DEFAULT_SAMPLE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Price feed pushed by the backtester
+ */
+class BacktestPriceFeed implements IPriceFeed {
+  private callback: PriceCallback;
+  private lastPrice: number | null = null;
+  private lastTimestamp: number | null = null;
+  private _connected = false;
+
+  constructor(callback: PriceCallback) {
+    this.callback = callback;
+  }
+
+  get connected(): boolean {
+    return this._connected;
+  }
+
+  async connect(): Promise<void> {
+    this._connected = true;
+  }
+
+  disconnect(): void {
+    this._connected = false;
+  }
+
+  push(price: number, timestamp: number): void {
+    this.lastPrice = price;
+    this.lastTimestamp = timestamp;
+    this.callback(price, timestamp);
+  }
+
+  getLastPrice(): number | null {
+    return this.lastPrice;
+  }
+
+  getLastTimestamp(): number | null {
+    return this.lastTimestamp;
+  }
+}
+
+/**
+ * Replays recorded market data through the market maker's quoting logic
+ * Quoter, PositionManager, FairPriceCalculator and the order reconciler run unchanged on a
+ * virtual clock that follows the data; the main loop, order sync and price staleness checks
+ * mirror MarketMaker, and the exchange is replaced by a queue-position fill model.
+ * Margin checks are not simulated.
+ */
+export class Backtester {
+  private backtestConfig: BacktestConfig;
+  private config: MarketMakerConfig;
+  private market: Market;
+  private fillModel: QueueFillModel;
+  private makerFeeBps: number;
+  private sampleIntervalMs: number;
+
+  // Created when the first event sets the clock
+  private fairPriceCalc: FairPriceCalculator | null = null;
+  private feed: BacktestPriceFeed | null = null;
+  private quoter: Quoter;
+  private positionManager: PositionManager;
+
+  private clock = new VirtualClock();
+  private state: "warming_up" | "running" | "stale_price" = "warming_up";
+  private orderbook: Orderbook | null = null;
+  private currentOrders: Order[] = [];
+  private nextLoopAt = 0;
+  private nextSyncAt = 0;
+  private nextSampleAt = 0;
+  private nextFillId = 1;
+
+  private result: BacktestResult;
+  private peakEquity = 0;
+
+  /**
+   * Create a backtester
+   * @param config - Symbol, market precision, strategy overrides and fill model settings
+   */
+  constructor(config: BacktestConfig) {
+    this.backtestConfig = config;
+    this.config = {
+      ...DEFAULT_CONFIG,
+      exchange: "paper",
+      symbol: config.symbol,
+      ...config.overrides,
+    };
+    validateConfig(this.config);
+
+    const { tickSize, sizePrecision, minSize } = config.market;
+    if (!(tickSize > 0)) {
+      throw new Error("market.tickSize must be positive");
+    }
+    this.market = {
+      id: config.symbol,
+      symbol: config.symbol,
+      base: config.symbol,
+      quote: "USD",
+      pricePrecision: Math.max(0, -Math.floor(Math.log10(tickSize))),
+      sizePrecision,
+      minSize,
+      tickSize,
+    };
+
+    this.fillModel = new QueueFillModel(config.latencyMs ?? DEFAULT_LATENCY_MS);
+    this.makerFeeBps = config.makerFeeBps ?? DEFAULT_MAKER_FEE_BPS;
+    this.sampleIntervalMs = config.sampleIntervalMs ?? DEFAULT_SAMPLE_INTERVAL_MS;
+    this.quoter = new Quoter(this.config);
+    this.quoter.setMarket(this.market);
+    this.positionManager = new PositionManager(this.config);
+
+    this.result = {
+      startTs: 0,
+      endTs: 0,
+      events: 0,
+      fills: { total: 0, buys: 0, sells: 0, volumeUsd: 0 },
+      orders: { placed: 0, canceled: 0, rejected: 0 },
+      pnl: { realizedUsd: 0, feesUsd: 0, unrealizedUsd: 0, totalUsd: 0 },
+      maxDrawdownUsd: 0,
+      maxPositionUsd: 0,
+      finalPosition: 0,
+      inventory: [],
+    };
+  }
+
+  /**
+   * Get the resolved market maker configuration
+   */
+  getConfig(): Readonly<MarketMakerConfig> {
+    return this.config;
+  }
+
+  /**
+   * Replay market data and return the outcome
+   * @param events - Events in time order (e.g., from readMarketData)
+   */
+  async run(
+    events: AsyncIterable<MarketDataEvent> | Iterable<MarketDataEvent>
+  ): Promise<BacktestResult> {
+    if (this.fairPriceCalc) {
+      throw new Error("A backtester can only run once");
+    }
+
+    for await (const event of events) {
+      if (!this.fairPriceCalc) {
+        await this.begin(event.ts);
+      }
+      if (event.ts < this.clock.now()) {
+        logger.warn(`Skipping out of order event at ${event.ts} (clock at ${this.clock.now()})`);
+        continue;
+      }
+
+      this.advanceTo(event.ts);
+      this.result.events++;
+      this.handleEvent(event);
+    }
+
+    if (!this.fairPriceCalc) {
+      throw new Error("No market data to backtest");
+    }
+    return this.finish();
+  }
+
+  /**
+   * Start the clock and the fair price calculator at the first event
+   */
+  private async begin(ts: number): Promise<void> {
+    this.clock.advanceTo(ts);
+    this.result.startTs = ts;
+    this.fairPriceCalc = new FairPriceCalculator(this.config.symbol, {
+      windowMs: this.config.fairPriceWindowMs,
+      warmupMs: this.config.warmupSeconds * 1000,
+      feed: (onPrice) => {
+        this.feed = new BacktestPriceFeed(onPrice);
+        return this.feed;
+      },
+      scheduler: this.clock,
+    });
+    await this.fairPriceCalc.connect();
+
+    this.nextLoopAt = ts + this.config.updateThrottleMs;
+    this.nextSyncAt = ts + this.config.orderSyncIntervalMs;
+    this.nextSampleAt = ts;
+  }
+
+  /**
+   * Run timers and order actions that fall due up to a time, in time order
+   */
+  private advanceTo(ts: number): void {
+    while (true) {
+      const actionAt = this.fillModel.getNextActionTime();
+      const next = Math.min(
+        actionAt ?? Number.POSITIVE_INFINITY,
+        this.nextLoopAt,
+        this.nextSyncAt,
+        this.nextSampleAt
+      );
+      if (next > ts) break;
+
+      this.clock.advanceTo(next);
+      if (actionAt !== null && actionAt <= next) {
+        this.applyModelEvents(this.fillModel.advance(this.clock.now(), this.orderbook));
+      } else if (this.nextSampleAt <= next) {
+        this.sample();
+        this.nextSampleAt += this.sampleIntervalMs;
+      } else if (this.nextSyncAt <= next) {
+        this.syncOrders();
+        this.nextSyncAt += this.config.orderSyncIntervalMs;
+      } else {
+        this.runMainLoop();
+        this.nextLoopAt += this.config.updateThrottleMs;
+      }
+    }
+    this.clock.advanceTo(ts);
+  }
+
+  /**
+   * Apply one market data event
+   */
+  private handleEvent(event: MarketDataEvent): void {
+    switch (event.type) {
+      case "book":
+      case "book_delta": {
+        this.orderbook = applyBookEvent(this.orderbook, event, this.config.symbol);
+        if (!this.orderbook) return;
+
+        if (this.backtestConfig.priceFrom === "mid") {
+          const mid = midPrice(this.orderbook);
+          if (mid !== null) this.feed?.push(mid, event.ts);
+        }
+        this.applyModelEvents(this.fillModel.onBook(this.orderbook, this.clock.now()));
+        return;
+      }
+      case "price":
+        if (this.backtestConfig.priceFrom !== "mid") {
+          this.feed?.push(event.price, event.ts);
+        }
+        return;
+      case "trade":
+        this.applyModelEvents(
+          this.fillModel.onTrade(event.side, event.price, event.size, this.clock.now())
+        );
+        return;
+    }
+  }
+
+  /**
+   * Pass fills and rejections from the fill model to the bot state
+   */
+  private applyModelEvents(events: FillModelEvent[]): void {
+    for (const event of events) {
+      if (event.type === "rejected") {
+        this.result.orders.rejected++;
+        this.removeOrder(event.orderId);
+        logger.debug(`Backtest order ${event.orderId} rejected: ${event.reason}`);
+        continue;
+      }
+
+      const notional = event.price * event.size;
+      this.handleFill({
+        id: String(this.nextFillId++),
+        orderId: event.orderId,
+        symbol: this.config.symbol,
+        side: event.side,
+        price: event.price,
+        size: event.size,
+        fee: (notional * this.makerFeeBps) / 10000,
+        liquidity: "maker",
+        timestamp: this.clock.now(),
+      });
+    }
+  }
+
+  /**
+   * Apply a fill like MarketMaker does and record it
+   */
+  private handleFill(fill: Fill): void {
+    const fairPrice = this.fairPriceCalc?.getFairPrice() ?? null;
+    this.positionManager.applyFill(fill, fairPrice || undefined);
+
+    const order = this.currentOrders.find((o) => o.id === fill.orderId);
+    if (order) {
+      order.filled += fill.size;
+      order.remaining = Math.max(0, order.remaining - fill.size);
+      if (order.remaining <= 0) {
+        this.removeOrder(fill.orderId);
+      }
+    }
+
+    this.result.fills.total++;
+    this.result.fills[fill.side === "buy" ? "buys" : "sells"]++;
+    this.result.fills.volumeUsd += fill.price * fill.size;
+    this.result.pnl.feesUsd += fill.fee;
+    this.trackEquity();
+  }
+
+  /**
+   * One main loop iteration, following MarketMaker.runMainLoop
+   */
+  private runMainLoop(): void {
+    const fairPriceCalc = this.fairPriceCalc;
+    if (!fairPriceCalc) return;
+
+    if (this.state === "warming_up") {
+      if (!fairPriceCalc.isReady()) return;
+      this.state = "running";
+      logger.debug(`Backtest warmed up at ${this.clock.now()}`);
+    }
+
+    // Pull quotes while the price is stale, resume once it is fresh
+    if (this.config.maxPriceAgeMs > 0) {
+      const isStale = fairPriceCalc.isStale(this.config.maxPriceAgeMs);
+      if (isStale && this.state === "running") {
+        this.state = "stale_price";
+        this.cancelAllOrders();
+      } else if (!isStale && this.state === "stale_price") {
+        this.state = "running";
+      }
+    }
+    if (this.state !== "running") return;
+
+    const fairPrice = fairPriceCalc.getFairPrice();
+    if (!fairPrice || this.positionManager.isAtMax()) return;
+
+    this.trackEquity();
+
+    const quote = this.quoter.generateQuotes(
+      fairPrice,
+      this.positionManager.getSignedNotional(),
+      this.orderbook || undefined
+    );
+    const plan = reconcileOrders(this.quoter.quoteToOrders(quote), this.currentOrders, {
+      tickSize: this.market.tickSize,
+      priceTicks: this.config.priceToleranceTicks,
+      sizeRatio: this.config.sizeTolerance,
+    });
+    this.applyOrderPlan(plan);
+  }
+
+  /**
+   * Execute an order plan; amends are a cancel and a new order at the back of the queue
+   */
+  private applyOrderPlan(plan: OrderPlan): void {
+    for (const order of [...plan.cancel, ...plan.amend.map((a) => a.current)]) {
+      this.fillModel.cancel(order.id, this.clock.now());
+      this.removeOrder(order.id);
+      this.result.orders.canceled++;
+    }
+    for (const order of [...plan.amend.map((a) => a.desired), ...plan.place]) {
+      this.placeOrder(order);
+    }
+  }
+
+  /**
+   * Send an order to the fill model and track it
+   * Price and size go out at market precision, as the exchange adapters format them, and
+   * reduce-only orders are clipped to the position like the paper exchange does
+   */
+  private placeOrder(request: OrderRequest): void {
+    const price = Number(request.price.toFixed(this.market.pricePrecision));
+    let size = Number(request.size.toFixed(this.market.sizePrecision));
+    if (request.reduceOnly) {
+      const position = this.positionManager.getPosition();
+      const reduces =
+        (position.side === "long" && request.side === "sell") ||
+        (position.side === "short" && request.side === "buy");
+      size = reduces ? Math.min(size, position.size) : 0;
+      if (size <= 0) {
+        this.result.orders.rejected++;
+        return;
+      }
+    }
+
+    const id = this.fillModel.place({ ...request, price, size }, this.clock.now());
+    this.currentOrders.push({
+      id,
+      symbol: request.symbol,
+      type: request.type,
+      side: request.side,
+      price,
+      size,
+      filled: 0,
+      remaining: size,
+      status: "open",
+      timestamp: this.clock.now(),
+      reduceOnly: request.reduceOnly ?? false,
+      postOnly: request.postOnly,
+    });
+    this.result.orders.placed++;
+    logger.debug(`Backtest order ${id}: ${request.side} ${size} @ ${price}`);
+  }
+
+  /**
+   * Cancel every tracked order
+   */
+  private cancelAllOrders(): void {
+    this.result.orders.canceled += this.currentOrders.length;
+    this.fillModel.cancelAll(this.clock.now());
+    this.currentOrders = [];
+  }
+
+  /**
+   * Stop tracking an order
+   */
+  private removeOrder(orderId: string): void {
+    this.currentOrders = this.currentOrders.filter((o) => o.id !== orderId);
+  }
+
+  /**
+   * Periodic sync, following MarketMaker.syncOrders
+   * Orders are reloaded from the fill model and the position is marked at the fair price
+   */
+  private syncOrders(): void {
+    this.currentOrders = this.fillModel.getOpenOrders(this.clock.now());
+
+    const position = this.positionManager.getPosition();
+    const fairPrice = this.fairPriceCalc?.getFairPrice();
+    if (position.side === "none" || !fairPrice) return;
+
+    const signedSize = position.side === "long" ? position.size : -position.size;
+    this.positionManager.updatePosition(
+      {
+        symbol: this.config.symbol,
+        side: position.side,
+        size: signedSize,
+        entryPrice: position.entryPrice,
+        unrealizedPnl: signedSize * (fairPrice - position.entryPrice),
+      },
+      fairPrice
+    );
+  }
+
+  /**
+   * Mark price for equity: book mid, else fair price
+   */
+  private getMarkPrice(): number | null {
+    const mid = this.orderbook ? midPrice(this.orderbook) : null;
+    return mid ?? this.fairPriceCalc?.getFairPrice() ?? null;
+  }
+
+  /**
+   * Signed position size
+   */
+  private getSignedSize(): number {
+    const position = this.positionManager.getPosition();
+    if (position.side === "none") return 0;
+    return position.side === "long" ? position.size : -position.size;
+  }
+
+  /**
+   * Equity (realized net of fees plus unrealized) at the current mark
+   */
+  private getEquity(): number {
+    const position = this.positionManager.getPosition();
+    const mark = this.getMarkPrice();
+    const unrealized = mark === null ? 0 : this.getSignedSize() * (mark - position.entryPrice);
+    return this.positionManager.getRealizedPnl() + unrealized;
+  }
+
+  /**
+   * Update drawdown and peak position from the current state
+   */
+  private trackEquity(): void {
+    const equity = this.getEquity();
+    this.peakEquity = Math.max(this.peakEquity, equity);
+    this.result.maxDrawdownUsd = Math.max(this.result.maxDrawdownUsd, this.peakEquity - equity);
+
+    const mark = this.getMarkPrice();
+    if (mark !== null) {
+      const notional = Math.abs(this.getSignedSize()) * mark;
+      this.result.maxPositionUsd = Math.max(this.result.maxPositionUsd, notional);
+    }
+  }
+
+  /**
+   * Add a point to the inventory path
+   */
+  private sample(): void {
+    const size = this.getSignedSize();
+    this.result.inventory.push({
+      ts: this.clock.now(),
+      size,
+      notionalUsd: size * (this.getMarkPrice() ?? 0),
+      equityUsd: this.getEquity(),
+      fairPrice: this.fairPriceCalc?.getFairPrice() ?? null,
+    });
+  }
+
+  /**
+   * Close out the run and compute totals
+   */
+  private finish(): BacktestResult {
+    this.trackEquity();
+    if (this.result.inventory[this.result.inventory.length - 1]?.ts !== this.clock.now()) {
+      this.sample();
+    }
+    this.fairPriceCalc?.disconnect();
+
+    const realized = this.positionManager.getRealizedPnl();
+    const equity = this.getEquity();
+    this.result.endTs = this.clock.now();
+    this.result.finalPosition = this.getSignedSize();
+    this.result.pnl.realizedUsd = realized;
+    this.result.pnl.unrealizedUsd = equity - realized;
+    this.result.pnl.totalUsd = equity;
+    return this.result;
+  }
+}
@@ -0,0 +1,240 @@
+import { crossingLiquidity, wouldCross } from "../exchanges/paper/orders.js";
+import type { Order, OrderRequest, Orderbook, Side } from "../types.js";
+
+/**
+ * A simulated resting order with its place in the queue
+ */
+interface QueuedOrder {
+  order: Order;
+  /** Size resting ahead of us at our price */
+  queueAhead: number;
+  /** Time the order reaches the book */
+  activeAt: number;
+  /** Whether the order has reached the book */
+  active: boolean;
+  /** Time a requested cancel reaches the book (null if not canceled) */
+  cancelAt: number | null;
+}
+
+/**
+ * Something that happened to a simulated order
+ */
+export type FillModelEvent =
+  | { type: "fill"; orderId: string; side: Side; price: number; size: number }
+  | { type: "rejected"; orderId: string; reason: string };
+
+/**
+ * Fill simulation for resting post-only orders
+ * Orders and cancels reach the book after a fixed latency. A new order joins the back of
+ * the queue at its price: the size already displayed there must trade first. Queue ahead
+ * only shrinks (displayed size dropping at our price is assumed to leave from the front),
+ * and an order fills at its own price once trades or the opposite side of the book reach
+ * it with size left over after the queue ahead.
+ */
+export class QueueFillModel {
+  private latencyMs: number;
+  private orders = new Map<string, QueuedOrder>();
+  private nextOrderId = 1;
+
+  /**
+   * Create a fill model
+   * @param latencyMs - Delay before placements and cancels reach the book
+   */
+  constructor(latencyMs: number) {
+    if (!(latencyMs >= 0)) {
+      throw new Error("latencyMs must not be negative");
+    }
+    this.latencyMs = latencyMs;
+  }
+
+  /**
+   * Send an order; it joins the book after the latency
+   * @param request - Order parameters
+   * @param now - Current time in milliseconds
+   * @returns Simulated order id
+   */
+  place(request: OrderRequest, now: number): string {
+    const id = String(this.nextOrderId++);
+    this.orders.set(id, {
+      order: {
+        id,
+        symbol: request.symbol,
+        type: request.type,
+        side: request.side,
+        price: request.price,
+        size: request.size,
+        filled: 0,
+        remaining: request.size,
+        status: "open",
+        timestamp: now,
+        reduceOnly: request.reduceOnly ?? false,
+        postOnly: request.postOnly,
+      },
+      queueAhead: 0,
+      activeAt: now + this.latencyMs,
+      active: false,
+      cancelAt: null,
+    });
+    return id;
+  }
+
+  /**
+   * Request a cancel; the order can still fill until the cancel reaches the book
+   * @param orderId - Simulated order id
+   * @param now - Current time in milliseconds
+   */
+  cancel(orderId: string, now: number): void {
+    const queued = this.orders.get(orderId);
+    if (queued && queued.cancelAt === null) {
+      queued.cancelAt = now + this.latencyMs;
+    }
+  }
+
+  /**
+   * Request a cancel of every order
+   * @param now - Current time in milliseconds
+   */
+  cancelAll(now: number): void {
+    for (const id of this.orders.keys()) {
+      this.cancel(id, now);
+    }
+  }
+
+  /**
+   * Time of the next placement or cancel to reach the book (null if none pending)
+   */
+  getNextActionTime(): number | null {
+    let next: number | null = null;
+    for (const queued of this.orders.values()) {
+      for (const time of [queued.active ? null : queued.activeAt, queued.cancelAt]) {
+        if (time !== null && (next === null || time < next)) {
+          next = time;
+        }
+      }
+    }
+    return next;
+  }
+
+  /**
+   * Apply placements and cancels that have reached the book by now
+   * A post-only order that would cross the book when it arrives is rejected
+   * @param now - Current time in milliseconds
+   * @param book - Book at that time (null if unknown)
+   */
+  advance(now: number, book: Orderbook | null): FillModelEvent[] {
+    const events: FillModelEvent[] = [];
+    for (const [id, queued] of this.orders) {
+      if (queued.cancelAt !== null && queued.cancelAt <= now) {
+        this.orders.delete(id);
+        continue;
+      }
+      if (queued.active || queued.activeAt > now) {
+        continue;
+      }
+
+      const { order } = queued;
+      if (!book) {
+        this.orders.delete(id);
+        events.push({ type: "rejected", orderId: id, reason: "no orderbook" });
+      } else if (order.postOnly && wouldCross(book, order.side, order.price)) {
+        this.orders.delete(id);
+        events.push({ type: "rejected", orderId: id, reason: "post-only would cross" });
+      } else {
+        queued.active = true;
+        queued.queueAhead = levelSize(book, order.side, order.price);
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Match resting orders against a new book
+   * @param book - Updated book
+   * @param now - Current time in milliseconds
+   */
+  onBook(book: Orderbook, now: number): FillModelEvent[] {
+    const events: FillModelEvent[] = [];
+    for (const queued of this.restingOrders(now)) {
+      const { order } = queued;
+      queued.queueAhead = Math.min(queued.queueAhead, levelSize(book, order.side, order.price));
+
+      if (wouldCross(book, order.side, order.price)) {
+        const available = crossingLiquidity(book, order.side, order.price);
+        this.fill(queued, available, events);
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Match resting orders against a public trade
+   * A trade through our price fills us first; a trade at our price fills what is left after
+   * the queue ahead
+   * @param side - Aggressor side
+   * @param price - Trade price
+   * @param size - Trade size
+   * @param now - Current time in milliseconds
+   */
+  onTrade(side: Side, price: number, size: number, now: number): FillModelEvent[] {
+    const events: FillModelEvent[] = [];
+    for (const queued of this.restingOrders(now)) {
+      const { order } = queued;
+      // A sell aggressor trades against bids, a buy aggressor against asks
+      if (order.side === side) continue;
+
+      const through = order.side === "buy" ? price < order.price : price > order.price;
+      if (through) {
+        queued.queueAhead = 0;
+        this.fill(queued, size, events);
+      } else if (price === order.price) {
+        this.fill(queued, size, events);
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Fill an order from available size, after the queue ahead of it
+   */
+  private fill(queued: QueuedOrder, available: number, events: FillModelEvent[]): void {
+    const fromQueue = Math.min(queued.queueAhead, available);
+    queued.queueAhead -= fromQueue;
+
+    const size = Math.min(queued.order.remaining, available - fromQueue);
+    if (size <= 0) return;
+
+    const { order } = queued;
+    order.filled += size;
+    order.remaining -= size;
+    events.push({ type: "fill", orderId: order.id, side: order.side, price: order.price, size });
+
+    if (order.remaining <= 1e-12) {
+      this.orders.delete(order.id);
+    }
+  }
+
+  /**
+   * Orders on the book at a given time (placed and not yet canceled)
+   */
+  private restingOrders(now: number): QueuedOrder[] {
+    return [...this.orders.values()].filter(
+      (q) => q.active && (q.cancelAt === null || q.cancelAt > now)
+    );
+  }
+
+  /**
+   * Orders on the book at a given time, as the exchange would report them
+   * @param now - Current time in milliseconds
+   */
+  getOpenOrders(now: number): Order[] {
+    return this.restingOrders(now).map((q) => ({ ...q.order }));
+  }
+}
+
+/**
+ * Displayed size at a price on one side of the book
+ */
+function levelSize(book: Orderbook, side: Side, price: number): number {
+  const levels = side === "buy" ? book.bids : book.asks;
+  return levels.find(([levelPrice]) => levelPrice === price)?.[1] ?? 0;
+}
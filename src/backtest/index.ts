@@ -0,0 +1,5 @@
+// Backtesting exports
+export { Backtester } from "./engine.js";
+export type { BacktestConfig, BacktestResult, InventorySample } from "./engine.js";
+export { QueueFillModel } from "./fill-model.js";
+export type { FillModelEvent } from "./fill-model.js";
@@ -0,0 +1,385 @@
+import { readFileSync } from "node:fs";
+import { dirname, extname, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { CONFIG_SCHEMA, ConfigError, checkConfigFields } from "./config-schema.js";
+import {
+  DEFAULT_CONFIG,
+  type MarketMakerConfig,
+  loadConfigFromEnv,
+  validateConfig,
+} from "./config.js";
+
+/**
+ * Reference to a secret kept outside the config file
+ */
+export type SecretRef = { env: string } | { file: string };
+
+/**
+ * Exchange credentials, by exchange
+ * Private keys must be references; other values may also be given inline
+ */
+export interface CredentialsConfig {
+  hyperliquid?: { privateKey?: SecretRef; testnet?: boolean | SecretRef };
+  aftermath?: { privateKey?: SecretRef; baseUrl?: string | SecretRef };
+}
+
+/**
+ * Settings for one symbol
+ */
+export type SymbolConfig = Partial<MarketMakerConfig> & {
+  /** Profile applied under this symbol's own settings */
+  profile?: string;
+};
+
+/**
+ * A parsed and checked config file
+ */
+export interface ConfigFile {
+  /** Path the file was loaded from */
+  path: string;
+  /** Top-level settings, applied to every symbol */
+  settings: Partial<MarketMakerConfig>;
+  /** Profile for symbols that do not name one */
+  profile?: string;
+  /** Named sets of settings */
+  profiles: Record<string, Partial<MarketMakerConfig>>;
+  /** Symbols to quote with their own settings */
+  symbols: Record<string, SymbolConfig>;
+  credentials: CredentialsConfig;
+}
+
+/**
+ * Where a config value came from, lowest precedence first
+ */
+export type ConfigSource = "default" | "env" | "file" | "cli";
+
+/**
+ * Source of a config value, with the variable, flag or file section that set it
+ */
+export interface ConfigOrigin {
+  source: ConfigSource;
+  detail?: string;
+}
+
+/**
+ * A symbol's final config and the origin of each value
+ */
+export interface ResolvedConfig {
+  config: MarketMakerConfig;
+  origins: Record<keyof MarketMakerConfig, ConfigOrigin>;
+}
+
+/**
+ * Config layers besides the defaults
+ */
+export interface ConfigInputs {
+  /** Values from environment variables (default: loadConfigFromEnv()) */
+  env?: Partial<MarketMakerConfig>;
+  /** Per-symbol values from the environment */
+  envSymbols?: Record<string, Partial<MarketMakerConfig>>;
+  file?: ConfigFile;
+  /** Profile for every symbol, over the file's choice */
+  profile?: string;
+  /** Values from command line flags */
+  cli?: Partial<MarketMakerConfig>;
+  /** Per-symbol values from the command line */
+  cliSymbols?: Record<string, Partial<MarketMakerConfig>>;
+  /** Where the symbol list came from (default: cli) */
+  symbolOrigin?: ConfigOrigin;
+}
+
+/**
+ * Environment variables the exchange adapters read their credentials from
+ */
+const CREDENTIAL_ENV: Record<
+  keyof CredentialsConfig,
+  Record<string, { env: string; type: "string" | "boolean"; secret?: boolean }>
+> = {
+  hyperliquid: {
+    privateKey: { env: "HL_PRIVATE_KEY", type: "string", secret: true },
+    testnet: { env: "HL_TESTNET", type: "boolean" },
+  },
+  aftermath: {
+    privateKey: { env: "SUI_PRIVATE_KEY", type: "string", secret: true },
+    baseUrl: { env: "AF_BASE_URL", type: "string" },
+  },
+};
+
+const FILE_SECTIONS = ["profile", "profiles", "symbols", "credentials"] as const;
+
+/**
+ * Read and check a YAML (.yaml, .yml) or JSON (.json) config file
+ * @param path - File path
+ * @throws ConfigError listing every problem found
+ */
+export function loadConfigFile(path: string): ConfigFile {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch (error) {
+    throw new ConfigError(path, [`cannot read file: ${(error as Error).message}`]);
+  }
+
+  let raw: unknown;
+  try {
+    raw = extname(path).toLowerCase() === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new ConfigError(path, [(error as Error).message]);
+  }
+  return parseConfigFile(raw, path);
+}
+
+/**
+ * Check the content of a config file
+ * @param raw - Parsed YAML or JSON
+ * @param path - File path, for messages and relative secret files
+ * @throws ConfigError listing every problem found
+ */
+export function parseConfigFile(raw: unknown, path: string): ConfigFile {
+  if (!isObject(raw)) {
+    throw new ConfigError(path, ["expected an object at the top level"]);
+  }
+
+  const issues: string[] = [];
+  const settings = checkConfigFields(raw, "", issues, FILE_SECTIONS);
+  if (settings.symbol !== undefined) {
+    issues.push("symbol: list symbols under symbols instead");
+  }
+
+  const profiles: Record<string, Partial<MarketMakerConfig>> = {};
+  for (const [name, value] of Object.entries(checkMap(raw.profiles, "profiles", issues))) {
+    profiles[name] = checkSection(value, `profiles.${name}`, issues);
+  }
+
+  const symbols: Record<string, SymbolConfig> = {};
+  for (const [symbol, value] of Object.entries(checkMap(raw.symbols, "symbols", issues))) {
+    // An empty entry (`BTC:` in YAML) quotes the symbol with the shared settings
+    const section: SymbolConfig = checkSection(value ?? {}, `symbols.${symbol}`, issues, [
+      "profile",
+    ]);
+    const profile = (value as Record<string, unknown> | null)?.profile;
+    if (profile !== undefined) {
+      if (checkProfile(profile, `symbols.${symbol}.profile`, profiles, issues)) {
+        section.profile = profile as string;
+      }
+    }
+    symbols[symbol] = section;
+  }
+
+  const profile =
+    raw.profile === undefined || checkProfile(raw.profile, "profile", profiles, issues)
+      ? (raw.profile as string | undefined)
+      : undefined;
+  const credentials = checkCredentials(raw.credentials, issues);
+
+  if (issues.length > 0) {
+    throw new ConfigError(path, issues);
+  }
+  return { path, settings, profile, profiles, symbols, credentials };
+}
+
+/**
+ * Resolve the credential references of a config file into the environment variables the
+ * exchange adapters read
+ * @param file - Config file
+ * @param env - Environment to write to (default: process.env)
+ * @throws ConfigError if a referenced variable or file is missing
+ */
+export function applyCredentials(file: ConfigFile, env: NodeJS.ProcessEnv = process.env): void {
+  const issues: string[] = [];
+  for (const [exchange, values] of Object.entries(file.credentials)) {
+    const vars = CREDENTIAL_ENV[exchange as keyof CredentialsConfig];
+    for (const [key, value] of Object.entries(values as Record<string, unknown>)) {
+      const at = `credentials.${exchange}.${key}`;
+      if (isObject(value) && typeof value.env === "string") {
+        const resolved = env[value.env];
+        if (resolved === undefined) {
+          issues.push(`${at}: environment variable ${value.env} is not set`);
+        } else {
+          env[vars[key].env] = resolved;
+        }
+      } else if (isObject(value) && typeof value.file === "string") {
+        try {
+          const secretPath = resolve(dirname(file.path), value.file);
+          env[vars[key].env] = readFileSync(secretPath, "utf8").trim();
+        } catch (error) {
+          issues.push(`${at}: cannot read ${value.file}: ${(error as Error).message}`);
+        }
+      } else {
+        env[vars[key].env] = String(value);
+      }
+    }
+  }
+  if (issues.length > 0) {
+    throw new ConfigError(file.path, issues);
+  }
+}
+
+/**
+ * Merge the config layers of a symbol, lowest precedence first: defaults, environment,
+ * file settings, the profile, the file's symbol section, command line flags
+ * @param symbol - Symbol to resolve
+ * @param inputs - Config layers
+ * @returns The validated config with the origin of each value
+ * @throws ConfigError naming the layer that set an invalid value
+ */
+export function resolveConfig(symbol: string, inputs: ConfigInputs): ResolvedConfig {
+  const file = inputs.file;
+  const profileName = inputs.profile ?? file?.symbols[symbol]?.profile ?? file?.profile;
+  const profile = profileName === undefined ? undefined : file?.profiles[profileName];
+  if (profileName !== undefined && !profile) {
+    const defined = Object.keys(file?.profiles ?? {});
+    throw new ConfigError(file?.path ?? "--profile", [
+      `profile "${profileName}" is not defined${defined.length > 0 ? ` (defined: ${defined.join(", ")})` : ""}`,
+    ]);
+  }
+  const { profile: _, ...symbolSettings } = file?.symbols[symbol] ?? {};
+
+  const layers: [Partial<MarketMakerConfig> | undefined, ConfigSource, string | undefined][] = [
+    [DEFAULT_CONFIG, "default", undefined],
+    [inputs.env ?? loadConfigFromEnv(), "env", undefined],
+    [inputs.envSymbols?.[symbol], "env", "SYMBOL_OVERRIDES"],
+    [file?.settings, "file", file?.path],
+    [profile, "file", `${file?.path} profiles.${profileName}`],
+    [symbolSettings, "file", `${file?.path} symbols.${symbol}`],
+    [inputs.cli, "cli", undefined],
+    [inputs.cliSymbols?.[symbol], "cli", "--symbol-overrides"],
+  ];
+
+  const config: Record<string, unknown> = {};
+  const origins: Record<string, ConfigOrigin> = {};
+  for (const [values, source, detail] of layers) {
+    for (const [field, value] of Object.entries(values ?? {})) {
+      if (value === undefined) {
+        continue;
+      }
+      config[field] = value;
+      origins[field] = {
+        source,
+        // Environment values name their own variable
+        detail:
+          source === "env" && !detail
+            ? CONFIG_SCHEMA[field as keyof MarketMakerConfig].env
+            : detail,
+      };
+    }
+  }
+  config.symbol = symbol;
+  origins.symbol = inputs.symbolOrigin ?? { source: "cli" };
+
+  const resolved = {
+    config: config as unknown as MarketMakerConfig,
+    origins: origins as Record<keyof MarketMakerConfig, ConfigOrigin>,
+  };
+  try {
+    validateConfig(resolved.config);
+  } catch (error) {
+    const message = (error as Error).message;
+    // Messages start with the field they are about (e.g., "spreadBps must be positive")
+    const field = Object.keys(CONFIG_SCHEMA)
+      .filter((f) => message.startsWith(f))
+      .sort((a, b) => b.length - a.length)[0] as keyof MarketMakerConfig | undefined;
+    const origin = field && resolved.origins[field];
+    throw new ConfigError(symbol, [
+      origin ? `${message} (set by ${formatOrigin(origin)})` : message,
+    ]);
+  }
+  return resolved;
+}
+
+/**
+ * Describe a config origin (e.g., "env SPREAD_BPS" or "file mm.yaml profiles.btc-tight")
+ */
+export function formatOrigin(origin: ConfigOrigin): string {
+  return origin.detail ? `${origin.source} ${origin.detail}` : origin.source;
+}
+
+/**
+ * Check a profile or symbol section: config fields other than exchange and symbol
+ */
+function checkSection(
+  value: unknown,
+  path: string,
+  issues: string[],
+  extraFields: readonly string[] = []
+): Partial<MarketMakerConfig> {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return {};
+  }
+  const fields = checkConfigFields(value, path, issues, extraFields);
+  for (const field of ["exchange", "symbol"] as const) {
+    if (fields[field] !== undefined) {
+      issues.push(`${path}.${field}: can only be set at the top level`);
+      delete fields[field];
+    }
+  }
+  return fields;
+}
+
+function checkMap(value: unknown, path: string, issues: string[]): Record<string, unknown> {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return {};
+  }
+  return value;
+}
+
+function checkProfile(
+  value: unknown,
+  path: string,
+  profiles: Record<string, unknown>,
+  issues: string[]
+): boolean {
+  if (typeof value !== "string") {
+    issues.push(`${path}: expected a profile name`);
+    return false;
+  }
+  if (!(value in profiles)) {
+    issues.push(`${path}: profile "${value}" is not defined under profiles`);
+    return false;
+  }
+  return true;
+}
+
+function checkCredentials(value: unknown, issues: string[]): CredentialsConfig {
+  const credentials: Record<string, Record<string, unknown>> = {};
+  for (const [exchange, section] of Object.entries(checkMap(value, "credentials", issues))) {
+    const at = `credentials.${exchange}`;
+    const vars = CREDENTIAL_ENV[exchange as keyof CredentialsConfig];
+    if (!vars) {
+      issues.push(`${at}: unknown exchange (expected ${Object.keys(CREDENTIAL_ENV).join(", ")})`);
+      continue;
+    }
+    credentials[exchange] = {};
+    for (const [key, entry] of Object.entries(checkMap(section, at, issues))) {
+      const spec = vars[key];
+      if (!spec) {
+        issues.push(`${at}.${key}: unknown field (expected ${Object.keys(vars).join(", ")})`);
+      } else if (isSecretRef(entry)) {
+        credentials[exchange][key] = entry;
+      } else if (spec.secret) {
+        issues.push(`${at}.${key}: must reference the secret as { env: NAME } or { file: PATH }`);
+      } else if (spec.type === "boolean" ? typeof entry !== "boolean" : typeof entry !== "string") {
+        issues.push(`${at}.${key}: expected a ${spec.type} or { env: NAME }`);
+      } else {
+        credentials[exchange][key] = entry;
+      }
+    }
+  }
+  return credentials as CredentialsConfig;
+}
+
+function isSecretRef(value: unknown): value is SecretRef {
+  if (!isObject(value) || Object.keys(value).length !== 1) {
+    return false;
+  }
+  return typeof value.env === "string" || typeof value.file === "string";
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
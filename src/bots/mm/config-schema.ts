@@ -0,0 +1,256 @@
+import type { MarketMakerConfig } from "./config.js";
+
+/**
+ * Type of a config field
+ * quoteLevels and priceSources are arrays of objects, or spec strings in env vars and flags
+ */
+export type ConfigFieldType =
+  | { type: "number"; integer?: boolean }
+  | { type: "boolean" }
+  | { type: "string" }
+  | { type: "enum"; values: readonly string[] }
+  | { type: "quoteLevels" }
+  | { type: "priceSources" };
+
+/**
+ * Schema of a config field
+ */
+export type ConfigFieldSchema = ConfigFieldType & {
+  /** Environment variable the field is read from */
+  env: string;
+};
+
+const EXCHANGES = ["aftermath", "hyperliquid", "paper"] as const;
+const COMPOSITE_SOURCES = ["binance", "hyperliquid", "hyperps", "venue"] as const;
+
+/**
+ * Every MarketMakerConfig field with its type and environment variable
+ */
+export const CONFIG_SCHEMA: Record<keyof MarketMakerConfig, ConfigFieldSchema> = {
+  exchange: { type: "enum", values: EXCHANGES, env: "EXCHANGE" },
+  symbol: { type: "string", env: "SYMBOL" },
+  paperUnderlying: { type: "enum", values: ["aftermath", "hyperliquid"], env: "PAPER_UNDERLYING" },
+  priceSource: {
+    type: "enum",
+    values: ["binance", "hyperliquid", "hyperps", "composite"],
+    env: "PRICE_SOURCE",
+  },
+  priceSources: { type: "priceSources", env: "PRICE_SOURCES" },
+  priceAggregation: {
+    type: "enum",
+    values: ["weighted", "median", "trimmed"],
+    env: "PRICE_AGGREGATION",
+  },
+  spreadBps: { type: "number", env: "SPREAD_BPS" },
+  takeProfitBps: { type: "number", env: "TAKE_PROFIT_BPS" },
+  quoteLevels: { type: "quoteLevels", env: "QUOTE_LEVELS" },
+  maxSideNotionalUsd: { type: "number", env: "MAX_SIDE_NOTIONAL_USD" },
+  skewRiskAversion: { type: "number", env: "SKEW_RISK_AVERSION" },
+  skewVolatilityBps: { type: "number", env: "SKEW_VOLATILITY_BPS" },
+  maxSkewBps: { type: "number", env: "MAX_SKEW_BPS" },
+  priceToleranceTicks: { type: "number", integer: true, env: "PRICE_TOLERANCE_TICKS" },
+  sizeTolerance: { type: "number", env: "SIZE_TOLERANCE" },
+  orderSizeUsd: { type: "number", env: "ORDER_SIZE_USD" },
+  closeThresholdUsd: { type: "number", env: "CLOSE_THRESHOLD_USD" },
+  maxPositionUsd: { type: "number", env: "MAX_POSITION_USD" },
+  warmupSeconds: { type: "number", env: "WARMUP_SECONDS" },
+  updateThrottleMs: { type: "number", integer: true, env: "UPDATE_THROTTLE_MS" },
+  orderSyncIntervalMs: { type: "number", integer: true, env: "ORDER_SYNC_INTERVAL_MS" },
+  fairPriceWindowMs: { type: "number", integer: true, env: "FAIR_PRICE_WINDOW_MS" },
+  maxPriceAgeMs: { type: "number", integer: true, env: "MAX_PRICE_AGE_MS" },
+  minMarginRatio: { type: "number", env: "MIN_MARGIN_RATIO" },
+  maxDailyLossUsd: { type: "number", env: "MAX_DAILY_LOSS_USD" },
+  maxDrawdownUsd: { type: "number", env: "MAX_DRAWDOWN_USD" },
+  flattenOnHalt: { type: "boolean", env: "FLATTEN_ON_HALT" },
+  flattenMaxSlippageBps: { type: "number", env: "FLATTEN_MAX_SLIPPAGE_BPS" },
+  flattenTimeoutMs: { type: "number", integer: true, env: "FLATTEN_TIMEOUT_MS" },
+  journalDir: { type: "string", env: "JOURNAL_DIR" },
+};
+
+/**
+ * Invalid configuration, with one entry per problem found
+ */
+export class ConfigError extends Error {
+  /**
+   * @param source - Config the issues are in (e.g., a file path, "environment" or a symbol)
+   * @param issues - Problems found, each prefixed with the field it concerns
+   */
+  constructor(
+    readonly source: string,
+    readonly issues: string[]
+  ) {
+    super(
+      issues.length === 1
+        ? `Invalid config (${source}): ${issues[0]}`
+        : `Invalid config (${source}):\n  ${issues.join("\n  ")}`
+    );
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Check a parsed config file object against the schema
+ * @param value - Object holding MarketMakerConfig fields (and possibly others)
+ * @param path - Location of the object in the file, for messages (e.g., "profiles.btc-tight")
+ * @param issues - Problems found are appended here
+ * @param extraFields - Other fields allowed in the object, left to the caller
+ * @returns The config fields in the object
+ */
+export function checkConfigFields(
+  value: Record<string, unknown>,
+  path: string,
+  issues: string[],
+  extraFields: readonly string[] = []
+): Partial<MarketMakerConfig> {
+  const fields: Record<string, unknown> = {};
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const at = path ? `${path}.${key}` : key;
+    if (extraFields.includes(key)) {
+      continue;
+    }
+    if (!(key in CONFIG_SCHEMA)) {
+      const suggestion = suggestField(key);
+      issues.push(`${at}: unknown field${suggestion ? ` (did you mean ${suggestion}?)` : ""}`);
+      continue;
+    }
+    const issue = checkFieldValue(CONFIG_SCHEMA[key as keyof MarketMakerConfig], fieldValue);
+    if (issue) {
+      issues.push(`${at}${issue}`);
+    } else {
+      fields[key] = fieldValue;
+    }
+  }
+  return fields as Partial<MarketMakerConfig>;
+}
+
+/**
+ * Check one value against its field type
+ * @returns What is wrong with it, starting with the path below the value
+ *   (e.g., ": expected a number" or "[1].spreadBps: missing"), or null
+ */
+function checkFieldValue(schema: ConfigFieldType, value: unknown): string | null {
+  switch (schema.type) {
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return `: expected a number, got ${describe(value)}`;
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        return `: expected an integer, got ${value}`;
+      }
+      return null;
+    case "boolean":
+      return typeof value === "boolean" ? null : `: expected true or false, got ${describe(value)}`;
+    case "string":
+      return typeof value === "string" ? null : `: expected a string, got ${describe(value)}`;
+    case "enum":
+      return schema.values.includes(value as string)
+        ? null
+        : `: expected one of ${schema.values.join(", ")}, got ${describe(value)}`;
+    case "quoteLevels":
+      return checkArray(value, (level) =>
+        checkObject(level, { spreadBps: "number", sizeMultiplier: "number" }, [
+          "spreadBps",
+          "sizeMultiplier",
+        ])
+      );
+    case "priceSources":
+      return checkArray(value, (source) => {
+        const issue = checkObject(
+          source,
+          { source: "string", weight: "number", staleMs: "number" },
+          ["source", "weight"]
+        );
+        const name = (source as { source?: unknown }).source;
+        if (!issue && !(COMPOSITE_SOURCES as readonly unknown[]).includes(name)) {
+          return `.source: expected one of ${COMPOSITE_SOURCES.join(", ")}, got ${describe(name)}`;
+        }
+        return issue;
+      });
+  }
+}
+
+function checkArray(value: unknown, checkItem: (item: unknown) => string | null): string | null {
+  if (!Array.isArray(value)) {
+    return `: expected a list, got ${describe(value)}`;
+  }
+  for (const [index, item] of value.entries()) {
+    const issue = checkItem(item);
+    if (issue) {
+      return `[${index}]${issue}`;
+    }
+  }
+  return null;
+}
+
+function checkObject(
+  value: unknown,
+  types: Record<string, "number" | "string">,
+  required: string[]
+): string | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return `: expected an object, got ${describe(value)}`;
+  }
+  for (const key of required) {
+    if (!(key in value)) {
+      return `.${key}: missing`;
+    }
+  }
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const type = types[key];
+    if (!type) {
+      return `.${key}: unknown field`;
+    }
+    if (type === "number" && (typeof fieldValue !== "number" || !Number.isFinite(fieldValue))) {
+      return `.${key}: expected a number, got ${describe(fieldValue)}`;
+    }
+    if (type === "string" && typeof fieldValue !== "string") {
+      return `.${key}: expected a string, got ${describe(fieldValue)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the field a misspelled name most likely means (e.g., spread_bps or spreadBp -> spreadBps)
+ */
+export function suggestField(name: string): string | null {
+  const normalize = (text: string) => text.replace(/[_-]/g, "").toLowerCase();
+  const target = normalize(name);
+  let best: string | null = null;
+  let bestDistance = 3;
+  for (const [field, schema] of Object.entries(CONFIG_SCHEMA)) {
+    const distance = Math.min(
+      editDistance(target, normalize(field)),
+      editDistance(target, normalize(schema.env))
+    );
+    if (distance < bestDistance) {
+      best = field;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function describe(value: unknown): string {
+  if (value === null || value === undefined) {
+    return String(value);
+  }
+  return Array.isArray(value)
+    ? "a list"
+    : typeof value === "object"
+      ? "an object"
+      : JSON.stringify(value);
+}
@@ -1,6 +1,22 @@
 import type { ExchangeName } from "../../exchanges/index.js";
+import {
+    type CompositeSourceConfig,
+    type PriceAggregation,
+    parseCompositeSources,
+} from "../../pricing/composite.js";
 import type { PriceSource } from "../../pricing/fair-price.js";
 import { logger } from "../../utils/logger.js";
+import { CONFIG_SCHEMA, ConfigError } from "./config-schema.js";
+
+/**
+ * A single level of the quote ladder
+ */
+export interface QuoteLevelConfig {
+    /** Distance from fair price in basis points */
+    spreadBps: number;
+    /** Order size as a multiple of orderSizeUsd */
+    sizeMultiplier: number;
+}
 
 /**
  * Market maker configuration
@@ -9,10 +25,16 @@ export interface MarketMakerConfig {
     // Exchange settings
     exchange: ExchangeName;
     symbol: string;
+    /** Exchange providing market data when trading on the paper exchange */
+    paperUnderlying?: ExchangeName;
 
     // Price source
-    /** Price oracle source ("binance" or "hyperliquid") */
+    /** Price oracle source ("binance", "hyperliquid", "hyperps" or "composite") */
     priceSource: PriceSource;
+    /** Weighted sources when priceSource is "composite" (default: []) */
+    priceSources: CompositeSourceConfig[];
+    /** How composite sources are combined (default: "weighted") */
+    priceAggregation: PriceAggregation;
 
     // Spread settings
     /** Spread in basis points from fair price (default: 10 = 0.1%) */
@@ -20,6 +42,26 @@ export interface MarketMakerConfig {
     /** Tighter spread in close mode (default: 5 = 0.05%) */
     takeProfitBps: number;
 
+    // Quote ladder
+    /** Levels quoted per side, nearest first (default: [] = one level at spreadBps) */
+    quoteLevels: QuoteLevelConfig[];
+    /** Maximum total notional quoted per side in USD (default: 0 = no cap) */
+    maxSideNotionalUsd: number;
+
+    // Inventory skew
+    /** Risk aversion (gamma) for inventory skew (default: 0 = disabled) */
+    skewRiskAversion: number;
+    /** Price volatility over the quoting horizon in bps (default: 10) */
+    skewVolatilityBps: number;
+    /** Maximum reservation price offset in bps (default: 50) */
+    maxSkewBps: number;
+
+    // Order reconciliation
+    /** Keep a resting order if its price is within this many ticks of the quote (default: 1) */
+    priceToleranceTicks: number;
+    /** Keep a resting order if its size is within this fraction of the quote (default: 0.1) */
+    sizeTolerance: number;
+
     // Position limits
     /** Order size in USD (default: 100) */
     orderSizeUsd: number;
@@ -37,12 +79,28 @@ export interface MarketMakerConfig {
     orderSyncIntervalMs: number;
 
     // Fair price
-    /** Fair price EMA window in ms (default: 300000 = 5 min) */
+    /** Fair price EMA time constant in ms, independent of feed cadence (default: 300000 = 5 min) */
     fairPriceWindowMs: number;
+    /** Pull quotes when the last price update is older than this in ms (default: 10000, 0 = off) */
+    maxPriceAgeMs: number;
 
     // Risk
     /** Minimum margin ratio before pausing (default: 0.1 = 10%) */
     minMarginRatio: number;
+    /** Halt when PnL for the UTC day falls this far below zero in USD (default: 0 = off) */
+    maxDailyLossUsd: number;
+    /** Halt when run PnL falls this far below its peak in USD (default: 0 = off) */
+    maxDrawdownUsd: number;
+    /** Close the position with reduce-only orders when halting (default: false) */
+    flattenOnHalt: boolean;
+    /** Furthest a flatten limit order goes from the fair price in bps (default: 50) */
+    flattenMaxSlippageBps: number;
+    /** Send what a flatten left open as a market order after this long in ms (default: 30000) */
+    flattenTimeoutMs: number;
+
+    // Journal
+    /** Directory for the order/fill journal (default: "" = disabled) */
+    journalDir: string;
 }
 
 /**
@@ -51,11 +109,26 @@ export interface MarketMakerConfig {
 export const DEFAULT_CONFIG: Omit<MarketMakerConfig, "exchange" | "symbol"> = {
     // Price source
     priceSource: "binance",
+    priceSources: [],
+    priceAggregation: "weighted",
 
     // Spread
     spreadBps: 10,
     takeProfitBps: 5,
 
+    // Quote ladder
+    quoteLevels: [],
+    maxSideNotionalUsd: 0,
+
+    // Inventory skew
+    skewRiskAversion: 0,
+    skewVolatilityBps: 10,
+    maxSkewBps: 50,
+
+    // Order reconciliation
+    priceToleranceTicks: 1,
+    sizeTolerance: 0.1,
+
     // Position limits
     orderSizeUsd: 100,
     closeThresholdUsd: 500,
@@ -68,71 +141,118 @@ export const DEFAULT_CONFIG: Omit<MarketMakerConfig, "exchange" | "symbol"> = {
 
     // Fair price
     fairPriceWindowMs: 5 * 60 * 1000,
+    maxPriceAgeMs: 10000,
 
     // Risk
     minMarginRatio: 0.1,
+    maxDailyLossUsd: 0,
+    maxDrawdownUsd: 0,
+    flattenOnHalt: false,
+    flattenMaxSlippageBps: 50,
+    flattenTimeoutMs: 30000,
+
+    // Journal
+    journalDir: "",
 };
 
 /**
- * Load configuration from environment variables
+ * Parse a quote ladder specification
+ * @param spec - Comma-separated spreadBps:sizeMultiplier pairs (e.g., "10:1,20:1.5,40:2").
+ *   The multiplier may be omitted and defaults to 1.
  */
-export function loadConfigFromEnv(): Partial<MarketMakerConfig> {
-    const config: Partial<MarketMakerConfig> = {};
-
-    // Exchange settings
-    if (process.env.EXCHANGE) {
-        config.exchange = process.env.EXCHANGE as ExchangeName;
-    }
-    if (process.env.SYMBOL) {
-        config.symbol = process.env.SYMBOL;
-    }
-
-    // Price source
-    if (process.env.PRICE_SOURCE) {
-        config.priceSource = process.env.PRICE_SOURCE as PriceSource;
-    }
-
-    // Spread settings
-    if (process.env.SPREAD_BPS) {
-        config.spreadBps = Number.parseInt(process.env.SPREAD_BPS, 10);
-    }
-    if (process.env.TAKE_PROFIT_BPS) {
-        config.takeProfitBps = Number.parseInt(process.env.TAKE_PROFIT_BPS, 10);
-    }
+export function parseQuoteLevels(spec: string): QuoteLevelConfig[] {
+    return spec
+        .split(",")
+        .map((part) => part.trim())
+        .filter((part) => part.length > 0)
+        .map((part) => {
+            const [spread, multiplier] = part.split(":");
+            const level = {
+                spreadBps: Number.parseFloat(spread),
+                sizeMultiplier: multiplier === undefined ? 1 : Number.parseFloat(multiplier),
+            };
+            if (Number.isNaN(level.spreadBps) || Number.isNaN(level.sizeMultiplier)) {
+                throw new Error(`Invalid quote level "${part}", expected spreadBps:sizeMultiplier`);
+            }
+            return level;
+        });
+}
 
-    // Position limits
-    if (process.env.ORDER_SIZE_USD) {
-        config.orderSizeUsd = Number.parseFloat(process.env.ORDER_SIZE_USD);
-    }
-    if (process.env.CLOSE_THRESHOLD_USD) {
-        config.closeThresholdUsd = Number.parseFloat(process.env.CLOSE_THRESHOLD_USD);
-    }
-    if (process.env.MAX_POSITION_USD) {
-        config.maxPositionUsd = Number.parseFloat(process.env.MAX_POSITION_USD);
+/**
+ * Parse a config field from a string (an environment variable or a CLI flag)
+ * @param field - Config field
+ * @param raw - String value
+ * @returns The value with the field's type
+ */
+export function parseConfigString<K extends keyof MarketMakerConfig>(
+    field: K,
+    raw: string
+): MarketMakerConfig[K] {
+    const schema = CONFIG_SCHEMA[field];
+    const text = raw.trim();
+    let value: unknown;
+    switch (schema.type) {
+        case "number":
+            value = Number(text);
+            if (text === "" || !Number.isFinite(value)) {
+                throw new Error(`expected a number, got "${raw}"`);
+            }
+            if (schema.integer && !Number.isInteger(value)) {
+                throw new Error(`expected an integer, got "${raw}"`);
+            }
+            break;
+        case "boolean":
+            if (text !== "true" && text !== "false") {
+                throw new Error(`expected true or false, got "${raw}"`);
+            }
+            value = text === "true";
+            break;
+        case "enum":
+            value = text.toLowerCase();
+            if (!schema.values.includes(value as string)) {
+                throw new Error(`expected one of ${schema.values.join(", ")}, got "${raw}"`);
+            }
+            break;
+        case "quoteLevels":
+            value = parseQuoteLevels(text);
+            break;
+        case "priceSources":
+            value = parseCompositeSources(text);
+            break;
+        case "string":
+            value = raw;
+            break;
     }
+    return value as MarketMakerConfig[K];
+}
 
-    // Timing
-    if (process.env.WARMUP_SECONDS) {
-        config.warmupSeconds = Number.parseInt(process.env.WARMUP_SECONDS, 10);
-    }
-    if (process.env.UPDATE_THROTTLE_MS) {
-        config.updateThrottleMs = Number.parseInt(process.env.UPDATE_THROTTLE_MS, 10);
-    }
-    if (process.env.ORDER_SYNC_INTERVAL_MS) {
-        config.orderSyncIntervalMs = Number.parseInt(process.env.ORDER_SYNC_INTERVAL_MS, 10);
-    }
+/**
+ * Load configuration from environment variables (see CONFIG_SCHEMA for the names)
+ * @param env - Environment to read (default: process.env)
+ * @throws ConfigError listing every variable that does not parse
+ */
+export function loadConfigFromEnv(
+    env: NodeJS.ProcessEnv = process.env
+): Partial<MarketMakerConfig> {
+    const config: Record<string, unknown> = {};
+    const issues: string[] = [];
 
-    // Fair price
-    if (process.env.FAIR_PRICE_WINDOW_MS) {
-        config.fairPriceWindowMs = Number.parseInt(process.env.FAIR_PRICE_WINDOW_MS, 10);
+    for (const [field, schema] of Object.entries(CONFIG_SCHEMA)) {
+        const raw = env[schema.env];
+        if (!raw) {
+            continue;
+        }
+        try {
+            config[field] = parseConfigString(field as keyof MarketMakerConfig, raw);
+        } catch (error) {
+            issues.push(`${schema.env}: ${(error as Error).message}`);
+        }
     }
 
-    // Risk
-    if (process.env.MIN_MARGIN_RATIO) {
-        config.minMarginRatio = Number.parseFloat(process.env.MIN_MARGIN_RATIO);
+    if (issues.length > 0) {
+        throw new ConfigError("environment", issues);
     }
-
-    return config;
+    return config as Partial<MarketMakerConfig>;
 }
 
 /**
@@ -147,9 +267,9 @@ export function mergeConfig(
 
     const config: MarketMakerConfig = {
         ...DEFAULT_CONFIG,
+        ...envConfig,
         exchange,
         symbol,
-        ...envConfig,
         ...overrides,
     };
 
@@ -170,6 +290,17 @@ export function validateConfig(config: MarketMakerConfig): void {
     if (config.spreadBps <= 0) {
         throw new Error("spreadBps must be positive");
     }
+    if (config.priceSource === "composite") {
+        if (config.priceSources.length === 0) {
+            throw new Error("priceSources is required when priceSource is composite");
+        }
+        if (config.priceSources.some((s) => s.weight <= 0)) {
+            throw new Error("priceSources weights must be positive");
+        }
+        if (!["weighted", "median", "trimmed"].includes(config.priceAggregation)) {
+            throw new Error("priceAggregation must be weighted, median or trimmed");
+        }
+    }
     if (config.orderSizeUsd <= 0) {
         throw new Error("orderSizeUsd must be positive");
     }
@@ -179,4 +310,140 @@ export function validateConfig(config: MarketMakerConfig): void {
     if (config.maxPositionUsd <= config.closeThresholdUsd) {
         throw new Error("maxPositionUsd must be greater than closeThresholdUsd");
     }
+    for (const [index, level] of config.quoteLevels.entries()) {
+        if (level.spreadBps <= 0) {
+            throw new Error(`quoteLevels[${index}].spreadBps must be positive`);
+        }
+        if (level.sizeMultiplier <= 0) {
+            throw new Error(`quoteLevels[${index}].sizeMultiplier must be positive`);
+        }
+        if (index > 0 && level.spreadBps <= config.quoteLevels[index - 1].spreadBps) {
+            throw new Error("quoteLevels must be sorted by increasing spreadBps");
+        }
+    }
+    if (config.maxSideNotionalUsd < 0) {
+        throw new Error("maxSideNotionalUsd must not be negative");
+    }
+    if (config.skewRiskAversion < 0) {
+        throw new Error("skewRiskAversion must not be negative");
+    }
+    if (config.skewVolatilityBps <= 0) {
+        throw new Error("skewVolatilityBps must be positive");
+    }
+    if (config.maxSkewBps < 0) {
+        throw new Error("maxSkewBps must not be negative");
+    }
+    if (config.maxPriceAgeMs < 0) {
+        throw new Error("maxPriceAgeMs must not be negative");
+    }
+    if (config.priceToleranceTicks < 0) {
+        throw new Error("priceToleranceTicks must not be negative");
+    }
+    if (config.sizeTolerance < 0 || config.sizeTolerance >= 1) {
+        throw new Error("sizeTolerance must be between 0 and 1");
+    }
+    if (config.maxDailyLossUsd < 0) {
+        throw new Error("maxDailyLossUsd must not be negative");
+    }
+    if (config.maxDrawdownUsd < 0) {
+        throw new Error("maxDrawdownUsd must not be negative");
+    }
+    if (config.flattenMaxSlippageBps <= 0) {
+        throw new Error("flattenMaxSlippageBps must be positive");
+    }
+    if (config.flattenTimeoutMs < 0) {
+        throw new Error("flattenTimeoutMs must not be negative");
+    }
+}
+
+/**
+ * Config fields that can be changed while the bot is running
+ * Everything else (exchange, symbol, price source, timers) is fixed at start
+ */
+export const LIVE_TUNABLE_FIELDS = [
+    "spreadBps",
+    "takeProfitBps",
+    "quoteLevels",
+    "maxSideNotionalUsd",
+    "skewRiskAversion",
+    "skewVolatilityBps",
+    "maxSkewBps",
+    "priceToleranceTicks",
+    "sizeTolerance",
+    "orderSizeUsd",
+    "closeThresholdUsd",
+    "maxPositionUsd",
+    "maxPriceAgeMs",
+    "minMarginRatio",
+    "maxDailyLossUsd",
+    "maxDrawdownUsd",
+    "flattenMaxSlippageBps",
+    "flattenTimeoutMs",
+] as const satisfies readonly (keyof MarketMakerConfig)[];
+
+export type LiveTunableField = (typeof LIVE_TUNABLE_FIELDS)[number];
+
+/**
+ * A single changed config field
+ */
+export interface ConfigChange {
+    field: keyof MarketMakerConfig;
+    from: unknown;
+    to: unknown;
+}
+
+/**
+ * Apply an update of live-tunable fields to a config without modifying it
+ * @param config - Current configuration
+ * @param update - New field values (e.g., parsed from a JSON request body)
+ * @returns The validated updated configuration
+ */
+export function resolveConfigUpdate(
+    config: MarketMakerConfig,
+    update: Record<string, unknown>
+): MarketMakerConfig {
+    for (const [field, value] of Object.entries(update)) {
+        if (!(LIVE_TUNABLE_FIELDS as readonly string[]).includes(field)) {
+            throw new Error(`${field} cannot be changed while running`);
+        }
+        if (field === "quoteLevels") {
+            if (
+                !Array.isArray(value) ||
+                value.some(
+                    (l) => typeof l?.spreadBps !== "number" || typeof l?.sizeMultiplier !== "number"
+                )
+            ) {
+                throw new Error("quoteLevels must be an array of { spreadBps, sizeMultiplier }");
+            }
+        } else if (typeof value !== "number" || !Number.isFinite(value)) {
+            throw new Error(`${field} must be a number`);
+        }
+    }
+
+    const next = { ...config, ...update } as MarketMakerConfig;
+    validateConfig(next);
+    return next;
+}
+
+/**
+ * List the fields that differ between two configurations
+ */
+export function diffConfig(before: MarketMakerConfig, after: MarketMakerConfig): ConfigChange[] {
+    const changes: ConfigChange[] = [];
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const field of fields as Set<keyof MarketMakerConfig>) {
+        if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+            changes.push({ field, from: before[field], to: after[field] });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Describe config changes for logs (e.g., "spreadBps 10 -> 15, orderSizeUsd 100 -> 50")
+ */
+export function formatConfigChanges(changes: ConfigChange[]): string {
+    return changes
+        .map((c) => `${c.field} ${JSON.stringify(c.from)} -> ${JSON.stringify(c.to)}`)
+        .join(", ");
 }
@@ -0,0 +1,217 @@
+import type { IExchange } from "../../exchanges/types.js";
+import type { Market, OrderRequest, OrderResult, Orderbook } from "../../types.js";
+import { type Scheduler, systemScheduler } from "../../utils/clock.js";
+import { logger } from "../../utils/logger.js";
+
+/**
+ * Settings of a flatten run
+ */
+export interface FlattenOptions {
+  /** Symbol whose position to close (e.g., "BTC") */
+  symbol: string;
+  /** How far each step moves the order towards and through the touch, in bps (default: 5) */
+  stepBps?: number;
+  /** How long each order rests before the next step in ms (default: 2000) */
+  stepIntervalMs?: number;
+  /** Furthest a limit order goes from the fair price, in bps (default: 50) */
+  maxSlippageBps?: number;
+  /** Stop stepping limit orders after this long in ms (default: 30000) */
+  timeoutMs?: number;
+  /**
+   * Price protection of the final reduce-only market order for what is left, in bps from the
+   * fair price (default: 200, 0 = no market order)
+   */
+  fallbackSlippageBps?: number;
+  /** Fair price to measure slippage against (default: the book mid) */
+  getFairPrice?: () => number | null;
+  /** Latest orderbook of the symbol (default: none; steps start at the fair price) */
+  getOrderbook?: () => Orderbook | null;
+  /** Called for every order sent */
+  onOrder?: (result: OrderResult, order: OrderRequest) => void;
+  /** Clock and timers (default: system) */
+  scheduler?: Scheduler;
+}
+
+/**
+ * Outcome of a flatten run
+ */
+export interface FlattenResult {
+  /** Position size before flattening (0 if there was none) */
+  startSize: number;
+  /** Position size left afterwards */
+  remainingSize: number;
+  /** Limit orders sent */
+  steps: number;
+  /** Whether the market order fallback was sent */
+  usedFallback: boolean;
+}
+
+const DEFAULT_STEP_BPS = 5;
+const DEFAULT_STEP_INTERVAL_MS = 2000;
+const DEFAULT_MAX_SLIPPAGE_BPS = 50;
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_FALLBACK_SLIPPAGE_BPS = 200;
+
+/**
+ * Close a position with reduce-only orders
+ * Starts with a limit order at our side of the spread and moves it towards and through the
+ * far touch every step, never further than maxSlippageBps from the fair price. Each step
+ * cancels the previous order and re-reads the position, so partial fills shrink the next
+ * order. What is left at the timeout is sent as a reduce-only market (IOC) order.
+ * @param exchange - Connected exchange
+ * @param options - Symbol, pacing and price limits
+ * @returns Position size before and after
+ */
+export async function flattenPosition(
+  exchange: IExchange,
+  options: FlattenOptions
+): Promise<FlattenResult> {
+  const scheduler = options.scheduler ?? systemScheduler;
+  const stepBps = options.stepBps ?? DEFAULT_STEP_BPS;
+  const stepIntervalMs = options.stepIntervalMs ?? DEFAULT_STEP_INTERVAL_MS;
+  const maxSlippageBps = options.maxSlippageBps ?? DEFAULT_MAX_SLIPPAGE_BPS;
+  const fallbackSlippageBps = options.fallbackSlippageBps ?? DEFAULT_FALLBACK_SLIPPAGE_BPS;
+  const deadline = scheduler.now() + (options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  const markets = await exchange.getMarkets();
+  const market = markets.find(
+    (m) => m.base.toLowerCase() === options.symbol.toLowerCase() || m.symbol === options.symbol
+  );
+  if (!market) {
+    throw new Error(`Market not found for symbol: ${options.symbol}`);
+  }
+
+  const startSize = await getPositionSize(exchange, market);
+  const result: FlattenResult = {
+    startSize: Math.abs(startSize),
+    remainingSize: Math.abs(startSize),
+    steps: 0,
+    usedFallback: false,
+  };
+  if (startSize === 0) {
+    logger.info(`Flatten ${options.symbol}: no position`);
+    return result;
+  }
+
+  const side = startSize > 0 ? "sell" : "buy";
+  // Sells step down, buys step up
+  const direction = side === "sell" ? -1 : 1;
+  const send = async (order: OrderRequest): Promise<OrderResult> => {
+    const placed = await exchange.placeOrder(order);
+    options.onOrder?.(placed, order);
+    return placed;
+  };
+  const fairPrice = (): number => {
+    const book = options.getOrderbook?.();
+    const mid = book?.bids[0] && book.asks[0] ? (book.bids[0][0] + book.asks[0][0]) / 2 : undefined;
+    const price = options.getFairPrice?.() || mid;
+    if (!price) {
+      throw new Error("No fair price or orderbook to flatten against");
+    }
+    return price;
+  };
+
+  while (result.remainingSize > 0 && scheduler.now() < deadline) {
+    const fair = fairPrice();
+    const book = options.getOrderbook?.();
+    const start = (side === "sell" ? book?.asks[0]?.[0] : book?.bids[0]?.[0]) ?? fair;
+    const bound = fair * (1 + (direction * maxSlippageBps) / 10000);
+    const stepped = start + (direction * result.steps * fair * stepBps) / 10000;
+    const price = roundToTick(
+      side === "sell" ? Math.max(stepped, bound) : Math.min(stepped, bound),
+      market.tickSize,
+      side === "sell" ? "up" : "down"
+    );
+
+    logger.info(`Flatten ${options.symbol}: ${side} ${result.remainingSize} @ ${price}`);
+    const placed = await send({
+      symbol: options.symbol,
+      side,
+      type: "limit",
+      price,
+      size: result.remainingSize,
+      reduceOnly: true,
+    });
+    result.steps++;
+
+    if (placed.status === "open") {
+      await sleep(scheduler, Math.min(stepIntervalMs, deadline - scheduler.now()));
+      try {
+        await exchange.cancelOrder(placed.orderId, options.symbol);
+      } catch (error) {
+        // Most likely filled in the meantime; the position tells
+        logger.debug(`Flatten ${options.symbol}: cancel of ${placed.orderId} failed`, error);
+      }
+    }
+    result.remainingSize = roundSize(
+      Math.abs(await getPositionSize(exchange, market)),
+      market.sizePrecision
+    );
+  }
+
+  if (result.remainingSize > 0 && fallbackSlippageBps > 0) {
+    const price = roundToTick(
+      fairPrice() * (1 + (direction * fallbackSlippageBps) / 10000),
+      market.tickSize,
+      side === "sell" ? "up" : "down"
+    );
+    logger.warn(
+      `Flatten ${options.symbol}: ${result.remainingSize} left after ${result.steps} steps, sending a market order`
+    );
+    await send({
+      symbol: options.symbol,
+      side,
+      type: "market",
+      price,
+      size: result.remainingSize,
+      reduceOnly: true,
+    });
+    result.usedFallback = true;
+    result.remainingSize = roundSize(
+      Math.abs(await getPositionSize(exchange, market)),
+      market.sizePrecision
+    );
+  }
+
+  if (result.remainingSize > 0) {
+    logger.error(`Flatten ${options.symbol}: ${result.remainingSize} still open`);
+  } else {
+    logger.info(`Flatten ${options.symbol}: closed ${result.startSize}`);
+  }
+  return result;
+}
+
+/**
+ * Signed position size in a market (positive when long)
+ */
+async function getPositionSize(exchange: IExchange, market: Market): Promise<number> {
+  const positions = await exchange.getPositions();
+  const position = positions.find((p) => isMarketSymbol(p.symbol, market));
+  if (!position || position.side === "none") {
+    return 0;
+  }
+  const size = roundSize(Math.abs(position.size), market.sizePrecision);
+  return position.side === "long" ? size : -size;
+}
+
+function isMarketSymbol(symbol: string, market: Market): boolean {
+  return (
+    symbol === market.symbol || symbol.split("/")[0].toUpperCase() === market.base.toUpperCase()
+  );
+}
+
+function roundToTick(price: number, tickSize: number, direction: "up" | "down"): number {
+  // Allow for division error, so a price already on a tick stays there
+  const ticks =
+    direction === "up" ? Math.ceil(price / tickSize - 1e-9) : Math.floor(price / tickSize + 1e-9);
+  // Trim floating-point artifacts (e.g., 99.60000000000001)
+  return Number((ticks * tickSize).toPrecision(12));
+}
+
+function roundSize(size: number, precision: number): number {
+  return Number(size.toFixed(precision));
+}
+
+function sleep(scheduler: Scheduler, ms: number): Promise<void> {
+  return new Promise((resolve) => scheduler.setTimeout(resolve, Math.max(0, ms)));
+}
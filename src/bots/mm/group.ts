@@ -0,0 +1,236 @@
+import { type ExchangeName, createExchange } from "../../exchanges/index.js";
+import type { IExchange } from "../../exchanges/types.js";
+import { createRunId } from "../../journal/index.js";
+import { type Scheduler, type TimerHandle, systemScheduler } from "../../utils/clock.js";
+import { logger } from "../../utils/logger.js";
+import type { MarketMakerConfig } from "./config.js";
+import { MarketMaker, MarketMakerStateError, type MarketMakerStatus } from "./index.js";
+import { RiskGuard, type RiskLimits } from "./risk.js";
+
+/**
+ * Margin check interval shared by all engines (matches MarketMaker's own check)
+ */
+const MARGIN_CHECK_INTERVAL_MS = 10000;
+
+/**
+ * Options for a market maker group
+ */
+export interface MarketMakerGroupOptions {
+  /** Exchange to share; when given, the caller owns its connection (default: created) */
+  exchange?: IExchange;
+  /** Clock and timers for the group and its engines (default: system) */
+  scheduler?: Scheduler;
+}
+
+/**
+ * Several market makers on one exchange connection and one account
+ * Each symbol gets its own engine (quoter, position manager, config); the group owns the
+ * exchange connection and a single account check that pauses and resumes every engine on
+ * margin. Loss limits apply once to the account: the engines share one risk guard, checked
+ * against the tightest limit any engine is configured with, and a breach halts every engine
+ * until the group is resumed.
+ */
+export class MarketMakerGroup {
+  private exchange: IExchange;
+  private ownsExchange: boolean;
+  private engines = new Map<string, MarketMaker>();
+  private marginCheckInterval: TimerHandle | null = null;
+  private scheduler: Scheduler;
+  private riskGuard: RiskGuard;
+
+  /**
+   * Create a market maker group
+   * @param exchangeName - Exchange to trade on
+   * @param symbols - Symbols to quote (e.g., ["BTC", "ETH"])
+   * @param overrides - Config overrides applied to every symbol
+   * @param symbolOverrides - Per-symbol config overrides, applied on top of overrides
+   * @param options - Group options
+   */
+  constructor(
+    exchangeName: ExchangeName,
+    symbols: string[],
+    overrides: Partial<MarketMakerConfig> = {},
+    symbolOverrides: Record<string, Partial<MarketMakerConfig>> = {},
+    options: MarketMakerGroupOptions = {}
+  ) {
+    const unique = [...new Set(symbols)];
+    if (unique.length === 0) {
+      throw new Error("Market maker group needs at least one symbol");
+    }
+    for (const symbol of Object.keys(symbolOverrides)) {
+      if (!unique.includes(symbol)) {
+        throw new Error(`Overrides given for ${symbol}, which is not in the symbol list`);
+      }
+    }
+
+    this.scheduler = options.scheduler ?? systemScheduler;
+    this.ownsExchange = !options.exchange;
+    this.exchange =
+      options.exchange ??
+      createExchange(exchangeName, {
+        paperUnderlying: overrides.paperUnderlying,
+        scheduler: this.scheduler,
+      });
+
+    // Limits are read from the engines on every check, so config changes apply
+    const engines = this.engines;
+    const limits: RiskLimits = {
+      get maxDailyLossUsd() {
+        return tightestLimit(engines, "maxDailyLossUsd");
+      },
+      get maxDrawdownUsd() {
+        return tightestLimit(engines, "maxDrawdownUsd");
+      },
+    };
+    this.riskGuard = new RiskGuard(limits);
+
+    // One run id across engines so the journal ties their records together
+    const runId = createRunId();
+    for (const symbol of unique) {
+      const engine = new MarketMaker(
+        exchangeName,
+        symbol,
+        { ...overrides, ...symbolOverrides[symbol] },
+        {
+          exchange: this.exchange,
+          monitorMargin: false,
+          runId,
+          scheduler: this.scheduler,
+          riskGuard: this.riskGuard,
+        }
+      );
+      this.engines.set(symbol, engine);
+    }
+  }
+
+  /**
+   * Connect the exchange and start every engine
+   * Engines that fail to start are logged and left stopped; throws only if none start
+   */
+  async start(): Promise<void> {
+    if (this.ownsExchange) {
+      await this.exchange.connect();
+    }
+
+    const symbols = [...this.engines.keys()];
+    const results = await Promise.allSettled([...this.engines.values()].map((e) => e.start()));
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        logger.error(`Failed to start market maker for ${symbols[index]}:`, result.reason);
+      }
+    });
+
+    if (results.every((r) => r.status === "rejected")) {
+      if (this.ownsExchange) {
+        await this.exchange.disconnect();
+      }
+      throw new Error("No market maker in the group could start");
+    }
+
+    this.marginCheckInterval = this.scheduler.setInterval(() => {
+      this.checkMarginRatio();
+    }, MARGIN_CHECK_INTERVAL_MS);
+    await this.checkMarginRatio();
+
+    logger.info(`Market maker group started: ${symbols.join(", ")}`);
+  }
+
+  /**
+   * Stop every engine and disconnect the exchange
+   * @param options - flatten: close each engine's position after canceling its orders
+   */
+  async stop(options: { flatten?: boolean } = {}): Promise<void> {
+    if (this.marginCheckInterval) {
+      this.scheduler.clearTimer(this.marginCheckInterval);
+      this.marginCheckInterval = null;
+    }
+
+    await Promise.allSettled([...this.engines.values()].map((e) => e.stop(options)));
+
+    if (this.ownsExchange) {
+      try {
+        await this.exchange.disconnect();
+      } catch (error) {
+        logger.error("Error disconnecting exchange:", error);
+      }
+    }
+
+    logger.info("Market maker group stopped");
+  }
+
+  /**
+   * Resume every paused or halted engine
+   * A halt resets the shared loss limits once, so they count from the current PnL for all
+   * engines alike.
+   * @throws MarketMakerStateError if no engine is paused or halted
+   */
+  resume(): void {
+    const engines = [...this.engines.values()].filter((e) => {
+      const { state } = e.getStatus();
+      return state === "paused" || state === "halted";
+    });
+    if (engines.length === 0) {
+      throw new MarketMakerStateError("No engine is paused or halted");
+    }
+
+    if (engines.some((e) => e.getStatus().state === "halted")) {
+      this.riskGuard.reset();
+    }
+    for (const engine of engines) {
+      engine.resume({ riskGuardReset: true });
+    }
+  }
+
+  /**
+   * Fetch the shared account once and pass the margin ratio to every engine
+   */
+  private async checkMarginRatio(): Promise<void> {
+    try {
+      const account = await this.exchange.getAccount();
+      if (account.equity <= 0) return;
+
+      const marginRatio = account.availableMargin / account.equity;
+      await Promise.all([...this.engines.values()].map((e) => e.updateMarginRatio(marginRatio)));
+      // The guard is shared, so the same snapshot from every engine counts once
+      await Promise.all([...this.engines.values()].map((e) => e.updateEquity(account.equity)));
+    } catch (error) {
+      logger.error("Failed to check margin ratio:", error);
+    }
+  }
+
+  /**
+   * Get the engine for a symbol
+   */
+  getEngine(symbol: string): MarketMaker | undefined {
+    return this.engines.get(symbol);
+  }
+
+  /**
+   * Get every engine keyed by symbol
+   */
+  getEngines(): Map<string, MarketMaker> {
+    return new Map(this.engines);
+  }
+
+  /**
+   * Get the quoted symbols
+   */
+  getSymbols(): string[] {
+    return [...this.engines.keys()];
+  }
+
+  /**
+   * Get a status snapshot of every engine
+   */
+  getStatus(): MarketMakerStatus[] {
+    return [...this.engines.values()].map((e) => e.getStatus());
+  }
+}
+
+/**
+ * Smallest enabled loss limit across engines (0 if no engine sets one)
+ */
+function tightestLimit(engines: Map<string, MarketMaker>, key: keyof RiskLimits): number {
+  const enabled = [...engines.values()].map((e) => e.getConfig()[key]).filter((l) => l > 0);
+  return enabled.length > 0 ? Math.min(...enabled) : 0;
+}
@@ -1,10 +1,34 @@
 import { type ExchangeName, type IExchange, createExchange } from "../../exchanges/index.js";
+import { Journal } from "../../journal/index.js";
+import type { PriceCallback } from "../../pricing/binance.js";
 import { FairPriceCalculator } from "../../pricing/fair-price.js";
-import type { Market, Order, Orderbook } from "../../types.js";
+import type { IPriceFeed } from "../../pricing/index.js";
+import type {
+    Fill,
+    Market,
+    Order,
+    OrderRequest,
+    OrderResult,
+    Orderbook,
+    Position,
+} from "../../types.js";
+import { type Scheduler, type TimerHandle, systemScheduler } from "../../utils/clock.js";
 import { logger } from "../../utils/logger.js";
-import { type MarketMakerConfig, mergeConfig, validateConfig } from "./config.js";
-import { PositionManager } from "./position.js";
+import { metrics } from "../../utils/metrics.js";
+import {
+    type ConfigChange,
+    type MarketMakerConfig,
+    diffConfig,
+    formatConfigChanges,
+    mergeConfig,
+    resolveConfigUpdate,
+    validateConfig,
+} from "./config.js";
+import { type FlattenResult, flattenPosition } from "./flatten.js";
+import { PositionManager, type PositionState } from "./position.js";
 import { Quoter } from "./quoter.js";
+import { type OrderPlan, isPlanEmpty, reconcileOrders } from "./reconciler.js";
+import { type RiskBreach, type RiskBreachReason, RiskGuard, type RiskStatus } from "./risk.js";
 
 /**
  * Market maker state
@@ -15,8 +39,56 @@ export type MarketMakerState =
     | "warming_up"
     | "running"
     | "paused"
+    | "stale_price"
+    | "halted"
     | "error";
 
+/**
+ * A control action (e.g., pause or resume) that does not apply to the current state
+ */
+export class MarketMakerStateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "MarketMakerStateError";
+    }
+}
+
+const MARKET_MAKER_STATES: MarketMakerState[] = [
+    "stopped",
+    "connecting",
+    "warming_up",
+    "running",
+    "paused",
+    "stale_price",
+    "halted",
+    "error",
+];
+
+const stateGauge = metrics.gauge("mm_state", "1 for the current market maker state, 0 otherwise");
+const fairPriceGauge = metrics.gauge("mm_fair_price", "Fair price");
+const bookPriceGauge = metrics.gauge("mm_book_best_price", "Best bid/ask on the traded venue");
+const quotePriceGauge = metrics.gauge("mm_quote_price", "Innermost resting quote price");
+const quoteDistanceGauge = metrics.gauge(
+    "mm_quote_distance_bps",
+    "Distance of the innermost resting quote from fair price in bps"
+);
+const positionNotionalGauge = metrics.gauge(
+    "mm_position_notional_usd",
+    "Signed position notional (negative when short)"
+);
+const unrealizedPnlGauge = metrics.gauge("mm_unrealized_pnl_usd", "Unrealized position PnL");
+const realizedPnlGauge = metrics.gauge(
+    "mm_realized_pnl_usd",
+    "PnL realized by fills since start, net of fees"
+);
+const marginRatioGauge = metrics.gauge("mm_margin_ratio", "Available margin / equity");
+const dailyPnlGauge = metrics.gauge(
+    "mm_daily_pnl_usd",
+    "PnL for the UTC day, checked against maxDailyLossUsd"
+);
+const drawdownGauge = metrics.gauge("mm_drawdown_usd", "Run PnL below its peak");
+const errorCounter = metrics.counter("mm_errors_total", "Main loop errors");
+
 /**
  * Market maker status snapshot
  */
@@ -25,7 +97,14 @@ export interface MarketMakerStatus {
     exchange: string;
     symbol: string;
     priceSource: string;
+    liveSources: string[];
     fairPrice: number | null;
+    /** Milliseconds since the last price update (null if none yet) */
+    priceAgeMs: number | null;
+    /** Whether the fair price is older than maxPriceAgeMs or its feed is disconnected */
+    isPriceStale: boolean;
+    /** Whether the exchange reports its streamed orderbook as in sync */
+    isBookHealthy: boolean;
     position: {
         side: string;
         size: number;
@@ -37,12 +116,35 @@ export interface MarketMakerStatus {
         bidSize: number | null;
         askPrice: number | null;
         askSize: number | null;
+        bidCount: number;
+        askCount: number;
     };
     isCloseMode: boolean;
+    skewBps: number;
     marginRatio: number;
+    /** PnL checked against the loss limits, and the limit that halted the bot (if halted) */
+    risk: RiskStatus & { haltReason: RiskBreachReason | null };
     uptime: number;
 }
 
+/**
+ * Options for running a market maker on a shared exchange
+ */
+export interface MarketMakerOptions {
+    /** Exchange to trade on; when given, the caller owns its connection (default: created) */
+    exchange?: IExchange;
+    /** Poll account margin from this instance (default: true unless exchange is given) */
+    monitorMargin?: boolean;
+    /** Run id written to the journal (default: generated) */
+    runId?: string;
+    /** Build the price feed instead of connecting to priceSource (e.g., a ReplayPriceFeed) */
+    priceFeed?: (onPrice: PriceCallback) => IPriceFeed;
+    /** Clock and timers for the bot loops, warmup and price feeds (default: system) */
+    scheduler?: Scheduler;
+    /** Loss limit guard shared by the engines on one account (default: own, on this config) */
+    riskGuard?: RiskGuard;
+}
+
 /**
  * Market maker bot
  * Quotes bid/ask around Binance fair price on perpetual exchanges
@@ -50,38 +152,78 @@ export interface MarketMakerStatus {
 export class MarketMaker {
     private config: MarketMakerConfig;
     private exchange: IExchange;
+    private ownsExchange: boolean;
+    private monitorMargin: boolean;
     private fairPriceCalc: FairPriceCalculator;
     private quoter: Quoter;
     private positionManager: PositionManager;
+    private riskGuard: RiskGuard;
+    /** Whether the risk guard belongs to a group, which alone may reset it */
+    private sharesRiskGuard: boolean;
+    private journal: Journal | null;
+    private scheduler: Scheduler;
 
     private state: MarketMakerState = "stopped";
     private market: Market | null = null;
     private orderbook: Orderbook | null = null;
     private currentOrders: Order[] = [];
 
-    private mainLoopInterval: NodeJS.Timeout | null = null;
-    private orderSyncInterval: NodeJS.Timeout | null = null;
+    private mainLoopInterval: TimerHandle | null = null;
+    private orderSyncInterval: TimerHandle | null = null;
     private startTime = 0;
 
     private lastUpdateTime = 0;
     private isUpdating = false;
+    private bookHealthy = true;
     private errorCount = 0;
     private maxErrors = 10;
     private lastMarginRatio = 1.0;
-    private marginCheckInterval: NodeJS.Timeout | null = null;
-
-    constructor(exchange: ExchangeName, symbol: string, overrides?: Partial<MarketMakerConfig>) {
+    private quotedSkewBps = 0;
+    private isManuallyPaused = false;
+    private haltReason: RiskBreachReason | null = null;
+    private unregisterMetrics: (() => void) | null = null;
+    private marginCheckInterval: TimerHandle | null = null;
+
+    constructor(
+        exchange: ExchangeName,
+        symbol: string,
+        overrides?: Partial<MarketMakerConfig>,
+        options: MarketMakerOptions = {}
+    ) {
         this.config = mergeConfig(exchange, symbol, overrides);
         validateConfig(this.config);
 
-        this.exchange = createExchange(exchange);
+        this.scheduler = options.scheduler ?? systemScheduler;
+        this.ownsExchange = !options.exchange;
+        this.monitorMargin = options.monitorMargin ?? this.ownsExchange;
+        this.exchange =
+            options.exchange ??
+            createExchange(exchange, {
+                paperUnderlying: this.config.paperUnderlying,
+                scheduler: this.scheduler,
+            });
         this.fairPriceCalc = new FairPriceCalculator(symbol, {
             priceSource: this.config.priceSource,
+            sources: this.config.priceSources,
+            aggregation: this.config.priceAggregation,
             windowMs: this.config.fairPriceWindowMs,
             warmupMs: this.config.warmupSeconds * 1000,
+            feed: options.priceFeed,
+            scheduler: this.scheduler,
         });
         this.quoter = new Quoter(this.config);
         this.positionManager = new PositionManager(this.config);
+        this.riskGuard = options.riskGuard ?? new RiskGuard(this.config);
+        this.sharesRiskGuard = options.riskGuard !== undefined;
+        this.journal = this.config.journalDir
+            ? new Journal({
+                  dir: this.config.journalDir,
+                  exchange,
+                  symbol,
+                  runId: options.runId,
+                  clock: this.scheduler,
+              })
+            : null;
     }
 
     /**
@@ -95,11 +237,19 @@ export class MarketMaker {
 
         try {
             this.state = "connecting";
-            this.startTime = Date.now();
+            this.startTime = this.scheduler.now();
+            this.unregisterMetrics = metrics.addCollector(() => this.collectMetrics());
             logger.info(`Starting market maker for ${this.config.symbol} on ${this.config.exchange}`);
+            if (this.journal) {
+                logger.info(
+                    `Journaling to ${this.config.journalDir} (run ${this.journal.getRunId()})`
+                );
+            }
 
-            // Connect to exchange
-            await this.exchange.connect();
+            // Connect to exchange (a shared exchange is connected by its owner)
+            if (this.ownsExchange) {
+                await this.exchange.connect();
+            }
 
             // Get market info
             const markets = await this.exchange.getMarkets();
@@ -120,6 +270,26 @@ export class MarketMaker {
             // Subscribe to orderbook
             await this.exchange.subscribeOrderbook(this.config.symbol, (book) => {
                 this.orderbook = book;
+
+                // Feed the venue mid into the fair price (used by composite "venue" source)
+                if (book.bids.length > 0 && book.asks.length > 0) {
+                    const mid = (book.bids[0][0] + book.asks[0][0]) / 2;
+                    this.fairPriceCalc.updateVenuePrice(mid, book.timestamp || this.scheduler.now());
+                }
+            });
+
+            // Subscribe to fills so inventory updates without waiting for the next sync
+            await this.exchange.subscribeFills((fill) => {
+                this.handleFill(fill);
+            });
+
+            // Take pushed order and position changes where the exchange streams them
+            // (the periodic order sync still runs as a backstop)
+            await this.exchange.subscribeOrders?.((order) => {
+                this.handleOrderUpdate(order);
+            });
+            await this.exchange.subscribePositions?.((position) => {
+                this.handlePositionUpdate(position);
             });
 
             // Connect to price feed
@@ -149,7 +319,9 @@ export class MarketMaker {
             this.startOrderSync();
 
             // Start margin monitoring
-            this.startMarginCheck();
+            if (this.monitorMargin) {
+                this.startMarginCheck();
+            }
         } catch (error) {
             this.state = "error";
             logger.error("Failed to start market maker:", error);
@@ -159,23 +331,24 @@ export class MarketMaker {
 
     /**
      * Stop the market maker
+     * @param options - flatten: close the position after canceling orders
      */
-    async stop(): Promise<void> {
+    async stop(options: { flatten?: boolean } = {}): Promise<void> {
         logger.info("Stopping market maker...");
 
         // Stop intervals
         if (this.mainLoopInterval) {
-            clearInterval(this.mainLoopInterval);
+            this.scheduler.clearTimer(this.mainLoopInterval);
             this.mainLoopInterval = null;
         }
 
         if (this.orderSyncInterval) {
-            clearInterval(this.orderSyncInterval);
+            this.scheduler.clearTimer(this.orderSyncInterval);
             this.orderSyncInterval = null;
         }
 
         if (this.marginCheckInterval) {
-            clearInterval(this.marginCheckInterval);
+            this.scheduler.clearTimer(this.marginCheckInterval);
             this.marginCheckInterval = null;
         }
 
@@ -186,10 +359,20 @@ export class MarketMaker {
             logger.error("Failed to cancel orders on stop:", error);
         }
 
+        if (options.flatten && this.market) {
+            try {
+                await this.runFlatten();
+            } catch (error) {
+                logger.error("Failed to flatten on stop:", error);
+            }
+        }
+
         // Disconnect
         try {
             await this.exchange.unsubscribeOrderbook(this.config.symbol);
-            await this.exchange.disconnect();
+            if (this.ownsExchange) {
+                await this.exchange.disconnect();
+            }
         } catch (error) {
             logger.error("Failed to disconnect exchange:", error);
         }
@@ -201,6 +384,13 @@ export class MarketMaker {
         }
 
         this.state = "stopped";
+        await this.journal?.close();
+
+        // Leave the final values in place, but stop refreshing them
+        this.collectMetrics();
+        this.unregisterMetrics?.();
+        this.unregisterMetrics = null;
+
         logger.info("Market maker stopped");
     }
 
@@ -217,7 +407,7 @@ export class MarketMaker {
                     logger.debug(
                         `Warmup: ${(remaining / 1000).toFixed(1)}s remaining, ${this.fairPriceCalc.getPriceCount()} prices`
                     );
-                    setTimeout(checkWarmup, 1000);
+                    this.scheduler.setTimeout(checkWarmup, 1000);
                 }
             };
             checkWarmup();
@@ -228,7 +418,7 @@ export class MarketMaker {
      * Start the main trading loop
      */
     private startMainLoop(): void {
-        this.mainLoopInterval = setInterval(() => {
+        this.mainLoopInterval = this.scheduler.setInterval(() => {
             this.runMainLoop().catch((error) => {
                 logger.error("Main loop error:", error);
                 this.handleError();
@@ -240,7 +430,7 @@ export class MarketMaker {
      * Start order sync interval
      */
     private startOrderSync(): void {
-        this.orderSyncInterval = setInterval(() => {
+        this.orderSyncInterval = this.scheduler.setInterval(() => {
             this.syncOrders().catch((error) => {
                 logger.error("Order sync error:", error);
             });
@@ -252,7 +442,7 @@ export class MarketMaker {
      */
     private startMarginCheck(): void {
         // Check margin every 10 seconds
-        this.marginCheckInterval = setInterval(() => {
+        this.marginCheckInterval = this.scheduler.setInterval(() => {
             this.checkMarginRatio().catch((error) => {
                 logger.error("Margin check error:", error);
             });
@@ -274,39 +464,153 @@ export class MarketMaker {
             // Calculate margin ratio: availableMargin / equity
             // Higher is safer, lower means closer to liquidation
             if (account.equity > 0) {
-                this.lastMarginRatio = account.availableMargin / account.equity;
+                await this.updateMarginRatio(account.availableMargin / account.equity);
+                await this.updateEquity(account.equity);
             }
+        } catch (error) {
+            logger.error("Failed to check margin ratio:", error);
+        }
+    }
 
-            if (this.lastMarginRatio < this.config.minMarginRatio) {
-                if (this.state === "running") {
-                    logger.warn(
-                        `Margin ratio ${(this.lastMarginRatio * 100).toFixed(1)}% below minimum ${(this.config.minMarginRatio * 100).toFixed(1)}%, pausing...`
-                    );
-                    this.state = "paused";
+    /**
+     * Apply an account margin ratio: pause below minMarginRatio, resume once recovered
+     * Called by the own margin check, or by MarketMakerGroup for a shared account
+     * @param marginRatio - availableMargin / equity
+     */
+    async updateMarginRatio(marginRatio: number): Promise<void> {
+        this.lastMarginRatio = marginRatio;
 
-                    // Cancel all orders to reduce risk
-                    await this.cancelAllOrders();
-                }
-            } else if (
-                this.state === "paused" &&
-                this.lastMarginRatio >= this.config.minMarginRatio * 1.2
-            ) {
-                // Resume if margin has recovered with 20% buffer
-                logger.info(
-                    `Margin ratio ${(this.lastMarginRatio * 100).toFixed(1)}% recovered, resuming...`
+        if (this.lastMarginRatio < this.config.minMarginRatio) {
+            if (this.state === "running") {
+                logger.warn(
+                    `Margin ratio ${(this.lastMarginRatio * 100).toFixed(1)}% below minimum ${(this.config.minMarginRatio * 100).toFixed(1)}%, pausing...`
                 );
-                this.state = "running";
+                this.state = "paused";
+
+                // Cancel all orders to reduce risk
+                await this.cancelAllOrders();
             }
-        } catch (error) {
-            logger.error("Failed to check margin ratio:", error);
+        } else if (
+            this.state === "paused" &&
+            !this.isManuallyPaused &&
+            this.lastMarginRatio >= this.config.minMarginRatio * 1.2
+        ) {
+            // Resume if margin has recovered with 20% buffer
+            logger.info(
+                `Margin ratio ${(this.lastMarginRatio * 100).toFixed(1)}% recovered, resuming...`
+            );
+            this.state = "running";
+        }
+    }
+
+    /**
+     * Record an account equity snapshot and check the loss limits against it
+     * Called by the own margin check, or by MarketMakerGroup for a shared account
+     * @param equity - Account equity in USD
+     */
+    async updateEquity(equity: number): Promise<void> {
+        this.riskGuard.updateEquity(equity);
+        await this.checkRisk();
+    }
+
+    /**
+     * Check PnL against the daily loss and drawdown limits, halting on a breach
+     * @returns Whether the market maker is halted
+     */
+    private async checkRisk(): Promise<boolean> {
+        if (this.state === "halted") {
+            return true;
         }
+
+        const position = this.positionManager.getPosition();
+        this.riskGuard.updatePositionPnl(
+            this.positionManager.getRealizedPnl() + position.unrealizedPnl,
+            this.config.symbol
+        );
+        const breach = this.riskGuard.check(this.scheduler.now());
+        if (!breach || !["running", "stale_price", "paused"].includes(this.state)) {
+            return false;
+        }
+
+        await this.halt(breach);
+        return true;
+    }
+
+    /**
+     * Cancel all orders, optionally flatten, and stay halted until resume() is called
+     */
+    private async halt(breach: RiskBreach): Promise<void> {
+        const limit = breach.reason === "daily_loss" ? "Daily loss" : "Drawdown";
+        logger.error(
+            `${limit} of $${breach.loss.toFixed(2)} reached the $${breach.limit.toFixed(2)} limit, halting until resumed`
+        );
+        this.state = "halted";
+        this.haltReason = breach.reason;
+        this.journal?.record({
+            type: "halted",
+            reason: breach.reason,
+            loss: breach.loss,
+            limit: breach.limit,
+        });
+
+        await this.cancelAllOrders();
+
+        if (this.config.flattenOnHalt) {
+            try {
+                await this.runFlatten();
+            } catch (error) {
+                logger.error("Failed to flatten on halt:", error);
+            }
+        }
+    }
+
+    /**
+     * Move between running and stale_price based on the age of the fair price
+     */
+    private async checkPriceFreshness(): Promise<void> {
+        if (this.config.maxPriceAgeMs <= 0) {
+            return;
+        }
+
+        const isStale = this.fairPriceCalc.isStale(this.config.maxPriceAgeMs);
+
+        if (isStale && this.state === "running") {
+            const age = this.fairPriceCalc.getPriceAgeMs();
+            logger.warn(
+                `Fair price is stale (${age === null ? "no data" : `${(age / 1000).toFixed(1)}s old`}, connected=${this.fairPriceCalc.connected}), pulling quotes...`
+            );
+            this.state = "stale_price";
+
+            // Do not leave quotes around a frozen price
+            await this.cancelAllOrders();
+        } else if (!isStale && this.state === "stale_price") {
+            logger.info("Fresh prices received, resuming quoting");
+            this.state = "running";
+        }
+    }
+
+    /**
+     * Check the exchange's orderbook health, logging when it changes
+     * @returns Whether quoting may go ahead
+     */
+    private checkBookHealth(): boolean {
+        const healthy = this.exchange.isBookHealthy?.(this.config.symbol) ?? true;
+        if (healthy !== this.bookHealthy) {
+            if (healthy) {
+                logger.info("Orderbook back in sync, resuming quoting");
+            } else {
+                logger.warn("Orderbook out of sync, holding quotes until it resyncs");
+            }
+            this.bookHealthy = healthy;
+        }
+        return healthy;
     }
 
     /**
      * Main trading loop iteration
      */
     private async runMainLoop(): Promise<void> {
-        if (this.state !== "running") {
+        if (this.state !== "running" && this.state !== "stale_price") {
             return;
         }
 
@@ -316,7 +620,7 @@ export class MarketMaker {
         }
 
         // Throttle updates
-        const now = Date.now();
+        const now = this.scheduler.now();
         if (now - this.lastUpdateTime < this.config.updateThrottleMs) {
             return;
         }
@@ -324,6 +628,22 @@ export class MarketMaker {
 
         this.isUpdating = true;
         try {
+            // Stop for good once a loss limit is breached
+            if (await this.checkRisk()) {
+                return;
+            }
+
+            // Pull quotes while the price feed is stale, resume once it is fresh
+            await this.checkPriceFreshness();
+            if (this.state !== "running") {
+                return;
+            }
+
+            // Hold quotes while the exchange rebuilds its book
+            if (!this.checkBookHealth()) {
+                return;
+            }
+
             // Get fair price
             const fairPrice = this.fairPriceCalc.getFairPrice();
             if (!fairPrice) {
@@ -345,66 +665,157 @@ export class MarketMaker {
                 this.orderbook || undefined
             );
 
-            // Check if we need to update orders
-            const needsUpdate = this.shouldUpdateOrders(quote);
-            if (!needsUpdate) {
-                return;
+            // Only touch the orders that differ from the new quote (usually none)
+            this.quotedSkewBps = quote.skewBps;
+            const plan = reconcileOrders(this.quoter.quoteToOrders(quote), this.currentOrders, {
+                tickSize: this.market?.tickSize ?? 0,
+                priceTicks: this.config.priceToleranceTicks,
+                sizeRatio: this.config.sizeTolerance,
+            });
+            if (!isPlanEmpty(plan)) {
+                await this.applyOrderPlan(plan);
             }
 
-            // Cancel existing orders
-            await this.cancelAllOrders();
+            // Reset error count on successful iteration
+            this.errorCount = 0;
+        } finally {
+            this.isUpdating = false;
+        }
+    }
+
+    /**
+     * Execute an order plan: cancel surplus orders, amend moved ones and place missing ones
+     */
+    private async applyOrderPlan(plan: OrderPlan): Promise<void> {
+        logger.debug(
+            `Order plan: keep=${plan.keep.length} cancel=${plan.cancel.length} ` +
+                `amend=${plan.amend.length} place=${plan.place.length}`
+        );
+
+        for (const order of plan.cancel) {
+            try {
+                await this.exchange.cancelOrder(order.id, this.config.symbol);
+                this.removeOrder(order.id);
+                this.journal?.record({ type: "order_cancelled", orderId: order.id });
+                logger.info(`Order canceled: ${order.side} ${order.remaining} @ ${order.price}`);
+            } catch (error) {
+                logger.error(`Failed to cancel order ${order.id}:`, error);
+            }
+        }
 
-            // Place new orders
-            const orders = this.quoter.quoteToOrders(quote);
-            for (const order of orders) {
+        if (plan.amend.length > 0) {
+            if (this.exchange.modifyOrders) {
                 try {
-                    const result = await this.exchange.placeOrder(order);
-                    this.currentOrders.push({
-                        id: result.orderId,
-                        symbol: order.symbol,
-                        type: order.type,
-                        side: order.side,
-                        price: order.price,
-                        size: order.size,
-                        filled: 0,
-                        remaining: order.size,
-                        status: "open",
-                        timestamp: Date.now(),
-                    });
-                    logger.info(
-                        `Order placed: ${order.side} ${order.size} @ ${order.price} -> ${result.orderId}`
+                    const results = await this.exchange.modifyOrders(
+                        plan.amend.map(({ current, desired }) => ({
+                            orderId: current.id,
+                            order: desired,
+                        }))
                     );
+                    let rejected = 0;
+                    for (const [index, { current, desired }] of plan.amend.entries()) {
+                        if (results[index].status === "rejected") {
+                            logger.warn(`Amend of order ${current.id} rejected`);
+                            rejected++;
+                            continue;
+                        }
+                        this.removeOrder(current.id);
+                        this.trackOrder(results[index], desired);
+                        this.journal?.record({
+                            type: "order_amended",
+                            orderId: current.id,
+                            newOrderId: results[index].orderId,
+                            side: desired.side,
+                            price: desired.price,
+                            size: desired.size,
+                        });
+                    }
+                    if (rejected > 0) {
+                        // Whether a rejected amend left the original resting depends on the exchange
+                        await this.syncOrders();
+                    }
                 } catch (error) {
-                    logger.error(`Failed to place ${order.side} order:`, error);
+                    // Some amends may have gone through - resync to learn what is resting
+                    logger.error("Failed to amend orders:", error);
+                    await this.syncOrders();
+                }
+            } else {
+                for (const { current, desired } of plan.amend) {
+                    try {
+                        await this.exchange.cancelOrder(current.id, this.config.symbol);
+                        this.removeOrder(current.id);
+                        this.journal?.record({ type: "order_cancelled", orderId: current.id });
+                    } catch (error) {
+                        logger.error(`Failed to cancel order ${current.id}:`, error);
+                        continue;
+                    }
+                    await this.placeTrackedOrder(desired);
                 }
             }
+        }
 
-            // Reset error count on successful iteration
-            this.errorCount = 0;
-        } finally {
-            this.isUpdating = false;
+        for (const order of plan.place) {
+            await this.placeTrackedOrder(order);
         }
     }
 
     /**
-     * Check if orders need to be updated
+     * Place an order and start tracking it
      */
-    private shouldUpdateOrders(_quote: { bidPrice: number; askPrice: number }): boolean {
-        if (this.currentOrders.length === 0) {
-            return true;
+    private async placeTrackedOrder(order: OrderRequest): Promise<void> {
+        try {
+            const result = await this.exchange.placeOrder(order);
+            this.trackOrder(result, order);
+            this.journalPlacement(result, order);
+        } catch (error) {
+            logger.error(`Failed to place ${order.side} order:`, error);
         }
+    }
 
-        const fairPrice = this.fairPriceCalc.getFairPrice();
-        if (!fairPrice) return false;
-
-        // Check if any order is stale
-        for (const order of this.currentOrders) {
-            if (this.quoter.isOrderStale(order.price, order.side, fairPrice)) {
-                return true;
-            }
+    /**
+     * Record a placed or amended order in currentOrders
+     */
+    private trackOrder(result: OrderResult, order: OrderRequest): void {
+        if (result.status === "open") {
+            this.currentOrders.push({
+                id: result.orderId,
+                symbol: order.symbol,
+                type: order.type,
+                side: order.side,
+                price: order.price,
+                size: order.size,
+                filled: 0,
+                remaining: order.size,
+                status: "open",
+                timestamp: this.scheduler.now(),
+                reduceOnly: order.reduceOnly ?? false,
+                postOnly: order.postOnly,
+            });
         }
+        logger.info(`Order placed: ${order.side} ${order.size} @ ${order.price} -> ${result.orderId}`);
+    }
+
+    /**
+     * Record a new order in the journal
+     */
+    private journalPlacement(result: OrderResult, order: OrderRequest): void {
+        this.journal?.record({
+            type: "order_placed",
+            orderId: result.orderId,
+            side: order.side,
+            price: order.price,
+            size: order.size,
+            status: result.status,
+            postOnly: order.postOnly,
+            reduceOnly: order.reduceOnly,
+        });
+    }
 
-        return false;
+    /**
+     * Stop tracking an order
+     */
+    private removeOrder(orderId: string): void {
+        this.currentOrders = this.currentOrders.filter((o) => o.id !== orderId);
     }
 
     /**
@@ -413,19 +824,118 @@ export class MarketMaker {
     private async syncPosition(): Promise<void> {
         try {
             const positions = await this.exchange.getPositions();
-            const position = positions.find(
-                (p) => p.symbol.includes(this.config.symbol) || p.symbol === this.market?.symbol
-            );
-
-            const fairPrice = this.fairPriceCalc.getFairPrice();
-            this.positionManager.updatePosition(position || null, fairPrice || undefined);
-
+            this.applyExchangePosition(positions.find((p) => this.isOwnSymbol(p.symbol)) ?? null);
             logger.debug(`Position: ${this.positionManager.formatPosition()}`);
         } catch (error) {
             logger.error("Failed to sync position:", error);
         }
     }
 
+    /**
+     * Handle a position change pushed by the exchange
+     */
+    private handlePositionUpdate(position: Position): void {
+        if (!this.isOwnSymbol(position.symbol)) {
+            return;
+        }
+        this.applyExchangePosition(position.size !== 0 ? position : null);
+        logger.debug(`Position update: ${this.positionManager.formatPosition()}`);
+    }
+
+    /**
+     * Take the exchange's view of the position, journaling it whenever it changes
+     */
+    private applyExchangePosition(position: Position | null): void {
+        const fairPrice = this.fairPriceCalc.getFairPrice();
+        const before = this.positionManager.getPosition();
+        this.positionManager.updatePosition(position, fairPrice || undefined);
+
+        const after = this.positionManager.getPosition();
+        if (after.side !== before.side || after.size !== before.size) {
+            this.journal?.record({
+                type: "position",
+                side: after.side,
+                size: after.size,
+                entryPrice: after.entryPrice,
+                markPrice: after.markPrice,
+                unrealizedPnl: after.unrealizedPnl,
+            });
+        }
+    }
+
+    /**
+     * Handle an order state change pushed by the exchange
+     * Orders that can no longer fill stop being tracked, so the next loop requotes. Orders
+     * not tracked yet are left to placement and the periodic sync, so none is tracked twice.
+     */
+    private handleOrderUpdate(order: Order): void {
+        if (!this.isOwnSymbol(order.symbol)) {
+            return;
+        }
+
+        const tracked = this.currentOrders.find((o) => o.id === order.id);
+        if (!tracked) {
+            return;
+        }
+
+        if (order.status !== "open") {
+            this.removeOrder(order.id);
+            logger.info(`Order ${order.status}: ${order.side} ${order.size} @ ${order.price}`);
+            return;
+        }
+        tracked.filled = order.filled;
+        tracked.remaining = order.remaining;
+    }
+
+    /**
+     * Handle a fill pushed by the exchange
+     */
+    private handleFill(fill: Fill): void {
+        if (!this.isOwnSymbol(fill.symbol)) {
+            return;
+        }
+
+        const fairPrice = this.fairPriceCalc.getFairPrice();
+        this.positionManager.applyFill(fill, fairPrice || undefined);
+        this.journal?.record(
+            {
+                type: "fill",
+                fillId: fill.id,
+                orderId: fill.orderId,
+                side: fill.side,
+                price: fill.price,
+                size: fill.size,
+                fee: fill.fee,
+                liquidity: fill.liquidity,
+                fairPrice,
+            },
+            fill.timestamp || this.scheduler.now()
+        );
+
+        // Track what is left of the filled order
+        const order = this.currentOrders.find((o) => o.id === fill.orderId);
+        if (order) {
+            order.filled += fill.size;
+            order.remaining = Math.max(0, order.remaining - fill.size);
+            if (order.remaining <= 0) {
+                this.currentOrders = this.currentOrders.filter((o) => o.id !== fill.orderId);
+            }
+        }
+
+        logger.info(
+            `Fill: ${fill.side} ${fill.size} @ ${fill.price} (${fill.liquidity}, fee $${fill.fee.toFixed(4)}) | ${this.positionManager.formatPosition()}`
+        );
+    }
+
+    /**
+     * Check if an exchange symbol refers to the traded market
+     */
+    private isOwnSymbol(symbol: string): boolean {
+        if (symbol === this.market?.symbol) return true;
+        // Match on the base asset so "ETH" does not claim "ETHFI/USD:USD" when sharing an exchange
+        return symbol.split("/")[0].toUpperCase() === this.config.symbol.toUpperCase();
+    }
+
     /**
      * Sync orders from exchange
      */
@@ -445,6 +955,7 @@ export class MarketMaker {
         try {
             await this.exchange.cancelAllOrders(this.config.symbol);
             this.currentOrders = [];
+            this.journal?.record({ type: "orders_cancelled_all" });
         } catch (error) {
             logger.error("Failed to cancel orders:", error);
         }
@@ -455,12 +966,175 @@ export class MarketMaker {
      */
     private handleError(): void {
         this.errorCount++;
+        errorCounter.inc({ exchange: this.config.exchange, symbol: this.config.symbol });
         if (this.errorCount >= this.maxErrors) {
             logger.error(`Too many errors (${this.errorCount}), pausing market maker`);
             this.state = "paused";
         }
     }
 
+    /**
+     * Stop quoting and cancel all orders until resume() is called
+     * A manual pause is not lifted by margin recovery
+     */
+    async pause(): Promise<void> {
+        if (this.state !== "running" && this.state !== "stale_price" && this.state !== "paused") {
+            throw new MarketMakerStateError(`Cannot pause while ${this.state}`);
+        }
+
+        logger.info("Pausing market maker");
+        this.isManuallyPaused = true;
+        this.state = "paused";
+        await this.cancelAllOrders();
+    }
+
+    /**
+     * Resume quoting after a manual, margin or error pause, or a loss limit halt
+     * If margin is still below minimum, the next margin check pauses again. Resuming from a
+     * halt accepts the losses so far: the loss limits count from the current PnL. A halt of a
+     * shared risk guard is only lifted through its group (see MarketMakerGroup.resume).
+     * @param options - riskGuardReset: the group already reset the shared risk guard
+     */
+    resume(options: { riskGuardReset?: boolean } = {}): void {
+        if (this.state !== "paused" && this.state !== "halted") {
+            throw new MarketMakerStateError(`Cannot resume while ${this.state}`);
+        }
+
+        if (this.state === "halted") {
+            if (!options.riskGuardReset) {
+                if (this.sharesRiskGuard) {
+                    throw new MarketMakerStateError(
+                        "Cannot resume one engine from a halt of the shared loss limits, resume the group"
+                    );
+                }
+                this.riskGuard.reset();
+            }
+            this.haltReason = null;
+        }
+        logger.info("Resuming market maker");
+        this.isManuallyPaused = false;
+        this.errorCount = 0;
+        this.state = "running";
+    }
+
+    /**
+     * Pause and close the position with stepped reduce-only orders (see flattenPosition)
+     * A halted market maker stays halted
+     * @returns Position size before and after
+     */
+    async flatten(): Promise<FlattenResult> {
+        if (this.state !== "halted") {
+            await this.pause();
+        }
+        return this.runFlatten();
+    }
+
+    /**
+     * Close the position within the configured slippage and timeout, then resync it
+     */
+    private async runFlatten(): Promise<FlattenResult> {
+        try {
+            return await flattenPosition(this.exchange, {
+                symbol: this.config.symbol,
+                maxSlippageBps: this.config.flattenMaxSlippageBps,
+                timeoutMs: this.config.flattenTimeoutMs,
+                getFairPrice: () => this.fairPriceCalc.getFairPrice(),
+                getOrderbook: () => this.orderbook,
+                onOrder: (result, order) => this.journalPlacement(result, order),
+                scheduler: this.scheduler,
+            });
+        } finally {
+            await this.syncPosition();
+        }
+    }
+
+    /**
+     * Change live-tunable parameters in place; they take effect on the next quote
+     * @param update - New values for fields in LIVE_TUNABLE_FIELDS
+     * @returns The fields that changed
+     */
+    updateConfig(update: Record<string, unknown>): ConfigChange[] {
+        const next = resolveConfigUpdate(this.config, update);
+        const changes = diffConfig(this.config, next);
+        if (changes.length === 0) {
+            return changes;
+        }
+
+        // Quoter and PositionManager hold the same config object
+        Object.assign(this.config, next);
+
+        logger.info(`Config updated [${this.config.symbol}]: ${formatConfigChanges(changes)}`);
+        return changes;
+    }
+
+    /**
+     * Get the current configuration
+     */
+    getConfig(): Readonly<MarketMakerConfig> {
+        return { ...this.config };
+    }
+
+    /**
+     * Get the tracked open orders
+     */
+    getOrders(): Order[] {
+        return [...this.currentOrders];
+    }
+
+    /**
+     * Get the tracked position
+     */
+    getPosition(): PositionState {
+        return this.positionManager.getPosition();
+    }
+
+    /**
+     * Refresh this engine's gauges (runs right before each metrics scrape)
+     */
+    private collectMetrics(): void {
+        const labels = { exchange: this.config.exchange, symbol: this.config.symbol };
+        const fairPrice = this.fairPriceCalc.getFairPrice();
+        const position = this.positionManager.getPosition();
+
+        for (const state of MARKET_MAKER_STATES) {
+            stateGauge.set({ ...labels, state }, state === this.state ? 1 : 0);
+        }
+        fairPriceGauge.set(labels, fairPrice ?? Number.NaN);
+        positionNotionalGauge.set(labels, this.positionManager.getSignedNotional());
+        unrealizedPnlGauge.set(labels, position.unrealizedPnl);
+        realizedPnlGauge.set(labels, this.positionManager.getRealizedPnl());
+        marginRatioGauge.set(labels, this.lastMarginRatio);
+        const risk = this.riskGuard.getStatus(this.scheduler.now());
+        dailyPnlGauge.set(labels, risk.dailyPnl);
+        drawdownGauge.set(labels, risk.drawdown);
+
+        for (const side of ["buy", "sell"] as const) {
+            const sideLabels = { ...labels, side };
+            const level = side === "buy" ? this.orderbook?.bids[0] : this.orderbook?.asks[0];
+            if (level) {
+                bookPriceGauge.set(sideLabels, level[0]);
+            } else {
+                bookPriceGauge.remove(sideLabels);
+            }
+
+            // Innermost quote: highest bid or lowest ask
+            const prices = this.currentOrders.filter((o) => o.side === side).map((o) => o.price);
+            if (prices.length === 0) {
+                quotePriceGauge.remove(sideLabels);
+                quoteDistanceGauge.remove(sideLabels);
+                continue;
+            }
+            const quote = side === "buy" ? Math.max(...prices) : Math.min(...prices);
+            quotePriceGauge.set(sideLabels, quote);
+            if (fairPrice) {
+                const distanceBps = (Math.abs(quote - fairPrice) / fairPrice) * 10000;
+                quoteDistanceGauge.set(sideLabels, distanceBps);
+            } else {
+                quoteDistanceGauge.remove(sideLabels);
+            }
+        }
+    }
+
     /**
      * Get current status
      */
@@ -468,15 +1142,30 @@ export class MarketMaker {
         const position = this.positionManager.getPosition();
         const fairPrice = this.fairPriceCalc.getFairPrice();
 
-        const bidOrder = this.currentOrders.find((o) => o.side === "buy");
-        const askOrder = this.currentOrders.find((o) => o.side === "sell");
+        // Report the best (innermost) level of each side
+        const bids = this.currentOrders.filter((o) => o.side === "buy");
+        const asks = this.currentOrders.filter((o) => o.side === "sell");
+        const bidOrder = bids.reduce<Order | undefined>(
+            (best, o) => (!best || o.price > best.price ? o : best),
+            undefined
+        );
+        const askOrder = asks.reduce<Order | undefined>(
+            (best, o) => (!best || o.price < best.price ? o : best),
+            undefined
+        );
 
         return {
             state: this.state,
             exchange: this.config.exchange,
             symbol: this.config.symbol,
             priceSource: this.config.priceSource,
+            liveSources: this.fairPriceCalc.getLiveSources(),
             fairPrice,
+            priceAgeMs: this.fairPriceCalc.getPriceAgeMs(),
+            isPriceStale:
+                this.config.maxPriceAgeMs > 0 &&
+                this.fairPriceCalc.isStale(this.config.maxPriceAgeMs),
+            isBookHealthy: this.exchange.isBookHealthy?.(this.config.symbol) ?? true,
             position: {
                 side: position.side,
                 size: position.size,
@@ -488,15 +1177,48 @@ export class MarketMaker {
                 bidSize: bidOrder?.size || null,
                 askPrice: askOrder?.price || null,
                 askSize: askOrder?.size || null,
+                bidCount: bids.length,
+                askCount: asks.length,
             },
             isCloseMode: this.positionManager.isCloseMode(),
+            skewBps: this.quotedSkewBps,
             marginRatio: this.lastMarginRatio,
-            uptime: Date.now() - this.startTime,
+            risk: {
+                ...this.riskGuard.getStatus(this.scheduler.now()),
+                haltReason: this.haltReason,
+            },
+            uptime: this.scheduler.now() - this.startTime,
         };
     }
 }
 
 // Export components
-export { type MarketMakerConfig, mergeConfig, validateConfig, DEFAULT_CONFIG } from "./config.js";
-export { Quoter, type Quote } from "./quoter.js";
+export {
+    type MarketMakerConfig,
+    type QuoteLevelConfig,
+    type ConfigChange,
+    type LiveTunableField,
+    LIVE_TUNABLE_FIELDS,
+    diffConfig,
+    formatConfigChanges,
+    mergeConfig,
+    validateConfig,
+    parseQuoteLevels,
+    DEFAULT_CONFIG,
+} from "./config.js";
+export { Quoter, type Quote, type QuoteLevel } from "./quoter.js";
 export { PositionManager, type PositionState } from "./position.js";
+export { MarketMakerGroup, type MarketMakerGroupOptions } from "./group.js";
+export { reconcileOrders, type OrderPlan, type ReconcileTolerance } from "./reconciler.js";
+export { RiskGuard, type RiskBreach, type RiskBreachReason, type RiskStatus } from "./risk.js";
+export { flattenPosition, type FlattenOptions, type FlattenResult } from "./flatten.js";
+export { CONFIG_SCHEMA, ConfigError } from "./config-schema.js";
+export {
+    type ConfigFile,
+    type ConfigOrigin,
+    type ResolvedConfig,
+    loadConfigFile,
+    resolveConfig,
+    applyCredentials,
+} from "./config-file.js";
+export { ConfigReloader, type ConfigReloaderOptions, applyConfigReload } from "./reload.js";
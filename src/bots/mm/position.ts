@@ -1,4 +1,4 @@
-import type { Position } from "../../types.js";
+import type { Fill, Position } from "../../types.js";
 import { logger } from "../../utils/logger.js";
 import type { MarketMakerConfig } from "./config.js";
 
@@ -22,6 +22,7 @@ export interface PositionState {
 export class PositionManager {
   private config: MarketMakerConfig;
   private position: PositionState;
+  private realizedPnl = 0;
 
   constructor(config: MarketMakerConfig) {
     this.config = config;
@@ -76,6 +77,61 @@ export class PositionManager {
     );
   }
 
+  /**
+   * Apply a fill to the local position immediately
+   * The next exchange sync remains the source of truth and overwrites this estimate
+   * @param fill - Fill of one of our orders
+   * @param markPrice - Price used for notional and unrealized PnL (default: fill price)
+   */
+  applyFill(fill: Fill, markPrice?: number): void {
+    const currentSize =
+      this.position.side === "long"
+        ? this.position.size
+        : this.position.side === "short"
+          ? -this.position.size
+          : 0;
+    const fillSize = fill.side === "buy" ? fill.size : -fill.size;
+    const newSize = currentSize + fillSize;
+
+    // Reducing part of the fill realizes PnL against the entry price, net of the fee
+    if (currentSize !== 0 && Math.sign(currentSize) !== Math.sign(fillSize)) {
+      const closed = Math.min(Math.abs(currentSize), fill.size);
+      this.realizedPnl += closed * (fill.price - this.position.entryPrice) * Math.sign(currentSize);
+    }
+    this.realizedPnl -= fill.fee;
+
+    let entryPrice = this.position.entryPrice;
+    if (Math.abs(newSize) < 1e-12) {
+      entryPrice = 0;
+    } else if (currentSize === 0 || Math.sign(currentSize) === Math.sign(fillSize)) {
+      // Opening or increasing - blend entry price
+      entryPrice =
+        (Math.abs(currentSize) * this.position.entryPrice + fill.size * fill.price) /
+        Math.abs(newSize);
+    } else if (Math.sign(newSize) !== Math.sign(currentSize)) {
+      // Flipped through zero - the remainder opens at the fill price
+      entryPrice = fill.price;
+    }
+
+    const price = markPrice || fill.price;
+    const size = Math.abs(newSize) < 1e-12 ? 0 : Math.abs(newSize);
+
+    this.position = {
+      symbol: this.config.symbol,
+      side: size === 0 ? "none" : newSize > 0 ? "long" : "short",
+      size,
+      entryPrice,
+      markPrice: price,
+      notional: size * price,
+      unrealizedPnl: size === 0 ? 0 : newSize * (price - entryPrice),
+      margin: this.position.margin,
+    };
+
+    logger.debug(
+      `Position updated from fill: ${this.position.side} ${this.position.size} @ ${this.position.entryPrice}`
+    );
+  }
+
   /**
    * Get current position state
    */
@@ -83,6 +139,14 @@ export class PositionManager {
     return { ...this.position };
   }
 
+  /**
+   * Get PnL realized by fills seen since start, net of fees
+   * Fills missed while disconnected are not included
+   */
+  getRealizedPnl(): number {
+    return this.realizedPnl;
+  }
+
   /**
    * Get signed notional value (positive for long, negative for short)
    */
@@ -1,17 +1,32 @@
 import type { Market, OrderRequest, Side } from "../../types.js";
 import { logger } from "../../utils/logger.js";
-import type { MarketMakerConfig } from "./config.js";
+import type { MarketMakerConfig, QuoteLevelConfig } from "./config.js";
 
 /**
- * Quote with bid and ask prices
+ * A single price level of a quote
+ */
+export interface QuoteLevel {
+    price: number;
+    size: number;
+    /** Ladder level index (0 = nearest to fair price) */
+    level: number;
+}
+
+/**
+ * Quote ladder with bid and ask levels
  */
 export interface Quote {
-    bidPrice: number;
-    askPrice: number;
-    bidSize: number;
-    askSize: number;
+    /** Bid levels, best (highest) first */
+    bids: QuoteLevel[];
+    /** Ask levels, best (lowest) first */
+    asks: QuoteLevel[];
     fairPrice: number;
+    /** Spread of the nearest level in basis points */
     spreadBps: number;
+    /** Fair price shifted against inventory; quotes are centered here */
+    reservationPrice: number;
+    /** Reservation price offset from fair price in bps (negative when long) */
+    skewBps: number;
     isCloseMode: boolean;
 }
 
@@ -35,7 +50,34 @@ export class Quoter {
     }
 
     /**
-     * Generate bid/ask quotes around fair price
+     * Get the configured ladder levels (a single level at spreadBps if none configured)
+     */
+    getLevels(): QuoteLevelConfig[] {
+        if (this.config.quoteLevels.length > 0) {
+            return this.config.quoteLevels;
+        }
+        return [{ spreadBps: this.config.spreadBps, sizeMultiplier: 1 }];
+    }
+
+    /**
+     * Compute the inventory skew (Avellaneda-Stoikov reservation price offset)
+     * offset = -q * gamma * sigma^2, where q is the position in units of orderSizeUsd
+     * @param positionNotional - Signed position notional (positive = long, negative = short)
+     * @returns Reservation price offset in bps, capped at maxSkewBps
+     */
+    getSkewBps(positionNotional: number): number {
+        const { skewRiskAversion, skewVolatilityBps, maxSkewBps, orderSizeUsd } = this.config;
+        if (skewRiskAversion <= 0 || positionNotional === 0) {
+            return 0;
+        }
+
+        const inventory = positionNotional / orderSizeUsd;
+        const skew = -inventory * skewRiskAversion * skewVolatilityBps ** 2;
+        return Math.max(-maxSkewBps, Math.min(maxSkewBps, skew));
+    }
+
+    /**
+     * Generate bid/ask quote ladder around fair price
      * @param fairPrice - Current fair price from Binance
      * @param positionNotional - Current position notional value (positive = long, negative = short)
      * @param orderbook - Current orderbook (optional, for post-only check)
@@ -44,112 +86,172 @@ export class Quoter {
         // Determine if we're in close mode
         const isCloseMode = Math.abs(positionNotional) > this.config.closeThresholdUsd;
 
-        // Use tighter spread in close mode
-        const spreadBps = isCloseMode ? this.config.takeProfitBps : this.config.spreadBps;
-
-        // Calculate spread multiplier
-        const spreadMultiplier = spreadBps / 10000;
-
-        // Calculate bid and ask prices
-        let bidPrice = fairPrice * (1 - spreadMultiplier);
-        let askPrice = fairPrice * (1 + spreadMultiplier);
-
-        // Filter out invalid prices
-        if (bidPrice <= 0) bidPrice = 0;
-        if (askPrice <= 0) askPrice = 0;
-
-        // Round to tick size
-        if (this.market) {
-            bidPrice = this.roundToTick(bidPrice, "down");
-            askPrice = this.roundToTick(askPrice, "up");
-
-            // Post-only check using orderbook
-            if (orderbook) {
-                // If we have asks, ensure bid is at least 1 tick below best ask
-                if (orderbook.asks.length > 0) {
-                    const bestAsk = orderbook.asks[0][0];
-                    const maxBid = bestAsk - this.market.tickSize;
-                    if (bidPrice >= bestAsk) {
-                        logger.debug(`Adjusting bid from ${bidPrice} to ${maxBid} to avoid taking liquidity (Best Ask: ${bestAsk})`);
-                        bidPrice = Math.min(bidPrice, maxBid);
-                    }
-                }
+        // In close mode the whole ladder is tightened so the nearest level sits at takeProfitBps
+        const levels = this.getLevels();
+        const spreadScale = isCloseMode ? this.config.takeProfitBps / levels[0].spreadBps : 1;
+        const spreadBps = levels[0].spreadBps * spreadScale;
 
-                // If we have bids, ensure ask is at least 1 tick above best bid
-                if (orderbook.bids.length > 0) {
-                    const bestBid = orderbook.bids[0][0];
-                    const minAsk = bestBid + this.market.tickSize;
-                    if (askPrice <= bestBid) {
-                        logger.debug(`Adjusting ask from ${askPrice} to ${minAsk} to avoid taking liquidity (Best Bid: ${bestBid})`);
-                        askPrice = Math.max(askPrice, minAsk);
-                    }
-                }
-            }
+        // Skew handles normal inventory drift; close mode is the hard backstop and quotes unskewed
+        const skewBps = isCloseMode ? 0 : this.getSkewBps(positionNotional);
+        const reservationPrice = fairPrice * (1 + skewBps / 10000);
+        if (skewBps !== 0) {
+            logger.debug(`Inventory skew: ${skewBps.toFixed(2)} bps (reservation ${reservationPrice})`);
         }
 
-        // Calculate order sizes using actual order prices to ensure minimum notional is met
-        // Using fairPrice would result in bid notional < orderSizeUsd due to spread
-        let bidSize = bidPrice > 0 ? this.config.orderSizeUsd / bidPrice : 0;
-        let askSize = askPrice > 0 ? this.config.orderSizeUsd / askPrice : 0;
+        // Moving the center by skewBps widens one side and narrows the other by the same amount
+        let bids = this.buildSide("buy", fairPrice, levels, spreadScale, skewBps, orderbook);
+        let asks = this.buildSide("sell", fairPrice, levels, spreadScale, -skewBps, orderbook);
 
         // In close mode, only quote on the reducing side
         if (isCloseMode) {
             if (positionNotional > 0) {
                 // Long position - only quote asks to reduce
-                bidSize = 0;
+                bids = [];
                 logger.debug("Close mode: long position, only asking");
             } else {
                 // Short position - only quote bids to reduce
-                askSize = 0;
+                asks = [];
                 logger.debug("Close mode: short position, only bidding");
             }
         }
 
-        // Round sizes to precision
-        if (this.market) {
-            bidSize = this.roundSize(bidSize);
-            askSize = this.roundSize(askSize);
-        }
-
         return {
-            bidPrice,
-            askPrice,
-            bidSize,
-            askSize,
+            bids,
+            asks,
             fairPrice,
             spreadBps,
+            reservationPrice,
+            skewBps,
             isCloseMode,
         };
     }
 
+    /**
+     * Build the ladder for one side
+     * @param spreadOffsetBps - Subtracted from every level's spread (never below zero)
+     */
+    private buildSide(
+        side: Side,
+        fairPrice: number,
+        levels: QuoteLevelConfig[],
+        spreadScale: number,
+        spreadOffsetBps: number,
+        orderbook?: { bids: [number, number][]; asks: [number, number][] }
+    ): QuoteLevel[] {
+        const result: QuoteLevel[] = [];
+        const maxNotional = this.config.maxSideNotionalUsd;
+        let sideNotional = 0;
+
+        for (const [index, level] of levels.entries()) {
+            const levelSpreadBps = Math.max(0, level.spreadBps * spreadScale - spreadOffsetBps);
+            const spreadMultiplier = levelSpreadBps / 10000;
+            let price =
+                side === "buy" ? fairPrice * (1 - spreadMultiplier) : fairPrice * (1 + spreadMultiplier);
+
+            // Filter out invalid prices
+            if (price <= 0) continue;
+
+            if (this.market) {
+                price = this.roundToTick(price, side === "buy" ? "down" : "up");
+                if (orderbook) {
+                    price = this.applyPostOnly(side, price, orderbook);
+                }
+
+                // Keep the ladder strictly monotone when levels collapse after rounding
+                const previous = result[result.length - 1];
+                if (previous) {
+                    if (side === "buy" && price >= previous.price) {
+                        price = previous.price - this.market.tickSize;
+                    } else if (side === "sell" && price <= previous.price) {
+                        price = previous.price + this.market.tickSize;
+                    }
+                }
+                if (price <= 0) continue;
+            }
+
+            // Calculate order size using actual order price to ensure minimum notional is met
+            // Using fairPrice would result in bid notional < orderSizeUsd due to spread
+            let notional = this.config.orderSizeUsd * level.sizeMultiplier;
+            let capped = false;
+            if (maxNotional > 0 && sideNotional + notional > maxNotional) {
+                notional = maxNotional - sideNotional;
+                capped = true;
+            }
+
+            let size = notional / price;
+            if (this.market) {
+                // Round capped sizes down so the cap is respected
+                size = this.roundSize(size, capped ? "down" : "up");
+            }
+
+            if (size <= 0 || (this.market && size < this.market.minSize)) {
+                break;
+            }
+
+            result.push({ price, size, level: index });
+            sideNotional += size * price;
+
+            if (capped) break;
+        }
+
+        return result;
+    }
+
+    /**
+     * Make sure a price does not take liquidity from the current book
+     */
+    private applyPostOnly(
+        side: Side,
+        price: number,
+        orderbook: { bids: [number, number][]; asks: [number, number][] }
+    ): number {
+        if (!this.market) return price;
+
+        if (side === "buy" && orderbook.asks.length > 0) {
+            // Ensure bid is at least 1 tick below best ask
+            const bestAsk = orderbook.asks[0][0];
+            const maxBid = bestAsk - this.market.tickSize;
+            if (price >= bestAsk) {
+                logger.debug(`Adjusting bid from ${price} to ${maxBid} to avoid taking liquidity (Best Ask: ${bestAsk})`);
+                return Math.min(price, maxBid);
+            }
+        }
+
+        if (side === "sell" && orderbook.bids.length > 0) {
+            // Ensure ask is at least 1 tick above best bid
+            const bestBid = orderbook.bids[0][0];
+            const minAsk = bestBid + this.market.tickSize;
+            if (price <= bestBid) {
+                logger.debug(`Adjusting ask from ${price} to ${minAsk} to avoid taking liquidity (Best Bid: ${bestBid})`);
+                return Math.max(price, minAsk);
+            }
+        }
+
+        return price;
+    }
+
     /**
      * Convert quote to order requests
      */
     quoteToOrders(quote: Quote, reduceOnly = false): OrderRequest[] {
         const orders: OrderRequest[] = [];
 
-        if (quote.bidSize > 0) {
-            orders.push({
-                symbol: this.config.symbol,
-                side: "buy",
-                type: "limit",
-                price: quote.bidPrice,
-                size: quote.bidSize,
-                postOnly: true,
-                reduceOnly: reduceOnly || quote.isCloseMode,
-            });
-        }
-
-        if (quote.askSize > 0) {
-            orders.push({
-                symbol: this.config.symbol,
-                side: "sell",
-                type: "limit",
-                price: quote.askPrice,
-                size: quote.askSize,
-                postOnly: true,
-                reduceOnly: reduceOnly || quote.isCloseMode,
-            });
+        for (const [side, levels] of [
+            ["buy", quote.bids],
+            ["sell", quote.asks],
+        ] as const) {
+            for (const level of levels) {
+                if (level.size <= 0) continue;
+                orders.push({
+                    symbol: this.config.symbol,
+                    side,
+                    type: "limit",
+                    price: level.price,
+                    size: level.size,
+                    postOnly: true,
+                    reduceOnly: reduceOnly || quote.isCloseMode,
+                });
+            }
         }
 
         return orders;
@@ -158,7 +260,7 @@ export class Quoter {
     /**
      * Round price to tick size
      */
-    private roundToTick(price: number, direction: "up" | "down"): number {
+    roundToTick(price: number, direction: "up" | "down"): number {
         if (!this.market) return price;
 
         const tickSize = this.market.tickSize;
@@ -169,31 +271,16 @@ export class Quoter {
     }
 
     /**
-     * Round size up to precision (ceil to ensure minimum order value is met)
+     * Round size to precision (ceil by default to ensure minimum order value is met)
      */
-    private roundSize(size: number): number {
+    private roundSize(size: number, direction: "up" | "down" = "up"): number {
         if (!this.market) return size;
 
         const precision = this.market.sizePrecision;
         const multiplier = 10 ** precision;
+        if (direction === "down") {
+            return Math.floor(size * multiplier) / multiplier;
+        }
         return Math.ceil(size * multiplier) / multiplier;
     }
-
-    /**
-     * Check if an order price is stale (too far from fair price)
-     * @param orderPrice - Current order price
-     * @param orderSide - Order side
-     * @param fairPrice - Current fair price
-     * @param maxDeviationBps - Maximum allowed deviation in bps
-     */
-    isOrderStale(
-        orderPrice: number,
-        _orderSide: Side,
-        fairPrice: number,
-        maxDeviationBps = 50
-    ): boolean {
-        const deviation = Math.abs(orderPrice - fairPrice) / fairPrice;
-        const deviationBps = deviation * 10000;
-        return deviationBps > maxDeviationBps;
-    }
 }
@@ -0,0 +1,128 @@
+import type { Order, OrderRequest, Side } from "../../types.js";
+
+/**
+ * Tolerances for treating a resting order as matching a desired one
+ */
+export interface ReconcileTolerance {
+  /** Market tick size */
+  tickSize: number;
+  /** Maximum price difference in ticks */
+  priceTicks: number;
+  /** Maximum relative size difference (0.1 = 10%) */
+  sizeRatio: number;
+}
+
+/**
+ * A resting order that should be amended to new parameters
+ */
+export interface OrderAmend {
+  current: Order;
+  desired: OrderRequest;
+}
+
+/**
+ * Actions needed to turn the resting orders into the desired ones
+ */
+export interface OrderPlan {
+  /** Resting orders that already match and are left alone */
+  keep: Order[];
+  /** Resting orders with no desired counterpart */
+  cancel: Order[];
+  /** Resting orders to move to a desired price/size */
+  amend: OrderAmend[];
+  /** Desired orders with no resting counterpart */
+  place: OrderRequest[];
+}
+
+/**
+ * Check whether a resting order is close enough to a desired order to keep it
+ */
+export function ordersMatch(
+  current: Order,
+  desired: OrderRequest,
+  tolerance: ReconcileTolerance
+): boolean {
+  if (current.side !== desired.side) return false;
+  if (current.reduceOnly !== undefined && current.reduceOnly !== (desired.reduceOnly ?? false)) {
+    return false;
+  }
+
+  // Small epsilon so prices an exact number of ticks apart are not rejected by float error
+  const maxPriceDiff = tolerance.tickSize * tolerance.priceTicks + tolerance.tickSize * 1e-6;
+  if (Math.abs(current.price - desired.price) > maxPriceDiff) return false;
+
+  return Math.abs(current.remaining - desired.size) <= desired.size * tolerance.sizeRatio;
+}
+
+/**
+ * Sort orders best first (highest bid / lowest ask)
+ */
+function bestFirst<T extends { price: number }>(orders: T[], side: Side): T[] {
+  return [...orders].sort((a, b) => (side === "buy" ? b.price - a.price : a.price - b.price));
+}
+
+/**
+ * Diff desired orders against resting orders
+ * Matching orders are kept; the remaining ones are paired by ladder position and amended,
+ * and any surplus is canceled or placed
+ * @param desired - Orders we want on the book
+ * @param current - Orders currently resting
+ * @param tolerance - Price and size tolerances for keeping an order
+ */
+export function reconcileOrders(
+  desired: OrderRequest[],
+  current: Order[],
+  tolerance: ReconcileTolerance
+): OrderPlan {
+  const plan: OrderPlan = { keep: [], cancel: [], amend: [], place: [] };
+
+  for (const side of ["buy", "sell"] as const) {
+    const wanted = bestFirst(
+      desired.filter((o) => o.side === side),
+      side
+    );
+    const resting = bestFirst(
+      current.filter((o) => o.side === side),
+      side
+    );
+
+    // Keep resting orders that already satisfy a desired order (closest price wins)
+    const unmatchedWanted: OrderRequest[] = [];
+    for (const want of wanted) {
+      let bestIndex = -1;
+      for (const [index, order] of resting.entries()) {
+        if (!ordersMatch(order, want, tolerance)) continue;
+        if (
+          bestIndex === -1 ||
+          Math.abs(order.price - want.price) < Math.abs(resting[bestIndex].price - want.price)
+        ) {
+          bestIndex = index;
+        }
+      }
+
+      if (bestIndex === -1) {
+        unmatchedWanted.push(want);
+      } else {
+        plan.keep.push(resting[bestIndex]);
+        resting.splice(bestIndex, 1);
+      }
+    }
+
+    // Pair what is left by ladder position
+    const pairs = Math.min(unmatchedWanted.length, resting.length);
+    for (let i = 0; i < pairs; i++) {
+      plan.amend.push({ current: resting[i], desired: unmatchedWanted[i] });
+    }
+    plan.place.push(...unmatchedWanted.slice(pairs));
+    plan.cancel.push(...resting.slice(pairs));
+  }
+
+  return plan;
+}
+
+/**
+ * Check whether a plan requires any exchange calls
+ */
+export function isPlanEmpty(plan: OrderPlan): boolean {
+  return plan.cancel.length === 0 && plan.amend.length === 0 && plan.place.length === 0;
+}
@@ -0,0 +1,221 @@
+import { type FSWatcher, watch } from "node:fs";
+import { basename, dirname } from "node:path";
+import { type Scheduler, type TimerHandle, systemScheduler } from "../../utils/clock.js";
+import { logger } from "../../utils/logger.js";
+import { ConfigError } from "./config-schema.js";
+import {
+  type ConfigChange,
+  LIVE_TUNABLE_FIELDS,
+  type MarketMakerConfig,
+  diffConfig,
+  formatConfigChanges,
+  resolveConfigUpdate,
+} from "./config.js";
+import { MarketMakerGroup } from "./group.js";
+import type { MarketMaker } from "./index.js";
+
+/**
+ * Apply reloaded configs to running engines, all or nothing
+ * Only live-tunable fields may change; the reload is rejected when any other field differs,
+ * a symbol is added or removed, or an updated config fails validation
+ * @param engines - Running engines by symbol
+ * @param configs - Reloaded config of every symbol
+ * @param source - What triggered the reload, for messages (e.g., a file path or "SIGHUP")
+ * @returns The changes applied, by symbol
+ * @throws ConfigError listing every rejected change
+ */
+export function applyConfigReload(
+  engines: Map<string, MarketMaker>,
+  configs: Record<string, MarketMakerConfig>,
+  source: string
+): Record<string, ConfigChange[]> {
+  const issues: string[] = [];
+  const running = [...engines.keys()];
+  const reloaded = Object.keys(configs);
+  const added = reloaded.filter((s) => !engines.has(s));
+  const removed = running.filter((s) => !(s in configs));
+  if (added.length > 0 || removed.length > 0) {
+    issues.push(
+      `symbols cannot change while running (running: ${running.join(",")}; reloaded: ${reloaded.join(",")})`
+    );
+  }
+
+  const updates = new Map<string, Partial<MarketMakerConfig>>();
+  for (const [symbol, engine] of engines) {
+    const config = configs[symbol];
+    if (!config) {
+      continue;
+    }
+    const changes = diffConfig(engine.getConfig(), config);
+    const fixed = changes.filter(
+      (c) => !(LIVE_TUNABLE_FIELDS as readonly string[]).includes(c.field)
+    );
+    if (fixed.length > 0) {
+      issues.push(`${symbol}: cannot change while running: ${formatConfigChanges(fixed)}`);
+      continue;
+    }
+    const update = Object.fromEntries(changes.map((c) => [c.field, c.to]));
+    try {
+      resolveConfigUpdate(engine.getConfig(), update);
+      updates.set(symbol, update);
+    } catch (error) {
+      issues.push(`${symbol}: ${(error as Error).message}`);
+    }
+  }
+  if (issues.length > 0) {
+    throw new ConfigError(source, issues);
+  }
+
+  const applied: Record<string, ConfigChange[]> = {};
+  for (const [symbol, update] of updates) {
+    applied[symbol] = engines.get(symbol)?.updateConfig(update) ?? [];
+  }
+  return applied;
+}
+
+/**
+ * Options for a config reloader
+ */
+export interface ConfigReloaderOptions {
+  /** Config file to watch; without one, only SIGHUP triggers a reload */
+  path?: string;
+  /** Wait this long after the last change to the file before reloading (default: 500) */
+  debounceMs?: number;
+  /** Clock and timers (default: system) */
+  scheduler?: Scheduler;
+}
+
+/**
+ * Reloads the config of a running market maker when its config file changes or the process
+ * receives SIGHUP, applying live-tunable changes in place (see applyConfigReload)
+ * The reloaded config replaces values changed since the last load (e.g., through the HTTP API);
+ * each replaced value is logged as a warning.
+ */
+export class ConfigReloader {
+  private watcher: FSWatcher | null = null;
+  private debounceTimer: TimerHandle | null = null;
+  private scheduler: Scheduler;
+  /** Config of every symbol as of startup or the last applied reload */
+  private loaded: Record<string, MarketMakerConfig>;
+  private readonly onSignal = () => this.reload("SIGHUP");
+
+  /**
+   * Create a config reloader
+   * @param target - Market maker or group to update
+   * @param load - Build the config of every symbol again (e.g., by re-reading the file)
+   * @param options - Reloader options
+   */
+  constructor(
+    private target: MarketMaker | MarketMakerGroup,
+    private load: () => Record<string, MarketMakerConfig>,
+    private options: ConfigReloaderOptions = {}
+  ) {
+    this.scheduler = options.scheduler ?? systemScheduler;
+    this.loaded = Object.fromEntries(
+      [...this.getEngines()].map(([symbol, engine]) => [symbol, engine.getConfig()])
+    );
+  }
+
+  /**
+   * Start watching the config file and listening for SIGHUP
+   */
+  start(): void {
+    process.on("SIGHUP", this.onSignal);
+
+    const path = this.options.path;
+    if (path) {
+      // Watch the directory: editors often replace the file instead of writing to it
+      const name = basename(path);
+      this.watcher = watch(dirname(path), (_event, filename) => {
+        if (filename === name) {
+          this.scheduleReload(path);
+        }
+      });
+      logger.info(`Watching ${path} for config changes`);
+    }
+  }
+
+  /**
+   * Stop watching
+   */
+  stop(): void {
+    process.off("SIGHUP", this.onSignal);
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.debounceTimer) {
+      this.scheduler.clearTimer(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+  }
+
+  /**
+   * Reload the config now and apply it, logging what changed or why it was rejected
+   * @param source - What triggered the reload, for logs
+   * @returns The changes applied by symbol, or null if the reload was rejected
+   */
+  reload(source: string): Record<string, ConfigChange[]> | null {
+    try {
+      const engines = this.getEngines();
+      const configs = this.load();
+      const overridden = this.findOverridden(engines, configs);
+      const applied = applyConfigReload(engines, configs, source);
+      this.loaded = configs;
+      if (overridden.length > 0) {
+        logger.warn(
+          `Config reload from ${source} replaced values set since the last load (e.g., through the API): ${overridden.join("; ")}`
+        );
+      }
+      if (Object.values(applied).every((changes) => changes.length === 0)) {
+        logger.info(`Config reloaded from ${source}: no changes`);
+      }
+      return applied;
+    } catch (error) {
+      logger.error(
+        `Config reload rejected, keeping the running config. ${(error as Error).message}`
+      );
+      return null;
+    }
+  }
+
+  private getEngines(): Map<string, MarketMaker> {
+    return this.target instanceof MarketMakerGroup
+      ? this.target.getEngines()
+      : new Map([[this.target.getConfig().symbol, this.target]]);
+  }
+
+  /**
+   * Describe running values that differ from the last load and that the reload replaces
+   */
+  private findOverridden(
+    engines: Map<string, MarketMaker>,
+    configs: Record<string, MarketMakerConfig>
+  ): string[] {
+    const overridden: string[] = [];
+    for (const [symbol, engine] of engines) {
+      const loaded = this.loaded[symbol];
+      const config = configs[symbol];
+      if (!loaded || !config) {
+        continue;
+      }
+      const running = engine.getConfig();
+      const replaced = diffConfig(loaded, running).filter(
+        (c) => JSON.stringify(running[c.field]) !== JSON.stringify(config[c.field])
+      );
+      if (replaced.length > 0) {
+        const changes = replaced.map((c) => ({ field: c.field, from: c.to, to: config[c.field] }));
+        overridden.push(`${symbol}: ${formatConfigChanges(changes)}`);
+      }
+    }
+    return overridden;
+  }
+
+  private scheduleReload(path: string): void {
+    if (this.debounceTimer) {
+      this.scheduler.clearTimer(this.debounceTimer);
+    }
+    this.debounceTimer = this.scheduler.setTimeout(() => {
+      this.debounceTimer = null;
+      this.reload(path);
+    }, this.options.debounceMs ?? 500);
+  }
+}
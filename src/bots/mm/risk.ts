@@ -0,0 +1,152 @@
+import { toDay } from "../../journal/index.js";
+import type { MarketMakerConfig } from "./config.js";
+
+/**
+ * Loss limit that was breached
+ */
+export type RiskBreachReason = "daily_loss" | "drawdown";
+
+/**
+ * A breached loss limit
+ */
+export interface RiskBreach {
+  reason: RiskBreachReason;
+  /** Loss that breached the limit in USD */
+  loss: number;
+  /** The limit in USD */
+  limit: number;
+}
+
+/**
+ * Loss limits checked by the risk guard, in USD (0 disables a limit)
+ */
+export type RiskLimits = Pick<MarketMakerConfig, "maxDailyLossUsd" | "maxDrawdownUsd">;
+
+/**
+ * PnL tracked by the risk guard, in USD
+ */
+export interface RiskStatus {
+  /** PnL since start */
+  runPnl: number;
+  /** PnL since the start of the UTC day (or since start, if later) */
+  dailyPnl: number;
+  /** Highest run PnL seen */
+  peakPnl: number;
+  /** Distance of the run PnL below its peak */
+  drawdown: number;
+}
+
+/**
+ * Tracks PnL per run and per UTC day and checks it against the loss limits
+ * Run PnL is the account equity change between snapshots, carried forward by the change in
+ * the engines' own realized + unrealized PnL since the last snapshot (or only the latter when
+ * no equity is known, e.g., when a caller does not report the account). Engines sharing an
+ * account share one guard, each reporting its PnL under its own source.
+ */
+export class RiskGuard {
+  private limits: RiskLimits;
+  private startEquity: number | null = null;
+  /** Equity change since start at the last snapshot */
+  private equityPnl = 0;
+  /** PnL per source: at the last snapshot (or the first value seen) and now */
+  private positionPnl: Map<string, { base: number; current: number }> = new Map();
+  private peakPnl = 0;
+  private day: string | null = null;
+  private dayStartPnl = 0;
+
+  /**
+   * Create a risk guard
+   * @param limits - Loss limits, read on every check so live config changes apply
+   */
+  constructor(limits: RiskLimits) {
+    this.limits = limits;
+  }
+
+  /**
+   * Record an engine's realized + unrealized PnL
+   * @param pnl - PnL in USD (any baseline; only changes count)
+   * @param source - Engine reporting it, when several share the guard
+   */
+  updatePositionPnl(pnl: number, source = ""): void {
+    const tracked = this.positionPnl.get(source);
+    if (tracked) {
+      tracked.current = pnl;
+    } else {
+      this.positionPnl.set(source, { base: pnl, current: pnl });
+    }
+  }
+
+  /**
+   * Record an account equity snapshot
+   * @param equity - Account equity in USD
+   */
+  updateEquity(equity: number): void {
+    if (this.startEquity === null) {
+      // Carry on from the PnL tracked so far
+      this.startEquity = equity - this.getPnl();
+    }
+    this.equityPnl = equity - this.startEquity;
+    for (const tracked of this.positionPnl.values()) {
+      tracked.base = tracked.current;
+    }
+  }
+
+  /**
+   * Get the PnL since start
+   */
+  getPnl(): number {
+    let pnl = this.equityPnl;
+    for (const { base, current } of this.positionPnl.values()) {
+      pnl += current - base;
+    }
+    return pnl;
+  }
+
+  /**
+   * Roll the day and peak forward and check the loss limits (0 disables a limit)
+   * @param now - Current time in milliseconds
+   * @returns The breached limit, or null
+   */
+  check(now: number): RiskBreach | null {
+    const status = this.getStatus(now);
+
+    const { maxDailyLossUsd, maxDrawdownUsd } = this.limits;
+    const dailyLoss = -status.dailyPnl;
+    if (maxDailyLossUsd > 0 && dailyLoss >= maxDailyLossUsd) {
+      return { reason: "daily_loss", loss: dailyLoss, limit: maxDailyLossUsd };
+    }
+    if (maxDrawdownUsd > 0 && status.drawdown >= maxDrawdownUsd) {
+      return { reason: "drawdown", loss: status.drawdown, limit: maxDrawdownUsd };
+    }
+    return null;
+  }
+
+  /**
+   * Accept the losses so far: the peak and the day restart from the current PnL
+   */
+  reset(): void {
+    this.peakPnl = this.getPnl();
+    this.dayStartPnl = this.peakPnl;
+  }
+
+  /**
+   * Get the tracked PnL
+   * @param now - Current time in milliseconds
+   */
+  getStatus(now: number): RiskStatus {
+    const pnl = this.getPnl();
+    const day = toDay(now);
+    if (day !== this.day) {
+      this.day = day;
+      this.dayStartPnl = pnl;
+    }
+    this.peakPnl = Math.max(this.peakPnl, pnl);
+
+    return {
+      runPnl: pnl,
+      dailyPnl: pnl - this.dayStartPnl,
+      peakPnl: this.peakPnl,
+      drawdown: this.peakPnl - pnl,
+    };
+  }
+}
@@ -0,0 +1,193 @@
+import type { IExchange } from "../exchanges/types.js";
+
+/**
+ * Output of an account command: the value printed with --json and the table printed otherwise
+ */
+export interface CommandOutput {
+  value: unknown;
+  lines: string[];
+}
+
+/**
+ * Show equity and margin
+ * @param exchange - Connected exchange
+ */
+export async function balancesCommand(exchange: IExchange): Promise<CommandOutput> {
+  const account = await exchange.getAccount();
+  return {
+    value: account,
+    lines: formatTable(
+      ["Address", "Equity", "Margin", "Available", "Leverage"],
+      [
+        [
+          account.address,
+          formatUsd(account.equity),
+          formatUsd(account.margin),
+          formatUsd(account.availableMargin),
+          account.leverage === undefined ? "-" : `${account.leverage}x`,
+        ],
+      ]
+    ),
+  };
+}
+
+/**
+ * List open positions
+ * @param exchange - Connected exchange
+ */
+export async function positionsCommand(exchange: IExchange): Promise<CommandOutput> {
+  const positions = (await exchange.getPositions()).filter(
+    (p) => p.side !== "none" && p.size !== 0
+  );
+  return {
+    value: positions,
+    lines: formatTable(
+      ["Symbol", "Side", "Size", "Entry", "Mark", "Liq", "uPnL"],
+      positions.map((p) => [
+        p.symbol,
+        p.side,
+        String(Math.abs(p.size)),
+        formatPrice(p.entryPrice),
+        p.markPrice === undefined ? "-" : formatPrice(p.markPrice),
+        p.liquidationPrice === undefined ? "-" : formatPrice(p.liquidationPrice),
+        formatUsd(p.unrealizedPnl),
+      ]),
+      "No open positions"
+    ),
+  };
+}
+
+/**
+ * List open orders
+ * @param exchange - Connected exchange
+ * @param symbol - Only this symbol
+ */
+export async function ordersCommand(exchange: IExchange, symbol?: string): Promise<CommandOutput> {
+  const orders = await exchange.getOpenOrders(symbol);
+  return {
+    value: orders,
+    lines: formatTable(
+      ["ID", "Symbol", "Side", "Type", "Price", "Size", "Filled", "Flags", "Time"],
+      orders.map((o) => [
+        o.id,
+        o.symbol,
+        o.side,
+        o.type,
+        formatPrice(o.price),
+        String(o.size),
+        String(o.filled),
+        [o.postOnly && "post-only", o.reduceOnly && "reduce-only"].filter(Boolean).join(","),
+        new Date(o.timestamp).toISOString(),
+      ]),
+      "No open orders"
+    ),
+  };
+}
+
+/**
+ * Cancel one order, looking up its symbol among the open orders when not given
+ * @param exchange - Connected exchange
+ * @param id - Order ID
+ * @param symbol - Symbol of the order
+ * @throws Error if no symbol is given and no open order has the ID
+ */
+export async function cancelCommand(
+  exchange: IExchange,
+  id: string,
+  symbol?: string
+): Promise<CommandOutput> {
+  let orderSymbol = symbol;
+  if (!orderSymbol) {
+    const order = (await exchange.getOpenOrders()).find((o) => o.id === id);
+    if (!order) {
+      throw new Error(`No open order with id ${id}`);
+    }
+    orderSymbol = order.symbol;
+  }
+  await exchange.cancelOrder(id, orderSymbol);
+  return { value: { canceled: [id] }, lines: [`Canceled order ${id} (${orderSymbol})`] };
+}
+
+/**
+ * Cancel all open orders, reporting the IDs that were open
+ * @param exchange - Connected exchange
+ * @param symbol - Only this symbol
+ */
+export async function cancelAllCommand(
+  exchange: IExchange,
+  symbol?: string
+): Promise<CommandOutput> {
+  const orders = await exchange.getOpenOrders(symbol);
+  await exchange.cancelAllOrders(symbol);
+  const ids = orders.map((o) => o.id);
+  const scope = symbol ? ` for ${symbol}` : "";
+  return {
+    value: { canceled: ids },
+    lines: [`Canceled ${ids.length} order${ids.length === 1 ? "" : "s"}${scope}`],
+  };
+}
+
+/**
+ * List tradable markets
+ * @param exchange - Connected exchange
+ * @param filter - Only markets whose symbol contains this text
+ */
+export async function marketsCommand(exchange: IExchange, filter?: string): Promise<CommandOutput> {
+  const text = filter?.toUpperCase();
+  const markets = (await exchange.getMarkets()).filter(
+    (m) => !text || m.symbol.toUpperCase().includes(text)
+  );
+  return {
+    value: markets,
+    lines: formatTable(
+      ["Symbol", "ID", "Tick", "Min Size", "Size Decimals"],
+      markets.map((m) => [
+        m.symbol,
+        m.id,
+        String(m.tickSize),
+        String(m.minSize),
+        String(m.sizePrecision),
+      ]),
+      "No markets found"
+    ),
+  };
+}
+
+/**
+ * Render a command's output as JSON or as its table
+ * @param output - Command output
+ * @param json - Print JSON instead of the table
+ */
+export function formatOutput(output: CommandOutput, json: boolean): string {
+  if (json) {
+    // Exchange-specific payloads are large and not part of the unified types
+    return JSON.stringify(output.value, (key, v) => (key === "raw" ? undefined : v), 2);
+  }
+  return output.lines.join("\n");
+}
+
+function formatTable(headers: string[], rows: string[][], empty = ""): string[] {
+  if (rows.length === 0) {
+    return [empty];
+  }
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const line = (cells: string[]) =>
+    cells
+      .map((c, i) => c.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+  return [line(headers), "-".repeat(line(headers).length), ...rows.map(line)];
+}
+
+function formatUsd(value: number): string {
+  const sign = value < 0 ? "-" : "";
+  return `${sign}$${Math.abs(value).toFixed(2)}`;
+}
+
+// Format price with appropriate decimal places based on magnitude
+function formatPrice(price: number): string {
+  if (price >= 1000) return price.toFixed(2);
+  if (price >= 1) return price.toFixed(4);
+  if (price >= 0.01) return price.toFixed(6);
+  return price.toFixed(8);
+}
@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+import { program } from "commander";
+import { config } from "dotenv";
+import {
+  type ExchangeName,
+  type IExchange,
+  createExchange,
+  getSupportedExchanges,
+} from "../exchanges/index.js";
+import { type LogLevel, logger } from "../utils/logger.js";
+import {
+  type CommandOutput,
+  balancesCommand,
+  cancelAllCommand,
+  cancelCommand,
+  formatOutput,
+  marketsCommand,
+  ordersCommand,
+  positionsCommand,
+} from "./account-commands.js";
+
+// Load environment variables
+config();
+
+// Keep connection logs out of tables and JSON unless asked for
+logger.setLevel((process.env.LOG_LEVEL as LogLevel) || "warn");
+
+program
+  .name("mm-account")
+  .description("Inspect and clean up an exchange account")
+  .version("1.0.0")
+  .requiredOption(
+    "-e, --exchange <exchange>",
+    `Exchange to use (${getSupportedExchanges().join(", ")})`,
+    process.env.EXCHANGE
+  )
+  .option("--json", "Print JSON instead of tables", false);
+
+program
+  .command("balances")
+  .description("Show equity and margin")
+  .action(() => run((exchange) => balancesCommand(exchange)));
+
+program
+  .command("positions")
+  .description("List open positions")
+  .action(() => run((exchange) => positionsCommand(exchange)));
+
+program
+  .command("orders")
+  .description("List open orders")
+  .option("-s, --symbol <symbol>", "Only this symbol")
+  .action((options) => run((exchange) => ordersCommand(exchange, options.symbol)));
+
+program
+  .command("cancel <id>")
+  .description("Cancel one order")
+  .option("-s, --symbol <symbol>", "Symbol of the order (looked up when omitted)")
+  .action((id: string, options) => run((exchange) => cancelCommand(exchange, id, options.symbol)));
+
+program
+  .command("cancel-all")
+  .description("Cancel all open orders")
+  .option("-s, --symbol <symbol>", "Only this symbol")
+  .action((options) => run((exchange) => cancelAllCommand(exchange, options.symbol)));
+
+program
+  .command("markets")
+  .description("List tradable markets")
+  .option("-f, --filter <text>", "Only markets whose symbol contains this text")
+  .action((options) => run((exchange) => marketsCommand(exchange, options.filter)));
+
+/**
+ * Connect to the selected exchange, run a command against it and disconnect
+ */
+async function run(command: (exchange: IExchange) => Promise<CommandOutput>): Promise<void> {
+  const exchangeName = program.opts().exchange?.toLowerCase() as ExchangeName;
+  if (!getSupportedExchanges().includes(exchangeName)) {
+    console.error(`Invalid exchange: ${program.opts().exchange}`);
+    console.error(`Supported exchanges: ${getSupportedExchanges().join(", ")}`);
+    process.exit(1);
+  }
+
+  const exchange = createExchange(exchangeName);
+  try {
+    await exchange.connect();
+    const output = await command(exchange);
+    console.log(formatOutput(output, program.opts().json));
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  } finally {
+    await exchange.disconnect().catch(() => undefined);
+  }
+  // Streams and keep-alive sockets may outlive disconnect
+  process.exit();
+}
+
+program.parseAsync(process.argv);
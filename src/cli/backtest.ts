@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from "node:fs";
+import { program } from "commander";
+import { type BacktestConfig, type BacktestResult, Backtester } from "../backtest/engine.js";
+import { readMarketData } from "../recorder/reader.js";
+import { logger } from "../utils/logger.js";
+
+program
+  .name("mm-backtest")
+  .description("Replay recorded order books and prices through the market maker")
+  .version("1.0.0")
+  .requiredOption("-d, --data <dir>", "Directory of recorded market data (*.jsonl, *.jsonl.gz)")
+  .requiredOption("-c, --config <file>", "Backtest config file (JSON)")
+  .option("--out <file>", "Write the inventory path as CSV")
+  .option("--json", "Print the full result as JSON", false)
+  .parse(process.argv);
+
+const options = program.opts();
+
+// Keep the report readable; LOG_LEVEL=debug shows every simulated order
+if (!process.env.LOG_LEVEL) {
+  logger.setLevel("warn");
+}
+
+/**
+ * Load and check the backtest config file
+ */
+function loadConfig(path: string): BacktestConfig {
+  let config: BacktestConfig;
+  try {
+    config = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Cannot read config file ${path}: ${(error as Error).message}`);
+  }
+  if (!config.symbol || !config.market) {
+    throw new Error(`${path} must define symbol and market`);
+  }
+  return config;
+}
+
+function formatUsd(value: number): string {
+  const sign = value < 0 ? "-" : "";
+  return `${sign}$${Math.abs(value).toFixed(2)}`;
+}
+
+function printResult(result: BacktestResult): void {
+  const hours = (result.endTs - result.startTs) / 3_600_000;
+  console.log("=== Backtest ===");
+  console.log(
+    `Period:       ${new Date(result.startTs).toISOString()} -> ${new Date(result.endTs).toISOString()} (${hours.toFixed(1)}h, ${result.events} events)`
+  );
+  console.log(
+    `Orders:       ${result.orders.placed} placed, ${result.orders.canceled} canceled, ${result.orders.rejected} rejected`
+  );
+  console.log(
+    `Fills:        ${result.fills.total} (${result.fills.buys} buys, ${result.fills.sells} sells), volume ${formatUsd(result.fills.volumeUsd)}`
+  );
+  console.log("");
+  console.log("=== PnL ===");
+  console.log(
+    `Realized:     ${formatUsd(result.pnl.realizedUsd)} (net of ${formatUsd(result.pnl.feesUsd)} fees)`
+  );
+  console.log(`Unrealized:   ${formatUsd(result.pnl.unrealizedUsd)}`);
+  console.log(`Total:        ${formatUsd(result.pnl.totalUsd)}`);
+  console.log(`Max drawdown: ${formatUsd(result.maxDrawdownUsd)}`);
+  console.log(`Max position: ${formatUsd(result.maxPositionUsd)}`);
+  console.log(`End position: ${result.finalPosition.toFixed(6)}`);
+  console.log("");
+
+  // Show at most ~20 points of the inventory path
+  console.log("=== Inventory ===");
+  console.log(
+    "Time".padEnd(22) +
+      "Size".padStart(14) +
+      "Notional".padStart(14) +
+      "Equity".padStart(12) +
+      "Fair".padStart(14)
+  );
+  const step = Math.max(1, Math.ceil(result.inventory.length / 20));
+  for (const [index, sample] of result.inventory.entries()) {
+    if (index % step !== 0 && index !== result.inventory.length - 1) continue;
+    console.log(
+      new Date(sample.ts).toISOString().slice(0, 19).padEnd(22) +
+        sample.size.toFixed(6).padStart(14) +
+        formatUsd(sample.notionalUsd).padStart(14) +
+        formatUsd(sample.equityUsd).padStart(12) +
+        (sample.fairPrice === null ? "N/A" : sample.fairPrice.toFixed(2)).padStart(14)
+    );
+  }
+}
+
+function writeInventoryCsv(path: string, result: BacktestResult): void {
+  const lines = ["ts,size,notional_usd,equity_usd,fair_price"];
+  for (const sample of result.inventory) {
+    lines.push(
+      [sample.ts, sample.size, sample.notionalUsd, sample.equityUsd, sample.fairPrice ?? ""].join(
+        ","
+      )
+    );
+  }
+  writeFileSync(path, `${lines.join("\n")}\n`);
+}
+
+async function main(): Promise<void> {
+  const backtester = new Backtester(loadConfig(options.config));
+  const result = await backtester.run(readMarketData(options.data));
+
+  if (options.out) {
+    writeInventoryCsv(options.out, result);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+  printResult(result);
+  if (options.out) {
+    console.log(`\nInventory path written to ${options.out}`);
+  }
+}
+
+main().catch((error) => {
+  console.error("Backtest failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,68 +1,118 @@
 #!/usr/bin/env node
 import { program } from "commander";
 import { config } from "dotenv";
-import { MarketMaker } from "../bots/mm/index.js";
-import { type ExchangeName, getSupportedExchanges } from "../exchanges/index.js";
-import type { PriceSource } from "../pricing/fair-price.js";
+import { ApiServer } from "../api/server.js";
+import { applyCredentials } from "../bots/mm/config-file.js";
+import { ConfigError } from "../bots/mm/config-schema.js";
+import {
+    MarketMaker,
+    type MarketMakerConfig,
+    MarketMakerGroup,
+    type MarketMakerStatus,
+} from "../bots/mm/index.js";
+import { ConfigReloader } from "../bots/mm/reload.js";
 import { logger } from "../utils/logger.js";
+import { type BotConfig, addConfigOptions, resolveBotConfig } from "./config-options.js";
 
 // Load environment variables
 config();
 
-const SUPPORTED_PRICE_SOURCES: PriceSource[] = ["binance", "hyperliquid", "hyperps"];
-
 program
     .name("mm-bot")
     .description("Multi-exchange perpetuals market maker bot")
-    .version("1.0.0")
-    .requiredOption(
-        "-e, --exchange <exchange>",
-        `Exchange to trade on (${getSupportedExchanges().join(", ")})`,
-        process.env.EXCHANGE
+    .version("1.0.0");
+addConfigOptions(program)
+    .option(
+        "--flatten-on-exit",
+        "Close the position with reduce-only orders on shutdown",
+        process.env.FLATTEN_ON_EXIT === "true"
     )
-    .requiredOption("-s, --symbol <symbol>", "Trading symbol (e.g., BTC, ETH)", process.env.SYMBOL)
     .option(
-        "-p, --price-source <source>",
-        `Price oracle source (${SUPPORTED_PRICE_SOURCES.join(", ")})`,
-        process.env.PRICE_SOURCE || "binance"
+        "--api-port <port>",
+        "Serve the status/control API on this port (requires API_TOKEN)",
+        process.env.API_PORT
     )
-    .option("--spread-bps <bps>", "Spread in basis points", process.env.SPREAD_BPS)
-    .option("--order-size <usd>", "Order size in USD", process.env.ORDER_SIZE_USD)
-    .option("--close-threshold <usd>", "Close mode threshold in USD", process.env.CLOSE_THRESHOLD_USD)
-    .option("--max-position <usd>", "Maximum position in USD", process.env.MAX_POSITION_USD)
-    .option("--warmup <seconds>", "Warmup period in seconds", process.env.WARMUP_SECONDS)
+    .option("--api-host <host>", "Interface for the API server", process.env.API_HOST || "127.0.0.1")
     .parse(process.argv);
 
 const options = program.opts();
 
-// Validate exchange
-const exchange = options.exchange?.toLowerCase() as ExchangeName;
-if (!getSupportedExchanges().includes(exchange)) {
-    console.error(`Invalid exchange: ${options.exchange}`);
-    console.error(`Supported exchanges: ${getSupportedExchanges().join(", ")}`);
+// Resolve each symbol's config from flags, the config file and the environment
+let botConfig: BotConfig;
+try {
+    botConfig = resolveBotConfig(program);
+    if (botConfig.file) {
+        applyCredentials(botConfig.file);
+    }
+} catch (error) {
+    if (!(error instanceof ConfigError)) {
+        throw error;
+    }
+    console.error(error.message);
     process.exit(1);
 }
-
-// Validate price source
-const priceSource = options.priceSource?.toLowerCase() as PriceSource;
-if (!SUPPORTED_PRICE_SOURCES.includes(priceSource)) {
-    console.error(`Invalid price source: ${options.priceSource}`);
-    console.error(`Supported sources: ${SUPPORTED_PRICE_SOURCES.join(", ")}`);
-    process.exit(1);
+const { exchange, symbols, configs } = botConfig;
+
+// Create and start market maker (a group when quoting several symbols)
+let mm: MarketMaker | MarketMakerGroup;
+if (symbols.length > 1 || botConfig.hasSymbolOverrides) {
+    const symbolConfigs: Record<string, Partial<MarketMakerConfig>> = {};
+    for (const symbol of symbols) {
+        symbolConfigs[symbol] = configs[symbol].config;
+    }
+    // The shared exchange connection takes its paper underlying from the first symbol
+    const { paperUnderlying } = configs[symbols[0]].config;
+    mm = new MarketMakerGroup(exchange, symbols, { paperUnderlying }, symbolConfigs);
+} else {
+    mm = new MarketMaker(exchange, symbols[0], configs[symbols[0]].config);
+}
+const priceSource = configs[symbols[0]].config.priceSource;
+
+// Apply live-tunable changes from the config file (or on SIGHUP) without restarting
+const reloader = new ConfigReloader(
+    mm,
+    () => {
+        const reloaded = resolveBotConfig(program).configs;
+        return Object.fromEntries(Object.entries(reloaded).map(([s, r]) => [s, r.config]));
+    },
+    { path: botConfig.file?.path }
+);
+
+// Status/control API
+let api: ApiServer | null = null;
+if (options.apiPort) {
+    const apiPort = Number.parseInt(options.apiPort, 10);
+    if (Number.isNaN(apiPort) || apiPort < 0 || apiPort > 65535) {
+        console.error(`Invalid API port: ${options.apiPort}`);
+        process.exit(1);
+    }
+    if (!process.env.API_TOKEN) {
+        console.error("API_TOKEN is required with --api-port");
+        process.exit(1);
+    }
+    api = new ApiServer(mm, {
+        port: apiPort,
+        host: options.apiHost,
+        token: process.env.API_TOKEN,
+    });
 }
 
-// Build config overrides from CLI options
-const configOverrides: Record<string, unknown> = {};
-configOverrides.priceSource = priceSource;
-if (options.spreadBps) configOverrides.spreadBps = Number.parseInt(options.spreadBps, 10);
-if (options.orderSize) configOverrides.orderSizeUsd = Number.parseFloat(options.orderSize);
-if (options.closeThreshold)
-    configOverrides.closeThresholdUsd = Number.parseFloat(options.closeThreshold);
-if (options.maxPosition) configOverrides.maxPositionUsd = Number.parseFloat(options.maxPosition);
-if (options.warmup) configOverrides.warmupSeconds = Number.parseInt(options.warmup, 10);
-
-// Create and start market maker
-const mm = new MarketMaker(exchange, options.symbol, configOverrides);
+/**
+ * Log one status line for an engine
+ */
+function logStatus(status: MarketMakerStatus): void {
+    logger.info(
+        `Status [${status.symbol}]: ${status.state} | Source: ${status.priceSource} [${status.liveSources.join(",") || "none"}] | Fair: $${status.fairPrice?.toFixed(2) || "N/A"}` +
+            `${status.isPriceStale ? " (STALE)" : ""} | ` +
+            `Position: ${status.position.side} $${status.position.notional.toFixed(2)} | ` +
+            `PnL: $${status.position.pnl.toFixed(2)} | ` +
+            `Skew: ${status.skewBps.toFixed(1)}bps | ` +
+            `Margin: ${(status.marginRatio * 100).toFixed(1)}% | ` +
+            `Day: $${status.risk.dailyPnl.toFixed(2)} DD: $${status.risk.drawdown.toFixed(2)}` +
+            `${status.risk.haltReason ? ` (HALTED: ${status.risk.haltReason})` : ""} | ` +
+            `Close Mode: ${status.isCloseMode}`
+    );
+}
 
 // Handle shutdown signals
 let isShuttingDown = false;
@@ -74,7 +124,9 @@ async function shutdown(signal: string): Promise<void> {
     logger.info(`Received ${signal}, shutting down...`);
 
     try {
-        await mm.stop();
+        reloader.stop();
+        await api?.stop();
+        await mm.stop({ flatten: options.flattenOnExit });
         logger.info("Shutdown complete");
         process.exit(0);
     } catch (error) {
@@ -87,22 +139,24 @@ process.on("SIGINT", () => shutdown("SIGINT"));
 process.on("SIGTERM", () => shutdown("SIGTERM"));
 
 // Start the bot
-logger.info(`Starting market maker: ${exchange} ${options.symbol} (price source: ${priceSource})`);
+logger.info(
+    `Starting market maker: ${exchange} ${symbols.join(",")} (price source: ${priceSource})`
+);
+
+// Listen for SIGHUP before the warmup, whose default action would kill the bot
+reloader.start();
 
-mm.start()
+(api ? api.start() : Promise.resolve())
+    .then(() => mm.start())
     .then(() => {
         logger.info("Market maker started successfully");
 
         // Log status periodically
         setInterval(() => {
             const status = mm.getStatus();
-            logger.info(
-                `Status: ${status.state} | Source: ${status.priceSource} | Fair: $${status.fairPrice?.toFixed(2) || "N/A"} | ` +
-                `Position: ${status.position.side} $${status.position.notional.toFixed(2)} | ` +
-                `PnL: $${status.position.pnl.toFixed(2)} | ` +
-                `Margin: ${(status.marginRatio * 100).toFixed(1)}% | ` +
-                `Close Mode: ${status.isCloseMode}`
-            );
+            for (const s of Array.isArray(status) ? status : [status]) {
+                logStatus(s);
+            }
         }, 10000);
     })
     .catch((error) => {
@@ -0,0 +1,239 @@
+import type { Command } from "commander";
+import {
+  type ConfigFile,
+  type ConfigOrigin,
+  type ResolvedConfig,
+  loadConfigFile,
+  resolveConfig,
+} from "../bots/mm/config-file.js";
+import { ConfigError, checkConfigFields } from "../bots/mm/config-schema.js";
+import { type MarketMakerConfig, loadConfigFromEnv, parseConfigString } from "../bots/mm/config.js";
+import { type ExchangeName, getSupportedExchanges } from "../exchanges/index.js";
+
+/**
+ * Flags that set a config field, by commander attribute name
+ */
+const FLAG_FIELDS: Record<string, keyof MarketMakerConfig> = {
+  exchange: "exchange",
+  priceSource: "priceSource",
+  priceSources: "priceSources",
+  priceAggregation: "priceAggregation",
+  spreadBps: "spreadBps",
+  orderSize: "orderSizeUsd",
+  levels: "quoteLevels",
+  maxSideNotional: "maxSideNotionalUsd",
+  skewRiskAversion: "skewRiskAversion",
+  closeThreshold: "closeThresholdUsd",
+  maxPosition: "maxPositionUsd",
+  warmup: "warmupSeconds",
+  maxDailyLoss: "maxDailyLossUsd",
+  maxDrawdown: "maxDrawdownUsd",
+  flattenOnHalt: "flattenOnHalt",
+  flattenMaxSlippage: "flattenMaxSlippageBps",
+  flattenTimeout: "flattenTimeoutMs",
+  paperUnderlying: "paperUnderlying",
+  journalDir: "journalDir",
+};
+
+/**
+ * Config of a bot run: the exchange, the symbols and each symbol's resolved config
+ */
+export interface BotConfig {
+  exchange: ExchangeName;
+  symbols: string[];
+  configs: Record<string, ResolvedConfig>;
+  file?: ConfigFile;
+  /** Whether per-symbol overrides were given outside the config file */
+  hasSymbolOverrides: boolean;
+}
+
+/**
+ * Add the options that make up the market maker config to a command
+ * Flags have no defaults: unset values come from the config file, the environment
+ * (see CONFIG_SCHEMA) or the defaults, in that order
+ * @param command - Command to extend
+ */
+export function addConfigOptions(command: Command): Command {
+  return command
+    .option("-c, --config <file>", "YAML or JSON config file", process.env.MM_CONFIG)
+    .option("--profile <name>", "Config file profile for every symbol", process.env.MM_PROFILE)
+    .option(
+      "-e, --exchange <exchange>",
+      `Exchange to trade on (${getSupportedExchanges().join(", ")})`
+    )
+    .option("-s, --symbol <symbol>", "Trading symbol (e.g., BTC, ETH)")
+    .option("--symbols <list>", "Comma-separated symbols to quote in one process (e.g., BTC,ETH)")
+    .option(
+      "--symbol-overrides <json>",
+      'Per-symbol config overrides as JSON (e.g., \'{"ETH":{"spreadBps":15}}\')'
+    )
+    .option(
+      "-p, --price-source <source>",
+      "Price oracle source (binance, hyperliquid, hyperps, composite)"
+    )
+    .option(
+      "--price-sources <spec>",
+      "Composite sources as source:weight[:staleMs] (e.g., binance:0.5,hyperliquid:0.3,venue:0.2)"
+    )
+    .option("--price-aggregation <method>", "Composite aggregation (weighted, median, trimmed)")
+    .option("--spread-bps <bps>", "Spread in basis points")
+    .option("--order-size <usd>", "Order size in USD")
+    .option(
+      "--levels <spec>",
+      "Quote ladder as spreadBps:sizeMultiplier pairs (e.g., 10:1,20:1.5,40:2)"
+    )
+    .option("--max-side-notional <usd>", "Maximum notional quoted per side in USD")
+    .option("--skew-risk-aversion <gamma>", "Inventory skew risk aversion (0 = disabled)")
+    .option("--close-threshold <usd>", "Close mode threshold in USD")
+    .option("--max-position <usd>", "Maximum position in USD")
+    .option("--warmup <seconds>", "Warmup period in seconds")
+    .option("--max-daily-loss <usd>", "Halt when the UTC day's PnL falls this far below zero")
+    .option("--max-drawdown <usd>", "Halt when PnL falls this far below its peak")
+    .option("--flatten-on-halt", "Close the position with reduce-only orders when halting")
+    .option(
+      "--flatten-max-slippage <bps>",
+      "Furthest a flatten limit order goes from the fair price"
+    )
+    .option(
+      "--flatten-timeout <ms>",
+      "Send what a flatten left open as a market order after this long"
+    )
+    .option(
+      "--paper-underlying <exchange>",
+      "Exchange providing market data for --exchange paper (aftermath, hyperliquid)"
+    )
+    .option(
+      "--journal-dir <dir>",
+      "Append orders, fills and positions to JSONL files in this directory"
+    );
+}
+
+/**
+ * Resolve the config of every symbol from the command's options, the config file and the
+ * environment
+ * @param command - Command set up with addConfigOptions, after parsing
+ * @throws ConfigError for invalid or missing values
+ */
+export function resolveBotConfig(command: Command): BotConfig {
+  const options = command.opts();
+  const file = options.config ? loadConfigFile(options.config) : undefined;
+  if (options.profile && !file) {
+    throw new ConfigError("--profile", ["a profile needs a config file (--config)"]);
+  }
+
+  // Flags
+  const cli: Record<string, unknown> = {};
+  const issues: string[] = [];
+  for (const [key, field] of Object.entries(FLAG_FIELDS)) {
+    const value = options[key];
+    if (value === undefined) {
+      continue;
+    }
+    try {
+      cli[field] = typeof value === "boolean" ? value : parseConfigString(field, value);
+    } catch (error) {
+      const flag = command.options.find((o) => o.attributeName() === key)?.long;
+      issues.push(`${flag}: ${(error as Error).message}`);
+    }
+  }
+  if (issues.length > 0) {
+    throw new ConfigError("command line", issues);
+  }
+
+  // Per-symbol overrides
+  const fromCli = options.symbolOverrides !== undefined;
+  const overridesJson: string | undefined = options.symbolOverrides ?? process.env.SYMBOL_OVERRIDES;
+  const symbolOverrides = overridesJson
+    ? parseSymbolOverrides(overridesJson, fromCli ? "--symbol-overrides" : "SYMBOL_OVERRIDES")
+    : undefined;
+
+  // Symbols: flags, then the file, then the environment
+  const env = loadConfigFromEnv();
+  const [symbols, symbolOrigin] = resolveSymbols(options, file);
+  if (symbols.length === 0) {
+    throw new ConfigError("command line", [
+      "a symbol is required (--symbol, --symbols, symbols in the config file, SYMBOL or SYMBOLS)",
+    ]);
+  }
+
+  const exchange = (cli.exchange ?? file?.settings.exchange ?? env.exchange) as
+    | ExchangeName
+    | undefined;
+  if (!exchange) {
+    throw new ConfigError("command line", [
+      "an exchange is required (--exchange, exchange in the config file or EXCHANGE)",
+    ]);
+  }
+
+  const configs: Record<string, ResolvedConfig> = {};
+  for (const symbol of symbols) {
+    configs[symbol] = resolveConfig(symbol, {
+      env,
+      envSymbols: fromCli ? undefined : symbolOverrides,
+      file,
+      profile: options.profile,
+      cli: cli as Partial<MarketMakerConfig>,
+      cliSymbols: fromCli ? symbolOverrides : undefined,
+      symbolOrigin,
+    });
+  }
+
+  return { exchange, symbols, configs, file, hasSymbolOverrides: symbolOverrides !== undefined };
+}
+
+function resolveSymbols(
+  options: Record<string, string | undefined>,
+  file: ConfigFile | undefined
+): [string[], ConfigOrigin] {
+  const split = (list: string) =>
+    list
+      .split(",")
+      .map((s) => s.trim())
+      .filter((s) => s.length > 0);
+
+  if (options.symbols) {
+    return [split(options.symbols), { source: "cli", detail: "--symbols" }];
+  }
+  if (options.symbol) {
+    return [[options.symbol], { source: "cli", detail: "--symbol" }];
+  }
+  if (file && Object.keys(file.symbols).length > 0) {
+    return [Object.keys(file.symbols), { source: "file", detail: `${file.path} symbols` }];
+  }
+  if (process.env.SYMBOLS) {
+    return [split(process.env.SYMBOLS), { source: "env", detail: "SYMBOLS" }];
+  }
+  if (process.env.SYMBOL) {
+    return [[process.env.SYMBOL], { source: "env", detail: "SYMBOL" }];
+  }
+  return [[], { source: "default" }];
+}
+
+function parseSymbolOverrides(
+  json: string,
+  source: string
+): Record<string, Partial<MarketMakerConfig>> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new ConfigError(source, [`invalid JSON: ${(error as Error).message}`]);
+  }
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new ConfigError(source, ["expected an object keyed by symbol"]);
+  }
+
+  const issues: string[] = [];
+  const overrides: Record<string, Partial<MarketMakerConfig>> = {};
+  for (const [symbol, value] of Object.entries(raw)) {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issues.push(`${symbol}: expected an object`);
+      continue;
+    }
+    overrides[symbol] = checkConfigFields(value, symbol, issues);
+  }
+  if (issues.length > 0) {
+    throw new ConfigError(source, issues);
+  }
+  return overrides;
+}
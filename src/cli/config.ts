@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+import { program } from "commander";
+import { config } from "dotenv";
+import { stringify as stringifyYaml } from "yaml";
+import { type ResolvedConfig, applyCredentials, formatOrigin } from "../bots/mm/config-file.js";
+import { CONFIG_SCHEMA, ConfigError } from "../bots/mm/config-schema.js";
+import type { MarketMakerConfig } from "../bots/mm/config.js";
+import { type BotConfig, addConfigOptions, resolveBotConfig } from "./config-options.js";
+
+// Load environment variables
+config();
+
+addConfigOptions(
+  program
+    .name("mm-config")
+    .description("Check and show the market maker config built from flags, file and environment")
+    .version("1.0.0")
+);
+
+program
+  .command("validate")
+  .description("Check the config of every symbol and the credential references")
+  .action(() =>
+    run((bot) => {
+      if (bot.file) {
+        // Resolve against a copy so nothing leaks into this process
+        applyCredentials(bot.file, { ...process.env });
+      }
+      const source = bot.file ? bot.file.path : "flags and environment";
+      console.log(`Config OK (${source}): ${bot.exchange} ${bot.symbols.join(",")}`);
+    })
+  );
+
+program
+  .command("print")
+  .description("Print the config file, or with --resolved the merged config of every symbol")
+  .option("--resolved", "Print the merged config with the source of each value", false)
+  .option("--json", "Print JSON instead of YAML or tables", false)
+  .action((options) =>
+    run((bot) => {
+      if (options.resolved) {
+        printResolved(bot.configs, options.json);
+        return;
+      }
+      if (!bot.file) {
+        throw new ConfigError("command line", ["print needs a config file (--config)"]);
+      }
+      const { path: _, settings, ...sections } = bot.file;
+      const content = { ...settings, ...sections };
+      console.log(
+        options.json ? JSON.stringify(content, null, 2) : stringifyYaml(content).trimEnd()
+      );
+    })
+  );
+
+/**
+ * Resolve the config and run a command with it, exiting 1 on config errors
+ */
+function run(action: (bot: BotConfig) => void): void {
+  try {
+    action(resolveBotConfig(program));
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      throw error;
+    }
+    console.error(error.message);
+    process.exit(1);
+  }
+}
+
+function printResolved(configs: Record<string, ResolvedConfig>, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(configs, null, 2));
+    return;
+  }
+  for (const [index, [symbol, resolved]] of Object.entries(configs).entries()) {
+    if (index > 0) {
+      console.log("");
+    }
+    console.log(symbol);
+    const fields = Object.keys(CONFIG_SCHEMA) as (keyof MarketMakerConfig)[];
+    const rows = fields.map((field) => {
+      const value = resolved.config[field];
+      return [
+        field,
+        typeof value === "object" ? JSON.stringify(value) : String(value),
+        formatOrigin(resolved.origins[field]),
+      ];
+    });
+    printTable(["Field", "Value", "Source"], rows);
+  }
+}
+
+function printTable(headers: string[], rows: string[][]): void {
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const line = (cells: string[]) =>
+    cells
+      .map((c, i) => c.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+  console.log(line(headers));
+  console.log("-".repeat(line(headers).length));
+  for (const row of rows) {
+    console.log(line(row));
+  }
+}
+
+program.parse(process.argv);
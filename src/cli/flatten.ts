@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+import { program } from "commander";
+import { config } from "dotenv";
+import { flattenPosition } from "../bots/mm/flatten.js";
+import { type ExchangeName, createExchange, getSupportedExchanges } from "../exchanges/index.js";
+import type { Orderbook } from "../types.js";
+import { logger } from "../utils/logger.js";
+
+// Load environment variables
+config();
+
+program
+  .name("mm-flatten")
+  .description("Cancel open orders and close a position with stepped reduce-only orders")
+  .version("1.0.0")
+  .requiredOption(
+    "-e, --exchange <exchange>",
+    `Exchange to use (${getSupportedExchanges().join(", ")})`,
+    process.env.EXCHANGE
+  )
+  .requiredOption("-s, --symbol <symbol>", "Trading symbol (e.g., BTC, ETH)", process.env.SYMBOL)
+  .option(
+    "--max-slippage <bps>",
+    "Furthest a limit order goes from the book mid",
+    process.env.FLATTEN_MAX_SLIPPAGE_BPS || "50"
+  )
+  .option("--step <bps>", "How far each step moves the order", "5")
+  .option("--step-interval <ms>", "How long each order rests before the next step", "2000")
+  .option(
+    "--timeout <ms>",
+    "Send what is left as a market order after this long",
+    process.env.FLATTEN_TIMEOUT_MS || "30000"
+  )
+  .option(
+    "--fallback-slippage <bps>",
+    "Price protection of the final market order (0 = no market order)",
+    "200"
+  )
+  .parse(process.argv);
+
+const options = program.opts();
+
+// Validate exchange
+const exchangeName = options.exchange?.toLowerCase() as ExchangeName;
+if (!getSupportedExchanges().includes(exchangeName)) {
+  console.error(`Invalid exchange: ${options.exchange}`);
+  console.error(`Supported exchanges: ${getSupportedExchanges().join(", ")}`);
+  process.exit(1);
+}
+
+const BOOK_TIMEOUT_MS = 10000;
+
+async function main(): Promise<void> {
+  const exchange = createExchange(exchangeName);
+  await exchange.connect();
+
+  let orderbook: Orderbook | null = null;
+  await new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(
+      () => reject(new Error(`No orderbook for ${options.symbol} after ${BOOK_TIMEOUT_MS}ms`)),
+      BOOK_TIMEOUT_MS
+    );
+    exchange
+      .subscribeOrderbook(options.symbol, (book) => {
+        orderbook = book;
+        if (book.bids.length > 0 && book.asks.length > 0) {
+          clearTimeout(timeout);
+          resolve();
+        }
+      })
+      .catch(reject);
+  });
+
+  // Resting quotes would keep the position open or reopen it
+  await exchange.cancelAllOrders(options.symbol);
+
+  const result = await flattenPosition(exchange, {
+    symbol: options.symbol,
+    maxSlippageBps: Number.parseFloat(options.maxSlippage),
+    stepBps: Number.parseFloat(options.step),
+    stepIntervalMs: Number.parseInt(options.stepInterval, 10),
+    timeoutMs: Number.parseInt(options.timeout, 10),
+    fallbackSlippageBps: Number.parseFloat(options.fallbackSlippage),
+    getOrderbook: () => orderbook,
+  });
+
+  console.log(
+    `${options.symbol}: ${result.startSize} -> ${result.remainingSize} ` +
+      `(${result.steps} limit orders${result.usedFallback ? ", market order fallback" : ""})`
+  );
+
+  await exchange.unsubscribeOrderbook(options.symbol);
+  await exchange.disconnect();
+  process.exit(result.remainingSize > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  logger.error("Flatten error:", error);
+  process.exit(1);
+});
@@ -2,6 +2,7 @@
 import { program } from "commander";
 import { config } from "dotenv";
 import { type ExchangeName, createExchange, getSupportedExchanges } from "../exchanges/index.js";
+import { type PriceAggregation, parseCompositeSources } from "../pricing/composite.js";
 import { FairPriceCalculator, type PriceSource } from "../pricing/fair-price.js";
 import type { Orderbook, Position } from "../types.js";
 import { logger } from "../utils/logger.js";
@@ -19,7 +20,21 @@ program
     process.env.EXCHANGE
   )
   .requiredOption("-s, --symbol <symbol>", "Trading symbol (e.g., BTC, ETH)", process.env.SYMBOL)
-  .option("--price-source <source>", "Price source: binance, hyperliquid, hyperps", "binance")
+  .option(
+    "--price-source <source>",
+    "Price source: binance, hyperliquid, hyperps, composite",
+    "binance"
+  )
+  .option(
+    "--price-sources <spec>",
+    "Composite sources as source:weight[:staleMs] (e.g., binance:0.5,venue:0.5)",
+    process.env.PRICE_SOURCES
+  )
+  .option(
+    "--price-aggregation <method>",
+    "Composite aggregation: weighted, median, trimmed",
+    process.env.PRICE_AGGREGATION || "weighted"
+  )
   .option("--refresh <ms>", "Refresh interval in milliseconds", "1000")
   .parse(process.argv);
 
@@ -73,6 +88,13 @@ function render(): void {
   } else {
     console.log("  Waiting for price data...");
   }
+  for (const source of fairPriceCalc?.getSourceStatus() ?? []) {
+    const price = source.price !== null ? `$${formatPrice(source.price)}` : "N/A";
+    const age = source.ageMs !== null ? `${(source.ageMs / 1000).toFixed(1)}s ago` : "never";
+    console.log(
+      `  ${source.live ? "+" : "-"} ${source.source.padEnd(12)} ${price} (w=${source.weight}, ${age})`
+    );
+  }
   console.log("");
 
   // Orderbook
@@ -150,6 +172,8 @@ async function main(): Promise<void> {
   // Create fair price calculator with price source
   fairPriceCalc = new FairPriceCalculator(options.symbol, {
     priceSource: priceSource,
+    sources: options.priceSources ? parseCompositeSources(options.priceSources) : [],
+    aggregation: options.priceAggregation as PriceAggregation,
     isTestnet: process.env.HL_TESTNET === "true",
   });
 
@@ -160,6 +184,10 @@ async function main(): Promise<void> {
   // Subscribe to orderbook
   await exchange.subscribeOrderbook(options.symbol, (book) => {
     orderbook = book;
+    if (book.bids.length > 0 && book.asks.length > 0) {
+      const mid = (book.bids[0][0] + book.asks[0][0]) / 2;
+      fairPriceCalc?.updateVenuePrice(mid, book.timestamp || Date.now());
+    }
   });
 
   // Subscribe to fair price
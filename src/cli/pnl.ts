@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+import { program } from "commander";
+import { config } from "dotenv";
+import { type JournalRecord, readJournal } from "../journal/index.js";
+import { type PnlRow, summarizePnl } from "../journal/pnl.js";
+
+// Load environment variables
+config();
+
+program
+  .name("mm-pnl")
+  .description("Report realized PnL, fees, volume and spread captured from the bot journal")
+  .version("1.0.0")
+  .option("-d, --dir <dir>", "Journal directory", process.env.JOURNAL_DIR || "journal")
+  .option("-e, --exchange <exchange>", "Only this exchange")
+  .option("-s, --symbol <symbol>", "Only this symbol")
+  .option("--run <id>", "Only this run id")
+  .option("--since <date>", "First UTC day to include (YYYY-MM-DD)")
+  .option("--until <date>", "Last UTC day to include (YYYY-MM-DD)")
+  .option("--json", "Print JSON instead of tables", false)
+  .parse(process.argv);
+
+const options = program.opts();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+for (const name of ["since", "until"] as const) {
+  if (options[name] && !DATE_PATTERN.test(options[name])) {
+    console.error(`Invalid --${name} date: ${options[name]} (expected YYYY-MM-DD)`);
+    process.exit(1);
+  }
+}
+
+function formatUsd(value: number): string {
+  const sign = value < 0 ? "-" : "";
+  return `${sign}$${Math.abs(value).toFixed(2)}`;
+}
+
+function printTable(title: string, rows: PnlRow[]): void {
+  console.log(`=== ${title} ===`);
+  console.log(
+    "Day".padEnd(12) +
+      "Exchange".padEnd(12) +
+      "Symbol".padEnd(10) +
+      "Fills".padStart(7) +
+      "Volume".padStart(14) +
+      "Fees".padStart(11) +
+      "Realized".padStart(12) +
+      "Net PnL".padStart(12) +
+      "Maker%".padStart(8) +
+      "Spread(bps)".padStart(13)
+  );
+  console.log("-".repeat(111));
+
+  for (const row of rows) {
+    console.log(
+      row.day.padEnd(12) +
+        row.exchange.padEnd(12) +
+        row.symbol.padEnd(10) +
+        String(row.fills).padStart(7) +
+        formatUsd(row.volumeUsd).padStart(14) +
+        formatUsd(row.feesUsd).padStart(11) +
+        formatUsd(row.realizedPnlUsd).padStart(12) +
+        formatUsd(row.netPnlUsd).padStart(12) +
+        `${(row.makerRatio * 100).toFixed(1)}%`.padStart(8) +
+        (row.avgSpreadBps === null ? "N/A" : row.avgSpreadBps.toFixed(2)).padStart(13)
+    );
+  }
+  console.log("");
+}
+
+async function main(): Promise<void> {
+  const records: JournalRecord[] = [];
+  for await (const record of readJournal(options.dir, {
+    exchange: options.exchange,
+    symbol: options.symbol,
+    runId: options.run,
+    since: options.since,
+    until: options.until,
+  })) {
+    if (record.type === "fill") {
+      records.push(record);
+    }
+  }
+
+  const daily = summarizePnl(records, "day");
+  const totals = summarizePnl(records, "total");
+
+  if (options.json) {
+    console.log(JSON.stringify({ daily, totals }, null, 2));
+    return;
+  }
+
+  if (records.length === 0) {
+    console.log(`No fills found in ${options.dir}`);
+    return;
+  }
+
+  printTable("Daily PnL", daily);
+  printTable("Totals", totals);
+}
+
+main().catch((error) => {
+  console.error("Failed to read journal:", error);
+  process.exit(1);
+});
@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+import { program } from "commander";
+import { config } from "dotenv";
+import { type ExchangeName, createExchange, getSupportedExchanges } from "../exchanges/index.js";
+import { type PriceAggregation, parseCompositeSources } from "../pricing/composite.js";
+import { type PriceSource, createPriceFeed, getSupportedPriceSources } from "../pricing/index.js";
+import { MarketDataRecorder } from "../recorder/index.js";
+import { logger } from "../utils/logger.js";
+
+// Load environment variables
+config();
+
+program
+  .name("mm-record")
+  .description("Record order books, trades and prices for backtesting and replay")
+  .version("1.0.0")
+  .requiredOption(
+    "-e, --exchange <exchange>",
+    `Exchange to record (${getSupportedExchanges().join(", ")})`,
+    process.env.EXCHANGE
+  )
+  .requiredOption("-s, --symbol <symbol>", "Trading symbol (e.g., BTC, ETH)", process.env.SYMBOL)
+  .option(
+    "-p, --price-source <source>",
+    `Price source to record (${getSupportedPriceSources().join(", ")}, or none)`,
+    process.env.PRICE_SOURCE || "binance"
+  )
+  .option(
+    "--price-sources <spec>",
+    "Composite sources as source:weight[:staleMs] (e.g., binance:0.5,venue:0.5)",
+    process.env.PRICE_SOURCES
+  )
+  .option(
+    "--price-aggregation <method>",
+    "Composite aggregation: weighted, median, trimmed",
+    process.env.PRICE_AGGREGATION || "weighted"
+  )
+  .option("-o, --out <dir>", "Output directory", process.env.RECORD_DIR || "data")
+  .option("--rotate <minutes>", "Start a new file every this many minutes", "60")
+  .option("--snapshot <seconds>", "Write a full book snapshot at least this often", "60")
+  .option("--depth <levels>", "Book levels recorded per side", "20")
+  .option("--no-trades", "Do not record public trades")
+  .parse(process.argv);
+
+const options = program.opts();
+
+// Validate exchange
+const exchangeName = options.exchange?.toLowerCase() as ExchangeName;
+if (!getSupportedExchanges().includes(exchangeName)) {
+  console.error(`Invalid exchange: ${options.exchange}`);
+  console.error(`Supported exchanges: ${getSupportedExchanges().join(", ")}`);
+  process.exit(1);
+}
+
+// Validate price source ("none" records the book only)
+const priceSource = options.priceSource.toLowerCase() as PriceSource | "none";
+if (priceSource !== "none" && !getSupportedPriceSources().includes(priceSource)) {
+  console.error(`Invalid price source: ${options.priceSource}`);
+  console.error(`Supported sources: ${getSupportedPriceSources().join(", ")}, none`);
+  process.exit(1);
+}
+if (priceSource === "composite" && !options.priceSources) {
+  console.error("--price-sources is required with --price-source composite");
+  process.exit(1);
+}
+
+const rotateMinutes = Number.parseFloat(options.rotate);
+const snapshotSeconds = Number.parseFloat(options.snapshot);
+const depth = Number.parseInt(options.depth, 10);
+for (const [name, value] of [
+  ["rotate", rotateMinutes],
+  ["snapshot", snapshotSeconds],
+  ["depth", depth],
+] as const) {
+  if (!(value > 0)) {
+    console.error(`Invalid --${name}: ${options[name]}`);
+    process.exit(1);
+  }
+}
+
+let sources: ReturnType<typeof parseCompositeSources> | undefined;
+if (options.priceSources) {
+  try {
+    sources = parseCompositeSources(options.priceSources);
+  } catch (error) {
+    console.error(`Invalid --price-sources: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+const symbol: string = options.symbol;
+const recorder = new MarketDataRecorder(createExchange(exchangeName), symbol, {
+  dir: options.out,
+  rotateMs: rotateMinutes * 60_000,
+  snapshotIntervalMs: snapshotSeconds * 1000,
+  depth,
+  trades: options.trades,
+  priceSource: priceSource === "none" ? undefined : priceSource,
+  priceFeed:
+    priceSource === "none"
+      ? undefined
+      : (onPrice) =>
+          createPriceFeed(priceSource, symbol, onPrice, {
+            isTestnet: process.env.HL_TESTNET === "true",
+            sources,
+            aggregation: options.priceAggregation as PriceAggregation,
+          }),
+});
+
+// Handle shutdown signals
+let isShuttingDown = false;
+
+async function shutdown(signal: string): Promise<void> {
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+
+  logger.info(`Received ${signal}, closing files...`);
+  try {
+    await recorder.stop();
+    process.exit(0);
+  } catch (error) {
+    logger.error("Error during shutdown:", error);
+    process.exit(1);
+  }
+}
+
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+
+recorder
+  .start()
+  .then(() => {
+    // Log what has been written periodically
+    setInterval(() => {
+      const stats = recorder.getStats();
+      logger.info(
+        `Recorded: ${stats.snapshots} snapshots, ${stats.deltas} deltas, ${stats.prices} prices, ${stats.trades} trades (${stats.files} files)`
+      );
+    }, 60_000);
+  })
+  .catch((error) => {
+    logger.error("Failed to start recorder:", error);
+    process.exit(1);
+  });
@@ -16,7 +16,7 @@ interface AftermathAccount {
 /**
  * Aftermath Position Response from /api/ccxt/positions
  */
-interface AftermathPosition {
+export interface AftermathPosition {
   id?: string;
   symbol: string;
   side?: "long" | "short";
@@ -208,19 +208,27 @@ export async function getPositions(
 
   return positions
     .filter((p) => p.contracts && p.contracts !== 0) // Only non-zero positions
-    .map((p) => ({
-      symbol: p.symbol,
-      side: p.side || (p.contracts && p.contracts > 0 ? "long" : "short"),
-      size: p.contracts || 0,
-      entryPrice: p.entryPrice || 0,
-      markPrice: p.markPrice,
-      liquidationPrice: p.liquidationPrice,
-      unrealizedPnl: p.unrealizedPnl || 0,
-      realizedPnl: p.realizedPnl,
-      leverage: p.leverage,
-      margin: p.collateral || p.initialMargin,
-      raw: p,
-    }));
+    .map(toPosition);
+}
+
+/**
+ * Map an Aftermath position to the common Position type
+ * A position without contracts maps to side "none" and size 0
+ */
+export function toPosition(p: AftermathPosition): Position {
+  return {
+    symbol: p.symbol,
+    side: !p.contracts ? "none" : p.side || (p.contracts > 0 ? "long" : "short"),
+    size: p.contracts || 0,
+    entryPrice: p.entryPrice || 0,
+    markPrice: p.markPrice,
+    liquidationPrice: p.liquidationPrice,
+    unrealizedPnl: p.unrealizedPnl || 0,
+    realizedPnl: p.realizedPnl,
+    leverage: p.leverage,
+    margin: p.collateral || p.initialMargin,
+    raw: p,
+  };
 }
 
 /**
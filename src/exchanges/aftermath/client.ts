@@ -1,19 +1,97 @@
 import { logger } from "../../utils/logger.js";
+import { RateLimiter } from "../../utils/rate-limiter.js";
+
+/**
+ * Error response from the Aftermath API
+ */
+export class AftermathApiError extends Error {
+  /**
+   * @param method - HTTP method
+   * @param endpoint - API endpoint path
+   * @param status - HTTP status code
+   * @param body - Response body (parsed JSON, or the raw text if it is not JSON)
+   */
+  constructor(
+    readonly method: string,
+    readonly endpoint: string,
+    readonly status: number,
+    readonly body: unknown,
+    statusText = ""
+  ) {
+    const detail = typeof body === "string" ? body : JSON.stringify(body);
+    super(`Aftermath API ${method} ${endpoint} failed: ${status} ${statusText} - ${detail}`);
+    this.name = "AftermathApiError";
+  }
+
+  /**
+   * Whether the request may succeed if sent again (rate limited or a server error)
+   */
+  get retryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+/**
+ * Timeout, retry and rate limit settings of the client
+ */
+export interface AftermathClientConfig {
+  /** Abort a request after this long (default: 10000) */
+  timeoutMs?: number;
+  /** Retries after the first attempt (default: 3) */
+  maxRetries?: number;
+  /** Backoff before the first retry, doubled for each further one (default: 250) */
+  retryBaseDelayMs?: number;
+  /** Longest backoff between retries (default: 5000) */
+  retryMaxDelayMs?: number;
+  /** Requests per second sent at most, 0 to disable (default: 10) */
+  requestsPerSecond?: number;
+}
+
+/**
+ * Per-request overrides
+ */
+export interface AftermathRequestOptions {
+  /** Abort after this long instead of the client's timeout */
+  timeoutMs?: number;
+  /** Whether the request is safe to send twice (default: all but submit/* endpoints) */
+  idempotent?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 250;
+const DEFAULT_RETRY_MAX_DELAY_MS = 5_000;
+const DEFAULT_REQUESTS_PER_SECOND = 10;
 
 /**
  * Aftermath API Client
  * HTTP client for Aftermath CCXT REST API
+ * Requests are rate limited and time out. Idempotent requests (reads and transaction builds)
+ * are retried with exponential backoff and jitter on network errors, timeouts, 429 and 5xx.
+ * Submissions may already have executed when they fail, so they are only retried on 429.
  */
 export class AftermathClient {
   private baseUrl: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private retryMaxDelayMs: number;
+  private limiter: RateLimiter | null;
 
   /**
    * Create a new Aftermath API client
    * @param baseUrl - Base URL for Aftermath API (e.g., https://mainnet-perpetuals-preview.aftermath.finance)
+   * @param config - Timeout, retry and rate limit settings
    */
-  constructor(baseUrl?: string) {
+  constructor(baseUrl?: string, config: AftermathClientConfig = {}) {
     this.baseUrl =
       baseUrl || process.env.AF_BASE_URL || "https://aftermath.finance";
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+    this.retryMaxDelayMs = config.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+    const requestsPerSecond = config.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND;
+    this.limiter = requestsPerSecond > 0 ? new RateLimiter(requestsPerSecond) : null;
     logger.info(`AftermathClient initialized with base URL: ${this.baseUrl}`);
   }
 
@@ -21,9 +99,14 @@ export class AftermathClient {
    * Make a GET request to the Aftermath API
    * @param endpoint - API endpoint path (e.g., /api/ccxt/markets)
    * @param params - Optional query parameters
+   * @param options - Per-request overrides
    * @returns Response data
    */
-  async get<T>(endpoint: string, params?: Record<string, string>): Promise<T> {
+  async get<T>(
+    endpoint: string,
+    params?: Record<string, string>,
+    options?: AftermathRequestOptions
+  ): Promise<T> {
     const url = new URL(endpoint, this.baseUrl);
 
     // Add query parameters if provided
@@ -33,72 +116,128 @@ export class AftermathClient {
       }
     }
 
-    logger.debug(`GET ${url.toString()}`);
-
-    try {
-      const response = await fetch(url.toString(), {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-        },
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `Aftermath API GET ${endpoint} failed: ${response.status} ${response.statusText} - ${errorText}`
-        );
-      }
-
-      const data = (await response.json()) as T;
-      logger.debug(`GET ${endpoint} response`, data);
-      return data;
-    } catch (error) {
-      logger.error(`Aftermath API GET ${endpoint} error:`, error);
-      throw error;
-    }
+    return this.request<T>("GET", endpoint, url, undefined, options);
   }
 
   /**
    * Make a POST request to the Aftermath API
    * @param endpoint - API endpoint path (e.g., /api/ccxt/orderbook)
    * @param body - Request body (will be JSON stringified)
+   * @param options - Per-request overrides
    * @returns Response data
    */
-  async post<T>(endpoint: string, body?: unknown): Promise<T> {
-    const url = new URL(endpoint, this.baseUrl);
+  async post<T>(endpoint: string, body?: unknown, options?: AftermathRequestOptions): Promise<T> {
+    return this.request<T>("POST", endpoint, new URL(endpoint, this.baseUrl), body, options);
+  }
 
-    logger.debug(`POST ${url.toString()}`, body);
+  /**
+   * Get the base URL of the client
+   */
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Send a request, retrying it while the failure is retryable
+   */
+  private async request<T>(
+    method: string,
+    endpoint: string,
+    url: URL,
+    body: unknown,
+    options: AftermathRequestOptions = {}
+  ): Promise<T> {
+    const idempotent = options.idempotent ?? !endpoint.startsWith("/api/ccxt/submit/");
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.limiter?.acquire();
+      logger.debug(`${method} ${url.toString()}`, body);
+
+      try {
+        const data = await this.send<T>(method, endpoint, url, body, timeoutMs);
+        logger.debug(`${method} ${endpoint} response`, data);
+        return data;
+      } catch (error) {
+        const retryable =
+          error instanceof AftermathApiError
+            ? error.status === 429 || (idempotent && error.retryable)
+            : idempotent;
+        if (!retryable || attempt >= this.maxRetries) {
+          logger.error(`Aftermath API ${method} ${endpoint} error:`, error);
+          throw error;
+        }
+
+        const delayMs = this.backoff(attempt);
+        logger.warn(
+          `Aftermath API ${method} ${endpoint} failed (${error instanceof Error ? error.message : error}), retry ${attempt + 1}/${this.maxRetries} in ${delayMs}ms`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Send a request once, aborting it after the timeout
+   */
+  private async send<T>(
+    method: string,
+    endpoint: string,
+    url: URL,
+    body: unknown,
+    timeoutMs: number
+  ): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
     try {
       const response = await fetch(url.toString(), {
-        method: "POST",
+        method,
         headers: {
           "Content-Type": "application/json",
         },
         body: body ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
       });
 
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(
-          `Aftermath API POST ${endpoint} failed: ${response.status} ${response.statusText} - ${errorText}`
+        throw new AftermathApiError(
+          method,
+          endpoint,
+          response.status,
+          parseBody(errorText),
+          response.statusText
         );
       }
 
-      const data = (await response.json()) as T;
-      logger.debug(`POST ${endpoint} response`, data);
-      return data;
+      return (await response.json()) as T;
     } catch (error) {
-      logger.error(`Aftermath API POST ${endpoint} error:`, error);
+      if (controller.signal.aborted) {
+        throw new Error(`Aftermath API ${method} ${endpoint} timed out after ${timeoutMs}ms`);
+      }
       throw error;
+    } finally {
+      clearTimeout(timeout);
     }
   }
 
   /**
-   * Get the base URL of the client
+   * Exponential backoff with jitter: a random delay between half and all of the capped step
    */
-  getBaseUrl(): string {
-    return this.baseUrl;
+  private backoff(attempt: number): number {
+    const step = Math.min(this.retryMaxDelayMs, this.retryBaseDelayMs * 2 ** attempt);
+    return Math.round(step / 2 + Math.random() * (step / 2));
+  }
+}
+
+/**
+ * Parse an error body as JSON, falling back to the raw text
+ */
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
   }
 }
@@ -0,0 +1,309 @@
+import EventSource from "eventsource";
+import type { Fill, Order } from "../../types.js";
+import { logger } from "../../utils/logger.js";
+import type { AftermathClient } from "./client.js";
+import { type AftermathOrder, toOrder } from "./orders.js";
+
+/**
+ * Aftermath CCXT Trade (embedded in order updates)
+ */
+interface AftermathTrade {
+  id: string;
+  order?: string;
+  symbol: string;
+  side: "buy" | "sell";
+  price: number;
+  amount: number;
+  takerOrMaker?: "taker" | "maker";
+  fee?: {
+    cost: number;
+    currency: string;
+  };
+  timestamp: number;
+}
+
+/**
+ * Cumulative fill state of an order as of its last update
+ */
+interface OrderFillState {
+  filled: number;
+  fee: number;
+  /** Average fill price over the filled size */
+  average: number;
+}
+
+/** Fill state of an order with no fills yet */
+const UNFILLED: OrderFillState = { filled: 0, fee: 0, average: 0 };
+
+/** Maximum number of trade IDs remembered for de-duplication */
+const MAX_SEEN_TRADES = 1000;
+
+/** Maximum number of closed orders whose final fill state is remembered */
+const MAX_CLOSED_ORDERS = 1000;
+
+/** Default delay before reopening a failed stream */
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Streams Aftermath order updates over SSE, forwarding order state changes and deriving fills
+ * Fills use embedded trades when the server sends them, otherwise the increase in `filled`
+ */
+export class AftermathFillSubscription {
+  private baseUrl: string;
+  private accountNumber: number | null = null;
+  private eventSources: Map<string, EventSource> = new Map();
+  private reconnectTimeouts: Map<string, NodeJS.Timeout> = new Map();
+  private reconnectDelayMs: number;
+  private callbacks: ((fill: Fill) => void)[] = [];
+  private orderCallbacks: ((order: Order) => void)[] = [];
+  private filledByOrder: Map<string, OrderFillState> = new Map();
+  private closedOrders: Map<string, OrderFillState> = new Map();
+  private seenTrades: Set<string> = new Set();
+
+  /**
+   * Create a fill subscription
+   * @param client - Aftermath API client
+   * @param baseUrl - Stream base URL (default: the client's)
+   * @param reconnectDelayMs - Delay before reopening a failed stream
+   */
+  constructor(client: AftermathClient, baseUrl?: string, reconnectDelayMs = RECONNECT_DELAY_MS) {
+    this.baseUrl = baseUrl || client.getBaseUrl();
+    this.reconnectDelayMs = reconnectDelayMs;
+  }
+
+  /**
+   * Add a fill callback
+   * @param callback - Called once per fill
+   */
+  addCallback(callback: (fill: Fill) => void): void {
+    this.callbacks.push(callback);
+  }
+
+  /**
+   * Add an order update callback
+   * @param callback - Called with the latest state of each updated order
+   */
+  addOrderCallback(callback: (order: Order) => void): void {
+    this.orderCallbacks.push(callback);
+  }
+
+  /**
+   * Start streaming order updates for a market
+   * @param chId - Market/ClearingHouse ID
+   * @param accountNumber - Account whose orders to stream
+   */
+  subscribeMarket(chId: string, accountNumber: number): void {
+    this.accountNumber = accountNumber;
+    // A pending reconnect reopens the stream itself
+    if (this.eventSources.has(chId) || this.reconnectTimeouts.has(chId)) {
+      return;
+    }
+
+    logger.info(`Subscribing to Aftermath order updates for market ${chId}`);
+    this.connectSSE(chId);
+  }
+
+  /**
+   * Connect to SSE stream for order updates
+   */
+  private connectSSE(chId: string): void {
+    const params = new URLSearchParams({ chId });
+    if (this.accountNumber !== null) {
+      params.set("accountNumber", String(this.accountNumber));
+    }
+    const url = `${this.baseUrl}/api/ccxt/stream/orders?${params.toString()}`;
+    logger.debug(`Connecting to SSE: ${url}`);
+
+    // Never leave a second stream for the market open, it would deliver every update twice
+    this.eventSources.get(chId)?.close();
+    const eventSource = new EventSource(url);
+
+    eventSource.onopen = () => {
+      logger.info(`SSE connected for orders ${chId}`);
+      const timeout = this.reconnectTimeouts.get(chId);
+      if (timeout) {
+        clearTimeout(timeout);
+        this.reconnectTimeouts.delete(chId);
+      }
+    };
+
+    eventSource.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data) as AftermathOrder | AftermathOrder[];
+        const orders = Array.isArray(data) ? data : [data];
+        for (const order of orders) {
+          this.handleOrderUpdate(order);
+        }
+      } catch (error) {
+        logger.error(`Failed to parse order update for ${chId}:`, error);
+      }
+    };
+
+    eventSource.onerror = (error) => {
+      logger.error(`SSE error for orders ${chId}:`, error);
+
+      eventSource.close();
+      this.eventSources.delete(chId);
+
+      // Schedule reconnection
+      if (this.callbacks.length > 0 || this.orderCallbacks.length > 0) {
+        const timeout = setTimeout(() => {
+          this.reconnectTimeouts.delete(chId);
+          logger.info(`Reconnecting SSE for orders ${chId}...`);
+          this.connectSSE(chId);
+        }, this.reconnectDelayMs);
+        this.reconnectTimeouts.set(chId, timeout);
+      }
+    };
+
+    this.eventSources.set(chId, eventSource);
+  }
+
+  /**
+   * Turn an order update into zero or more fills
+   */
+  private handleOrderUpdate(order: AftermathOrder): void {
+    const trades = (order.trades ?? []) as AftermathTrade[];
+
+    if (trades.length > 0) {
+      for (const trade of trades) {
+        if (this.seenTrades.has(trade.id)) continue;
+        this.rememberTrade(trade.id);
+        this.emit({
+          id: trade.id,
+          orderId: trade.order ?? order.id,
+          clientId: order.clientOrderId,
+          symbol: trade.symbol || order.symbol,
+          side: trade.side,
+          price: trade.price,
+          size: trade.amount,
+          fee: trade.fee?.cost ?? 0,
+          liquidity: trade.takerOrMaker ?? (order.type === "market" ? "taker" : "maker"),
+          timestamp: trade.timestamp,
+          raw: trade,
+        });
+      }
+      // So a later update without trades does not count these fills again
+      this.filledByOrder.set(order.id, {
+        filled: order.filled,
+        fee: order.fee?.cost ?? 0,
+        average: order.average ?? order.price,
+      });
+    } else {
+      // Closed orders are remembered too, so a re-sent final state (e.g., the snapshot
+      // after a reconnect) does not count the whole fill again
+      const previous =
+        this.filledByOrder.get(order.id) ?? this.closedOrders.get(order.id) ?? UNFILLED;
+      const fillSize = order.filled - previous.filled;
+
+      if (fillSize > 0) {
+        const fee = order.fee?.cost ?? previous.fee;
+        // The update carries the average over all fills, take out the earlier ones
+        const average = order.average ?? order.price;
+        const price = (average * order.filled - previous.average * previous.filled) / fillSize;
+        this.emit({
+          id: `${order.id}-${order.filled}`,
+          orderId: order.id,
+          clientId: order.clientOrderId,
+          symbol: order.symbol,
+          side: order.side,
+          price,
+          size: fillSize,
+          fee: fee - previous.fee,
+          liquidity: order.type === "market" ? "taker" : "maker",
+          timestamp: order.timestamp || Date.now(),
+          raw: order,
+        });
+        this.filledByOrder.set(order.id, { filled: order.filled, fee, average });
+      }
+    }
+
+    // Move orders that can no longer fill out of the open set
+    if (order.status !== "open") {
+      const final = this.filledByOrder.get(order.id);
+      if (final) {
+        this.filledByOrder.delete(order.id);
+        this.rememberClosedOrder(order.id, final);
+      }
+    }
+
+    // Fills first, so listeners see the fill before the order closes
+    const update = toOrder(order);
+    for (const callback of this.orderCallbacks) {
+      try {
+        callback(update);
+      } catch (error) {
+        logger.error("Order callback error:", error);
+      }
+    }
+  }
+
+  /**
+   * Remember a trade ID, evicting the oldest when the set is full
+   */
+  private rememberTrade(tradeId: string): void {
+    this.seenTrades.add(tradeId);
+    if (this.seenTrades.size > MAX_SEEN_TRADES) {
+      const oldest = this.seenTrades.values().next().value;
+      if (oldest !== undefined) {
+        this.seenTrades.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Remember a closed order's final fill state, evicting the oldest when the map is full
+   */
+  private rememberClosedOrder(orderId: string, state: OrderFillState): void {
+    this.closedOrders.set(orderId, state);
+    if (this.closedOrders.size > MAX_CLOSED_ORDERS) {
+      const oldest = this.closedOrders.keys().next().value;
+      if (oldest !== undefined) {
+        this.closedOrders.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Notify all callbacks of a fill
+   */
+  private emit(fill: Fill): void {
+    for (const callback of this.callbacks) {
+      try {
+        callback(fill);
+      } catch (error) {
+        logger.error("Fill callback error:", error);
+      }
+    }
+  }
+
+  /**
+   * Disconnect all subscriptions
+   */
+  async disconnect(): Promise<void> {
+    logger.info("Disconnecting all Aftermath order update subscriptions");
+
+    for (const eventSource of this.eventSources.values()) {
+      eventSource.close();
+    }
+    // Streams waiting to reconnect have no event source
+    for (const timeout of this.reconnectTimeouts.values()) {
+      clearTimeout(timeout);
+    }
+
+    this.eventSources.clear();
+    this.reconnectTimeouts.clear();
+    this.callbacks = [];
+    this.orderCallbacks = [];
+    this.filledByOrder.clear();
+    this.closedOrders.clear();
+    this.seenTrades.clear();
+  }
+
+  /**
+   * Check if connected to any subscriptions
+   */
+  get connected(): boolean {
+    return this.eventSources.size > 0;
+  }
+}
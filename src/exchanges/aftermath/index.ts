@@ -1,13 +1,17 @@
 import type {
   Account,
+  Fill,
   Market,
   Order,
+  OrderModification,
   OrderRequest,
   OrderResult,
   Orderbook,
   Position,
+  Trade,
 } from "../../types.js";
 import { logger } from "../../utils/logger.js";
+import { observeRequest } from "../../utils/metrics.js";
 import type { IExchange } from "../types.js";
 import {
   clearAccountCache,
@@ -15,7 +19,8 @@ import {
   getAccountCap,
   getPositionsForWallet,
 } from "./account.js";
-import { AftermathClient } from "./client.js";
+import { AftermathClient, type AftermathClientConfig } from "./client.js";
+import { AftermathFillSubscription } from "./fills.js";
 import { getMarkets as fetchMarkets, getMarketBySymbol } from "./markets.js";
 import { AftermathOrderbookSubscription } from "./orderbook.js";
 import {
@@ -24,12 +29,17 @@ import {
   getOpenOrders as fetchOpenOrders,
   getAllOpenOrders,
   placeOrder as placeAftermathOrder,
+  placeOrders as placeAftermathOrders,
 } from "./orders.js";
+import { AftermathPositionSubscription } from "./positions.js";
 import { SuiSigner } from "./signer.js";
+import { AftermathTradeSubscription } from "./trades.js";
 
 export interface AftermathAdapterConfig {
   privateKey?: string; // Sui private key (or use env var)
   baseUrl?: string; // API base URL (or use env var)
+  reconnectDelayMs?: number; // Delay before reopening a failed SSE stream (default: 5000)
+  client?: AftermathClientConfig; // REST timeout, retry and rate limit settings
 }
 
 /**
@@ -43,14 +53,37 @@ export class AftermathAdapter implements IExchange {
   private walletAddress: string;
   private orderbookSubscription: AftermathOrderbookSubscription;
   private orderbookCallbacks: Map<string, (book: Orderbook) => void>;
+  private fillSubscription: AftermathFillSubscription;
+  private positionSubscription: AftermathPositionSubscription;
+  private tradeSubscription: AftermathTradeSubscription;
+  private hasOrderListeners = false;
   private symbolToChId: Map<string, string>; // Cache symbol -> chId mapping
   private _connected = false;
 
   constructor(config?: AftermathAdapterConfig) {
-    this.client = new AftermathClient(config?.baseUrl);
+    this.client = new AftermathClient(config?.baseUrl, config?.client);
     this.signer = new SuiSigner(config?.privateKey);
     this.walletAddress = this.signer.getWalletAddress();
-    this.orderbookSubscription = new AftermathOrderbookSubscription(this.client);
+    this.orderbookSubscription = new AftermathOrderbookSubscription(
+      this.client,
+      undefined,
+      config?.reconnectDelayMs
+    );
+    this.fillSubscription = new AftermathFillSubscription(
+      this.client,
+      undefined,
+      config?.reconnectDelayMs
+    );
+    this.positionSubscription = new AftermathPositionSubscription(
+      this.client,
+      undefined,
+      config?.reconnectDelayMs
+    );
+    this.tradeSubscription = new AftermathTradeSubscription(
+      this.client,
+      undefined,
+      config?.reconnectDelayMs
+    );
     this.orderbookCallbacks = new Map();
     this.symbolToChId = new Map();
   }
@@ -95,6 +128,12 @@ export class AftermathAdapter implements IExchange {
       // Disconnect orderbook subscriptions
       await this.orderbookSubscription.disconnect();
 
+      // Disconnect order update (fill), position and trade subscriptions
+      await this.fillSubscription.disconnect();
+      await this.positionSubscription.disconnect();
+      await this.tradeSubscription.disconnect();
+      this.hasOrderListeners = false;
+
       // Clear caches
       this.orderbookCallbacks.clear();
       this.symbolToChId.clear();
@@ -145,6 +184,7 @@ export class AftermathAdapter implements IExchange {
       const chId = await this.getChIdForSymbol(symbol);
       this.orderbookCallbacks.set(symbol, callback);
       this.orderbookSubscription.subscribeOrderbook(chId, callback);
+      await this.ensureOrderStream(chId);
     } catch (error) {
       logger.error(`Failed to subscribe to orderbook for ${symbol}`, error);
       throw error;
@@ -165,6 +205,75 @@ export class AftermathAdapter implements IExchange {
     }
   }
 
+  /**
+   * Check that the orderbook for a subscribed symbol is in sync
+   * False while its stream is down or the book is being re-snapshotted
+   * @param symbol - Trading symbol
+   */
+  isBookHealthy(symbol: string): boolean {
+    const chId = this.symbolToChId.get(symbol);
+    return chId !== undefined && this.orderbookSubscription.isHealthy(chId);
+  }
+
+  /**
+   * Subscribe to fills of our orders
+   * Streams order updates for every market we quote or trade in
+   * @param callback - Called once per fill
+   */
+  async subscribeFills(callback: (fill: Fill) => void): Promise<void> {
+    this.fillSubscription.addCallback(callback);
+    await this.startOrderStreams();
+  }
+
+  /**
+   * Subscribe to state changes of our orders
+   * Shares the order update stream with fills, for every market we quote or trade in
+   * @param callback - Called with the latest state of each updated order
+   */
+  async subscribeOrders(callback: (order: Order) => void): Promise<void> {
+    this.fillSubscription.addOrderCallback(callback);
+    await this.startOrderStreams();
+  }
+
+  /**
+   * Subscribe to changes of our positions
+   * @param callback - Called with each changed position (size 0 once closed)
+   */
+  async subscribePositions(callback: (position: Position) => void): Promise<void> {
+    const { accountNumber } = await getAccountCap(this.client, this.walletAddress);
+    this.positionSubscription.subscribe(accountNumber, callback);
+  }
+
+  /**
+   * Subscribe to public trades for a symbol
+   * @param symbol - Trading symbol
+   * @param callback - Called once per trade
+   */
+  async subscribeTrades(symbol: string, callback: (trade: Trade) => void): Promise<void> {
+    const chId = await this.getChIdForSymbol(symbol);
+    this.tradeSubscription.subscribeTrades(chId, callback);
+  }
+
+  /**
+   * Open the order update stream for every subscribed market
+   */
+  private async startOrderStreams(): Promise<void> {
+    this.hasOrderListeners = true;
+    for (const symbol of this.orderbookCallbacks.keys()) {
+      await this.ensureOrderStream(await this.getChIdForSymbol(symbol));
+    }
+  }
+
+  /**
+   * Open the order update stream for a market if anyone listens for fills or order updates
+   */
+  private async ensureOrderStream(chId: string): Promise<void> {
+    if (!this.hasOrderListeners) return;
+
+    const { accountNumber } = await getAccountCap(this.client, this.walletAddress);
+    this.fillSubscription.subscribeMarket(chId, accountNumber);
+  }
+
   /**
    * Get account information (balance, margin, etc.)
    */
@@ -201,8 +310,69 @@ export class AftermathAdapter implements IExchange {
    * @returns Order result with exchange-assigned ID
    */
   async placeOrder(order: OrderRequest): Promise<OrderResult> {
-    const chId = await this.getChIdForSymbol(order.symbol);
-    return placeAftermathOrder(this.client, this.signer, this.walletAddress, chId, order);
+    return observeRequest(this.name, "place_order", async () => {
+      const chId = await this.getChIdForSymbol(order.symbol);
+      await this.ensureOrderStream(chId);
+      return placeAftermathOrder(this.client, this.signer, this.walletAddress, chId, order);
+    });
+  }
+
+  /**
+   * Amend resting orders
+   * Aftermath has no native amend and its CCXT API builds cancels and creates as separate
+   * transactions, so per market this sends one batched cancel and then one batched create.
+   * If the create fails after the cancel landed, the cancelled orders are reported as
+   * rejected results rather than throwing, so the caller knows they are no longer resting.
+   * @param modifications - Orders to amend with their new parameters
+   */
+  async modifyOrders(modifications: OrderModification[]): Promise<OrderResult[]> {
+    return observeRequest(this.name, "modify_orders", async () => {
+      const byMarket = new Map<string, number[]>();
+      for (const [index, { order }] of modifications.entries()) {
+        const chId = await this.getChIdForSymbol(order.symbol);
+        byMarket.set(chId, [...(byMarket.get(chId) ?? []), index]);
+      }
+
+      const results: OrderResult[] = new Array(modifications.length);
+      for (const [chId, indices] of byMarket) {
+        await this.ensureOrderStream(chId);
+        await cancelOrders(
+          this.client,
+          this.signer,
+          this.walletAddress,
+          chId,
+          indices.map((i) => modifications[i].orderId)
+        );
+        try {
+          const placed = await placeAftermathOrders(
+            this.client,
+            this.signer,
+            this.walletAddress,
+            chId,
+            indices.map((i) => modifications[i].order)
+          );
+          for (const [n, index] of indices.entries()) {
+            results[index] = placed[n];
+          }
+        } catch (error) {
+          logger.error(
+            `Cancelled ${indices.length} orders in market ${chId} but failed to replace them:`,
+            error
+          );
+          for (const index of indices) {
+            results[index] = {
+              orderId: modifications[index].orderId,
+              clientId: modifications[index].order.clientId,
+              status: "rejected",
+              timestamp: Date.now(),
+              raw: { error: (error as Error).message },
+            };
+          }
+        }
+      }
+
+      return results;
+    });
   }
 
   /**
@@ -211,11 +381,13 @@ export class AftermathAdapter implements IExchange {
    * @param symbol - Symbol is required for Aftermath to know which market
    */
   async cancelOrder(orderId: string, symbol?: string): Promise<void> {
-    if (!symbol) {
-      throw new Error("Symbol is required to cancel order on Aftermath");
-    }
-    const chId = await this.getChIdForSymbol(symbol);
-    await cancelAftermathOrder(this.client, this.signer, this.walletAddress, chId, orderId);
+    return observeRequest(this.name, "cancel_order", async () => {
+      if (!symbol) {
+        throw new Error("Symbol is required to cancel order on Aftermath");
+      }
+      const chId = await this.getChIdForSymbol(symbol);
+      await cancelAftermathOrder(this.client, this.signer, this.walletAddress, chId, orderId);
+    });
   }
 
   /**
@@ -223,40 +395,42 @@ export class AftermathAdapter implements IExchange {
    * @param symbol - Optional symbol filter (required for efficiency)
    */
   async cancelAllOrders(symbol?: string): Promise<void> {
-    if (symbol) {
-      const chId = await this.getChIdForSymbol(symbol);
-      const { accountNumber } = await getAccountCap(this.client, this.walletAddress);
-      const orders = await fetchOpenOrders(this.client, accountNumber, chId);
-      if (orders.length > 0) {
-        await cancelOrders(
-          this.client,
-          this.signer,
-          this.walletAddress,
-          chId,
-          orders.map((o) => o.id)
-        );
-      }
-    } else {
-      // Cancel across all cached markets
-      const marketIds = Array.from(new Set(this.symbolToChId.values()));
-      for (const chId of marketIds) {
-        try {
-          const { accountNumber } = await getAccountCap(this.client, this.walletAddress);
-          const orders = await fetchOpenOrders(this.client, accountNumber, chId);
-          if (orders.length > 0) {
-            await cancelOrders(
-              this.client,
-              this.signer,
-              this.walletAddress,
-              chId,
-              orders.map((o) => o.id)
-            );
+    return observeRequest(this.name, "cancel_all", async () => {
+      if (symbol) {
+        const chId = await this.getChIdForSymbol(symbol);
+        const { accountNumber } = await getAccountCap(this.client, this.walletAddress);
+        const orders = await fetchOpenOrders(this.client, accountNumber, chId);
+        if (orders.length > 0) {
+          await cancelOrders(
+            this.client,
+            this.signer,
+            this.walletAddress,
+            chId,
+            orders.map((o) => o.id)
+          );
+        }
+      } else {
+        // Cancel across all cached markets
+        const marketIds = Array.from(new Set(this.symbolToChId.values()));
+        for (const chId of marketIds) {
+          try {
+            const { accountNumber } = await getAccountCap(this.client, this.walletAddress);
+            const orders = await fetchOpenOrders(this.client, accountNumber, chId);
+            if (orders.length > 0) {
+              await cancelOrders(
+                this.client,
+                this.signer,
+                this.walletAddress,
+                chId,
+                orders.map((o) => o.id)
+              );
+            }
+          } catch (error) {
+            logger.warn(`Failed to cancel orders in market ${chId}:`, error);
           }
-        } catch (error) {
-          logger.warn(`Failed to cancel orders in market ${chId}:`, error);
         }
       }
-    }
+    });
   }
 
   /**
@@ -275,10 +449,18 @@ export function createAftermathAdapterFromEnv(): AftermathAdapter {
 }
 
 // Export sub-modules
-export { AftermathClient } from "./client.js";
+export {
+  AftermathClient,
+  AftermathApiError,
+  type AftermathClientConfig,
+  type AftermathRequestOptions,
+} from "./client.js";
 export { SuiSigner, createSuiSigner } from "./signer.js";
 export { getMarkets, getMarketBySymbol, getMarketById } from "./markets.js";
 export { getOrderbook, AftermathOrderbookSubscription } from "./orderbook.js";
+export { AftermathFillSubscription } from "./fills.js";
+export { AftermathPositionSubscription } from "./positions.js";
+export { AftermathTradeSubscription } from "./trades.js";
 export {
   getAccount,
   getAccounts,
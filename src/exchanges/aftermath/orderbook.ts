@@ -27,6 +27,9 @@ interface AftermathOrderbookDelta {
   nonce: number;
 }
 
+/** Default delay before reopening a failed stream */
+const RECONNECT_DELAY_MS = 5000;
+
 /**
  * Fetch orderbook snapshot from Aftermath
  * @param client - Aftermath API client
@@ -46,8 +49,18 @@ export async function getOrderbook(client: AftermathClient, chId: string): Promi
   };
 }
 
+/**
+ * Check whether the best bid is at or above the best ask
+ */
+function isCrossed(book: Orderbook): boolean {
+  return book.bids.length > 0 && book.asks.length > 0 && book.bids[0][0] >= book.asks[0][0];
+}
+
 /**
  * Manages orderbook subscription via Server-Sent Events
+ * Deltas must arrive with consecutive nonces. A gap, a crossed book or a stream reconnect
+ * marks the book unhealthy and triggers a re-snapshot; deltas received while the snapshot
+ * is fetched are buffered and applied on top of it.
  */
 export class AftermathOrderbookSubscription {
   private baseUrl: string;
@@ -55,11 +68,25 @@ export class AftermathOrderbookSubscription {
   private localOrderbooks: Map<string, Orderbook> = new Map();
   private callbacks: Map<string, (book: Orderbook) => void> = new Map();
   private reconnectTimeouts: Map<string, NodeJS.Timeout> = new Map();
+  private resyncTimeouts: Map<string, NodeJS.Timeout> = new Map();
+  /** Deltas received while a snapshot is being fetched (present only during a resync) */
+  private resyncBuffers: Map<string, AftermathOrderbookDelta[]> = new Map();
+  private healthy: Map<string, boolean> = new Map();
+  /** Markets whose stream dropped and must resync once it reopens */
+  private streamDropped: Set<string> = new Set();
+  private reconnectDelayMs: number;
   private client: AftermathClient;
 
-  constructor(client: AftermathClient, baseUrl?: string) {
+  /**
+   * Create an orderbook subscription manager
+   * @param client - Aftermath API client
+   * @param baseUrl - Stream base URL (default: the client's)
+   * @param reconnectDelayMs - Delay before reopening a failed stream
+   */
+  constructor(client: AftermathClient, baseUrl?: string, reconnectDelayMs = RECONNECT_DELAY_MS) {
     this.client = client;
     this.baseUrl = baseUrl || client.getBaseUrl();
+    this.reconnectDelayMs = reconnectDelayMs;
   }
 
   /**
@@ -77,10 +104,9 @@ export class AftermathOrderbookSubscription {
     logger.info(`Subscribing to Aftermath orderbook for market ${chId}`);
 
     // Fetch initial snapshot
+    let snapshot: Orderbook;
     try {
-      const snapshot = await getOrderbook(this.client, chId);
-      this.localOrderbooks.set(chId, snapshot);
-      callback(snapshot);
+      snapshot = await getOrderbook(this.client, chId);
     } catch (error) {
       logger.error(`Failed to fetch initial orderbook for ${chId}:`, error);
       throw error;
@@ -88,6 +114,7 @@ export class AftermathOrderbookSubscription {
 
     // Store callback
     this.callbacks.set(chId, callback);
+    this.installSnapshot(chId, snapshot);
 
     // Connect to SSE stream
     this.connectSSE(chId);
@@ -110,6 +137,11 @@ export class AftermathOrderbookSubscription {
         clearTimeout(timeout);
         this.reconnectTimeouts.delete(chId);
       }
+
+      // Deltas were missed while the stream was down
+      if (this.streamDropped.delete(chId)) {
+        this.resync(chId, "stream reconnected");
+      }
     };
 
     eventSource.onmessage = (event) => {
@@ -128,12 +160,16 @@ export class AftermathOrderbookSubscription {
       eventSource.close();
       this.eventSources.delete(chId);
 
+      // The local book goes stale until the stream is back and resynced
+      this.healthy.set(chId, false);
+      this.streamDropped.add(chId);
+
       // Schedule reconnection
       if (this.callbacks.has(chId)) {
         const timeout = setTimeout(() => {
           logger.info(`Reconnecting SSE for orderbook ${chId}...`);
           this.connectSSE(chId);
-        }, 5000);
+        }, this.reconnectDelayMs);
         this.reconnectTimeouts.set(chId, timeout);
       }
     };
@@ -141,21 +177,130 @@ export class AftermathOrderbookSubscription {
     this.eventSources.set(chId, eventSource);
   }
 
+  /**
+   * Replace the local book with a snapshot and notify, unless the snapshot is crossed
+   * @returns Whether the snapshot was accepted
+   */
+  private installSnapshot(chId: string, snapshot: Orderbook): boolean {
+    this.localOrderbooks.set(chId, snapshot);
+    if (isCrossed(snapshot)) {
+      logger.warn(`Crossed orderbook snapshot for ${chId}, retrying`);
+      this.healthy.set(chId, false);
+      this.resyncBuffers.set(chId, []);
+      this.scheduleResync(chId);
+      return false;
+    }
+
+    this.healthy.set(chId, true);
+    this.callbacks.get(chId)?.(snapshot);
+    return true;
+  }
+
+  /**
+   * Re-fetch the snapshot, buffering deltas that arrive meanwhile
+   * @param chId - Market/ClearingHouse ID
+   * @param reason - Why the local book can no longer be trusted
+   * @param pending - Deltas already received that should be applied after the snapshot
+   */
+  private async resync(
+    chId: string,
+    reason: string,
+    pending: AftermathOrderbookDelta[] = []
+  ): Promise<void> {
+    this.healthy.set(chId, false);
+    const existing = this.resyncBuffers.get(chId);
+    if (existing) {
+      existing.push(...pending);
+      return;
+    }
+
+    logger.warn(`Resyncing orderbook for ${chId}: ${reason}`);
+    const buffer = [...pending];
+    this.resyncBuffers.set(chId, buffer);
+    const timeout = this.resyncTimeouts.get(chId);
+    if (timeout) {
+      clearTimeout(timeout);
+      this.resyncTimeouts.delete(chId);
+    }
+
+    let snapshot: Orderbook;
+    try {
+      snapshot = await getOrderbook(this.client, chId);
+    } catch (error) {
+      logger.error(`Failed to fetch orderbook snapshot for ${chId}:`, error);
+      if (this.resyncBuffers.get(chId) === buffer) {
+        this.scheduleResync(chId);
+      }
+      return;
+    }
+
+    // Unsubscribed while fetching
+    if (this.resyncBuffers.get(chId) !== buffer) {
+      return;
+    }
+
+    // The snapshot is older than what the stream already sent: keep buffering and retry
+    const newer = buffer
+      .filter((d) => snapshot.nonce === undefined || d.nonce > snapshot.nonce)
+      .sort((a, b) => a.nonce - b.nonce);
+    if (snapshot.nonce !== undefined && newer.length > 0 && newer[0].nonce > snapshot.nonce + 1) {
+      logger.warn(`Orderbook snapshot for ${chId} is behind the stream, retrying`);
+      this.scheduleResync(chId);
+      return;
+    }
+
+    this.resyncBuffers.delete(chId);
+    if (!this.installSnapshot(chId, snapshot)) {
+      return;
+    }
+    for (const delta of newer) {
+      this.applyDelta(chId, delta);
+    }
+    logger.info(`Orderbook for ${chId} resynced at nonce ${snapshot.nonce}`);
+  }
+
+  /**
+   * Retry a resync later, keeping any buffered deltas (the buffer must already exist)
+   */
+  private scheduleResync(chId: string): void {
+    if (this.resyncTimeouts.has(chId) || !this.callbacks.has(chId)) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      this.resyncTimeouts.delete(chId);
+      const buffer = this.resyncBuffers.get(chId) ?? [];
+      this.resyncBuffers.delete(chId);
+      this.resync(chId, "retry", buffer);
+    }, this.reconnectDelayMs);
+    this.resyncTimeouts.set(chId, timeout);
+  }
+
   /**
    * Apply delta updates to local orderbook
    */
   private applyDelta(chId: string, delta: AftermathOrderbookDelta): void {
+    const buffer = this.resyncBuffers.get(chId);
+    if (buffer) {
+      buffer.push(delta);
+      return;
+    }
+
     const book = this.localOrderbooks.get(chId);
     if (!book) {
       logger.warn(`No local orderbook for ${chId}, ignoring delta`);
       return;
     }
 
-    // Check nonce for ordering (skip if out of order)
+    // Check nonce for ordering (skip if out of order, resync if one was missed)
     if (book.nonce !== undefined && delta.nonce <= book.nonce) {
       logger.debug(`Skipping out-of-order delta for ${chId}: ${delta.nonce} <= ${book.nonce}`);
       return;
     }
+    if (book.nonce !== undefined && delta.nonce > book.nonce + 1) {
+      this.resync(chId, `nonce gap (expected ${book.nonce + 1}, got ${delta.nonce})`, [delta]);
+      return;
+    }
 
     // Apply bid deltas
     for (const [price, amountDelta] of delta.bids) {
@@ -171,6 +316,11 @@ export class AftermathOrderbookSubscription {
     book.timestamp = delta.timestamp;
     book.nonce = delta.nonce;
 
+    if (isCrossed(book)) {
+      this.resync(chId, `crossed book at nonce ${delta.nonce}`);
+      return;
+    }
+
     // Notify callback
     const callback = this.callbacks.get(chId);
     if (callback) {
@@ -228,16 +378,29 @@ export class AftermathOrderbookSubscription {
       this.eventSources.delete(chId);
     }
 
-    // Clear reconnect timeout
-    const timeout = this.reconnectTimeouts.get(chId);
-    if (timeout) {
-      clearTimeout(timeout);
-      this.reconnectTimeouts.delete(chId);
+    // Clear reconnect and resync timeouts
+    for (const timeouts of [this.reconnectTimeouts, this.resyncTimeouts]) {
+      const timeout = timeouts.get(chId);
+      if (timeout) {
+        clearTimeout(timeout);
+        timeouts.delete(chId);
+      }
     }
 
     // Remove local data
     this.localOrderbooks.delete(chId);
     this.callbacks.delete(chId);
+    this.resyncBuffers.delete(chId);
+    this.healthy.delete(chId);
+    this.streamDropped.delete(chId);
+  }
+
+  /**
+   * Check that a market's local book is in sync with the exchange
+   * False while the stream is down, during a resync, or when not subscribed
+   */
+  isHealthy(chId: string): boolean {
+    return this.healthy.get(chId) ?? false;
   }
 
   /**
@@ -261,8 +424,16 @@ export class AftermathOrderbookSubscription {
       }
     }
 
+    for (const timeout of this.resyncTimeouts.values()) {
+      clearTimeout(timeout);
+    }
+
     this.eventSources.clear();
     this.reconnectTimeouts.clear();
+    this.resyncTimeouts.clear();
+    this.resyncBuffers.clear();
+    this.healthy.clear();
+    this.streamDropped.clear();
     this.localOrderbooks.clear();
     this.callbacks.clear();
   }
@@ -37,13 +37,14 @@ interface AftermathOrderRequest {
 /**
  * Aftermath Order Response
  */
-interface AftermathOrder {
+export interface AftermathOrder {
   id: string;
   symbol: string;
   side: "buy" | "sell";
   type?: "market" | "limit";
   status: "open" | "closed" | "canceled" | "expired" | "rejected";
   price: number;
+  average?: number; // Average fill price
   amount: number;
   filled: number;
   remaining: number;
@@ -125,20 +126,45 @@ export async function placeOrder(
   chId: string,
   order: OrderRequest
 ): Promise<OrderResult> {
-  logger.info(`Placing ${order.side} ${order.type} order: ${order.size} @ ${order.price}`);
+  const [result] = await placeOrders(client, signer, walletAddress, chId, [order]);
+  return result;
+}
+
+/**
+ * Place several orders in one market with a single transaction
+ * @param client - Aftermath API client
+ * @param signer - Sui signer
+ * @param walletAddress - Wallet address
+ * @param chId - Market/ClearingHouse ID
+ * @param orders - Order parameters
+ */
+export async function placeOrders(
+  client: AftermathClient,
+  signer: SuiSigner,
+  walletAddress: string,
+  chId: string,
+  orders: OrderRequest[]
+): Promise<OrderResult[]> {
+  if (orders.length === 0) {
+    return [];
+  }
+
+  for (const order of orders) {
+    logger.info(`Placing ${order.side} ${order.type} order: ${order.size} @ ${order.price}`);
+  }
 
   // Get account capability
   const { accountCapId } = await getAccountCap(client, walletAddress);
 
-  // Build order request
-  const orderReq: AftermathOrderRequest = {
+  // Build order requests
+  const orderReqs: AftermathOrderRequest[] = orders.map((order) => ({
     chId,
     type: order.type,
     side: order.side,
     amount: order.size,
     price: order.price,
     reduceOnly: order.reduceOnly,
-  };
+  }));
 
   // Build metadata
   const metadata: TransactionMetadata = {
@@ -146,33 +172,36 @@ export async function placeOrder(
   };
 
   // Build and submit
-  const orders = await buildAndSubmit<AftermathOrder[]>(
+  const placed = await buildAndSubmit<AftermathOrder[]>(
     client,
     signer,
     "/api/ccxt/build/createOrders",
     "/api/ccxt/submit/createOrders",
     {
       accountId: accountCapId,
-      orders: [orderReq],
+      orders: orderReqs,
       deallocateFreeCollateral: false,
       metadata,
     }
   );
 
-  if (!orders || orders.length === 0) {
+  if (!placed || placed.length === 0) {
     throw new Error("No order returned from Aftermath");
   }
+  if (placed.length !== orders.length) {
+    throw new Error(`Expected ${orders.length} orders from Aftermath, got ${placed.length}`);
+  }
 
-  const resultOrder = orders[0];
-  logger.info(`Order placed successfully: ${resultOrder.id}`);
-
-  return {
-    orderId: resultOrder.id,
-    clientId: order.clientId,
-    status: resultOrder.status as OrderStatus,
-    timestamp: resultOrder.timestamp || Date.now(),
-    raw: resultOrder,
-  };
+  return placed.map((resultOrder, index) => {
+    logger.info(`Order placed successfully: ${resultOrder.id}`);
+    return {
+      orderId: resultOrder.id,
+      clientId: orders[index].clientId,
+      status: resultOrder.status as OrderStatus,
+      timestamp: resultOrder.timestamp || Date.now(),
+      raw: resultOrder,
+    };
+  });
 }
 
 /**
@@ -255,7 +284,14 @@ export async function getOpenOrders(
     chId,
   });
 
-  return orders.map((o) => ({
+  return orders.map(toOrder);
+}
+
+/**
+ * Map an Aftermath order to the common Order type
+ */
+export function toOrder(o: AftermathOrder): Order {
+  return {
     id: o.id,
     clientId: o.clientOrderId,
     symbol: o.symbol,
@@ -269,7 +305,7 @@ export async function getOpenOrders(
     timestamp: o.timestamp,
     reduceOnly: o.reduceOnly,
     raw: o,
-  }));
+  };
 }
 
 /**
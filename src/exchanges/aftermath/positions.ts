@@ -0,0 +1,140 @@
+import EventSource from "eventsource";
+import type { Position } from "../../types.js";
+import { logger } from "../../utils/logger.js";
+import { type AftermathPosition, toPosition } from "./account.js";
+import type { AftermathClient } from "./client.js";
+
+/** Default delay before reopening a failed stream */
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Streams position changes for an Aftermath account over SSE
+ * A closed position is delivered with side "none" and size 0
+ */
+export class AftermathPositionSubscription {
+  private baseUrl: string;
+  private accountNumber: number | null = null;
+  private eventSource: EventSource | null = null;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private reconnectDelayMs: number;
+  private callbacks: ((position: Position) => void)[] = [];
+
+  /**
+   * Create a position subscription
+   * @param client - Aftermath API client
+   * @param baseUrl - Stream base URL (default: the client's)
+   * @param reconnectDelayMs - Delay before reopening a failed stream
+   */
+  constructor(client: AftermathClient, baseUrl?: string, reconnectDelayMs = RECONNECT_DELAY_MS) {
+    this.baseUrl = baseUrl || client.getBaseUrl();
+    this.reconnectDelayMs = reconnectDelayMs;
+  }
+
+  /**
+   * Stream position changes of an account
+   * @param accountNumber - Account whose positions to stream
+   * @param callback - Called with each changed position
+   */
+  subscribe(accountNumber: number, callback: (position: Position) => void): void {
+    this.callbacks.push(callback);
+    if (this.eventSource && this.accountNumber === accountNumber) {
+      return;
+    }
+
+    logger.info(`Subscribing to Aftermath position updates for account ${accountNumber}`);
+    this.close();
+    this.accountNumber = accountNumber;
+    this.connectSSE();
+  }
+
+  /**
+   * Connect to SSE stream for position updates
+   */
+  private connectSSE(): void {
+    const params = new URLSearchParams({ accountNumber: String(this.accountNumber) });
+    const url = `${this.baseUrl}/api/ccxt/stream/positions?${params.toString()}`;
+    logger.debug(`Connecting to SSE: ${url}`);
+
+    const eventSource = new EventSource(url);
+
+    eventSource.onopen = () => {
+      logger.info(`SSE connected for positions of account ${this.accountNumber}`);
+      if (this.reconnectTimeout) {
+        clearTimeout(this.reconnectTimeout);
+        this.reconnectTimeout = null;
+      }
+    };
+
+    eventSource.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data) as AftermathPosition | AftermathPosition[];
+        const positions = Array.isArray(data) ? data : [data];
+        for (const position of positions) {
+          this.emit(toPosition(position));
+        }
+      } catch (error) {
+        logger.error(`Failed to parse position update for account ${this.accountNumber}:`, error);
+      }
+    };
+
+    eventSource.onerror = (error) => {
+      logger.error(`SSE error for positions of account ${this.accountNumber}:`, error);
+
+      eventSource.close();
+      this.eventSource = null;
+
+      // Schedule reconnection
+      if (this.callbacks.length > 0) {
+        this.reconnectTimeout = setTimeout(() => {
+          logger.info(`Reconnecting SSE for positions of account ${this.accountNumber}...`);
+          this.reconnectTimeout = null;
+          this.connectSSE();
+        }, this.reconnectDelayMs);
+      }
+    };
+
+    this.eventSource = eventSource;
+  }
+
+  /**
+   * Notify all callbacks of a position change
+   */
+  private emit(position: Position): void {
+    for (const callback of this.callbacks) {
+      try {
+        callback(position);
+      } catch (error) {
+        logger.error("Position callback error:", error);
+      }
+    }
+  }
+
+  /**
+   * Close the stream and cancel any pending reconnect
+   */
+  private close(): void {
+    this.eventSource?.close();
+    this.eventSource = null;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+  }
+
+  /**
+   * Disconnect and remove all callbacks
+   */
+  async disconnect(): Promise<void> {
+    logger.info("Disconnecting Aftermath position updates");
+    this.close();
+    this.callbacks = [];
+    this.accountNumber = null;
+  }
+
+  /**
+   * Check if the position stream is open
+   */
+  get connected(): boolean {
+    return this.eventSource !== null;
+  }
+}
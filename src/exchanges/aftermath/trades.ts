@@ -0,0 +1,151 @@
+import EventSource from "eventsource";
+import type { Side, Trade } from "../../types.js";
+import { logger } from "../../utils/logger.js";
+import type { AftermathClient } from "./client.js";
+
+/**
+ * Aftermath CCXT public trade (from SSE stream)
+ */
+interface AftermathPublicTrade {
+  id?: string;
+  symbol?: string;
+  side: Side;
+  price: number;
+  amount: number;
+  timestamp: number;
+}
+
+/** Default delay before reopening a failed stream */
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Streams public trades per market over SSE
+ */
+export class AftermathTradeSubscription {
+  private baseUrl: string;
+  private eventSources: Map<string, EventSource> = new Map();
+  private callbacks: Map<string, ((trade: Trade) => void)[]> = new Map();
+  private reconnectTimeouts: Map<string, NodeJS.Timeout> = new Map();
+  private reconnectDelayMs: number;
+
+  /**
+   * Create a trade subscription manager
+   * @param client - Aftermath API client
+   * @param baseUrl - Stream base URL (default: the client's)
+   * @param reconnectDelayMs - Delay before reopening a failed stream
+   */
+  constructor(client: AftermathClient, baseUrl?: string, reconnectDelayMs = RECONNECT_DELAY_MS) {
+    this.baseUrl = baseUrl || client.getBaseUrl();
+    this.reconnectDelayMs = reconnectDelayMs;
+  }
+
+  /**
+   * Subscribe to public trades in a market
+   * @param chId - Market/ClearingHouse ID
+   * @param callback - Called once per trade
+   */
+  subscribeTrades(chId: string, callback: (trade: Trade) => void): void {
+    this.callbacks.set(chId, [...(this.callbacks.get(chId) ?? []), callback]);
+    if (this.eventSources.has(chId)) {
+      return;
+    }
+
+    logger.info(`Subscribing to Aftermath trades for market ${chId}`);
+    this.connectSSE(chId);
+  }
+
+  /**
+   * Connect to SSE stream for trades
+   */
+  private connectSSE(chId: string): void {
+    const url = `${this.baseUrl}/api/ccxt/stream/trades?chId=${encodeURIComponent(chId)}`;
+    logger.debug(`Connecting to SSE: ${url}`);
+
+    const eventSource = new EventSource(url);
+
+    eventSource.onopen = () => {
+      logger.info(`SSE connected for trades ${chId}`);
+      const timeout = this.reconnectTimeouts.get(chId);
+      if (timeout) {
+        clearTimeout(timeout);
+        this.reconnectTimeouts.delete(chId);
+      }
+    };
+
+    eventSource.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data) as AftermathPublicTrade | AftermathPublicTrade[];
+        const trades = Array.isArray(data) ? data : [data];
+        for (const trade of trades) {
+          this.emit(chId, {
+            id: trade.id,
+            symbol: trade.symbol || chId,
+            side: trade.side,
+            price: trade.price,
+            size: trade.amount,
+            timestamp: trade.timestamp,
+          });
+        }
+      } catch (error) {
+        logger.error(`Failed to parse trade for ${chId}:`, error);
+      }
+    };
+
+    eventSource.onerror = (error) => {
+      logger.error(`SSE error for trades ${chId}:`, error);
+
+      eventSource.close();
+      this.eventSources.delete(chId);
+
+      // Schedule reconnection
+      if (this.callbacks.has(chId)) {
+        const timeout = setTimeout(() => {
+          logger.info(`Reconnecting SSE for trades ${chId}...`);
+          this.connectSSE(chId);
+        }, this.reconnectDelayMs);
+        this.reconnectTimeouts.set(chId, timeout);
+      }
+    };
+
+    this.eventSources.set(chId, eventSource);
+  }
+
+  /**
+   * Notify a market's callbacks of a trade
+   */
+  private emit(chId: string, trade: Trade): void {
+    for (const callback of this.callbacks.get(chId) ?? []) {
+      try {
+        callback(trade);
+      } catch (error) {
+        logger.error("Trade callback error:", error);
+      }
+    }
+  }
+
+  /**
+   * Disconnect all subscriptions
+   */
+  async disconnect(): Promise<void> {
+    logger.info("Disconnecting all Aftermath trade subscriptions");
+
+    for (const eventSource of this.eventSources.values()) {
+      eventSource.close();
+    }
+    // Streams waiting to reconnect have no event source
+    for (const timeout of this.reconnectTimeouts.values()) {
+      clearTimeout(timeout);
+    }
+
+    this.eventSources.clear();
+    this.reconnectTimeouts.clear();
+    this.callbacks.clear();
+  }
+
+  /**
+   * Check if connected to any subscriptions
+   */
+  get connected(): boolean {
+    return this.eventSources.size > 0;
+  }
+}
@@ -1,22 +1,28 @@
 import type {
   Account,
+  Fill,
   Market,
   Order,
+  OrderModification,
   OrderRequest,
   OrderResult,
   Orderbook,
   Position,
+  Trade,
 } from "../../types.js";
 import { logger } from "../../utils/logger.js";
+import { observeRequest } from "../../utils/metrics.js";
 import type { IExchange } from "../types.js";
 import { getAccount as fetchAccount, getPositions as fetchPositions } from "./account.js";
 import { type HyperliquidClients, createHyperliquidClient } from "./client.js";
+import { HyperliquidFillSubscription } from "./fills.js";
 import { getMarkets as fetchMarkets } from "./markets.js";
 import { HyperliquidOrderbookSubscription } from "./orderbook.js";
 import {
   cancelAllOrders as cancelAllHLOrders,
   cancelOrder as cancelHLOrder,
   getOpenOrders as fetchOpenOrders,
+  modifyOrders as modifyHLOrders,
   placeOrder as placeHLOrder,
 } from "./orders.js";
 
@@ -34,6 +40,7 @@ export class HyperliquidAdapter implements IExchange {
   private clients: HyperliquidClients;
   private orderbookSubscription: HyperliquidOrderbookSubscription;
   private orderbookCallbacks: Map<string, (book: Orderbook) => void>;
+  private fillSubscription: HyperliquidFillSubscription;
   private _connected = false;
 
   constructor(config: HyperliquidAdapterConfig) {
@@ -41,6 +48,9 @@ export class HyperliquidAdapter implements IExchange {
     this.orderbookSubscription = new HyperliquidOrderbookSubscription({
       isTestnet: config.isTestnet,
     });
+    this.fillSubscription = new HyperliquidFillSubscription({
+      isTestnet: config.isTestnet,
+    });
     this.orderbookCallbacks = new Map();
   }
 
@@ -76,6 +86,9 @@ export class HyperliquidAdapter implements IExchange {
       // Unsubscribe from all orderbook subscriptions
       await this.orderbookSubscription.disconnect();
 
+      // Unsubscribe from fills
+      await this.fillSubscription.disconnect();
+
       // Clear callbacks
       this.orderbookCallbacks.clear();
 
@@ -142,6 +155,27 @@ export class HyperliquidAdapter implements IExchange {
     }
   }
 
+  /**
+   * Subscribe to public trades via the trades WebSocket channel
+   * @param symbol - Trading symbol (e.g., "BTC" or "BTC/USD:USD")
+   * @param callback - Called once per trade
+   */
+  async subscribeTrades(symbol: string, callback: (trade: Trade) => void): Promise<void> {
+    const base = symbol.includes("/") ? symbol.split("/")[0] : symbol;
+    if (!base) {
+      throw new Error(`Invalid symbol: ${symbol}`);
+    }
+    await this.orderbookSubscription.subscribeTrades(base, callback);
+  }
+
+  /**
+   * Subscribe to fills of our orders via the userFills WebSocket channel
+   * @param callback - Called once per fill
+   */
+  async subscribeFills(callback: (fill: Fill) => void): Promise<void> {
+    await this.fillSubscription.subscribeFills(this.clients.wallet.address, callback);
+  }
+
   /**
    * Get account information (balance, margin, etc.)
    */
@@ -170,7 +204,7 @@ export class HyperliquidAdapter implements IExchange {
    * @returns Order result with exchange-assigned ID
    */
   async placeOrder(order: OrderRequest): Promise<OrderResult> {
-    return placeHLOrder(this.clients, order);
+    return observeRequest(this.name, "place_order", () => placeHLOrder(this.clients, order));
   }
 
   /**
@@ -178,7 +212,7 @@ export class HyperliquidAdapter implements IExchange {
    * @param orderId - Exchange order ID
    */
   async cancelOrder(orderId: string): Promise<void> {
-    return cancelHLOrder(this.clients, orderId);
+    return observeRequest(this.name, "cancel_order", () => cancelHLOrder(this.clients, orderId));
   }
 
   /**
@@ -186,7 +220,17 @@ export class HyperliquidAdapter implements IExchange {
    * @param symbol - Optional symbol filter
    */
   async cancelAllOrders(symbol?: string): Promise<void> {
-    return cancelAllHLOrders(this.clients, symbol);
+    return observeRequest(this.name, "cancel_all", () => cancelAllHLOrders(this.clients, symbol));
+  }
+
+  /**
+   * Amend resting orders in a single batchModify request
+   * @param modifications - Orders to amend with their new parameters
+   */
+  async modifyOrders(modifications: OrderModification[]): Promise<OrderResult[]> {
+    return observeRequest(this.name, "modify_orders", () =>
+      modifyHLOrders(this.clients, modifications)
+    );
   }
 }
 
@@ -0,0 +1,222 @@
+import {
+  type ISubscription,
+  SubscriptionClient,
+  type UserFillsWsEvent,
+  WebSocketTransport,
+} from "@nktkas/hyperliquid";
+import type { Fill } from "../../types.js";
+import { type Scheduler, type TimerHandle, systemScheduler } from "../../utils/clock.js";
+import { logger } from "../../utils/logger.js";
+
+export interface FillSubscriptionConfig {
+  isTestnet?: boolean;
+  /** Subscription client to use (default: one over its own WebSocket) */
+  client?: Pick<SubscriptionClient, "userFills">;
+  /** Timers for resubscribing (default: system) */
+  scheduler?: Scheduler;
+  /** First delay before resubscribing after a failure, doubled per attempt (default: 1000) */
+  resubscribeDelayMs?: number;
+}
+
+/**
+ * Longest delay between resubscribe attempts
+ */
+const MAX_RESUBSCRIBE_DELAY_MS = 30000;
+
+/**
+ * Fill IDs remembered to skip fills that are delivered again
+ */
+const MAX_SEEN_FILLS = 1000;
+
+type HyperliquidFill = UserFillsWsEvent["fills"][number];
+
+/**
+ * Convert a Hyperliquid user fill to the common Fill type
+ */
+export function convertFill(fill: HyperliquidFill): Fill {
+  return {
+    id: fill.tid.toString(),
+    orderId: fill.oid.toString(),
+    clientId: fill.cloid,
+    symbol: `${fill.coin}/USD:USD`,
+    side: fill.side === "B" ? "buy" : "sell",
+    price: Number.parseFloat(fill.px),
+    size: Number.parseFloat(fill.sz),
+    fee: Number.parseFloat(fill.fee),
+    liquidity: fill.crossed ? "taker" : "maker",
+    timestamp: fill.time,
+    raw: fill,
+  };
+}
+
+/**
+ * Hyperliquid user fills subscription manager
+ * Streams fills of the wallet's orders over the userFills WebSocket channel. When the channel
+ * fails, it resubscribes with backoff and delivers the fills made meanwhile from the snapshot.
+ */
+export class HyperliquidFillSubscription {
+  private client: Pick<SubscriptionClient, "userFills">;
+  private scheduler: Scheduler;
+  private resubscribeDelayMs: number;
+  private subscription: ISubscription | null = null;
+  private callbacks: ((fill: Fill) => void)[] = [];
+  private user: `0x${string}` | null = null;
+  private resubscribeTimeout: TimerHandle | null = null;
+  private resubscribeAttempts = 0;
+  private hasSnapshot = false;
+  /** Time of the latest fill seen; snapshot fills from then on may be new */
+  private lastFillTime = 0;
+  private seenFills: Set<number> = new Set();
+
+  constructor(config: FillSubscriptionConfig = {}) {
+    const { isTestnet = false } = config;
+
+    this.client =
+      config.client ??
+      new SubscriptionClient({
+        transport: new WebSocketTransport({
+          isTestnet,
+          resubscribe: true,
+        }),
+      });
+    this.scheduler = config.scheduler ?? systemScheduler;
+    this.resubscribeDelayMs = config.resubscribeDelayMs ?? 1000;
+  }
+
+  /**
+   * Whether the fills channel is subscribed
+   */
+  get connected(): boolean {
+    return this.subscription !== null;
+  }
+
+  /**
+   * Subscribe to fills for a user
+   * The first subscription opens the channel; later calls only add callbacks
+   * @param user - Wallet address
+   * @param callback - Called once per fill
+   */
+  async subscribeFills(user: `0x${string}`, callback: (fill: Fill) => void): Promise<void> {
+    this.callbacks.push(callback);
+
+    if (this.user) {
+      return;
+    }
+    this.user = user;
+
+    try {
+      await this.subscribe(user);
+    } catch (error) {
+      this.user = null;
+      logger.error("Failed to subscribe to Hyperliquid fills", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open the userFills channel and resubscribe when it fails
+   */
+  private async subscribe(user: `0x${string}`): Promise<void> {
+    const subscription = await this.client.userFills({ user }, (data: UserFillsWsEvent) => {
+      this.handleFills(data);
+    });
+    this.subscription = subscription;
+    this.resubscribeAttempts = 0;
+
+    subscription.failureSignal.addEventListener("abort", () => {
+      logger.error("Hyperliquid fills subscription failed");
+      if (this.subscription === subscription) {
+        this.subscription = null;
+        this.scheduleResubscribe();
+      }
+    });
+
+    logger.info(`Subscribed to Hyperliquid fills for ${user}`);
+  }
+
+  private scheduleResubscribe(): void {
+    const user = this.user;
+    if (!user || this.resubscribeTimeout) {
+      return;
+    }
+
+    const delayMs = Math.min(
+      this.resubscribeDelayMs * 2 ** this.resubscribeAttempts,
+      MAX_RESUBSCRIBE_DELAY_MS
+    );
+    this.resubscribeAttempts++;
+    logger.info(`Resubscribing to Hyperliquid fills in ${delayMs}ms...`);
+    this.resubscribeTimeout = this.scheduler.setTimeout(() => {
+      this.resubscribeTimeout = null;
+      this.subscribe(user).catch((error) => {
+        logger.error("Failed to resubscribe to Hyperliquid fills", error);
+        this.scheduleResubscribe();
+      });
+    }, delayMs);
+  }
+
+  private handleFills(data: UserFillsWsEvent): void {
+    if (data.isSnapshot && !this.hasSnapshot) {
+      // The first snapshot replays recent history - those fills are already in our position
+      logger.debug(`Skipping ${data.fills.length} historical Hyperliquid fills`);
+      for (const raw of data.fills) {
+        this.rememberFill(raw);
+      }
+      this.hasSnapshot = true;
+      return;
+    }
+
+    for (const raw of data.fills) {
+      // A snapshot after resubscribing holds the fills missed meanwhile among older ones
+      if (this.seenFills.has(raw.tid) || (data.isSnapshot && raw.time < this.lastFillTime)) {
+        continue;
+      }
+      this.rememberFill(raw);
+      try {
+        const fill = convertFill(raw);
+        for (const cb of this.callbacks) {
+          cb(fill);
+        }
+      } catch (error) {
+        logger.error("Error processing Hyperliquid fill", error);
+      }
+    }
+  }
+
+  private rememberFill(fill: HyperliquidFill): void {
+    this.seenFills.add(fill.tid);
+    if (this.seenFills.size > MAX_SEEN_FILLS) {
+      const oldest = this.seenFills.values().next().value;
+      if (oldest !== undefined) {
+        this.seenFills.delete(oldest);
+      }
+    }
+    this.lastFillTime = Math.max(this.lastFillTime, fill.time);
+  }
+
+  /**
+   * Disconnect and cleanup resources
+   */
+  async disconnect(): Promise<void> {
+    this.user = null;
+    if (this.resubscribeTimeout) {
+      this.scheduler.clearTimer(this.resubscribeTimeout);
+      this.resubscribeTimeout = null;
+    }
+
+    if (this.subscription) {
+      try {
+        await this.subscription.unsubscribe();
+      } catch (error) {
+        logger.error("Error unsubscribing from Hyperliquid fills", error);
+      }
+      this.subscription = null;
+    }
+
+    this.callbacks = [];
+    this.seenFills.clear();
+    this.hasSnapshot = false;
+    this.lastFillTime = 0;
+    logger.info("Hyperliquid fills subscription disconnected");
+  }
+}
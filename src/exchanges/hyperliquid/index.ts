@@ -8,3 +8,5 @@ export {
   createOrderbookSubscriptionFromEnv,
 } from "./orderbook.js";
 export type { OrderbookSubscriptionConfig } from "./orderbook.js";
+export { HyperliquidFillSubscription, convertFill } from "./fills.js";
+export type { FillSubscriptionConfig } from "./fills.js";
@@ -1,6 +1,11 @@
-import { type L2BookWsEvent, SubscriptionClient, WebSocketTransport } from "@nktkas/hyperliquid";
+import {
+  type L2BookWsEvent,
+  SubscriptionClient,
+  type TradesWsEvent,
+  WebSocketTransport,
+} from "@nktkas/hyperliquid";
 import type { ISubscription } from "@nktkas/hyperliquid";
-import type { Orderbook } from "../../types.js";
+import type { Orderbook, Trade } from "../../types.js";
 import { logger } from "../../utils/logger.js";
 
 export interface OrderbookSubscriptionConfig {
@@ -9,12 +14,13 @@ export interface OrderbookSubscriptionConfig {
 
 /**
  * Hyperliquid orderbook subscription manager
- * Handles WebSocket L2 orderbook subscriptions with automatic reconnection
+ * Handles WebSocket L2 orderbook (and public trade) subscriptions with automatic reconnection
  */
 export class HyperliquidOrderbookSubscription {
   private transport: WebSocketTransport;
   private client: SubscriptionClient;
   private subscriptions: Map<string, ISubscription>;
+  private tradeSubscriptions: Map<string, ISubscription> = new Map();
 
   constructor(config: OrderbookSubscriptionConfig = {}) {
     const { isTestnet = false } = config;
@@ -103,6 +109,44 @@ export class HyperliquidOrderbookSubscription {
     }
   }
 
+  /**
+   * Subscribe to public trades for a symbol
+   * @param symbol - Trading symbol (e.g., "BTC")
+   * @param callback - Called once per trade
+   */
+  async subscribeTrades(symbol: string, callback: (trade: Trade) => void): Promise<void> {
+    if (this.tradeSubscriptions.has(symbol)) {
+      logger.warn(`Already subscribed to trades: ${symbol}`);
+      return;
+    }
+
+    try {
+      const subscription = await this.client.trades({ coin: symbol }, (data: TradesWsEvent) => {
+        for (const trade of data) {
+          callback({
+            id: trade.tid.toString(),
+            symbol,
+            side: trade.side === "B" ? "buy" : "sell",
+            price: Number.parseFloat(trade.px),
+            size: Number.parseFloat(trade.sz),
+            timestamp: trade.time,
+          });
+        }
+      });
+
+      this.tradeSubscriptions.set(symbol, subscription);
+      subscription.failureSignal.addEventListener("abort", () => {
+        logger.error(`Trade subscription failed for ${symbol}`);
+        this.tradeSubscriptions.delete(symbol);
+      });
+
+      logger.info(`Subscribed to trades: ${symbol}`);
+    } catch (error) {
+      logger.error(`Failed to subscribe to trades for ${symbol}`, error);
+      throw error;
+    }
+  }
+
   /**
    * Convert Hyperliquid L2 book data to common Orderbook type
    */
@@ -138,21 +182,23 @@ export class HyperliquidOrderbookSubscription {
    */
   async disconnect(): Promise<void> {
     // Unsubscribe from all active subscriptions
-    const unsubscribePromises = Array.from(this.subscriptions.entries()).map(
-      async ([symbol, subscription]) => {
-        try {
-          await subscription.unsubscribe();
-          logger.debug(`Unsubscribed from orderbook: ${symbol}`);
-        } catch (error) {
-          logger.error(`Error unsubscribing from ${symbol}`, error);
-        }
+    const unsubscribePromises = [
+      ...this.subscriptions.entries(),
+      ...this.tradeSubscriptions.entries(),
+    ].map(async ([symbol, subscription]) => {
+      try {
+        await subscription.unsubscribe();
+        logger.debug(`Unsubscribed from orderbook: ${symbol}`);
+      } catch (error) {
+        logger.error(`Error unsubscribing from ${symbol}`, error);
       }
-    );
+    });
 
     await Promise.all(unsubscribePromises);
 
     // Clear subscriptions
     this.subscriptions.clear();
+    this.tradeSubscriptions.clear();
 
     logger.info("Hyperliquid orderbook subscription disconnected");
   }
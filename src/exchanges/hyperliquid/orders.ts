@@ -1,8 +1,104 @@
-import type { Order, OrderRequest, OrderResult } from "../../types.js";
+import type { Market, Order, OrderModification, OrderRequest, OrderResult } from "../../types.js";
 import { logger } from "../../utils/logger.js";
 import type { HyperliquidClients } from "./client.js";
 import { getMarkets } from "./markets.js";
 
+type OrderStatusEntry = Awaited<
+  ReturnType<HyperliquidClients["exchange"]["order"]>
+>["response"]["data"]["statuses"][number];
+
+/**
+ * Find the market for an order symbol
+ */
+function findMarket(markets: Market[], symbol: string): Market {
+  const market = markets.find((m) => m.symbol === symbol || m.base === symbol.split("/")[0]);
+  if (!market) {
+    throw new Error(`Market not found for symbol: ${symbol}`);
+  }
+  return market;
+}
+
+/**
+ * Convert an order request to the Hyperliquid order wire format
+ */
+function toOrderWire(order: OrderRequest, market: Market) {
+  // Determine time-in-force based on order type and postOnly flag
+  // "Ioc" = Immediate or Cancel (market orders are IOC limits at the order's price)
+  // "Alo" = Add Liquidity Only (post-only maker orders)
+  // "Gtc" = Good Till Cancel (standard limit order)
+  const tif: "Ioc" | "Alo" | "Gtc" =
+    order.type === "market" ? "Ioc" : order.postOnly ? "Alo" : "Gtc";
+
+  // Format price and size to avoid floating-point artifacts
+  // Hyperliquid requires properly formatted decimal strings
+  const priceStr = order.price.toFixed(market.pricePrecision);
+  const sizeStr = order.size.toFixed(market.sizePrecision);
+
+  return {
+    a: Number.parseInt(market.id, 10), // Asset ID
+    b: order.side === "buy", // Position side (true for long/buy, false for short/sell)
+    p: priceStr, // Price as string (fixed decimal places)
+    s: sizeStr, // Size as string (fixed decimal places)
+    r: order.reduceOnly ?? false, // Reduce-only flag
+    t: { limit: { tif } } as const, // Order type (limit with time-in-force)
+    c: order.clientId as `0x${string}` | undefined, // Client Order ID (optional)
+  };
+}
+
+/**
+ * Convert a single order status from an order/modify response to an OrderResult
+ */
+function toOrderResult(status: OrderStatusEntry | undefined, response: unknown): OrderResult {
+  // Handle different order status responses
+  if (!status) {
+    throw new Error("No order status in response");
+  }
+
+  // Handle string statuses
+  if (typeof status === "string") {
+    if (status === "waitingForFill") {
+      throw new Error("Order status 'waitingForFill' - order ID not available yet");
+    }
+    if (status === "waitingForTrigger") {
+      throw new Error("Order status 'waitingForTrigger' - unexpected for limit orders");
+    }
+    throw new Error(`Unknown order status: ${status}`);
+  }
+
+  // Handle error status
+  if ("error" in status) {
+    throw new Error(`Order rejected: ${status.error}`);
+  }
+
+  // Determine the order ID based on response type
+  let orderId: number;
+  let orderStatus: "open" | "closed";
+  let clientId: string | undefined;
+
+  if ("resting" in status) {
+    // Order is resting on the book (open)
+    orderId = status.resting.oid;
+    clientId = status.resting.cloid;
+    orderStatus = "open";
+  } else if ("filled" in status) {
+    // Order was immediately filled
+    orderId = status.filled.oid;
+    clientId = status.filled.cloid;
+    orderStatus = "closed";
+    logger.info(`Order immediately filled: ${status.filled.totalSz} @ ${status.filled.avgPx}`);
+  } else {
+    throw new Error(`Unknown order status: ${JSON.stringify(status)}`);
+  }
+
+  return {
+    orderId: orderId.toString(),
+    clientId,
+    status: orderStatus,
+    timestamp: Date.now(),
+    raw: response,
+  };
+}
+
 /**
  * Place a limit order on Hyperliquid
  * Supports reduce-only and post-only flags
@@ -14,39 +110,11 @@ export async function placeOrder(
   try {
     // Get market information to find asset index
     const markets = await getMarkets(clients);
-    const market = markets.find(
-      (m) => m.symbol === order.symbol || m.base === order.symbol.split("/")[0]
-    );
-
-    if (!market) {
-      throw new Error(`Market not found for symbol: ${order.symbol}`);
-    }
-
-    const assetId = Number.parseInt(market.id, 10);
-
-    // Determine time-in-force based on postOnly flag
-    // "Alo" = Add Liquidity Only (post-only maker orders)
-    // "Gtc" = Good Till Cancel (standard limit order)
-    const tif: "Alo" | "Gtc" = order.postOnly ? "Alo" : "Gtc";
-
-    // Format price and size to avoid floating-point artifacts
-    // Hyperliquid requires properly formatted decimal strings
-    const priceStr = order.price.toFixed(market.pricePrecision);
-    const sizeStr = order.size.toFixed(market.sizePrecision);
+    const market = findMarket(markets, order.symbol);
 
     // Prepare order parameters for Hyperliquid
     const orderParams = {
-      orders: [
-        {
-          a: assetId, // Asset ID
-          b: order.side === "buy", // Position side (true for long/buy, false for short/sell)
-          p: priceStr, // Price as string (fixed decimal places)
-          s: sizeStr, // Size as string (fixed decimal places)
-          r: order.reduceOnly ?? false, // Reduce-only flag
-          t: { limit: { tif } } as const, // Order type (limit with time-in-force)
-          c: order.clientId as `0x${string}` | undefined, // Client Order ID (optional)
-        },
-      ],
+      orders: [toOrderWire(order, market)],
       grouping: "na" as const, // No grouping for regular orders
     };
 
@@ -58,62 +126,48 @@ export async function placeOrder(
     const response = await clients.exchange.order(orderParams);
 
     // Extract the status of the first (and only) order
-    const status = response.response.data.statuses[0];
+    const result = toOrderResult(response.response.data.statuses[0], response);
 
-    // Handle different order status responses
-    if (!status) {
-      throw new Error("No order status in response");
-    }
+    logger.info(`Order placed successfully: ID=${result.orderId}, status=${result.status}`);
 
-    // Handle string statuses
-    if (typeof status === "string") {
-      if (status === "waitingForFill") {
-        throw new Error("Order status 'waitingForFill' - order ID not available yet");
-      }
-      if (status === "waitingForTrigger") {
-        throw new Error("Order status 'waitingForTrigger' - unexpected for limit orders");
-      }
-      throw new Error(`Unknown order status: ${status}`);
-    }
+    return result;
+  } catch (error) {
+    logger.error("Failed to place Hyperliquid order", error);
+    throw error;
+  }
+}
 
-    // Handle error status
-    if ("error" in status) {
-      throw new Error(`Order rejected: ${status.error}`);
-    }
+/**
+ * Amend resting orders in a single batchModify request
+ * Each modification is reported separately; a rejected amend throws for the whole batch
+ */
+export async function modifyOrders(
+  clients: HyperliquidClients,
+  modifications: OrderModification[]
+): Promise<OrderResult[]> {
+  if (modifications.length === 0) {
+    return [];
+  }
 
-    // Determine the order ID based on response type
-    let orderId: number;
-    let orderStatus: "open" | "closed";
-    let clientId: string | undefined;
-
-    if ("resting" in status) {
-      // Order is resting on the book (open)
-      orderId = status.resting.oid;
-      clientId = status.resting.cloid;
-      orderStatus = "open";
-    } else if ("filled" in status) {
-      // Order was immediately filled
-      orderId = status.filled.oid;
-      clientId = status.filled.cloid;
-      orderStatus = "closed";
-      logger.info(`Order immediately filled: ${status.filled.totalSz} @ ${status.filled.avgPx}`);
-    } else {
-      throw new Error(`Unknown order status: ${JSON.stringify(status)}`);
-    }
+  try {
+    const markets = await getMarkets(clients);
+    const modifies = modifications.map(({ orderId, order }) => ({
+      oid: Number.parseInt(orderId, 10),
+      order: toOrderWire(order, findMarket(markets, order.symbol)),
+    }));
 
-    const result: OrderResult = {
-      orderId: orderId.toString(),
-      clientId,
-      status: orderStatus,
-      timestamp: Date.now(),
-      raw: response,
-    };
+    logger.debug(`Modifying ${modifies.length} Hyperliquid orders`);
 
-    logger.info(`Order placed successfully: ID=${result.orderId}, status=${result.status}`);
+    const response = await clients.exchange.batchModify({ modifies });
+    const results = response.response.data.statuses.map((status) =>
+      toOrderResult(status, response)
+    );
 
-    return result;
+    logger.info(`Modified ${results.length} orders successfully`);
+
+    return results;
   } catch (error) {
-    logger.error("Failed to place Hyperliquid order", error);
+    logger.error("Failed to modify Hyperliquid orders", error);
     throw error;
   }
 }
@@ -1,16 +1,29 @@
+import type { Scheduler } from "../utils/clock.js";
 import { logger } from "../utils/logger.js";
 import { createAftermathAdapterFromEnv } from "./aftermath/index.js";
 import { createHyperliquidAdapterFromEnv } from "./hyperliquid/index.js";
+import { createPaperAdapterFromEnv } from "./paper/index.js";
 import type { IExchange } from "./types.js";
 
-export type ExchangeName = "aftermath" | "hyperliquid";
+export type ExchangeName = "aftermath" | "hyperliquid" | "paper";
+
+/**
+ * Options for creating an exchange adapter
+ */
+export interface CreateExchangeOptions {
+  /** Exchange providing market data for the paper exchange (default: PAPER_UNDERLYING or hyperliquid) */
+  paperUnderlying?: ExchangeName;
+  /** Clock the paper exchange stamps orders and fills with (default: wall clock) */
+  scheduler?: Scheduler;
+}
 
 /**
  * Create an exchange adapter by name
- * @param name - Exchange name ("aftermath" or "hyperliquid")
+ * @param name - Exchange name ("aftermath", "hyperliquid" or "paper")
+ * @param options - Additional options (e.g., paper underlying exchange)
  * @returns Exchange adapter implementing IExchange
  */
-export function createExchange(name: ExchangeName): IExchange {
+export function createExchange(name: ExchangeName, options?: CreateExchangeOptions): IExchange {
   logger.info(`Creating exchange adapter for: ${name}`);
 
   switch (name.toLowerCase()) {
@@ -20,8 +33,19 @@ export function createExchange(name: ExchangeName): IExchange {
     case "hyperliquid":
       return createHyperliquidAdapterFromEnv();
 
+    case "paper": {
+      const underlying =
+        options?.paperUnderlying ??
+        (process.env.PAPER_UNDERLYING as ExchangeName | undefined) ??
+        "hyperliquid";
+      if (underlying.toLowerCase() === "paper") {
+        throw new Error("Paper exchange cannot use itself as the underlying exchange");
+      }
+      return createPaperAdapterFromEnv(createExchange(underlying), options?.scheduler);
+    }
+
     default:
-      throw new Error(`Unknown exchange: ${name}. Supported: aftermath, hyperliquid`);
+      throw new Error(`Unknown exchange: ${name}. Supported: aftermath, hyperliquid, paper`);
   }
 }
 
@@ -29,10 +53,12 @@ export function createExchange(name: ExchangeName): IExchange {
  * Get list of supported exchange names
  */
 export function getSupportedExchanges(): ExchangeName[] {
-  return ["aftermath", "hyperliquid"];
+  return ["aftermath", "hyperliquid", "paper"];
 }
 
 // Re-export types and adapters
 export type { IExchange } from "./types.js";
 export type { AftermathAdapter } from "./aftermath/index.js";
 export type { HyperliquidAdapter } from "./hyperliquid/index.js";
+export type { PaperAdapter } from "./paper/index.js";
+export type { ReplayExchange } from "./replay/index.js";
@@ -0,0 +1,220 @@
+import type { Account, Position, Side } from "../../types.js";
+import { logger } from "../../utils/logger.js";
+
+/**
+ * Simulated position for a single market
+ */
+interface PaperPosition {
+  symbol: string;
+  size: number; // Signed size (positive for long, negative for short)
+  entryPrice: number;
+  realizedPnl: number;
+  feesPaid: number;
+}
+
+/**
+ * Result of applying a fill to the paper account
+ */
+export interface PaperFillResult {
+  realizedPnl: number; // PnL realized by this fill (before fees)
+  fee: number; // Fee charged for this fill (negative for rebates)
+  positionSize: number; // Signed position size after the fill
+}
+
+/**
+ * Paper trading account ledger
+ * Tracks collateral, per-market positions, entry prices, realized PnL and fees
+ */
+export class PaperAccount {
+  private readonly address: string;
+  private readonly leverage: number;
+  private collateral: number;
+  private positions: Map<string, PaperPosition> = new Map();
+  private markPrices: Map<string, number> = new Map();
+
+  /**
+   * Create a paper account
+   * @param initialCollateral - Starting collateral in quote currency
+   * @param leverage - Leverage used to compute margin requirements
+   * @param address - Display address for the account
+   */
+  constructor(initialCollateral: number, leverage: number, address = "paper") {
+    this.collateral = initialCollateral;
+    this.leverage = leverage;
+    this.address = address;
+  }
+
+  /**
+   * Update the mark price for a market (used for unrealized PnL and margin)
+   */
+  setMarkPrice(symbol: string, price: number): void {
+    if (price > 0) {
+      this.markPrices.set(symbol, price);
+    }
+  }
+
+  /**
+   * Get the signed position size for a market
+   */
+  getPositionSize(symbol: string): number {
+    return this.positions.get(symbol)?.size ?? 0;
+  }
+
+  /**
+   * Apply a fill to the ledger
+   * @param symbol - Market symbol
+   * @param side - Fill side
+   * @param price - Fill price
+   * @param size - Fill size (positive)
+   * @param feeBps - Fee rate in basis points (negative for rebates)
+   */
+  applyFill(
+    symbol: string,
+    side: Side,
+    price: number,
+    size: number,
+    feeBps: number
+  ): PaperFillResult {
+    const position = this.positions.get(symbol) ?? {
+      symbol,
+      size: 0,
+      entryPrice: 0,
+      realizedPnl: 0,
+      feesPaid: 0,
+    };
+
+    const signedSize = side === "buy" ? size : -size;
+    const fee = (price * size * feeBps) / 10000;
+    let realizedPnl = 0;
+
+    if (position.size === 0 || Math.sign(position.size) === Math.sign(signedSize)) {
+      // Opening or increasing - blend entry price
+      const totalSize = Math.abs(position.size) + size;
+      position.entryPrice =
+        (Math.abs(position.size) * position.entryPrice + size * price) / totalSize;
+      position.size += signedSize;
+    } else {
+      // Reducing, closing or flipping
+      const closedSize = Math.min(size, Math.abs(position.size));
+      realizedPnl = closedSize * (price - position.entryPrice) * Math.sign(position.size);
+      position.size += signedSize;
+
+      if (Math.abs(position.size) < 1e-12) {
+        position.size = 0;
+        position.entryPrice = 0;
+      } else if (size > closedSize) {
+        // Flipped through zero - the remainder opens at the fill price
+        position.entryPrice = price;
+      }
+    }
+
+    position.realizedPnl += realizedPnl;
+    position.feesPaid += fee;
+    this.collateral += realizedPnl - fee;
+    this.positions.set(symbol, position);
+
+    logger.debug(
+      `Paper fill: ${side} ${size} ${symbol} @ ${price}, fee=${fee.toFixed(4)}, realized=${realizedPnl.toFixed(4)}, position=${position.size}`
+    );
+
+    return { realizedPnl, fee, positionSize: position.size };
+  }
+
+  /**
+   * Get unrealized PnL for a market at the current mark price
+   */
+  getUnrealizedPnl(symbol: string): number {
+    const position = this.positions.get(symbol);
+    if (!position || position.size === 0) return 0;
+
+    const mark = this.markPrices.get(symbol) ?? position.entryPrice;
+    return position.size * (mark - position.entryPrice);
+  }
+
+  /**
+   * Get the account snapshot in the common Account shape
+   */
+  getAccount(): Account {
+    let unrealizedPnl = 0;
+    let margin = 0;
+
+    for (const position of this.positions.values()) {
+      if (position.size === 0) continue;
+      const mark = this.markPrices.get(position.symbol) ?? position.entryPrice;
+      unrealizedPnl += this.getUnrealizedPnl(position.symbol);
+      margin += (Math.abs(position.size) * mark) / this.leverage;
+    }
+
+    const equity = this.collateral + unrealizedPnl;
+
+    return {
+      address: this.address,
+      equity,
+      margin,
+      availableMargin: equity - margin,
+      leverage: this.leverage,
+      raw: {
+        collateral: this.collateral,
+        unrealizedPnl,
+        realizedPnl: this.getRealizedPnl(),
+        feesPaid: this.getFeesPaid(),
+      },
+    };
+  }
+
+  /**
+   * Get all non-zero positions in the common Position shape
+   */
+  getPositions(): Position[] {
+    const positions: Position[] = [];
+
+    for (const position of this.positions.values()) {
+      if (position.size === 0) continue;
+      const mark = this.markPrices.get(position.symbol) ?? position.entryPrice;
+
+      positions.push({
+        symbol: position.symbol,
+        side: position.size > 0 ? "long" : "short",
+        size: Math.abs(position.size),
+        entryPrice: position.entryPrice,
+        markPrice: mark,
+        unrealizedPnl: this.getUnrealizedPnl(position.symbol),
+        realizedPnl: position.realizedPnl,
+        leverage: this.leverage,
+        margin: (Math.abs(position.size) * mark) / this.leverage,
+        raw: { ...position },
+      });
+    }
+
+    return positions;
+  }
+
+  /**
+   * Get total realized PnL across all markets (before fees)
+   */
+  getRealizedPnl(): number {
+    let total = 0;
+    for (const position of this.positions.values()) {
+      total += position.realizedPnl;
+    }
+    return total;
+  }
+
+  /**
+   * Get total fees paid across all markets
+   */
+  getFeesPaid(): number {
+    let total = 0;
+    for (const position of this.positions.values()) {
+      total += position.feesPaid;
+    }
+    return total;
+  }
+
+  /**
+   * Get current collateral (initial collateral + realized PnL - fees)
+   */
+  getCollateral(): number {
+    return this.collateral;
+  }
+}
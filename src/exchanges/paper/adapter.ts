@@ -0,0 +1,494 @@
+import type {
+  Account,
+  Fill,
+  Liquidity,
+  Market,
+  Order,
+  OrderModification,
+  OrderRequest,
+  OrderResult,
+  Orderbook,
+  Position,
+  Side,
+} from "../../types.js";
+import { type Scheduler, systemScheduler } from "../../utils/clock.js";
+import { logger } from "../../utils/logger.js";
+import { observeRequest } from "../../utils/metrics.js";
+import type { IExchange } from "../types.js";
+import { PaperAccount } from "./account.js";
+import { crossingLiquidity, midPrice, takeLiquidity, wouldCross } from "./orders.js";
+
+export interface PaperAdapterConfig {
+  /** Exchange providing markets and orderbook data (real or recorded) */
+  underlying: IExchange;
+  /** Starting collateral in quote currency (default: 10000) */
+  initialCollateral?: number;
+  /** Maker fee in basis points, negative for rebates (default: 1.5) */
+  makerFeeBps?: number;
+  /** Taker fee in basis points (default: 4.5) */
+  takerFeeBps?: number;
+  /** Leverage used for margin calculation (default: 10) */
+  leverage?: number;
+  /** Clock stamping orders and fills (default: wall clock) */
+  scheduler?: Scheduler;
+}
+
+const DEFAULT_INITIAL_COLLATERAL = 10000;
+const DEFAULT_MAKER_FEE_BPS = 1.5;
+const DEFAULT_TAKER_FEE_BPS = 4.5;
+const DEFAULT_LEVERAGE = 10;
+
+/**
+ * Paper trading adapter implementing the unified IExchange interface.
+ * Market data comes from an underlying exchange; orders are simulated locally by
+ * matching resting limit orders against the live orderbook stream.
+ */
+export class PaperAdapter implements IExchange {
+  readonly name = "paper";
+  private underlying: IExchange;
+  private account: PaperAccount;
+  private makerFeeBps: number;
+  private takerFeeBps: number;
+  private scheduler: Scheduler;
+  private markets: Market[] = [];
+  private orderbooks: Map<string, Orderbook> = new Map();
+  private openOrders: Map<string, Order> = new Map();
+  private fillCallbacks: ((fill: Fill) => void)[] = [];
+  private nextOrderId = 1;
+  private nextFillId = 1;
+  private _connected = false;
+
+  constructor(config: PaperAdapterConfig) {
+    this.underlying = config.underlying;
+    this.makerFeeBps = config.makerFeeBps ?? DEFAULT_MAKER_FEE_BPS;
+    this.takerFeeBps = config.takerFeeBps ?? DEFAULT_TAKER_FEE_BPS;
+    this.scheduler = config.scheduler ?? systemScheduler;
+    this.account = new PaperAccount(
+      config.initialCollateral ?? DEFAULT_INITIAL_COLLATERAL,
+      config.leverage ?? DEFAULT_LEVERAGE,
+      `paper:${this.underlying.name}`
+    );
+  }
+
+  get connected(): boolean {
+    return this._connected && this.underlying.connected;
+  }
+
+  /**
+   * Connect to the underlying exchange for market data
+   */
+  async connect(): Promise<void> {
+    try {
+      logger.info(`Connecting paper exchange (market data from ${this.underlying.name})...`);
+
+      await this.underlying.connect();
+      this.markets = await this.underlying.getMarkets();
+
+      this._connected = true;
+      logger.info(
+        `Paper exchange connected: equity=$${this.account.getAccount().equity.toFixed(2)}, maker=${this.makerFeeBps}bps, taker=${this.takerFeeBps}bps`
+      );
+    } catch (error) {
+      logger.error("Failed to connect paper exchange", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Disconnect from the underlying exchange
+   */
+  async disconnect(): Promise<void> {
+    try {
+      logger.info("Disconnecting paper exchange...");
+
+      await this.underlying.disconnect();
+      this.orderbooks.clear();
+      this.fillCallbacks = [];
+
+      this._connected = false;
+      logger.info("Paper exchange disconnected");
+    } catch (error) {
+      logger.error("Failed to disconnect paper exchange", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all available markets from the underlying exchange
+   */
+  async getMarkets(): Promise<Market[]> {
+    if (this.markets.length === 0) {
+      this.markets = await this.underlying.getMarkets();
+    }
+    return this.markets;
+  }
+
+  /**
+   * Resolve a symbol (e.g., "BTC" or "BTC/USD:USD") to its market
+   */
+  private resolveMarket(symbol: string): Market {
+    const base = symbol.split("/")[0].toLowerCase();
+    const market = this.markets.find((m) => m.symbol === symbol || m.base.toLowerCase() === base);
+
+    if (!market) {
+      throw new Error(`Market not found for symbol: ${symbol}`);
+    }
+    return market;
+  }
+
+  /**
+   * Subscribe to orderbook updates for a symbol
+   * Each update is also used to match resting paper orders
+   * @param symbol - Trading symbol
+   * @param callback - Called on each orderbook update
+   */
+  async subscribeOrderbook(symbol: string, callback: (book: Orderbook) => void): Promise<void> {
+    const market = this.resolveMarket(symbol);
+
+    await this.underlying.subscribeOrderbook(symbol, (book) => {
+      this.orderbooks.set(market.symbol, book);
+
+      const mid = midPrice(book);
+      if (mid !== null) {
+        this.account.setMarkPrice(market.symbol, mid);
+      }
+
+      this.matchRestingOrders(market.symbol, book);
+      callback(book);
+    });
+  }
+
+  /**
+   * Unsubscribe from orderbook updates for a symbol
+   * @param symbol - Trading symbol
+   */
+  async unsubscribeOrderbook(symbol: string): Promise<void> {
+    await this.underlying.unsubscribeOrderbook(symbol);
+    this.orderbooks.delete(this.resolveMarket(symbol).symbol);
+  }
+
+  /**
+   * Check that the underlying exchange's book for a symbol is in sync
+   * @param symbol - Trading symbol
+   */
+  isBookHealthy(symbol: string): boolean {
+    return this.underlying.isBookHealthy?.(symbol) ?? true;
+  }
+
+  /**
+   * Subscribe to simulated fills
+   * @param callback - Called once per simulated fill
+   */
+  async subscribeFills(callback: (fill: Fill) => void): Promise<void> {
+    this.fillCallbacks.push(callback);
+  }
+
+  /**
+   * Get simulated account information
+   */
+  async getAccount(): Promise<Account> {
+    return this.account.getAccount();
+  }
+
+  /**
+   * Get simulated positions
+   */
+  async getPositions(): Promise<Position[]> {
+    return this.account.getPositions();
+  }
+
+  /**
+   * Get resting paper orders, optionally filtered by symbol
+   * @param symbol - Optional symbol filter
+   */
+  async getOpenOrders(symbol?: string): Promise<Order[]> {
+    const orders = Array.from(this.openOrders.values());
+    if (!symbol) {
+      return orders.map((o) => ({ ...o }));
+    }
+
+    const marketSymbol = this.resolveMarket(symbol).symbol;
+    return orders.filter((o) => o.symbol === marketSymbol).map((o) => ({ ...o }));
+  }
+
+  /**
+   * Place a simulated order
+   * Marketable orders take liquidity from the current book at the taker fee,
+   * the remainder of limit orders rests until the book trades through it.
+   * @param order - Order parameters
+   */
+  async placeOrder(order: OrderRequest): Promise<OrderResult> {
+    return observeRequest(this.name, "place_order", async () => this.simulateOrder(order));
+  }
+
+  /**
+   * Match or rest a simulated order
+   */
+  private simulateOrder(order: OrderRequest): OrderResult {
+    const market = this.resolveMarket(order.symbol);
+    const book = this.orderbooks.get(market.symbol);
+
+    if (!book) {
+      throw new Error(`No orderbook for ${market.symbol}, subscribe before trading`);
+    }
+
+    let size = order.size;
+    if (order.reduceOnly) {
+      size = this.clipReduceOnly(market.symbol, order.side, size);
+      if (size <= 0) {
+        throw new Error("Order rejected: reduce-only order would increase position");
+      }
+    }
+
+    const orderId = String(this.nextOrderId++);
+    const timestamp = this.scheduler.now();
+    const crosses = order.type === "market" || wouldCross(book, order.side, order.price);
+
+    if (crosses && order.postOnly) {
+      throw new Error("Order rejected: post-only order would have immediately matched");
+    }
+
+    let filled = 0;
+    if (crosses) {
+      const limitPrice = order.type === "limit" ? order.price : undefined;
+      for (const execution of takeLiquidity(book, order.side, size, limitPrice)) {
+        this.executeFill(
+          { id: orderId, clientId: order.clientId, symbol: market.symbol, side: order.side },
+          execution.price,
+          execution.size,
+          "taker"
+        );
+        filled += execution.size;
+      }
+    }
+
+    const remaining = size - filled;
+
+    // Market orders never rest; unfilled remainder is dropped
+    if (order.type === "market" || remaining <= 1e-12) {
+      logger.info(`Paper order ${orderId} filled: ${order.side} ${filled} ${market.symbol}`);
+      return {
+        orderId,
+        clientId: order.clientId,
+        status: "closed",
+        timestamp,
+      };
+    }
+
+    this.openOrders.set(orderId, {
+      id: orderId,
+      clientId: order.clientId,
+      symbol: market.symbol,
+      type: "limit",
+      side: order.side,
+      price: order.price,
+      size,
+      filled,
+      remaining,
+      status: "open",
+      timestamp,
+      reduceOnly: order.reduceOnly,
+      postOnly: order.postOnly,
+    });
+
+    logger.debug(`Paper order ${orderId} resting: ${order.side} ${remaining} @ ${order.price}`);
+
+    return {
+      orderId,
+      clientId: order.clientId,
+      status: "open",
+      timestamp,
+    };
+  }
+
+  /**
+   * Cancel a resting paper order
+   * @param orderId - Paper order ID
+   */
+  async cancelOrder(orderId: string): Promise<void> {
+    return observeRequest(this.name, "cancel_order", async () => this.removeOrder(orderId));
+  }
+
+  /**
+   * Remove a resting simulated order
+   */
+  private removeOrder(orderId: string): void {
+    if (!this.openOrders.delete(orderId)) {
+      throw new Error(`Order not found: ${orderId}`);
+    }
+    logger.debug(`Paper order canceled: ${orderId}`);
+  }
+
+  /**
+   * Cancel all resting paper orders, optionally filtered by symbol
+   * @param symbol - Optional symbol filter
+   */
+  async cancelAllOrders(symbol?: string): Promise<void> {
+    return observeRequest(this.name, "cancel_all", async () => {
+      const marketSymbol = symbol ? this.resolveMarket(symbol).symbol : undefined;
+
+      for (const [orderId, order] of this.openOrders) {
+        if (!marketSymbol || order.symbol === marketSymbol) {
+          this.openOrders.delete(orderId);
+        }
+      }
+    });
+  }
+
+  /**
+   * Amend resting orders by canceling and re-placing them with the same checks as placeOrder
+   * A replacement that fails those checks leaves the original order resting and is
+   * reported as a rejected result instead of throwing for the whole batch.
+   * @param modifications - Orders to amend with their new parameters
+   */
+  async modifyOrders(modifications: OrderModification[]): Promise<OrderResult[]> {
+    return observeRequest(this.name, "modify_orders", async () =>
+      modifications.map(({ orderId, order }) => this.amendOrder(orderId, order))
+    );
+  }
+
+  /**
+   * Replace a resting order, restoring it if the replacement is rejected
+   */
+  private amendOrder(orderId: string, order: OrderRequest): OrderResult {
+    const original = this.openOrders.get(orderId);
+    this.removeOrder(orderId);
+
+    try {
+      return this.simulateOrder(order);
+    } catch (error) {
+      if (original) {
+        this.openOrders.set(orderId, original);
+      }
+      logger.warn(`Paper amend of order ${orderId} rejected: ${(error as Error).message}`);
+      return {
+        orderId,
+        clientId: order.clientId,
+        status: "rejected",
+        timestamp: this.scheduler.now(),
+        raw: { error: (error as Error).message },
+      };
+    }
+  }
+
+  /**
+   * Get the simulated account ledger
+   */
+  getPaperAccount(): PaperAccount {
+    return this.account;
+  }
+
+  /**
+   * Apply a simulated execution to the ledger and notify fill subscribers
+   */
+  private executeFill(
+    order: Pick<Order, "id" | "clientId" | "symbol" | "side">,
+    price: number,
+    size: number,
+    liquidity: Liquidity
+  ): void {
+    const feeBps = liquidity === "maker" ? this.makerFeeBps : this.takerFeeBps;
+    const result = this.account.applyFill(order.symbol, order.side, price, size, feeBps);
+
+    const fill: Fill = {
+      id: String(this.nextFillId++),
+      orderId: order.id,
+      clientId: order.clientId,
+      symbol: order.symbol,
+      side: order.side,
+      price,
+      size,
+      fee: result.fee,
+      liquidity,
+      timestamp: this.scheduler.now(),
+    };
+
+    for (const callback of this.fillCallbacks) {
+      try {
+        callback(fill);
+      } catch (error) {
+        logger.error("Fill callback error:", error);
+      }
+    }
+  }
+
+  /**
+   * Clip a reduce-only order to the size that actually reduces the position
+   */
+  private clipReduceOnly(symbol: string, side: Side, size: number): number {
+    const position = this.account.getPositionSize(symbol);
+    if (side === "buy" && position < 0) return Math.min(size, -position);
+    if (side === "sell" && position > 0) return Math.min(size, position);
+    return 0;
+  }
+
+  /**
+   * Fill resting orders that the book has traded through
+   * Liquidity consumed by one order is not available to the next one in the same update.
+   */
+  private matchRestingOrders(symbol: string, book: Orderbook): void {
+    const resting = Array.from(this.openOrders.values()).filter((o) => o.symbol === symbol);
+    if (resting.length === 0) return;
+
+    // Most aggressive orders get filled first
+    const bids = resting.filter((o) => o.side === "buy").sort((a, b) => b.price - a.price);
+    const asks = resting.filter((o) => o.side === "sell").sort((a, b) => a.price - b.price);
+
+    for (const orders of [bids, asks]) {
+      let consumed = 0;
+
+      for (const order of orders) {
+        const available = crossingLiquidity(book, order.side, order.price) - consumed;
+        if (available <= 0) break;
+
+        let fillSize = Math.min(order.remaining, available);
+        if (order.reduceOnly) {
+          fillSize = Math.min(fillSize, this.clipReduceOnly(symbol, order.side, fillSize));
+          if (fillSize <= 0) {
+            // Position already closed - a reduce-only order can no longer execute
+            this.openOrders.delete(order.id);
+            logger.debug(`Paper reduce-only order ${order.id} canceled, nothing to reduce`);
+            continue;
+          }
+        }
+
+        this.executeFill(order, order.price, fillSize, "maker");
+        consumed += fillSize;
+        order.filled += fillSize;
+        order.remaining -= fillSize;
+
+        logger.info(
+          `Paper fill: ${order.side} ${fillSize} ${symbol} @ ${order.price} (order ${order.id})`
+        );
+
+        if (order.remaining <= 1e-12) {
+          order.remaining = 0;
+          order.status = "closed";
+          this.openOrders.delete(order.id);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Create a paper adapter from environment variables
+ * @param underlying - Exchange providing market data
+ * @param scheduler - Clock stamping orders and fills (default: wall clock)
+ */
+export function createPaperAdapterFromEnv(
+  underlying: IExchange,
+  scheduler?: Scheduler
+): PaperAdapter {
+  const parse = (value: string | undefined) =>
+    value !== undefined && value !== "" ? Number.parseFloat(value) : undefined;
+
+  return new PaperAdapter({
+    underlying,
+    initialCollateral: parse(process.env.PAPER_INITIAL_COLLATERAL),
+    makerFeeBps: parse(process.env.PAPER_MAKER_FEE_BPS),
+    takerFeeBps: parse(process.env.PAPER_TAKER_FEE_BPS),
+    leverage: parse(process.env.PAPER_LEVERAGE),
+    scheduler,
+  });
+}
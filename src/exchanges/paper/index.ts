@@ -0,0 +1,7 @@
+// Paper trading exchange adapter exports
+export { PaperAdapter, createPaperAdapterFromEnv } from "./adapter.js";
+export type { PaperAdapterConfig } from "./adapter.js";
+export { PaperAccount } from "./account.js";
+export type { PaperFillResult } from "./account.js";
+export { crossingLiquidity, midPrice, takeLiquidity, wouldCross } from "./orders.js";
+export type { PaperExecution } from "./orders.js";
@@ -0,0 +1,89 @@
+import type { Orderbook, Side } from "../../types.js";
+
+/**
+ * A single simulated execution
+ */
+export interface PaperExecution {
+  price: number;
+  size: number;
+}
+
+/**
+ * Check whether an order at the given price would immediately match the book
+ * @param book - Current orderbook
+ * @param side - Order side
+ * @param price - Limit price
+ */
+export function wouldCross(book: Orderbook, side: Side, price: number): boolean {
+  if (side === "buy") {
+    const bestAsk = book.asks[0];
+    return bestAsk !== undefined && price >= bestAsk[0];
+  }
+  const bestBid = book.bids[0];
+  return bestBid !== undefined && price <= bestBid[0];
+}
+
+/**
+ * Walk the opposite side of the book as a taker
+ * Consumes levels from the touch until the size is filled or the limit price is reached
+ * @param book - Current orderbook
+ * @param side - Taker side
+ * @param size - Size to fill
+ * @param limitPrice - Worst acceptable price (omit for market orders)
+ * @returns Executions at each consumed level
+ */
+export function takeLiquidity(
+  book: Orderbook,
+  side: Side,
+  size: number,
+  limitPrice?: number
+): PaperExecution[] {
+  const levels = side === "buy" ? book.asks : book.bids;
+  const executions: PaperExecution[] = [];
+  let remaining = size;
+
+  for (const [price, levelSize] of levels) {
+    if (remaining <= 0) break;
+    if (limitPrice !== undefined) {
+      if (side === "buy" && price > limitPrice) break;
+      if (side === "sell" && price < limitPrice) break;
+    }
+
+    const fillSize = Math.min(remaining, levelSize);
+    executions.push({ price, size: fillSize });
+    remaining -= fillSize;
+  }
+
+  return executions;
+}
+
+/**
+ * Size available to fill a resting order whose price has been traded through
+ * A resting buy fills against asks at or below its price, a resting sell against
+ * bids at or above its price. Resting orders always fill at their own limit price.
+ * @param book - Current orderbook
+ * @param side - Resting order side
+ * @param price - Resting order price
+ */
+export function crossingLiquidity(book: Orderbook, side: Side, price: number): number {
+  const levels = side === "buy" ? book.asks : book.bids;
+  let available = 0;
+
+  for (const [levelPrice, levelSize] of levels) {
+    if (side === "buy" && levelPrice > price) break;
+    if (side === "sell" && levelPrice < price) break;
+    available += levelSize;
+  }
+
+  return available;
+}
+
+/**
+ * Mid price of the book, or null if either side is empty
+ */
+export function midPrice(book: Orderbook): number | null {
+  const bestBid = book.bids[0];
+  const bestAsk = book.asks[0];
+  if (!bestBid || !bestAsk) return null;
+  return (bestBid[0] + bestAsk[0]) / 2;
+}
@@ -0,0 +1,272 @@
+import { type MarketDataEvent, applyBookEvent, readMarketData } from "../../recorder/reader.js";
+import type {
+  Account,
+  Fill,
+  Market,
+  Order,
+  OrderRequest,
+  OrderResult,
+  Orderbook,
+  Position,
+  Trade,
+} from "../../types.js";
+import type { VirtualClock } from "../../utils/clock.js";
+import { logger } from "../../utils/logger.js";
+import type { IExchange } from "../types.js";
+
+export interface ReplayExchangeConfig {
+  /** Capture file or directory in the recorder format (see src/recorder) */
+  path: string;
+  /** Clock deciding which recorded events have happened */
+  clock: VirtualClock;
+  /** The one market the capture holds */
+  market: Market;
+  /** Account equity reported to the bot (default: 10000) */
+  equity?: number;
+}
+
+/**
+ * Something the bot asked the replay exchange to do
+ */
+export type ReplayAction =
+  | { type: "place"; ts: number; orderId: string; request: OrderRequest }
+  | { type: "cancel"; ts: number; orderId: string }
+  | { type: "cancel_all"; ts: number; symbol?: string };
+
+const DEFAULT_EQUITY = 10000;
+
+/**
+ * Exchange adapter that plays back a recorded capture on a virtual clock
+ * Book and trade events are delivered when the clock passes their ts. Orders are
+ * accepted, rest until canceled and never fill; every request is logged so tests can
+ * assert on exactly what the bot sent. Wrap it in a PaperAdapter to simulate fills.
+ */
+export class ReplayExchange implements IExchange {
+  readonly name = "replay";
+  private path: string;
+  private clock: VirtualClock;
+  private market: Market;
+  private equity: number;
+  private events: MarketDataEvent[] = [];
+  private cursor = 0;
+  private book: Orderbook | null = null;
+  private bookCallbacks: ((book: Orderbook) => void)[] = [];
+  private tradeCallbacks: ((trade: Trade) => void)[] = [];
+  private openOrders: Map<string, Order> = new Map();
+  private actions: ReplayAction[] = [];
+  private nextOrderId = 1;
+  private removeClockListener: (() => void) | null = null;
+  private _connected = false;
+
+  constructor(config: ReplayExchangeConfig) {
+    this.path = config.path;
+    this.clock = config.clock;
+    this.market = config.market;
+    this.equity = config.equity ?? DEFAULT_EQUITY;
+  }
+
+  get connected(): boolean {
+    return this._connected;
+  }
+
+  /**
+   * Load the capture and start following the clock
+   */
+  async connect(): Promise<void> {
+    this.events = [];
+    for await (const event of readMarketData(this.path)) {
+      if (event.type !== "price") {
+        this.events.push(event);
+      }
+    }
+    this.cursor = 0;
+    this.book = null;
+    this.removeClockListener = this.clock.onAdvance((now) => this.replayUntil(now));
+    this._connected = true;
+
+    logger.info(`Replay exchange loaded ${this.events.length} events from ${this.path}`);
+    this.replayUntil(this.clock.now());
+  }
+
+  /**
+   * Stop following the clock
+   */
+  async disconnect(): Promise<void> {
+    this.removeClockListener?.();
+    this.removeClockListener = null;
+    this.bookCallbacks = [];
+    this.tradeCallbacks = [];
+    this._connected = false;
+  }
+
+  /**
+   * Deliver every event recorded up to a time
+   */
+  private replayUntil(now: number): void {
+    while (this.cursor < this.events.length && this.events[this.cursor].ts <= now) {
+      const event = this.events[this.cursor++];
+      if (event.type === "trade") {
+        const trade: Trade = {
+          symbol: this.market.symbol,
+          side: event.side,
+          price: event.price,
+          size: event.size,
+          timestamp: event.ts,
+        };
+        for (const callback of this.tradeCallbacks) {
+          callback(trade);
+        }
+      } else if (event.type === "book" || event.type === "book_delta") {
+        this.book = applyBookEvent(this.book, event, this.market.symbol);
+        if (!this.book) continue;
+        for (const callback of this.bookCallbacks) {
+          callback(this.book);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the replayed market
+   */
+  async getMarkets(): Promise<Market[]> {
+    return [this.market];
+  }
+
+  /**
+   * Check that a symbol refers to the replayed market
+   */
+  private checkSymbol(symbol: string): void {
+    const base = symbol.split("/")[0].toLowerCase();
+    if (symbol !== this.market.symbol && base !== this.market.base.toLowerCase()) {
+      throw new Error(`Market not found for symbol: ${symbol}`);
+    }
+  }
+
+  /**
+   * Subscribe to replayed books (the current book, if any, is delivered right away)
+   * @param symbol - Trading symbol
+   * @param callback - Called on each book update
+   */
+  async subscribeOrderbook(symbol: string, callback: (book: Orderbook) => void): Promise<void> {
+    this.checkSymbol(symbol);
+    this.bookCallbacks.push(callback);
+    if (this.book) {
+      callback(this.book);
+    }
+  }
+
+  /**
+   * Unsubscribe from replayed books
+   * @param symbol - Trading symbol
+   */
+  async unsubscribeOrderbook(symbol: string): Promise<void> {
+    this.checkSymbol(symbol);
+    this.bookCallbacks = [];
+  }
+
+  /**
+   * Subscribe to replayed public trades
+   * @param symbol - Trading symbol
+   * @param callback - Called once per trade
+   */
+  async subscribeTrades(symbol: string, callback: (trade: Trade) => void): Promise<void> {
+    this.checkSymbol(symbol);
+    this.tradeCallbacks.push(callback);
+  }
+
+  /**
+   * Subscribe to fills
+   * @param _callback - Never called
+   */
+  async subscribeFills(_callback: (fill: Fill) => void): Promise<void> {
+    // Replayed orders never fill
+  }
+
+  /**
+   * Get a fixed account with no margin in use
+   */
+  async getAccount(): Promise<Account> {
+    return { address: "replay", equity: this.equity, margin: 0, availableMargin: this.equity };
+  }
+
+  /**
+   * Replayed orders never fill, so there is never a position
+   */
+  async getPositions(): Promise<Position[]> {
+    return [];
+  }
+
+  /**
+   * Get resting orders
+   * @param symbol - Optional symbol filter
+   */
+  async getOpenOrders(symbol?: string): Promise<Order[]> {
+    if (symbol) this.checkSymbol(symbol);
+    return Array.from(this.openOrders.values()).map((o) => ({ ...o }));
+  }
+
+  /**
+   * Accept an order and leave it resting
+   * @param order - Order parameters
+   */
+  async placeOrder(order: OrderRequest): Promise<OrderResult> {
+    this.checkSymbol(order.symbol);
+
+    const orderId = String(this.nextOrderId++);
+    const timestamp = this.clock.now();
+    this.actions.push({ type: "place", ts: timestamp, orderId, request: { ...order } });
+    this.openOrders.set(orderId, {
+      id: orderId,
+      clientId: order.clientId,
+      symbol: this.market.symbol,
+      type: order.type,
+      side: order.side,
+      price: order.price,
+      size: order.size,
+      filled: 0,
+      remaining: order.size,
+      status: "open",
+      timestamp,
+      reduceOnly: order.reduceOnly,
+      postOnly: order.postOnly,
+    });
+
+    return { orderId, clientId: order.clientId, status: "open", timestamp };
+  }
+
+  /**
+   * Cancel a resting order
+   * @param orderId - Order ID
+   */
+  async cancelOrder(orderId: string): Promise<void> {
+    if (!this.openOrders.delete(orderId)) {
+      throw new Error(`Order not found: ${orderId}`);
+    }
+    this.actions.push({ type: "cancel", ts: this.clock.now(), orderId });
+  }
+
+  /**
+   * Cancel all resting orders
+   * @param symbol - Optional symbol filter
+   */
+  async cancelAllOrders(symbol?: string): Promise<void> {
+    if (symbol) this.checkSymbol(symbol);
+    this.openOrders.clear();
+    this.actions.push({ type: "cancel_all", ts: this.clock.now(), symbol });
+  }
+
+  /**
+   * Get everything the bot sent, in order
+   */
+  getActions(): ReplayAction[] {
+    return [...this.actions];
+  }
+
+  /**
+   * Get the placed orders, in order
+   */
+  getOrderRequests(): OrderRequest[] {
+    return this.actions.flatMap((a) => (a.type === "place" ? [a.request] : []));
+  }
+}
@@ -0,0 +1,3 @@
+// Replay exchange adapter exports
+export { ReplayExchange } from "./adapter.js";
+export type { ReplayAction, ReplayExchangeConfig } from "./adapter.js";
@@ -1,11 +1,14 @@
 import type {
   Account,
+  Fill,
   Market,
   Order,
+  OrderModification,
   OrderRequest,
   OrderResult,
   Orderbook,
   Position,
+  Trade,
 } from "../types.js";
 
 /**
@@ -50,6 +53,44 @@ export interface IExchange {
    */
   unsubscribeOrderbook(symbol: string): Promise<void>;
 
+  /**
+   * Subscribe to fills of our own orders across all symbols
+   * Multiple callbacks may be registered; they are removed on disconnect
+   * @param callback - Called once per fill as soon as the exchange reports it
+   * @returns Promise that resolves when subscription is established
+   */
+  subscribeFills(callback: (fill: Fill) => void): Promise<void>;
+
+  /**
+   * Subscribe to state changes of our own orders across all symbols (optional)
+   * Pushed when an order rests, fills, is canceled or expires; callers that need the
+   * full order list still poll getOpenOrders as a backstop
+   * @param callback - Called with the latest state of each updated order
+   */
+  subscribeOrders?(callback: (order: Order) => void): Promise<void>;
+
+  /**
+   * Subscribe to changes of our own positions across all symbols (optional)
+   * @param callback - Called with each changed position; a closed one has size 0
+   */
+  subscribePositions?(callback: (position: Position) => void): Promise<void>;
+
+  /**
+   * Subscribe to public trades for a symbol (optional; not every venue streams them)
+   * @param symbol - Trading symbol
+   * @param callback - Called once per trade
+   * @returns Promise that resolves when subscription is established
+   */
+  subscribeTrades?(symbol: string, callback: (trade: Trade) => void): Promise<void>;
+
+  /**
+   * Check that the streamed orderbook for a symbol is in sync (optional)
+   * Adapters that rebuild books from deltas report false while resyncing;
+   * callers treat a missing method as always healthy.
+   * @param symbol - Trading symbol
+   */
+  isBookHealthy?(symbol: string): boolean;
+
   // Account management
   /**
    * Get account information (balance, margin, etc.)
@@ -87,4 +128,13 @@ export interface IExchange {
    * @param symbol - Optional symbol filter
    */
   cancelAllOrders(symbol?: string): Promise<void>;
+
+  /**
+   * Amend resting orders in as few requests as the exchange allows (optional)
+   * Callers fall back to cancel + place when an exchange does not implement it.
+   * The returned order IDs may differ from the amended ones.
+   * @param modifications - Orders to amend with their new parameters
+   * @returns One result per modification, in the same order
+   */
+  modifyOrders?(modifications: OrderModification[]): Promise<OrderResult[]>;
 }
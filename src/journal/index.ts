@@ -0,0 +1,275 @@
+import { randomBytes } from "node:crypto";
+import { type WriteStream, createReadStream, createWriteStream, mkdirSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { join } from "node:path";
+import { createInterface } from "node:readline";
+import type { Liquidity, Side } from "../types.js";
+import { type Clock, systemScheduler } from "../utils/clock.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Events written to the journal
+ */
+export type JournalEvent =
+  | {
+      type: "order_placed";
+      orderId: string;
+      side: Side;
+      price: number;
+      size: number;
+      /** Status returned by the exchange ("open", or "closed" if it filled immediately) */
+      status: string;
+      postOnly?: boolean;
+      reduceOnly?: boolean;
+    }
+  | {
+      type: "order_amended";
+      orderId: string;
+      newOrderId: string;
+      side: Side;
+      price: number;
+      size: number;
+    }
+  | { type: "order_cancelled"; orderId: string }
+  | { type: "orders_cancelled_all" }
+  | {
+      type: "fill";
+      fillId: string;
+      orderId: string;
+      side: Side;
+      price: number;
+      size: number;
+      /** Fee paid in quote currency (negative for rebates) */
+      fee: number;
+      liquidity: Liquidity;
+      /** Fair price when the fill was received (null if none yet) */
+      fairPrice: number | null;
+    }
+  | {
+      type: "position";
+      side: "long" | "short" | "none";
+      size: number;
+      entryPrice: number;
+      markPrice: number;
+      unrealizedPnl: number;
+    }
+  | {
+      /** A loss limit was breached and the bot halted */
+      type: "halted";
+      reason: "daily_loss" | "drawdown";
+      /** Loss that breached the limit in USD */
+      loss: number;
+      limit: number;
+    };
+
+/**
+ * One journal line: an event with its timestamp and the run that wrote it
+ */
+export type JournalRecord = JournalEvent & {
+  /** Event time in milliseconds */
+  ts: number;
+  runId: string;
+  exchange: string;
+  symbol: string;
+};
+
+/**
+ * Journal writer configuration
+ */
+export interface JournalConfig {
+  /** Root directory; records go to <dir>/<exchange>/<symbol>/<YYYY-MM-DD>.jsonl */
+  dir: string;
+  exchange: string;
+  symbol: string;
+  /** Identifies the process run (default: generated) */
+  runId?: string;
+  /** Clock for events recorded without a time (default: wall clock) */
+  clock?: Clock;
+}
+
+/**
+ * Journal reader filter (days are inclusive UTC dates as YYYY-MM-DD)
+ */
+export interface JournalFilter {
+  exchange?: string;
+  symbol?: string;
+  runId?: string;
+  since?: string;
+  until?: string;
+}
+
+/**
+ * Generate a run id: start time plus a random suffix (e.g., "20250101T120000-a1b2c3")
+ */
+export function createRunId(): string {
+  const time = new Date().toISOString().replace(/[-:]/g, "").slice(0, 15);
+  return `${time}-${randomBytes(3).toString("hex")}`;
+}
+
+/**
+ * Make a name safe to use as a directory
+ */
+function toPathSegment(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+/**
+ * UTC date of a timestamp as YYYY-MM-DD
+ */
+export function toDay(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 10);
+}
+
+/**
+ * Append-only JSONL journal of orders, fills and positions for one exchange and symbol
+ * Writes go to a new file each UTC day; write errors are logged and never reach the caller
+ */
+export class Journal {
+  private dir: string;
+  private exchange: string;
+  private symbol: string;
+  private runId: string;
+  private clock: Clock;
+  private stream: WriteStream | null = null;
+  private streamDay: string | null = null;
+
+  /**
+   * Create a journal writer (files are created on the first record)
+   * @param config - Directory, exchange, symbol and run id
+   */
+  constructor(config: JournalConfig) {
+    this.exchange = config.exchange;
+    this.symbol = config.symbol;
+    this.runId = config.runId ?? createRunId();
+    this.clock = config.clock ?? systemScheduler;
+    this.dir = join(config.dir, toPathSegment(config.exchange), toPathSegment(config.symbol));
+  }
+
+  /**
+   * Append an event to the file of the UTC day it happened on
+   * @param event - Event to record
+   * @param ts - Event time in milliseconds (default: the journal clock's now)
+   */
+  record(event: JournalEvent, ts = this.clock.now()): void {
+    const stream = this.getStream(toDay(ts));
+    if (!stream) return;
+
+    const record: JournalRecord = {
+      ts,
+      runId: this.runId,
+      exchange: this.exchange,
+      symbol: this.symbol,
+      ...event,
+    };
+    stream.write(`${JSON.stringify(record)}\n`);
+  }
+
+  /**
+   * Get the stream for a day, rolling over to a new file when the day changes
+   */
+  private getStream(day: string): WriteStream | null {
+    if (this.stream && this.streamDay === day) {
+      return this.stream;
+    }
+
+    this.stream?.end();
+    try {
+      mkdirSync(this.dir, { recursive: true });
+    } catch (error) {
+      logger.error(`Failed to create journal directory ${this.dir}:`, error);
+      this.stream = null;
+      return null;
+    }
+
+    const stream = createWriteStream(join(this.dir, `${day}.jsonl`), { flags: "a" });
+    stream.on("error", (error) => {
+      logger.error("Journal write failed:", error);
+    });
+    this.stream = stream;
+    this.streamDay = day;
+    return stream;
+  }
+
+  /**
+   * Get the run id written with every record
+   */
+  getRunId(): string {
+    return this.runId;
+  }
+
+  /**
+   * Flush and close the current file
+   */
+  async close(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+    this.streamDay = null;
+    if (!stream) return;
+
+    await new Promise<void>((resolve) => {
+      stream.end(() => resolve());
+    });
+  }
+}
+
+/**
+ * List subdirectories, or nothing if the directory does not exist
+ */
+async function listDirs(dir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+    return entries.filter((e) => e.isDirectory()).map((e) => e.name);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+/**
+ * Stream journal records from disk, file by file in date order
+ * Malformed lines (e.g., a partial line after a crash) are skipped with a warning
+ * @param dir - Journal root directory
+ * @param filter - Optional exchange/symbol/run/date filter
+ */
+export async function* readJournal(
+  dir: string,
+  filter: JournalFilter = {}
+): AsyncGenerator<JournalRecord> {
+  const files: { day: string; path: string }[] = [];
+  for (const exchange of await listDirs(dir)) {
+    if (filter.exchange && exchange !== toPathSegment(filter.exchange)) continue;
+    for (const symbol of await listDirs(join(dir, exchange))) {
+      if (filter.symbol && symbol !== toPathSegment(filter.symbol)) continue;
+      for (const name of await readdir(join(dir, exchange, symbol))) {
+        const day = name.replace(/\.jsonl$/, "");
+        if (day === name) continue;
+        if (filter.since && day < filter.since) continue;
+        if (filter.until && day > filter.until) continue;
+        files.push({ day, path: join(dir, exchange, symbol, name) });
+      }
+    }
+  }
+  files.sort((a, b) => a.day.localeCompare(b.day) || a.path.localeCompare(b.path));
+
+  for (const file of files) {
+    const lines = createInterface({
+      input: createReadStream(file.path),
+      crlfDelay: Number.POSITIVE_INFINITY,
+    });
+    let lineNumber = 0;
+    for await (const line of lines) {
+      lineNumber++;
+      if (line.trim().length === 0) continue;
+
+      let record: JournalRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        logger.warn(`Skipping malformed journal line ${file.path}:${lineNumber}`);
+        continue;
+      }
+      if (filter.runId && record.runId !== filter.runId) continue;
+      yield record;
+    }
+  }
+}
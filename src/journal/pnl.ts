@@ -0,0 +1,145 @@
+import { type JournalRecord, toDay } from "./index.js";
+
+/**
+ * PnL summary for one exchange/symbol over one day (or all days)
+ */
+export interface PnlRow {
+  /** UTC date (YYYY-MM-DD), or "total" */
+  day: string;
+  exchange: string;
+  symbol: string;
+  fills: number;
+  volumeUsd: number;
+  /** Fees paid (negative when rebates exceed fees) */
+  feesUsd: number;
+  /** Realized trading PnL before fees */
+  realizedPnlUsd: number;
+  /** Realized PnL minus fees */
+  netPnlUsd: number;
+  /** Share of volume traded as maker (0-1) */
+  makerRatio: number;
+  /** Volume-weighted edge of fills vs fair price in bps (null without fair prices) */
+  avgSpreadBps: number | null;
+}
+
+interface RowTotals {
+  fills: number;
+  volumeUsd: number;
+  makerVolumeUsd: number;
+  feesUsd: number;
+  realizedPnlUsd: number;
+  /** Sum of size * edge vs fair, for fills with a fair price */
+  edgeUsd: number;
+  /** Volume of fills with a fair price */
+  fairVolumeUsd: number;
+}
+
+type FillRecord = Extract<JournalRecord, { type: "fill" }>;
+
+/**
+ * Exchanges whose fill IDs are only unique within a run (the paper adapter counts from 1)
+ */
+const RUN_SCOPED_FILL_IDS = new Set(["paper"]);
+
+/**
+ * Summarize journaled fills into realized PnL, fees, volume, maker ratio and spread captured
+ * Positions are rebuilt from fills with average-cost accounting, starting flat, so PnL on a
+ * position opened before the first journaled fill is not counted
+ * @param records - Journal records (any order; only fills are used)
+ * @param period - One row per day, or a single total per exchange/symbol
+ */
+export function summarizePnl(
+  records: Iterable<JournalRecord>,
+  period: "day" | "total" = "day"
+): PnlRow[] {
+  // Deduplicate fills (a fill stream may replay fills after a reconnect) and order by time
+  const fills = new Map<string, FillRecord>();
+  for (const record of records) {
+    if (record.type === "fill") {
+      const scope = RUN_SCOPED_FILL_IDS.has(record.exchange) ? `${record.runId}:` : "";
+      fills.set(`${record.exchange}:${scope}${record.fillId}`, record);
+    }
+  }
+  const sorted = [...fills.values()].sort((a, b) => a.ts - b.ts);
+
+  const positions = new Map<string, { size: number; entryPrice: number }>();
+  const rows = new Map<string, { day: string; exchange: string; symbol: string; t: RowTotals }>();
+
+  for (const fill of sorted) {
+    const marketKey = `${fill.exchange}:${fill.symbol}`;
+    const day = period === "day" ? toDay(fill.ts) : "total";
+    const rowKey = `${day}:${marketKey}`;
+
+    let row = rows.get(rowKey);
+    if (!row) {
+      row = {
+        day,
+        exchange: fill.exchange,
+        symbol: fill.symbol,
+        t: {
+          fills: 0,
+          volumeUsd: 0,
+          makerVolumeUsd: 0,
+          feesUsd: 0,
+          realizedPnlUsd: 0,
+          edgeUsd: 0,
+          fairVolumeUsd: 0,
+        },
+      };
+      rows.set(rowKey, row);
+    }
+
+    const notional = fill.size * fill.price;
+    const direction = fill.side === "buy" ? 1 : -1;
+    row.t.fills++;
+    row.t.volumeUsd += notional;
+    row.t.feesUsd += fill.fee;
+    if (fill.liquidity === "maker") row.t.makerVolumeUsd += notional;
+    if (fill.fairPrice) {
+      row.t.edgeUsd += (fill.fairPrice - fill.price) * fill.size * direction;
+      row.t.fairVolumeUsd += notional;
+    }
+
+    // Average-cost position: reducing fills realize PnL against the entry price
+    const position = positions.get(marketKey) ?? { size: 0, entryPrice: 0 };
+    const signedSize = fill.size * direction;
+    const newSize = position.size + signedSize;
+    if (position.size !== 0 && Math.sign(position.size) !== Math.sign(signedSize)) {
+      const closed = Math.min(Math.abs(position.size), fill.size);
+      row.t.realizedPnlUsd +=
+        closed * (fill.price - position.entryPrice) * Math.sign(position.size);
+    }
+    if (Math.abs(newSize) < 1e-12) {
+      positions.set(marketKey, { size: 0, entryPrice: 0 });
+    } else if (position.size === 0 || Math.sign(position.size) === Math.sign(signedSize)) {
+      const entryPrice =
+        (Math.abs(position.size) * position.entryPrice + fill.size * fill.price) /
+        Math.abs(newSize);
+      positions.set(marketKey, { size: newSize, entryPrice });
+    } else if (Math.sign(newSize) !== Math.sign(position.size)) {
+      positions.set(marketKey, { size: newSize, entryPrice: fill.price });
+    } else {
+      positions.set(marketKey, { size: newSize, entryPrice: position.entryPrice });
+    }
+  }
+
+  return [...rows.values()]
+    .map(({ day, exchange, symbol, t }) => ({
+      day,
+      exchange,
+      symbol,
+      fills: t.fills,
+      volumeUsd: t.volumeUsd,
+      feesUsd: t.feesUsd,
+      realizedPnlUsd: t.realizedPnlUsd,
+      netPnlUsd: t.realizedPnlUsd - t.feesUsd,
+      makerRatio: t.volumeUsd > 0 ? t.makerVolumeUsd / t.volumeUsd : 0,
+      avgSpreadBps: t.fairVolumeUsd > 0 ? (t.edgeUsd / t.fairVolumeUsd) * 10000 : null,
+    }))
+    .sort(
+      (a, b) =>
+        a.day.localeCompare(b.day) ||
+        a.exchange.localeCompare(b.exchange) ||
+        a.symbol.localeCompare(b.symbol)
+    );
+}
@@ -1,4 +1,5 @@
 import WebSocket from "ws";
+import { type Scheduler, type TimerHandle, systemScheduler } from "../utils/clock.js";
 import { logger } from "../utils/logger.js";
 
 const BINANCE_WS_URL = "wss://stream.binance.com:9443/ws";
@@ -30,7 +31,8 @@ export class BinancePriceFeed {
   private ws: WebSocket | null = null;
   private symbol: string;
   private callback: PriceCallback;
-  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private scheduler: Scheduler;
+  private reconnectTimeout: TimerHandle | null = null;
   private isConnecting = false;
   private shouldReconnect = true;
   private lastPrice: number | null = null;
@@ -40,11 +42,13 @@ export class BinancePriceFeed {
    * Create a Binance price feed
    * @param symbol - Trading symbol (e.g., "BTC" or "BTCUSDT")
    * @param callback - Called on each price update
+   * @param scheduler - Timers for reconnects (default: system)
    */
-  constructor(symbol: string, callback: PriceCallback) {
+  constructor(symbol: string, callback: PriceCallback, scheduler: Scheduler = systemScheduler) {
     // Normalize symbol to Binance format (e.g., "BTC" -> "btcusdt")
     this.symbol = this.normalizeSymbol(symbol);
     this.callback = callback;
+    this.scheduler = scheduler;
   }
 
   /**
@@ -83,7 +87,7 @@ export class BinancePriceFeed {
 
         // Clear any pending reconnect
         if (this.reconnectTimeout) {
-          clearTimeout(this.reconnectTimeout);
+          this.scheduler.clearTimer(this.reconnectTimeout);
           this.reconnectTimeout = null;
         }
 
@@ -132,7 +136,7 @@ export class BinancePriceFeed {
     }
 
     logger.info("Scheduling Binance reconnection in 5 seconds...");
-    this.reconnectTimeout = setTimeout(() => {
+    this.reconnectTimeout = this.scheduler.setTimeout(() => {
       this.reconnectTimeout = null;
       this.connect().catch((error) => {
         logger.error("Binance reconnection failed:", error);
@@ -149,7 +153,7 @@ export class BinancePriceFeed {
     this.shouldReconnect = false;
 
     if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
+      this.scheduler.clearTimer(this.reconnectTimeout);
       this.reconnectTimeout = null;
     }
 
@@ -0,0 +1,324 @@
+import { type Scheduler, systemScheduler } from "../utils/clock.js";
+import { logger } from "../utils/logger.js";
+import { metrics } from "../utils/metrics.js";
+import { BinancePriceFeed, type PriceCallback } from "./binance.js";
+import { HyperliquidPriceFeed } from "./hyperliquid.js";
+import { HyperpsPriceFeed } from "./hyperps.js";
+import type { IPriceFeed } from "./index.js";
+import { VenuePriceFeed } from "./venue.js";
+
+/**
+ * Price sources that can contribute to a composite price
+ */
+export type CompositeSourceName = "binance" | "hyperliquid" | "hyperps" | "venue";
+
+/**
+ * How live source prices are combined
+ * - weighted: weighted mean
+ * - median: weighted median (ignores a single outlier among three or more sources)
+ * - trimmed: weighted mean after dropping the highest and lowest price (needs 3+ live sources)
+ */
+export type PriceAggregation = "weighted" | "median" | "trimmed";
+
+/**
+ * Configuration for one composite source
+ */
+export interface CompositeSourceConfig {
+  source: CompositeSourceName;
+  /** Relative weight (renormalized over live sources) */
+  weight: number;
+  /** Drop the source when no price arrived for this long (default: per-source) */
+  staleMs?: number;
+}
+
+/**
+ * Snapshot of one composite source
+ */
+export interface CompositeSourceStatus {
+  source: CompositeSourceName;
+  weight: number;
+  price: number | null;
+  /** Milliseconds since the last price, or null if none received */
+  ageMs: number | null;
+  live: boolean;
+}
+
+/**
+ * Default staleness timeouts (the Hyperps oracle is polled every 5s)
+ */
+const DEFAULT_STALE_MS: Record<CompositeSourceName, number> = {
+  binance: 10_000,
+  hyperliquid: 10_000,
+  hyperps: 20_000,
+  venue: 10_000,
+};
+
+const priceUpdates = metrics.counter("mm_price_updates_total", "Price feed updates by source");
+
+interface SourceEntry {
+  config: CompositeSourceConfig;
+  feed: IPriceFeed;
+  price: number | null;
+  receivedAt: number | null;
+}
+
+/**
+ * Parse a composite source specification
+ * @param spec - Comma-separated source:weight[:staleMs] entries
+ *   (e.g., "binance:0.5,hyperliquid:0.3,venue:0.2:5000")
+ */
+export function parseCompositeSources(spec: string): CompositeSourceConfig[] {
+  return spec
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      const [source, weight, staleMs] = part.split(":");
+      if (!(source in DEFAULT_STALE_MS)) {
+        throw new Error(
+          `Unknown price source "${source}". Supported: ${Object.keys(DEFAULT_STALE_MS).join(", ")}`
+        );
+      }
+      const config: CompositeSourceConfig = {
+        source: source as CompositeSourceName,
+        weight: weight === undefined ? 1 : Number.parseFloat(weight),
+      };
+      if (staleMs !== undefined) {
+        config.staleMs = Number.parseInt(staleMs, 10);
+      }
+      if (Number.isNaN(config.weight) || Number.isNaN(config.staleMs)) {
+        throw new Error(`Invalid price source "${part}", expected source:weight[:staleMs]`);
+      }
+      return config;
+    });
+}
+
+/**
+ * Combine prices with the given aggregation
+ * @param prices - Live prices with their (not necessarily normalized) weights
+ * @param aggregation - Aggregation method
+ * @returns Combined price, or null if there are no prices
+ */
+export function aggregatePrices(
+  prices: { price: number; weight: number }[],
+  aggregation: PriceAggregation
+): number | null {
+  if (prices.length === 0) return null;
+
+  const sorted = [...prices].sort((a, b) => a.price - b.price);
+
+  if (aggregation === "median") {
+    const total = sorted.reduce((sum, p) => sum + p.weight, 0);
+    let cumulative = 0;
+    for (const [index, p] of sorted.entries()) {
+      cumulative += p.weight;
+      // Exactly half the weight below: average with the next price
+      if (Math.abs(cumulative - total / 2) < 1e-12 && index < sorted.length - 1) {
+        return (p.price + sorted[index + 1].price) / 2;
+      }
+      if (cumulative > total / 2) return p.price;
+    }
+    return sorted[sorted.length - 1].price;
+  }
+
+  const included = aggregation === "trimmed" && sorted.length >= 3 ? sorted.slice(1, -1) : sorted;
+  const total = included.reduce((sum, p) => sum + p.weight, 0);
+  if (total <= 0) return null;
+  return included.reduce((sum, p) => sum + p.price * p.weight, 0) / total;
+}
+
+/**
+ * Price feed combining several weighted sources
+ * Sources with no recent price drop out and the remaining weights renormalize
+ */
+export class CompositePriceFeed implements IPriceFeed {
+  private symbol: string;
+  private entries: SourceEntry[];
+  private aggregation: PriceAggregation;
+  private callback: PriceCallback;
+  private scheduler: Scheduler;
+  private venueFeed: VenuePriceFeed | null = null;
+  private lastPrice: number | null = null;
+  private lastTimestamp: number | null = null;
+
+  /**
+   * Create a composite price feed
+   * @param symbol - Trading symbol (e.g., "BTC")
+   * @param sources - Contributing sources and weights
+   * @param aggregation - How live prices are combined
+   * @param callback - Called with the composite price whenever a source updates
+   * @param isTestnet - Use Hyperliquid testnet
+   * @param scheduler - Clock for source staleness and timers for the sources (default: system)
+   */
+  constructor(
+    symbol: string,
+    sources: CompositeSourceConfig[],
+    aggregation: PriceAggregation,
+    callback: PriceCallback,
+    isTestnet = false,
+    scheduler: Scheduler = systemScheduler
+  ) {
+    if (sources.length === 0) {
+      throw new Error("Composite price feed needs at least one source");
+    }
+
+    this.symbol = symbol;
+    this.aggregation = aggregation;
+    this.callback = callback;
+    this.scheduler = scheduler;
+    this.entries = sources.map((config, index) => ({
+      config,
+      feed: this.createFeed(
+        symbol,
+        config.source,
+        (price) => this.handlePrice(index, price),
+        isTestnet
+      ),
+      price: null,
+      receivedAt: null,
+    }));
+
+    logger.info(
+      `CompositePriceFeed created for ${symbol}: ${sources.map((s) => `${s.source}=${s.weight}`).join(", ")} (${aggregation})`
+    );
+  }
+
+  /**
+   * Create the underlying feed for a source
+   */
+  private createFeed(
+    symbol: string,
+    source: CompositeSourceName,
+    handler: PriceCallback,
+    isTestnet: boolean
+  ): IPriceFeed {
+    switch (source) {
+      case "binance":
+        return new BinancePriceFeed(symbol, handler, this.scheduler);
+      case "hyperliquid":
+        return new HyperliquidPriceFeed(symbol, handler, isTestnet, this.scheduler);
+      case "hyperps":
+        return new HyperpsPriceFeed(symbol, handler, isTestnet, undefined, this.scheduler);
+      case "venue":
+        this.venueFeed = new VenuePriceFeed(handler);
+        return this.venueFeed;
+    }
+  }
+
+  /**
+   * Record a source price and recompute
+   * The composite is stamped with the local receive time, since source clocks differ
+   */
+  private handlePrice(index: number, price: number): void {
+    const entry = this.entries[index];
+    const now = this.scheduler.now();
+    entry.price = price;
+    entry.receivedAt = now;
+    priceUpdates.inc({ symbol: this.symbol, source: entry.config.source });
+    this.update(now);
+  }
+
+  /**
+   * Recompute the composite price and notify the callback
+   */
+  private update(now: number): void {
+    const live = this.entries.filter((e) => this.isLive(e, now));
+    const price = aggregatePrices(
+      live.map((e) => ({ price: e.price as number, weight: e.config.weight })),
+      this.aggregation
+    );
+    if (price === null) return;
+
+    this.lastPrice = price;
+    this.lastTimestamp = now;
+    this.callback(price, now);
+  }
+
+  /**
+   * Check whether a source has a recent price
+   */
+  private isLive(entry: SourceEntry, now: number): boolean {
+    if (entry.price === null || entry.receivedAt === null) return false;
+    const staleMs = entry.config.staleMs ?? DEFAULT_STALE_MS[entry.config.source];
+    return now - entry.receivedAt <= staleMs;
+  }
+
+  /**
+   * Connect all sources
+   * A source that fails to connect is logged and left out until it delivers prices
+   */
+  async connect(): Promise<void> {
+    const results = await Promise.allSettled(this.entries.map((e) => e.feed.connect()));
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        logger.error(
+          `Failed to connect price source ${this.entries[index].config.source}:`,
+          result.reason
+        );
+      }
+    });
+
+    if (results.every((r) => r.status === "rejected")) {
+      throw new Error("No composite price source could connect");
+    }
+  }
+
+  /**
+   * Disconnect all sources
+   */
+  disconnect(): void {
+    for (const entry of this.entries) {
+      entry.feed.disconnect();
+    }
+  }
+
+  /**
+   * Push the venue's own mid price (no-op if "venue" is not a source)
+   */
+  updateVenuePrice(price: number, timestamp: number): void {
+    this.venueFeed?.update(price, timestamp);
+  }
+
+  /**
+   * Get the names of sources currently contributing
+   */
+  getLiveSources(): CompositeSourceName[] {
+    const now = this.scheduler.now();
+    return this.entries.filter((e) => this.isLive(e, now)).map((e) => e.config.source);
+  }
+
+  /**
+   * Get a snapshot of every source
+   */
+  getSourceStatus(): CompositeSourceStatus[] {
+    const now = this.scheduler.now();
+    return this.entries.map((e) => ({
+      source: e.config.source,
+      weight: e.config.weight,
+      price: e.price,
+      ageMs: e.receivedAt === null ? null : now - e.receivedAt,
+      live: this.isLive(e, now),
+    }));
+  }
+
+  /**
+   * Get the last composite price
+   */
+  getLastPrice(): number | null {
+    return this.lastPrice;
+  }
+
+  /**
+   * Get the last composite price timestamp
+   */
+  getLastTimestamp(): number | null {
+    return this.lastTimestamp;
+  }
+
+  /**
+   * Check if any source is connected
+   */
+  get connected(): boolean {
+    return this.entries.some((e) => e.feed.connected);
+  }
+}
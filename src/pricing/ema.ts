@@ -0,0 +1,57 @@
+/**
+ * Exponential moving average over time rather than over ticks
+ * Each update moves the average towards the new price by 1 - exp(-dt / window), where dt is
+ * the time since the previous update, so the window means the same at any feed cadence
+ */
+export class TimeDecayedEma {
+  private readonly windowMs: number;
+  private value: number | null = null;
+  private lastTimestamp: number | null = null;
+
+  /**
+   * Create a time-decayed EMA
+   * @param windowMs - Time constant in milliseconds (weight of older prices decays by 1/e per window)
+   */
+  constructor(windowMs: number) {
+    if (!(windowMs > 0)) {
+      throw new Error("EMA window must be positive");
+    }
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Add a price
+   * Updates with a timestamp at or before the previous one move the average by nothing
+   * @param price - New price
+   * @param timestamp - Price timestamp in milliseconds
+   * @returns Updated average
+   */
+  update(price: number, timestamp: number): number {
+    if (this.value === null || this.lastTimestamp === null) {
+      // First price - initialize EMA
+      this.value = price;
+      this.lastTimestamp = timestamp;
+      return price;
+    }
+
+    const dt = Math.max(0, timestamp - this.lastTimestamp);
+    const weight = 1 - Math.exp(-dt / this.windowMs);
+    this.value += weight * (price - this.value);
+    this.lastTimestamp = Math.max(this.lastTimestamp, timestamp);
+    return this.value;
+  }
+
+  /**
+   * Get the current average (null before the first price)
+   */
+  getValue(): number | null {
+    return this.value;
+  }
+
+  /**
+   * Get the window in milliseconds
+   */
+  getWindowMs(): number {
+    return this.windowMs;
+  }
+}
@@ -1,42 +1,49 @@
+import { type Scheduler, systemScheduler } from "../utils/clock.js";
 import { logger } from "../utils/logger.js";
+import { metrics } from "../utils/metrics.js";
 import { BinancePriceFeed, type PriceCallback } from "./binance.js";
+import {
+  CompositePriceFeed,
+  type CompositeSourceConfig,
+  type CompositeSourceStatus,
+  type PriceAggregation,
+} from "./composite.js";
+import { TimeDecayedEma } from "./ema.js";
 import { HyperliquidPriceFeed } from "./hyperliquid.js";
 import { HyperpsPriceFeed } from "./hyperps.js";
+import type { IPriceFeed } from "./index.js";
 
-export type PriceSource = "binance" | "hyperliquid" | "hyperps";
+export type PriceSource = "binance" | "hyperliquid" | "hyperps" | "composite";
 
 /**
  * Configuration for fair price calculator
  */
 export interface FairPriceConfig {
-  /** Price source ("binance" or "hyperliquid") */
+  /** Price source ("binance", "hyperliquid", "hyperps" or "composite") */
   priceSource?: PriceSource;
-  /** EMA window in milliseconds (default: 5 minutes) */
+  /** Weighted sources for the "composite" price source */
+  sources?: CompositeSourceConfig[];
+  /** How composite sources are combined (default: "weighted") */
+  aggregation?: PriceAggregation;
+  /** EMA time constant in milliseconds, independent of feed cadence (default: 5 minutes) */
   windowMs?: number;
-  /** EMA smoothing factor alpha (default: calculated from window) */
-  alpha?: number;
   /** Minimum prices needed before returning fair price */
   minPrices?: number;
   /** Warmup period in milliseconds */
   warmupMs?: number;
   /** Use testnet (for Hyperliquid) */
   isTestnet?: boolean;
+  /** Build the price feed instead of connecting to priceSource (e.g., recorded prices) */
+  feed?: (onPrice: PriceCallback) => IPriceFeed;
+  /** Clock and timers for the calculator and the feeds it creates (default: system) */
+  scheduler?: Scheduler;
 }
 
 const DEFAULT_WINDOW_MS = 5 * 60 * 1000; // 5 minutes
 const DEFAULT_MIN_PRICES = 10;
 const DEFAULT_WARMUP_MS = 10 * 1000; // 10 seconds
 
-/**
- * Common interface for price feeds
- */
-interface IPriceFeed {
-  connect(): Promise<void>;
-  disconnect(): void;
-  getLastPrice(): number | null;
-  getLastTimestamp(): number | null;
-  readonly connected: boolean;
-}
+const priceUpdates = metrics.counter("mm_price_updates_total", "Price feed updates by source");
 
 /**
  * Fair price calculator using EMA of prices from configurable source
@@ -45,14 +52,14 @@ interface IPriceFeed {
 export class FairPriceCalculator {
   private priceFeed: IPriceFeed;
   private priceSource: PriceSource;
-  private ema: number | null = null;
-  private alpha: number;
+  private ema: TimeDecayedEma;
   private priceCount = 0;
   private minPrices: number;
   private warmupMs: number;
   private startTime: number;
   private lastUpdateTime: number | null = null;
   private priceCallbacks: PriceCallback[] = [];
+  private scheduler: Scheduler;
 
   /**
    * Create a fair price calculator
@@ -60,31 +67,53 @@ export class FairPriceCalculator {
    * @param config - Configuration options
    */
   constructor(symbol: string, config?: FairPriceConfig) {
-    const windowMs = config?.windowMs || DEFAULT_WINDOW_MS;
-    // Calculate alpha for EMA: alpha = 2 / (N + 1) where N is number of periods
-    // For time-based EMA, we estimate ~1 trade per second
-    const estimatedPeriods = windowMs / 1000;
-    this.alpha = config?.alpha || 2 / (estimatedPeriods + 1);
+    this.ema = new TimeDecayedEma(config?.windowMs || DEFAULT_WINDOW_MS);
     this.minPrices = config?.minPrices || DEFAULT_MIN_PRICES;
     this.warmupMs = config?.warmupMs || DEFAULT_WARMUP_MS;
-    this.startTime = Date.now();
+    this.scheduler = config?.scheduler ?? systemScheduler;
+    this.startTime = this.scheduler.now();
     this.priceSource = config?.priceSource || "binance";
 
-    // Create price feed based on source
+    // Create price feed based on source (a composite feed counts updates per underlying source)
     const priceHandler = (price: number, timestamp: number) => {
+      if (this.priceSource !== "composite") {
+        priceUpdates.inc({ symbol, source: this.priceSource });
+      }
       this.updateEMA(price, timestamp);
     };
 
-    if (this.priceSource === "hyperps") {
-      this.priceFeed = new HyperpsPriceFeed(symbol, priceHandler, config?.isTestnet ?? false);
+    if (config?.feed) {
+      this.priceFeed = config.feed(priceHandler);
+    } else if (this.priceSource === "composite") {
+      this.priceFeed = new CompositePriceFeed(
+        symbol,
+        config?.sources ?? [],
+        config?.aggregation ?? "weighted",
+        priceHandler,
+        config?.isTestnet ?? false,
+        this.scheduler
+      );
+    } else if (this.priceSource === "hyperps") {
+      this.priceFeed = new HyperpsPriceFeed(
+        symbol,
+        priceHandler,
+        config?.isTestnet ?? false,
+        undefined,
+        this.scheduler
+      );
     } else if (this.priceSource === "hyperliquid") {
-      this.priceFeed = new HyperliquidPriceFeed(symbol, priceHandler, config?.isTestnet ?? false);
+      this.priceFeed = new HyperliquidPriceFeed(
+        symbol,
+        priceHandler,
+        config?.isTestnet ?? false,
+        this.scheduler
+      );
     } else {
-      this.priceFeed = new BinancePriceFeed(symbol, priceHandler);
+      this.priceFeed = new BinancePriceFeed(symbol, priceHandler, this.scheduler);
     }
 
     logger.info(
-      `FairPriceCalculator created for ${symbol} using ${this.priceSource}, alpha=${this.alpha.toFixed(6)}, warmup=${this.warmupMs}ms`
+      `FairPriceCalculator created for ${symbol} using ${this.priceSource}, window=${this.ema.getWindowMs()}ms, warmup=${this.warmupMs}ms`
     );
   }
 
@@ -92,20 +121,14 @@ export class FairPriceCalculator {
    * Update EMA with new price
    */
   private updateEMA(price: number, timestamp: number): void {
-    if (this.ema === null) {
-      // First price - initialize EMA
-      this.ema = price;
-    } else {
-      // Update EMA: EMA = alpha * price + (1 - alpha) * EMA
-      this.ema = this.alpha * price + (1 - this.alpha) * this.ema;
-    }
+    const ema = this.ema.update(price, timestamp);
 
     this.priceCount++;
     this.lastUpdateTime = timestamp;
 
     // Notify callbacks
     for (const callback of this.priceCallbacks) {
-      callback(this.ema, timestamp);
+      callback(ema, timestamp);
     }
   }
 
@@ -131,14 +154,14 @@ export class FairPriceCalculator {
     if (!this.isReady()) {
       return null;
     }
-    return this.ema;
+    return this.ema.getValue();
   }
 
   /**
    * Check if the calculator has warmed up
    */
   isWarmedUp(): boolean {
-    const elapsed = Date.now() - this.startTime;
+    const elapsed = this.scheduler.now() - this.startTime;
     return elapsed >= this.warmupMs && this.priceCount >= this.minPrices;
   }
 
@@ -146,7 +169,7 @@ export class FairPriceCalculator {
    * Check if the calculator is ready to provide fair prices
    */
   isReady(): boolean {
-    return this.ema !== null && this.isWarmedUp();
+    return this.ema.getValue() !== null && this.isWarmedUp();
   }
 
   /**
@@ -160,7 +183,7 @@ export class FairPriceCalculator {
    * Get time elapsed since start
    */
   getElapsedMs(): number {
-    return Date.now() - this.startTime;
+    return this.scheduler.now() - this.startTime;
   }
 
   /**
@@ -185,6 +208,26 @@ export class FairPriceCalculator {
     return this.lastUpdateTime;
   }
 
+  /**
+   * Get the time since the last price update in milliseconds
+   * @returns Age in ms, or null if no price was received yet
+   */
+  getPriceAgeMs(): number | null {
+    if (this.lastUpdateTime === null) return null;
+    return Math.max(0, this.scheduler.now() - this.lastUpdateTime);
+  }
+
+  /**
+   * Check whether the fair price can no longer be trusted
+   * True when the feed is disconnected or the last update is older than maxAgeMs
+   * @param maxAgeMs - Maximum allowed age of the last price update
+   */
+  isStale(maxAgeMs: number): boolean {
+    if (!this.connected) return true;
+    const age = this.getPriceAgeMs();
+    return age === null || age > maxAgeMs;
+  }
+
   /**
    * Get the price source being used
    */
@@ -203,11 +246,44 @@ export class FairPriceCalculator {
         return "Hyperliquid Mid";
       case "binance":
         return "Binance Spot";
+      case "composite":
+        return `Composite (${this.getLiveSources().join(", ") || "no live sources"})`;
       default:
         return "Unknown";
     }
   }
 
+  /**
+   * Get the sources currently contributing to the fair price
+   * For a single source, it is live while the feed is connected
+   */
+  getLiveSources(): string[] {
+    if (this.priceFeed instanceof CompositePriceFeed) {
+      return this.priceFeed.getLiveSources();
+    }
+    return this.priceFeed.connected ? [this.priceSource] : [];
+  }
+
+  /**
+   * Get per-source details (composite price source only)
+   */
+  getSourceStatus(): CompositeSourceStatus[] {
+    if (this.priceFeed instanceof CompositePriceFeed) {
+      return this.priceFeed.getSourceStatus();
+    }
+    return [];
+  }
+
+  /**
+   * Push the traded venue's own mid price
+   * Only used when "venue" is one of the composite sources
+   */
+  updateVenuePrice(price: number, timestamp: number): void {
+    if (this.priceFeed instanceof CompositePriceFeed) {
+      this.priceFeed.updateVenuePrice(price, timestamp);
+    }
+  }
+
   /**
    * Subscribe to price updates
    * @param callback - Called with (ema, timestamp) on each update
@@ -1,5 +1,6 @@
 import { type L2BookWsEvent, SubscriptionClient, WebSocketTransport } from "@nktkas/hyperliquid";
 import type { ISubscription } from "@nktkas/hyperliquid";
+import { type Scheduler, type TimerHandle, systemScheduler } from "../utils/clock.js";
 import { logger } from "../utils/logger.js";
 
 export type PriceCallback = (price: number, timestamp: number) => void;
@@ -17,7 +18,8 @@ export class HyperliquidPriceFeed {
   private callback: PriceCallback;
   private isTestnet: boolean;
   private shouldReconnect = true;
-  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private reconnectTimeout: TimerHandle | null = null;
+  private scheduler: Scheduler;
   private lastPrice: number | null = null;
   private lastTimestamp: number | null = null;
 
@@ -26,12 +28,19 @@ export class HyperliquidPriceFeed {
    * @param symbol - Trading symbol (e.g., "BTC", "ETH", "DOGE")
    * @param callback - Called on each price update with mid price
    * @param isTestnet - Use testnet (default: false)
+   * @param scheduler - Timers for reconnects (default: system)
    */
-  constructor(symbol: string, callback: PriceCallback, isTestnet = false) {
+  constructor(
+    symbol: string,
+    callback: PriceCallback,
+    isTestnet = false,
+    scheduler: Scheduler = systemScheduler
+  ) {
     // Hyperliquid uses uppercase symbols directly
     this.symbol = symbol.toUpperCase();
     this.callback = callback;
     this.isTestnet = isTestnet;
+    this.scheduler = scheduler;
   }
 
   /**
@@ -79,7 +88,7 @@ export class HyperliquidPriceFeed {
 
             // Clear any pending reconnect
             if (this.reconnectTimeout) {
-              clearTimeout(this.reconnectTimeout);
+              this.scheduler.clearTimer(this.reconnectTimeout);
               this.reconnectTimeout = null;
             }
 
@@ -147,7 +156,7 @@ export class HyperliquidPriceFeed {
     }
 
     logger.info("Scheduling Hyperliquid reconnection in 5 seconds...");
-    this.reconnectTimeout = setTimeout(() => {
+    this.reconnectTimeout = this.scheduler.setTimeout(() => {
       this.reconnectTimeout = null;
 
       // Clean up old transport
@@ -169,7 +178,7 @@ export class HyperliquidPriceFeed {
     this.shouldReconnect = false;
 
     if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
+      this.scheduler.clearTimer(this.reconnectTimeout);
       this.reconnectTimeout = null;
     }
 
@@ -1,4 +1,5 @@
 import { HttpTransport, InfoClient } from "@nktkas/hyperliquid";
+import { type Scheduler, type TimerHandle, systemScheduler } from "../utils/clock.js";
 import { logger } from "../utils/logger.js";
 
 export type PriceCallback = (price: number, timestamp: number) => void;
@@ -14,8 +15,9 @@ export class HyperpsPriceFeed {
     private symbol: string;
     private callback: PriceCallback;
     private isTestnet: boolean;
-    private pollInterval: NodeJS.Timeout | null = null;
+    private pollInterval: TimerHandle | null = null;
     private pollMs: number;
+    private scheduler: Scheduler;
     private lastPrice: number | null = null;
     private lastTimestamp: number | null = null;
     private _connected = false;
@@ -26,12 +28,20 @@ export class HyperpsPriceFeed {
      * @param callback - Called on each price update with oracle price (8h EMA)
      * @param isTestnet - Use testnet (default: false)
      * @param pollMs - Polling interval in milliseconds (default: 2000)
+     * @param scheduler - Clock and poll timer (default: system)
      */
-    constructor(symbol: string, callback: PriceCallback, isTestnet = false, pollMs = 5000) {
+    constructor(
+        symbol: string,
+        callback: PriceCallback,
+        isTestnet = false,
+        pollMs = 5000,
+        scheduler: Scheduler = systemScheduler
+    ) {
         this.symbol = symbol.toUpperCase();
         this.callback = callback;
         this.isTestnet = isTestnet;
         this.pollMs = pollMs;
+        this.scheduler = scheduler;
     }
 
     /**
@@ -54,7 +64,7 @@ export class HyperpsPriceFeed {
         await this.fetchOraclePrice();
 
         // Start polling
-        this.pollInterval = setInterval(() => {
+        this.pollInterval = this.scheduler.setInterval(() => {
             this.fetchOraclePrice().catch((error) => {
                 logger.debug("Failed to fetch Hyperps oracle price:", error);
             });
@@ -92,7 +102,7 @@ export class HyperpsPriceFeed {
 
             // oraclePx is the 8-hour EMA used for funding calculation
             const oraclePrice = Number.parseFloat(ctx.oraclePx);
-            const timestamp = Date.now();
+            const timestamp = this.scheduler.now();
 
             if (!Number.isNaN(oraclePrice) && oraclePrice > 0) {
                 this.lastPrice = oraclePrice;
@@ -112,7 +122,7 @@ export class HyperpsPriceFeed {
         logger.info("Disconnecting from Hyperps price feed");
 
         if (this.pollInterval) {
-            clearInterval(this.pollInterval);
+            this.scheduler.clearTimer(this.pollInterval);
             this.pollInterval = null;
         }
 
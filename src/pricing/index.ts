@@ -1,8 +1,16 @@
+import type { Scheduler } from "../utils/clock.js";
 import { logger } from "../utils/logger.js";
 import { BinancePriceFeed, type PriceCallback } from "./binance.js";
+import {
+  CompositePriceFeed,
+  type CompositeSourceConfig,
+  type PriceAggregation,
+} from "./composite.js";
+import type { PriceSource } from "./fair-price.js";
 import { HyperliquidPriceFeed } from "./hyperliquid.js";
+import { HyperpsPriceFeed } from "./hyperps.js";
 
-export type PriceSource = "binance" | "hyperliquid";
+export type { PriceSource } from "./fair-price.js";
 
 /**
  * Common interface for price feeds
@@ -17,28 +25,60 @@ export interface IPriceFeed {
 
 /**
  * Create a price feed by source name
- * @param source - Price source ("binance" or "hyperliquid")
+ * @param source - Price source ("binance", "hyperliquid", "hyperps" or "composite")
  * @param symbol - Trading symbol (e.g., "BTC")
  * @param callback - Called on each price update
- * @param options - Additional options (e.g., isTestnet for Hyperliquid)
+ * @param options - Additional options (isTestnet for Hyperliquid, sources and aggregation
+ *   for composite, scheduler for the feed's clock and timers)
  */
 export function createPriceFeed(
   source: PriceSource,
   symbol: string,
   callback: PriceCallback,
-  options?: { isTestnet?: boolean }
+  options?: {
+    isTestnet?: boolean;
+    sources?: CompositeSourceConfig[];
+    aggregation?: PriceAggregation;
+    scheduler?: Scheduler;
+  }
 ): IPriceFeed {
   logger.info(`Creating price feed: ${source} for ${symbol}`);
 
   switch (source.toLowerCase()) {
     case "binance":
-      return new BinancePriceFeed(symbol, callback);
+      return new BinancePriceFeed(symbol, callback, options?.scheduler);
 
     case "hyperliquid":
-      return new HyperliquidPriceFeed(symbol, callback, options?.isTestnet ?? false);
+      return new HyperliquidPriceFeed(
+        symbol,
+        callback,
+        options?.isTestnet ?? false,
+        options?.scheduler
+      );
+
+    case "hyperps":
+      return new HyperpsPriceFeed(
+        symbol,
+        callback,
+        options?.isTestnet ?? false,
+        undefined,
+        options?.scheduler
+      );
+
+    case "composite":
+      return new CompositePriceFeed(
+        symbol,
+        options?.sources ?? [],
+        options?.aggregation ?? "weighted",
+        callback,
+        options?.isTestnet ?? false,
+        options?.scheduler
+      );
 
     default:
-      throw new Error(`Unknown price source: ${source}. Supported: binance, hyperliquid`);
+      throw new Error(
+        `Unknown price source: ${source}. Supported: ${getSupportedPriceSources().join(", ")}`
+      );
   }
 }
 
@@ -46,10 +86,22 @@ export function createPriceFeed(
  * Get list of supported price sources
  */
 export function getSupportedPriceSources(): PriceSource[] {
-  return ["binance", "hyperliquid"];
+  return ["binance", "hyperliquid", "hyperps", "composite"];
 }
 
 // Re-export
 export { BinancePriceFeed, type PriceCallback } from "./binance.js";
 export { HyperliquidPriceFeed } from "./hyperliquid.js";
+export { HyperpsPriceFeed } from "./hyperps.js";
+export { ReplayPriceFeed } from "./replay.js";
 export { FairPriceCalculator, createFairPriceCalculator } from "./fair-price.js";
+export {
+  CompositePriceFeed,
+  type CompositeSourceConfig,
+  type CompositeSourceName,
+  type CompositeSourceStatus,
+  type PriceAggregation,
+  aggregatePrices,
+  parseCompositeSources,
+} from "./composite.js";
+export { VenuePriceFeed } from "./venue.js";
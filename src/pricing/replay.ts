@@ -0,0 +1,96 @@
+import { readMarketData } from "../recorder/reader.js";
+import type { VirtualClock } from "../utils/clock.js";
+import { logger } from "../utils/logger.js";
+import type { PriceCallback } from "./binance.js";
+
+/**
+ * Price feed that plays back recorded price ticks on a virtual clock
+ * Each tick is delivered, with its recorded timestamp, once the clock passes its ts
+ */
+export class ReplayPriceFeed {
+  private path: string;
+  private clock: VirtualClock;
+  private callback: PriceCallback;
+  private source: string | undefined;
+  private ticks: { ts: number; price: number }[] = [];
+  private cursor = 0;
+  private removeClockListener: (() => void) | null = null;
+  private lastPrice: number | null = null;
+  private lastTimestamp: number | null = null;
+
+  /**
+   * Create a replay price feed
+   * @param path - Capture file or directory in the recorder format (see src/recorder)
+   * @param clock - Clock deciding which ticks have happened
+   * @param callback - Called on each replayed price
+   * @param source - Only replay ticks recorded from this source (default: all)
+   */
+  constructor(path: string, clock: VirtualClock, callback: PriceCallback, source?: string) {
+    this.path = path;
+    this.clock = clock;
+    this.callback = callback;
+    this.source = source;
+  }
+
+  /**
+   * Load the capture and start following the clock
+   */
+  async connect(): Promise<void> {
+    if (this.removeClockListener) {
+      return;
+    }
+
+    this.ticks = [];
+    for await (const event of readMarketData(this.path)) {
+      if (event.type === "price" && (!this.source || event.source === this.source)) {
+        this.ticks.push({ ts: event.ts, price: event.price });
+      }
+    }
+    this.cursor = 0;
+    this.removeClockListener = this.clock.onAdvance((now) => this.replayUntil(now));
+
+    logger.info(`Replay price feed loaded ${this.ticks.length} prices from ${this.path}`);
+    this.replayUntil(this.clock.now());
+  }
+
+  /**
+   * Stop following the clock
+   */
+  disconnect(): void {
+    this.removeClockListener?.();
+    this.removeClockListener = null;
+  }
+
+  /**
+   * Deliver every tick recorded up to a time
+   */
+  private replayUntil(now: number): void {
+    while (this.cursor < this.ticks.length && this.ticks[this.cursor].ts <= now) {
+      const { ts, price } = this.ticks[this.cursor++];
+      this.lastPrice = price;
+      this.lastTimestamp = ts;
+      this.callback(price, ts);
+    }
+  }
+
+  /**
+   * Get the last replayed price
+   */
+  getLastPrice(): number | null {
+    return this.lastPrice;
+  }
+
+  /**
+   * Get the last replayed price timestamp
+   */
+  getLastTimestamp(): number | null {
+    return this.lastTimestamp;
+  }
+
+  /**
+   * Check if the feed is following the clock
+   */
+  get connected(): boolean {
+    return this.removeClockListener !== null;
+  }
+}
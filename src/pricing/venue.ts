@@ -0,0 +1,70 @@
+import type { PriceCallback } from "./binance.js";
+
+/**
+ * Push-style price feed for the traded venue's own mid price
+ * Has no connection of its own; the owner pushes prices from its orderbook subscription
+ */
+export class VenuePriceFeed {
+  private callback: PriceCallback;
+  private lastPrice: number | null = null;
+  private lastTimestamp: number | null = null;
+  private isConnected = false;
+
+  /**
+   * Create a venue price feed
+   * @param callback - Called on each pushed price
+   */
+  constructor(callback: PriceCallback) {
+    this.callback = callback;
+  }
+
+  /**
+   * Start accepting prices
+   */
+  async connect(): Promise<void> {
+    this.isConnected = true;
+  }
+
+  /**
+   * Stop accepting prices
+   */
+  disconnect(): void {
+    this.isConnected = false;
+  }
+
+  /**
+   * Push a new price (ignored while disconnected)
+   * @param price - Mid price
+   * @param timestamp - Price timestamp in milliseconds
+   */
+  update(price: number, timestamp: number): void {
+    if (!this.isConnected || !(price > 0)) {
+      return;
+    }
+
+    this.lastPrice = price;
+    this.lastTimestamp = timestamp;
+    this.callback(price, timestamp);
+  }
+
+  /**
+   * Get the last pushed price
+   */
+  getLastPrice(): number | null {
+    return this.lastPrice;
+  }
+
+  /**
+   * Get the last price timestamp
+   */
+  getLastTimestamp(): number | null {
+    return this.lastTimestamp;
+  }
+
+  /**
+   * Check if accepting prices
+   */
+  get connected(): boolean {
+    return this.isConnected;
+  }
+}
@@ -0,0 +1,7 @@
+// Market data recording exports
+export { MarketDataRecorder } from "./recorder.js";
+export type { MarketDataRecorderConfig, RecorderStats } from "./recorder.js";
+export { applyBookEvent, readMarketData } from "./reader.js";
+export type { MarketDataEvent } from "./reader.js";
+export { MarketDataWriter } from "./writer.js";
+export type { MarketDataWriterConfig } from "./writer.js";
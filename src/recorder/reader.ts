@@ -0,0 +1,198 @@
+import { createReadStream } from "node:fs";
+import { readdir, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { createInterface } from "node:readline";
+import type { Readable } from "node:stream";
+import { createGunzip } from "node:zlib";
+import type { Orderbook, Side } from "../types.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * One line of recorded market data
+ * Books are full snapshots; deltas replace the size at each listed price (0 removes the level).
+ * nonce counts book events consecutively so a reader can detect a missing delta;
+ * exchangeNonce is the venue's own sequence number, when it has one.
+ */
+export type MarketDataEvent =
+  | {
+      type: "book";
+      ts: number;
+      bids: [price: number, size: number][];
+      asks: [price: number, size: number][];
+      nonce?: number;
+      exchangeNonce?: number;
+    }
+  | {
+      type: "book_delta";
+      ts: number;
+      bids: [price: number, size: number][];
+      asks: [price: number, size: number][];
+      nonce?: number;
+      exchangeNonce?: number;
+    }
+  | {
+      type: "price";
+      ts: number;
+      price: number;
+      /** Feed the price came from (informational) */
+      source?: string;
+    }
+  | {
+      type: "trade";
+      ts: number;
+      /** Aggressor side */
+      side: Side;
+      price: number;
+      size: number;
+    };
+
+const DATA_FILE_PATTERN = /\.jsonl(\.gz)?$/;
+
+/**
+ * List data files below a directory, recursively, in name order
+ */
+async function listDataFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await readdir(dir, { withFileTypes: true });
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listDataFiles(path)));
+    } else if (DATA_FILE_PATTERN.test(entry.name)) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Stream the events of one file (gzip if the name ends in .gz)
+ * Malformed lines are skipped with a warning. A gzip file cut short (e.g. the recorder was
+ * killed mid-write) yields what could be decompressed.
+ */
+async function* readDataFile(path: string): AsyncGenerator<MarketDataEvent> {
+  let input: Readable = createReadStream(path);
+  if (path.endsWith(".gz")) {
+    const gunzip = createGunzip();
+    input.on("error", (error) => gunzip.destroy(error));
+    input = input.pipe(gunzip);
+  }
+
+  const lines = createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY });
+  let lineNumber = 0;
+  try {
+    for await (const line of lines) {
+      lineNumber++;
+      if (line.trim().length === 0) continue;
+
+      let event: MarketDataEvent;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        logger.warn(`Skipping malformed market data line ${path}:${lineNumber}`);
+        continue;
+      }
+      if (typeof event.ts !== "number") {
+        logger.warn(`Skipping market data line without ts ${path}:${lineNumber}`);
+        continue;
+      }
+      yield event;
+    }
+  } catch (error) {
+    logger.warn(`Stopped reading ${path} after line ${lineNumber}: ${(error as Error).message}`);
+  } finally {
+    input.destroy();
+  }
+}
+
+/**
+ * Stream recorded market data in time order
+ * Every *.jsonl or *.jsonl.gz file below a directory is read; each file must be sorted by ts,
+ * and files are merged so books, prices and trades may live in separate files
+ * @param path - Data directory, or a single data file
+ */
+export async function* readMarketData(path: string): AsyncGenerator<MarketDataEvent> {
+  const files = (await stat(path)).isDirectory() ? await listDataFiles(path) : [path];
+  if (files.length === 0) {
+    throw new Error(`No market data files (*.jsonl, *.jsonl.gz) found in ${path}`);
+  }
+
+  const streams = files.map((file) => readDataFile(file));
+  const heads = await Promise.all(streams.map((stream) => stream.next()));
+
+  while (true) {
+    // Earliest head wins; ties go to the file that sorts first
+    let next = -1;
+    for (const [index, head] of heads.entries()) {
+      if (head.done) continue;
+      if (next === -1 || head.value.ts < (heads[next].value as MarketDataEvent).ts) {
+        next = index;
+      }
+    }
+    if (next === -1) return;
+
+    yield heads[next].value as MarketDataEvent;
+    heads[next] = await streams[next].next();
+  }
+}
+
+/**
+ * Replace the size at each price in a sorted side of the book
+ */
+function applyLevels(
+  levels: [number, number][],
+  changes: [number, number][],
+  side: Side
+): [number, number][] {
+  const bySize = new Map(levels);
+  for (const [price, size] of changes) {
+    if (size > 0) {
+      bySize.set(price, size);
+    } else {
+      bySize.delete(price);
+    }
+  }
+  return [...bySize.entries()].sort((a, b) => (side === "buy" ? b[0] - a[0] : a[0] - b[0]));
+}
+
+/**
+ * Apply a book snapshot or delta
+ * @param book - Current book (null before the first snapshot)
+ * @param event - Snapshot or delta
+ * @param symbol - Symbol set on the resulting book
+ * @returns The updated book, or null while no consistent book is known (delta before any
+ *   snapshot, or a nonce gap, which holds until the next snapshot)
+ */
+export function applyBookEvent(
+  book: Orderbook | null,
+  event: Extract<MarketDataEvent, { type: "book" | "book_delta" }>,
+  symbol: string
+): Orderbook | null {
+  if (event.type === "book") {
+    return {
+      symbol,
+      bids: applyLevels([], event.bids, "buy"),
+      asks: applyLevels([], event.asks, "sell"),
+      timestamp: event.ts,
+      nonce: event.nonce,
+    };
+  }
+
+  if (!book) {
+    return null;
+  }
+  if (event.nonce !== undefined && book.nonce !== undefined && event.nonce !== book.nonce + 1) {
+    logger.warn(
+      `Book nonce gap at ${event.ts} (${book.nonce} -> ${event.nonce}), waiting for snapshot`
+    );
+    return null;
+  }
+
+  return {
+    symbol,
+    bids: applyLevels(book.bids, event.bids, "buy"),
+    asks: applyLevels(book.asks, event.asks, "sell"),
+    timestamp: event.ts,
+    nonce: event.nonce ?? book.nonce,
+  };
+}
@@ -0,0 +1,241 @@
+import type { IExchange } from "../exchanges/types.js";
+import { CompositePriceFeed } from "../pricing/composite.js";
+import type { IPriceFeed, PriceCallback } from "../pricing/index.js";
+import type { Orderbook, Trade } from "../types.js";
+import { logger } from "../utils/logger.js";
+import { MarketDataWriter } from "./writer.js";
+
+/**
+ * Market data recorder configuration
+ */
+export interface MarketDataRecorderConfig {
+  /** Root output directory */
+  dir: string;
+  /** Start a new file every this many milliseconds */
+  rotateMs: number;
+  /** Write a full book snapshot at least this often; deltas in between */
+  snapshotIntervalMs: number;
+  /** Book levels kept per side */
+  depth: number;
+  /** Record public trades when the exchange streams them */
+  trades: boolean;
+  /** Create the price feed to record (omit to record the book only) */
+  priceFeed?: (onPrice: PriceCallback) => IPriceFeed;
+  /** Label written with each price tick (e.g., "binance") */
+  priceSource?: string;
+}
+
+/**
+ * Counts of events written since start
+ */
+export interface RecorderStats {
+  snapshots: number;
+  deltas: number;
+  prices: number;
+  trades: number;
+  files: number;
+}
+
+/**
+ * Size changes between two sides of a book (size 0 marks a removed level)
+ */
+function diffLevels(prev: [number, number][], next: [number, number][]): [number, number][] {
+  const prevSizes = new Map(prev);
+  const nextPrices = new Set(next.map(([price]) => price));
+  const changes: [number, number][] = [];
+  for (const [price, size] of next) {
+    if (prevSizes.get(price) !== size) {
+      changes.push([price, size]);
+    }
+  }
+  for (const [price] of prev) {
+    if (!nextPrices.has(price)) {
+      changes.push([price, 0]);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Records one symbol's order book, trades and fair price to rotating gzip JSONL files
+ * Each file starts with a book snapshot so it can be replayed on its own; books are then
+ * written as deltas against the previous book, with a fresh snapshot every snapshotIntervalMs.
+ * Events are stamped with receive time so every file is time-ordered.
+ */
+export class MarketDataRecorder {
+  private exchange: IExchange;
+  private symbol: string;
+  private config: MarketDataRecorderConfig;
+  private writer: MarketDataWriter;
+  private priceFeed: IPriceFeed | null = null;
+  private lastBook: { bids: [number, number][]; asks: [number, number][] } | null = null;
+  private lastSnapshotTs = 0;
+  private snapshotPath: string | null = null;
+  private nonce = 0;
+  private running = false;
+  private stats: RecorderStats = { snapshots: 0, deltas: 0, prices: 0, trades: 0, files: 0 };
+
+  /**
+   * Create a recorder
+   * @param exchange - Exchange to take the order book (and trades) from
+   * @param symbol - Trading symbol
+   * @param config - Output directory, rotation, snapshot interval, depth and price feed
+   */
+  constructor(exchange: IExchange, symbol: string, config: MarketDataRecorderConfig) {
+    if (!(config.snapshotIntervalMs > 0)) {
+      throw new Error("snapshotIntervalMs must be positive");
+    }
+    if (!(config.depth >= 1)) {
+      throw new Error("depth must be at least 1");
+    }
+    this.exchange = exchange;
+    this.symbol = symbol;
+    this.config = config;
+    this.writer = new MarketDataWriter({
+      dir: config.dir,
+      exchange: exchange.name,
+      symbol,
+      rotateMs: config.rotateMs,
+    });
+  }
+
+  /**
+   * Connect and start recording
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    if (!this.exchange.connected) {
+      await this.exchange.connect();
+    }
+    await this.exchange.subscribeOrderbook(this.symbol, (book) => this.handleBook(book));
+
+    if (this.config.trades) {
+      if (this.exchange.subscribeTrades) {
+        await this.exchange.subscribeTrades(this.symbol, (trade) => this.handleTrade(trade));
+      } else {
+        logger.warn(`${this.exchange.name} does not stream public trades; recording books only`);
+      }
+    }
+
+    if (this.config.priceFeed) {
+      this.priceFeed = this.config.priceFeed((price) => this.handlePrice(price));
+      await this.priceFeed.connect();
+    }
+
+    logger.info(`Recording ${this.exchange.name} ${this.symbol}`);
+  }
+
+  /**
+   * Stop recording, disconnect and close the current file
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    this.priceFeed?.disconnect();
+    this.priceFeed = null;
+    try {
+      await this.exchange.unsubscribeOrderbook(this.symbol);
+      await this.exchange.disconnect();
+    } catch (error) {
+      logger.error("Error disconnecting exchange:", error);
+    }
+    await this.writer.close();
+    logger.info(`Stopped recording ${this.symbol}`);
+  }
+
+  /**
+   * Get counts of events written so far
+   */
+  getStats(): RecorderStats {
+    return { ...this.stats, files: this.writer.getFilesOpened() };
+  }
+
+  /**
+   * Write a book update as a snapshot or a delta against the last book
+   */
+  private handleBook(book: Orderbook): void {
+    if (!this.running) return;
+
+    const ts = Date.now();
+    const bids = book.bids.slice(0, this.config.depth);
+    const asks = book.asks.slice(0, this.config.depth);
+
+    const bestBid = bids[0]?.[0];
+    const bestAsk = asks[0]?.[0];
+    if (
+      bestBid !== undefined &&
+      bestAsk !== undefined &&
+      this.priceFeed instanceof CompositePriceFeed
+    ) {
+      // Feed the venue mid into the composite (used by its "venue" source)
+      this.priceFeed.updateVenuePrice((bestBid + bestAsk) / 2, ts);
+    }
+
+    const path = this.writer.open(ts);
+    const snapshotDue =
+      this.lastBook === null ||
+      path !== this.snapshotPath ||
+      ts - this.lastSnapshotTs >= this.config.snapshotIntervalMs;
+
+    if (snapshotDue) {
+      this.nonce++;
+      this.writer.write({
+        type: "book",
+        ts,
+        bids,
+        asks,
+        nonce: this.nonce,
+        exchangeNonce: book.nonce,
+      });
+      this.snapshotPath = path;
+      this.lastSnapshotTs = ts;
+      this.stats.snapshots++;
+    } else if (this.lastBook) {
+      const bidChanges = diffLevels(this.lastBook.bids, bids);
+      const askChanges = diffLevels(this.lastBook.asks, asks);
+      if (bidChanges.length === 0 && askChanges.length === 0) return;
+
+      this.nonce++;
+      this.writer.write({
+        type: "book_delta",
+        ts,
+        bids: bidChanges,
+        asks: askChanges,
+        nonce: this.nonce,
+        exchangeNonce: book.nonce,
+      });
+      this.stats.deltas++;
+    }
+
+    this.lastBook = { bids, asks };
+  }
+
+  /**
+   * Write a price tick
+   */
+  private handlePrice(price: number): void {
+    if (!this.running) return;
+
+    this.writer.write({ type: "price", ts: Date.now(), price, source: this.config.priceSource });
+    this.stats.prices++;
+  }
+
+  /**
+   * Write a public trade
+   */
+  private handleTrade(trade: Trade): void {
+    if (!this.running) return;
+
+    this.writer.write({
+      type: "trade",
+      ts: Date.now(),
+      side: trade.side,
+      price: trade.price,
+      size: trade.size,
+    });
+    this.stats.trades++;
+  }
+}
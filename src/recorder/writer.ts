@@ -0,0 +1,155 @@
+import { type WriteStream, createWriteStream, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import { type Gzip, createGzip } from "node:zlib";
+import { logger } from "../utils/logger.js";
+import type { MarketDataEvent } from "./reader.js";
+
+/**
+ * Market data writer configuration
+ */
+export interface MarketDataWriterConfig {
+  /** Root directory; files go to <dir>/<exchange>/<symbol>/<YYYYMMDDTHHmmss>.jsonl.gz */
+  dir: string;
+  exchange: string;
+  symbol: string;
+  /** Start a new file when an event falls in the next period of this length */
+  rotateMs: number;
+  /** Flush compressed data to disk at least this often (default: 5000) */
+  flushIntervalMs?: number;
+}
+
+/**
+ * Make a name safe to use as a directory
+ */
+function toPathSegment(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+/**
+ * File name for a file starting at a timestamp (e.g., "20250101T120000.jsonl.gz")
+ */
+function toFileName(ts: number): string {
+  const time = new Date(ts).toISOString().replace(/[-:]/g, "").slice(0, 15);
+  return `${time}.jsonl.gz`;
+}
+
+/**
+ * Gzip-compressed JSONL writer for recorded market data
+ * Files rotate on period boundaries (e.g., on the hour for a 60 minute period), keyed by event
+ * time, so every file holds a contiguous, time-ordered slice. Write errors are logged and
+ * never reach the caller.
+ */
+export class MarketDataWriter {
+  private dir: string;
+  private rotateMs: number;
+  private flushIntervalMs: number;
+  private gzip: Gzip | null = null;
+  private file: WriteStream | null = null;
+  private path: string | null = null;
+  private period: number | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private filesOpened = 0;
+
+  /**
+   * Create a writer (files are created on the first event)
+   * @param config - Directory, exchange, symbol and rotation period
+   */
+  constructor(config: MarketDataWriterConfig) {
+    if (!(config.rotateMs > 0)) {
+      throw new Error("rotateMs must be positive");
+    }
+    this.dir = join(config.dir, toPathSegment(config.exchange), toPathSegment(config.symbol));
+    this.rotateMs = config.rotateMs;
+    this.flushIntervalMs = config.flushIntervalMs ?? 5000;
+  }
+
+  /**
+   * Make sure the file for an event time is open, rotating if its period has ended
+   * @param ts - Event time in milliseconds
+   * @returns Path of the file an event at ts is written to (null if it cannot be opened)
+   */
+  open(ts: number): string | null {
+    const period = Math.floor(ts / this.rotateMs);
+    if (this.gzip && this.period !== null && period <= this.period) {
+      return this.path;
+    }
+
+    this.closeFile();
+    try {
+      mkdirSync(this.dir, { recursive: true });
+    } catch (error) {
+      logger.error(`Failed to create market data directory ${this.dir}:`, error);
+      return null;
+    }
+
+    // Appending to an existing file adds a second gzip member, which readers handle
+    const path = join(this.dir, toFileName(ts));
+    const gzip = createGzip();
+    const file = createWriteStream(path, { flags: "a" });
+    file.on("error", (error) => {
+      logger.error(`Market data write failed (${path}):`, error);
+    });
+    gzip.pipe(file);
+
+    this.gzip = gzip;
+    this.file = file;
+    this.path = path;
+    this.period = period;
+    this.filesOpened++;
+    this.flushTimer = setInterval(() => gzip.flush(), this.flushIntervalMs);
+    logger.info(`Recording to ${path}`);
+    return path;
+  }
+
+  /**
+   * Append an event
+   * @param event - Event to write; its ts decides the file
+   */
+  write(event: MarketDataEvent): void {
+    if (!this.open(event.ts)) return;
+    this.gzip?.write(`${JSON.stringify(event)}\n`);
+  }
+
+  /**
+   * Path of the file currently written (null before the first event)
+   */
+  getCurrentPath(): string | null {
+    return this.path;
+  }
+
+  /**
+   * Number of files opened so far
+   */
+  getFilesOpened(): number {
+    return this.filesOpened;
+  }
+
+  /**
+   * End the current file without waiting for it to reach disk
+   */
+  private closeFile(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.gzip?.end();
+    this.gzip = null;
+    this.file = null;
+    this.path = null;
+    this.period = null;
+  }
+
+  /**
+   * Finish the gzip stream and close the current file
+   */
+  async close(): Promise<void> {
+    const file = this.file;
+    this.closeFile();
+    if (!file || file.closed) return;
+
+    await new Promise<void>((resolve) => {
+      file.once("close", () => resolve());
+      file.once("error", () => resolve());
+    });
+  }
+}
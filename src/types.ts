@@ -3,6 +3,7 @@
 export type Side = "buy" | "sell";
 export type OrderType = "limit" | "market";
 export type OrderStatus = "open" | "closed" | "canceled" | "expired" | "rejected";
+export type Liquidity = "maker" | "taker";
 
 export interface Market {
   id: string; // Exchange-specific market identifier
@@ -76,6 +77,11 @@ export interface OrderRequest {
   clientId?: string; // Optional client-provided ID
 }
 
+export interface OrderModification {
+  orderId: string; // Exchange order ID of the resting order to amend
+  order: OrderRequest; // New order parameters
+}
+
 export interface OrderResult {
   orderId: string; // Exchange-assigned order ID
   clientId?: string; // Client-provided ID (if any)
@@ -83,3 +89,26 @@ export interface OrderResult {
   timestamp: number;
   raw?: unknown; // Original exchange response
 }
+
+export interface Fill {
+  id: string; // Exchange trade/fill ID
+  orderId: string; // Exchange order ID that was filled
+  clientId?: string; // Client-provided order ID (if any)
+  symbol: string;
+  side: Side;
+  price: number; // Execution price
+  size: number; // Executed size
+  fee: number; // Fee paid in quote currency (negative for rebates)
+  liquidity: Liquidity; // Whether we provided or took liquidity
+  timestamp: number; // Unix timestamp in milliseconds
+  raw?: unknown; // Original exchange-specific fill data
+}
+
+export interface Trade {
+  id?: string; // Exchange trade ID (if any)
+  symbol: string;
+  side: Side; // Aggressor side
+  price: number;
+  size: number;
+  timestamp: number; // Unix timestamp in milliseconds
+}
@@ -0,0 +1,176 @@
+/**
+ * Source of the current time
+ */
+export interface Clock {
+  /** Current time in milliseconds */
+  now(): number;
+}
+
+/**
+ * Handle of a scheduled callback
+ */
+export type TimerHandle = NodeJS.Timeout | number;
+
+/**
+ * Clock that can also run callbacks later
+ */
+export interface Scheduler extends Clock {
+  /** Run a callback once after a delay */
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  /** Run a callback every ms milliseconds */
+  setInterval(callback: () => void, ms: number): TimerHandle;
+  /** Cancel a timeout or interval */
+  clearTimer(handle: TimerHandle): void;
+}
+
+/**
+ * Wall clock time and Node.js timers
+ */
+export const systemScheduler: Scheduler = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearTimer: (handle) => clearTimeout(handle),
+};
+
+interface VirtualTimer {
+  id: number;
+  /** Time the callback is due */
+  at: number;
+  /** Repeat period (null for a one-off timeout) */
+  intervalMs: number | null;
+  callback: () => void;
+}
+
+/**
+ * Manually driven clock and scheduler for replays and tests
+ * Time only moves when advanced. Timers fire in due order (ties in the order they were set),
+ * with the clock set to each timer's due time while it runs. Listeners run synchronously on
+ * every move, before any timer due at the new time.
+ */
+export class VirtualClock implements Scheduler {
+  private time: number;
+  private listeners: ((now: number) => void)[] = [];
+  private timers: VirtualTimer[] = [];
+  private nextTimerId = 1;
+
+  /**
+   * Create a virtual clock
+   * @param start - Initial time in milliseconds (default: 0)
+   */
+  constructor(start = 0) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    return this.addTimer(callback, ms, null);
+  }
+
+  setInterval(callback: () => void, ms: number): TimerHandle {
+    return this.addTimer(callback, ms, Math.max(1, ms));
+  }
+
+  clearTimer(handle: TimerHandle): void {
+    this.timers = this.timers.filter((t) => t.id !== handle);
+  }
+
+  /**
+   * Number of pending timers
+   */
+  getTimerCount(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Move to a point in time, firing every timer due on the way (earlier times are ignored)
+   * @param time - New time in milliseconds
+   */
+  advanceTo(time: number): void {
+    while (this.fireNext(time)) {
+      // Keep firing until nothing is due
+    }
+    this.moveTo(time);
+  }
+
+  /**
+   * Move forward
+   * @param ms - Milliseconds to advance by
+   */
+  advance(ms: number): void {
+    this.advanceTo(this.time + ms);
+  }
+
+  /**
+   * Move forward, letting async work started by each timer settle before the next fires
+   * Use this when timer callbacks start promises (e.g., a bot loop awaiting exchange calls)
+   * @param ms - Milliseconds to advance by
+   */
+  async advanceAsync(ms: number): Promise<void> {
+    const target = this.time + ms;
+    while (this.fireNext(target)) {
+      await settle();
+    }
+    this.moveTo(target);
+    await settle();
+  }
+
+  /**
+   * Run a listener every time the clock moves
+   * @param listener - Called with the new time
+   * @returns Function that removes the listener
+   */
+  onAdvance(listener: (now: number) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private addTimer(callback: () => void, ms: number, intervalMs: number | null): number {
+    const id = this.nextTimerId++;
+    this.timers.push({ id, at: this.time + Math.max(0, ms), intervalMs, callback });
+    return id;
+  }
+
+  /**
+   * Fire the earliest timer due by a time
+   * @returns Whether a timer fired
+   */
+  private fireNext(until: number): boolean {
+    let next: VirtualTimer | undefined;
+    for (const timer of this.timers) {
+      if (timer.at <= until && (!next || timer.at < next.at)) {
+        next = timer;
+      }
+    }
+    if (!next) return false;
+
+    this.moveTo(next.at);
+    if (next.intervalMs === null) {
+      this.clearTimer(next.id);
+    } else {
+      next.at += next.intervalMs;
+    }
+    next.callback();
+    return true;
+  }
+
+  private moveTo(time: number): void {
+    if (time <= this.time) return;
+    this.time = time;
+    for (const listener of [...this.listeners]) {
+      listener(time);
+    }
+  }
+}
+
+/**
+ * Wait for pending promise callbacks and I/O callbacks to run
+ */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
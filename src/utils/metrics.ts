@@ -0,0 +1,261 @@
+export type Labels = Record<string, string>;
+
+/**
+ * Default histogram buckets in seconds, suited to exchange request latencies
+ */
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Escape a label value for the Prometheus text format
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+/**
+ * Format a label set as {a="1",b="2"} (empty string without labels)
+ */
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}`;
+}
+
+/**
+ * Stable key for a label set, independent of property order
+ */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Number.POSITIVE_INFINITY) return "+Inf";
+  if (value === Number.NEGATIVE_INFINITY) return "-Inf";
+  return String(value);
+}
+
+/**
+ * Base for metrics holding one value per label set
+ */
+abstract class LabeledMetric<T> {
+  readonly name: string;
+  readonly help: string;
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  abstract readonly type: "counter" | "gauge" | "histogram";
+
+  protected abstract renderSeries(labels: Labels, value: T): string[];
+
+  protected getOrCreate(labels: Labels, create: () => T): { labels: Labels; value: T } {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Drop the series for a label set (e.g., a symbol that stopped trading)
+   */
+  remove(labels: Labels): void {
+    this.series.delete(labelKey(labels));
+  }
+
+  /**
+   * Render in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines.join("\n");
+  }
+}
+
+/**
+ * Monotonically increasing count
+ */
+export class Counter extends LabeledMetric<number> {
+  readonly type = "counter";
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.getOrCreate(labels, () => 0).value += amount;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.value ?? 0;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge extends LabeledMetric<number> {
+  readonly type = "gauge";
+
+  set(labels: Labels, value: number): void {
+    this.getOrCreate(labels, () => 0).value = value;
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    return this.series.get(labelKey(labels))?.value;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+interface HistogramValue {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observations in cumulative buckets
+ */
+export class Histogram extends LabeledMetric<HistogramValue> {
+  readonly type = "histogram";
+  private buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.getOrCreate(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.value.counts[index]++;
+    });
+    entry.value.sum += value;
+    entry.value.count++;
+  }
+
+  protected renderSeries(labels: Labels, value: HistogramValue): string[] {
+    const lines = this.buckets.map(
+      (bound, index) =>
+        `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.counts[index]}`
+    );
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    return lines;
+  }
+}
+
+type Metric = Counter | Gauge | Histogram;
+
+/**
+ * Named metrics plus collectors that refresh gauges right before each scrape
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+  private collectors = new Set<() => void>();
+
+  counter(name: string, help: string): Counter {
+    return this.getOrCreate(name, Counter, () => new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.getOrCreate(name, Gauge, () => new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.getOrCreate(name, Histogram, () => new Histogram(name, help, buckets));
+  }
+
+  private getOrCreate<T extends Metric>(
+    name: string,
+    type: new (...args: never[]) => T,
+    create: () => T
+  ): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+
+  /**
+   * Register a function that updates gauges before each render
+   * @returns Function that unregisters the collector
+   */
+  addCollector(collect: () => void): () => void {
+    this.collectors.add(collect);
+    return () => {
+      this.collectors.delete(collect);
+    };
+  }
+
+  /**
+   * Run collectors and render every metric in the Prometheus text format
+   */
+  render(): string {
+    for (const collect of this.collectors) {
+      collect();
+    }
+    return `${[...this.metrics.values()].map((m) => m.render()).join("\n")}\n`;
+  }
+}
+
+/**
+ * Process-wide metrics registry
+ */
+export const metrics = new MetricsRegistry();
+
+const exchangeRequests = metrics.counter(
+  "mm_exchange_requests_total",
+  "Exchange order requests by operation and outcome"
+);
+const exchangeRequestDuration = metrics.histogram(
+  "mm_exchange_request_duration_seconds",
+  "Exchange order request latency"
+);
+
+/**
+ * Time an exchange request and count its outcome
+ * @param exchange - Exchange name (e.g., "hyperliquid")
+ * @param operation - Operation name (e.g., "place_order")
+ * @param request - The request to run
+ */
+export async function observeRequest<T>(
+  exchange: string,
+  operation: string,
+  request: () => Promise<T>
+): Promise<T> {
+  const start = performance.now();
+  let status = "ok";
+  try {
+    return await request();
+  } catch (error) {
+    status = "error";
+    throw error;
+  } finally {
+    exchangeRequestDuration.observe({ exchange, operation }, (performance.now() - start) / 1000);
+    exchangeRequests.inc({ exchange, operation, status });
+  }
+}
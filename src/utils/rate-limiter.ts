@@ -0,0 +1,57 @@
+import { type Scheduler, systemScheduler } from "./clock.js";
+
+/**
+ * Token bucket spacing out requests to an API
+ * Up to `burst` requests go out at once; after that they are let through at the refill rate,
+ * in the order they asked.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Create a rate limiter
+   * @param ratePerSecond - Sustained requests per second
+   * @param burst - Requests allowed at once (default: one second's worth)
+   * @param scheduler - Time source and timers (default: system)
+   */
+  constructor(
+    private ratePerSecond: number,
+    private burst = ratePerSecond,
+    private scheduler: Scheduler = systemScheduler
+  ) {
+    if (ratePerSecond <= 0 || burst < 1) {
+      throw new Error(`Invalid rate limit: ${ratePerSecond}/s with a burst of ${burst}`);
+    }
+    this.tokens = burst;
+    this.lastRefill = scheduler.now();
+  }
+
+  /**
+   * Wait for a free slot
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn;
+    return turn;
+  }
+
+  private async take(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      // Rounded, as float error can leave a token a hair short (it is borrowed from the next)
+      const waitMs = Math.max(1, Math.round(((1 - this.tokens) / this.ratePerSecond) * 1000));
+      await new Promise<void>((resolve) => this.scheduler.setTimeout(resolve, waitMs));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = this.scheduler.now();
+    const refilled = ((now - this.lastRefill) / 1000) * this.ratePerSecond;
+    this.tokens = Math.min(this.burst, this.tokens + refilled);
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+  cancelAllCommand,
+  cancelCommand,
+  formatOutput,
+  ordersCommand,
+} from "../src/cli/account-commands.js";
+import type { IExchange } from "../src/exchanges/types.js";
+import type { Account, Market, Order, OrderResult, Position } from "../src/types.js";
+
+function order(id: string, symbol: string, price: number): Order {
+  return {
+    id,
+    symbol,
+    type: "limit",
+    side: "buy",
+    price,
+    size: 0.5,
+    filled: 0,
+    remaining: 0.5,
+    status: "open",
+    timestamp: Date.UTC(2025, 0, 1),
+    postOnly: true,
+    raw: { venue: "payload" },
+  };
+}
+
+/**
+ * Exchange stub with a fixed set of open orders that records cancels
+ */
+class StubExchange implements IExchange {
+  readonly name = "stub";
+  connected = true;
+  orders: Order[] = [order("1", "BTC/USD:USD", 99_000), order("2", "ETH/USD:USD", 3_000)];
+  canceled: { id: string; symbol?: string }[] = [];
+  canceledAll: (string | undefined)[] = [];
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  async getMarkets(): Promise<Market[]> {
+    return [];
+  }
+
+  async subscribeOrderbook(): Promise<void> {
+    // No market data in these tests
+  }
+
+  async unsubscribeOrderbook(): Promise<void> {
+    // Nothing to stop
+  }
+
+  async getAccount(): Promise<Account> {
+    throw new Error("not used");
+  }
+
+  async getPositions(): Promise<Position[]> {
+    return [];
+  }
+
+  async getOpenOrders(symbol?: string): Promise<Order[]> {
+    return this.orders.filter((o) => !symbol || o.symbol.startsWith(`${symbol}/`));
+  }
+
+  async placeOrder(): Promise<OrderResult> {
+    throw new Error("not used");
+  }
+
+  async cancelOrder(id: string, symbol?: string): Promise<void> {
+    this.canceled.push({ id, symbol });
+  }
+
+  async cancelAllOrders(symbol?: string): Promise<void> {
+    this.canceledAll.push(symbol);
+  }
+}
+
+describe("account CLI commands", () => {
+  it("should look up the symbol of an order to cancel", async () => {
+    const exchange = new StubExchange();
+
+    const output = await cancelCommand(exchange, "2");
+
+    expect(exchange.canceled).toEqual([{ id: "2", symbol: "ETH/USD:USD" }]);
+    expect(formatOutput(output, false)).toBe("Canceled order 2 (ETH/USD:USD)");
+  });
+
+  it("should cancel with the given symbol without a lookup", async () => {
+    const exchange = new StubExchange();
+    exchange.orders = [];
+
+    await cancelCommand(exchange, "9", "BTC");
+
+    expect(exchange.canceled).toEqual([{ id: "9", symbol: "BTC" }]);
+  });
+
+  it("should fail to cancel an order that is not open", async () => {
+    const exchange = new StubExchange();
+
+    await expect(cancelCommand(exchange, "9")).rejects.toThrow("No open order with id 9");
+    expect(exchange.canceled).toEqual([]);
+  });
+
+  it("should report the orders canceled by cancel-all", async () => {
+    const exchange = new StubExchange();
+
+    expect(formatOutput(await cancelAllCommand(exchange), false)).toBe("Canceled 2 orders");
+    expect(formatOutput(await cancelAllCommand(exchange, "BTC"), false)).toBe(
+      "Canceled 1 order for BTC"
+    );
+    expect(exchange.canceledAll).toEqual([undefined, "BTC"]);
+
+    exchange.orders = [];
+    expect(formatOutput(await cancelAllCommand(exchange), false)).toBe("Canceled 0 orders");
+  });
+
+  it("should print JSON without exchange payloads", async () => {
+    const exchange = new StubExchange();
+
+    const canceled = JSON.parse(formatOutput(await cancelAllCommand(exchange, "ETH"), true));
+    expect(canceled).toEqual({ canceled: ["2"] });
+
+    const orders = JSON.parse(formatOutput(await ordersCommand(exchange, "BTC"), true));
+    expect(orders).toEqual([
+      {
+        id: "1",
+        symbol: "BTC/USD:USD",
+        type: "limit",
+        side: "buy",
+        price: 99_000,
+        size: 0.5,
+        filled: 0,
+        remaining: 0.5,
+        status: "open",
+        timestamp: Date.UTC(2025, 0, 1),
+        postOnly: true,
+      },
+    ]);
+  });
+
+  it("should print open orders as a table", async () => {
+    const output = await ordersCommand(new StubExchange());
+
+    expect(formatOutput(output, false).split("\n")).toEqual([
+      "ID  Symbol       Side  Type   Price     Size  Filled  Flags      Time",
+      "-".repeat(69),
+      "1   BTC/USD:USD  buy   limit  99000.00  0.5   0       post-only  2025-01-01T00:00:00.000Z",
+      "2   ETH/USD:USD  buy   limit  3000.00   0.5   0       post-only  2025-01-01T00:00:00.000Z",
+    ]);
+  });
+});
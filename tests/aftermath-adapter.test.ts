@@ -0,0 +1,445 @@
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AftermathClient } from "../src/exchanges/aftermath/client.js";
+import { AftermathAdapter, AftermathFillSubscription } from "../src/exchanges/aftermath/index.js";
+import { clearMarketsCache } from "../src/exchanges/aftermath/markets.js";
+import type { Fill, Order, OrderRequest, Orderbook, Position, Trade } from "../src/types.js";
+import { MockAftermathServer } from "./mocks/aftermath-server.js";
+
+const CH_ID = "0xbtc";
+const SYMBOL = "BTC/USDC:USDC";
+
+function limit(side: "buy" | "sell", price: number, size: number): OrderRequest {
+  return { symbol: "BTC", side, type: "limit", price, size, postOnly: true };
+}
+
+describe("AftermathAdapter against a mock API", () => {
+  let keypair: Ed25519Keypair;
+  let server: MockAftermathServer;
+  let adapter: AftermathAdapter;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    clearMarketsCache();
+    keypair = new Ed25519Keypair();
+    server = new MockAftermathServer({
+      walletAddress: keypair.getPublicKey().toSuiAddress(),
+      balances: { USDC: { free: 800, used: 200, total: 1000 } },
+    });
+    server.setOrderbook(
+      CH_ID,
+      [
+        [99.9, 2],
+        [99.8, 5],
+      ],
+      [
+        [100.1, 3],
+        [100.2, 4],
+      ]
+    );
+    baseUrl = await server.start();
+    adapter = new AftermathAdapter({
+      privateKey: keypair.getSecretKey(),
+      baseUrl,
+      reconnectDelayMs: 50,
+    });
+    await adapter.connect();
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+    await server.stop();
+  });
+
+  it("should load markets, account and positions", async () => {
+    expect(adapter.connected).toBe(true);
+    expect(await adapter.getMarkets()).toMatchObject([
+      { id: CH_ID, symbol: SYMBOL, base: "BTC", tickSize: 0.1, minSize: 0.0001 },
+    ]);
+
+    server.positions = [
+      {
+        symbol: SYMBOL,
+        side: "long",
+        contracts: 0.5,
+        entryPrice: 100,
+        unrealizedPnl: 2,
+        collateral: 150,
+      },
+    ];
+    expect(await adapter.getAccount()).toMatchObject({
+      equity: 1000,
+      availableMargin: 800,
+      margin: 150,
+    });
+    expect(await adapter.getPositions()).toMatchObject([
+      { symbol: SYMBOL, side: "long", size: 0.5, entryPrice: 100, margin: 150 },
+    ]);
+  });
+
+  it("should fail to connect a wallet without an account", async () => {
+    const other = new AftermathAdapter({
+      privateKey: new Ed25519Keypair().getSecretKey(),
+      baseUrl,
+    });
+    await expect(other.connect()).rejects.toThrow();
+  });
+
+  it("should sign, submit and track orders", async () => {
+    const result = await adapter.placeOrder(limit("buy", 99.5, 0.2));
+    expect(result).toMatchObject({ orderId: "1", status: "open" });
+    expect(server.getRequests("/api/ccxt/build/createOrders")[0].body).toMatchObject({
+      accountId: "0xcap",
+      orders: [{ chId: CH_ID, type: "limit", side: "buy", amount: 0.2, price: 99.5 }],
+    });
+
+    expect(await adapter.getOpenOrders("BTC")).toMatchObject([
+      { id: "1", symbol: SYMBOL, side: "buy", price: 99.5, size: 0.2, status: "open" },
+    ]);
+
+    await adapter.cancelOrder("1", "BTC");
+    expect(server.getOpenOrders()).toEqual([]);
+  });
+
+  it("should amend with one batched cancel and one batched create", async () => {
+    const bid = await adapter.placeOrder(limit("buy", 99.5, 0.2));
+    const ask = await adapter.placeOrder(limit("sell", 100.5, 0.2));
+
+    const results = await adapter.modifyOrders([
+      { orderId: bid.orderId, order: limit("buy", 99.6, 0.2) },
+      { orderId: ask.orderId, order: limit("sell", 100.4, 0.3) },
+    ]);
+
+    expect(results.map((r) => r.orderId)).toEqual(["3", "4"]);
+    expect(server.getRequests("/api/ccxt/submit/cancelOrders")).toHaveLength(1);
+    expect(server.getRequests("/api/ccxt/submit/createOrders")).toHaveLength(3);
+    expect(server.getOpenOrders().map((o) => [o.side, o.price, o.amount])).toEqual([
+      ["buy", 99.6, 0.2],
+      ["sell", 100.4, 0.3],
+    ]);
+  });
+
+  it("should report amended orders as rejected when the replacement fails", async () => {
+    const bid = await adapter.placeOrder(limit("buy", 99.5, 0.2));
+    server.failRequests("/api/ccxt/build/createOrders", 400);
+
+    const results = await adapter.modifyOrders([
+      { orderId: bid.orderId, order: limit("buy", 99.6, 0.2) },
+    ]);
+
+    expect(results).toMatchObject([{ orderId: bid.orderId, status: "rejected" }]);
+    expect(server.getOpenOrders()).toEqual([]);
+  });
+
+  it("should cancel every open order in a market", async () => {
+    await adapter.placeOrder(limit("buy", 99.5, 0.2));
+    await adapter.placeOrder(limit("sell", 100.5, 0.2));
+
+    await adapter.cancelAllOrders("BTC");
+    expect(server.getOpenOrders()).toEqual([]);
+    expect(server.getRequests("/api/ccxt/build/cancelOrders")[0].body).toMatchObject({
+      chId: CH_ID,
+      orderIds: ["1", "2"],
+    });
+  });
+
+  it("should reject a submission that is not signed by the sender", async () => {
+    const post = async (path: string, body: unknown) => {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
+      return { status: response.status, body: await response.json() };
+    };
+    const build = () =>
+      post("/api/ccxt/build/cancelOrders", {
+        accountId: "0xcap",
+        chId: CH_ID,
+        orderIds: [],
+        metadata: { sender: adapter.getWalletAddress() },
+      });
+    const signature = async (signer: Ed25519Keypair, digest: Uint8Array) =>
+      Buffer.concat([
+        Buffer.from([0x00]),
+        await signer.sign(digest),
+        signer.getPublicKey().toRawBytes(),
+      ]).toString("base64");
+
+    let built = (await build()).body;
+    const digest = Buffer.from(built.signingDigest, "base64");
+    const otherKey = await post("/api/ccxt/submit/cancelOrders", {
+      transactionBytes: built.transactionBytes,
+      signatures: [await signature(new Ed25519Keypair(), digest)],
+    });
+    expect(otherKey).toEqual({ status: 400, body: { error: "Signature is not from the sender" } });
+
+    built = (await build()).body;
+    const otherDigest = await post("/api/ccxt/submit/cancelOrders", {
+      transactionBytes: built.transactionBytes,
+      signatures: [await signature(keypair, new Uint8Array(32))],
+    });
+    expect(otherDigest).toEqual({ status: 400, body: { error: "Invalid signature" } });
+  });
+
+  describe("orderbook stream", () => {
+    let books: Orderbook[];
+
+    beforeEach(async () => {
+      books = [];
+      // The adapter updates its book in place, so keep copies
+      await adapter.subscribeOrderbook("BTC", (book) => books.push(structuredClone(book)));
+      await vi.waitFor(() => expect(server.getStreamCount("orderbook", CH_ID)).toBe(1));
+    });
+
+    it("should start from the snapshot and apply deltas in nonce order", async () => {
+      expect(books[0]).toMatchObject({
+        bids: [
+          [99.9, 2],
+          [99.8, 5],
+        ],
+        asks: [
+          [100.1, 3],
+          [100.2, 4],
+        ],
+        nonce: 1,
+      });
+
+      server.pushOrderbookDelta(CH_ID, { bids: [[99.9, -2]], asks: [[100.0, 1]] });
+      await vi.waitFor(() => expect(books).toHaveLength(2));
+      expect(books[1]).toMatchObject({
+        bids: [[99.8, 5]],
+        asks: [
+          [100.0, 1],
+          [100.1, 3],
+          [100.2, 4],
+        ],
+        nonce: 2,
+      });
+    });
+
+    it("should ignore stale and duplicate deltas", async () => {
+      const delta = server.pushOrderbookDelta(CH_ID, { bids: [[99.8, 1]] });
+      server.sendOrderbookEvent(CH_ID, delta);
+      server.sendOrderbookEvent(CH_ID, { ...delta, nonce: 1, bids: [[99.7, 9]] });
+      server.pushOrderbookDelta(CH_ID, { asks: [[100.1, -1]] });
+
+      await vi.waitFor(() => expect(books.at(-1)?.nonce).toBe(3));
+      expect(books.map((b) => b.nonce)).toEqual([1, 2, 3]);
+      expect(books[2]).toMatchObject({
+        bids: [
+          [99.9, 2],
+          [99.8, 6],
+        ],
+        asks: [
+          [100.1, 2],
+          [100.2, 4],
+        ],
+      });
+    });
+
+    it("should reconnect and resync after the stream drops", async () => {
+      server.dropStreams();
+      // Sent while nobody is listening
+      server.pushOrderbookDelta(CH_ID, { asks: [[100.1, -3]] });
+      await vi.waitFor(() => expect(server.getStreamCount("orderbook", CH_ID)).toBe(1));
+      expect(server.getRequests("/api/ccxt/stream/orderbook")).toHaveLength(2);
+
+      await vi.waitFor(() => expect(books.at(-1)?.nonce).toBe(2));
+      expect(books.at(-1)?.asks).toEqual([[100.2, 4]]);
+      expect(adapter.isBookHealthy("BTC")).toBe(true);
+
+      server.pushOrderbookDelta(CH_ID, { bids: [[99.9, 1]] });
+      await vi.waitFor(() => expect(books.at(-1)?.nonce).toBe(3));
+      expect(books.at(-1)?.bids).toEqual([
+        [99.9, 3],
+        [99.8, 5],
+      ]);
+    });
+
+    it("should re-snapshot on a nonce gap instead of applying past it", async () => {
+      server.pushOrderbookDelta(CH_ID, { bids: [[99.9, -2]] }, false);
+      server.pushOrderbookDelta(CH_ID, { asks: [[100.1, -3]] });
+
+      await vi.waitFor(() => expect(books.at(-1)?.nonce).toBe(3));
+      expect(server.getRequests("/api/ccxt/orderbook")).toHaveLength(2);
+      expect(books.map((b) => b.nonce)).toEqual([1, 3]);
+      expect(books.at(-1)).toMatchObject({ bids: [[99.8, 5]], asks: [[100.2, 4]] });
+      expect(adapter.isBookHealthy("BTC")).toBe(true);
+    });
+
+    it("should re-snapshot instead of delivering a crossed book", async () => {
+      server.sendOrderbookEvent(CH_ID, { bids: [[100.5, 1]], asks: [], timestamp: 0, nonce: 2 });
+
+      await vi.waitFor(() => expect(server.getRequests("/api/ccxt/orderbook")).toHaveLength(2));
+      await vi.waitFor(() => expect(adapter.isBookHealthy("BTC")).toBe(true));
+      expect(books.every((b) => b.bids[0][0] < b.asks[0][0])).toBe(true);
+
+      server.pushOrderbookDelta(CH_ID, { bids: [[99.9, 1]] });
+      await vi.waitFor(() => expect(books.at(-1)?.nonce).toBe(2));
+      expect(books.at(-1)?.bids[0]).toEqual([99.9, 3]);
+    });
+
+    it("should report the book unhealthy until a snapshot can be fetched", async () => {
+      expect(adapter.isBookHealthy("BTC")).toBe(true);
+      server.failRequests("/api/ccxt/orderbook");
+      server.dropStreams();
+
+      await vi.waitFor(() => expect(adapter.isBookHealthy("BTC")).toBe(false));
+      await vi.waitFor(() =>
+        expect(server.getRequests("/api/ccxt/orderbook").length).toBeGreaterThan(2)
+      );
+      expect(adapter.isBookHealthy("BTC")).toBe(false);
+
+      server.clearFailures();
+      await vi.waitFor(() => expect(adapter.isBookHealthy("BTC")).toBe(true));
+    });
+
+    it("should stop streaming on unsubscribe", async () => {
+      await adapter.unsubscribeOrderbook("BTC");
+      await vi.waitFor(() => expect(server.getStreamCount("orderbook", CH_ID)).toBe(0));
+    });
+  });
+
+  describe("order, position and trade streams", () => {
+    it("should stream order state changes and fills", async () => {
+      const orders: Order[] = [];
+      const fills: Fill[] = [];
+      await adapter.subscribeOrders((order) => orders.push(order));
+      await adapter.subscribeFills((fill) => fills.push(fill));
+
+      // The order stream opens with the first order in a market
+      const { orderId } = await adapter.placeOrder(limit("buy", 99.5, 0.2));
+      await vi.waitFor(() => expect(server.getStreamCount("orders", CH_ID)).toBe(1));
+
+      server.fillOrder(orderId, 0.05);
+      await vi.waitFor(() => expect(fills).toHaveLength(1));
+      expect(fills[0]).toMatchObject({ orderId, side: "buy", price: 99.5, size: 0.05 });
+      expect(orders.at(-1)).toMatchObject({ id: orderId, status: "open", filled: 0.05 });
+
+      await adapter.cancelOrder(orderId, "BTC");
+      await vi.waitFor(() => expect(orders.at(-1)?.status).toBe("canceled"));
+      expect(fills).toHaveLength(1);
+    });
+
+    it("should price fills without trades by the change in average and not repeat them", async () => {
+      const fills: Fill[] = [];
+      await adapter.subscribeFills((fill) => fills.push(fill));
+
+      const { orderId } = await adapter.placeOrder(limit("buy", 99.5, 0.2));
+      await vi.waitFor(() => expect(server.getStreamCount("orders", CH_ID)).toBe(1));
+
+      server.fillOrder(orderId, 0.1, 99.5, false);
+      server.fillOrder(orderId, 0.1, 99.3, false);
+      await vi.waitFor(() => expect(fills).toHaveLength(2));
+      expect(fills[0]).toMatchObject({ size: 0.1, price: 99.5 });
+      expect(fills[1].size).toBeCloseTo(0.1);
+      expect(fills[1].price).toBeCloseTo(99.3);
+
+      // The filled order comes again, as in the snapshot after a reconnect
+      server.resendOrder(orderId);
+      server.fillOrder((await adapter.placeOrder(limit("buy", 99.4, 0.1))).orderId);
+      await vi.waitFor(() => expect(fills).toHaveLength(3));
+      expect(fills[2].orderId).not.toBe(orderId);
+    });
+
+    it("should not reopen a dropped order stream after disconnect", async () => {
+      const subscription = new AftermathFillSubscription(
+        new AftermathClient(baseUrl),
+        baseUrl,
+        200
+      );
+      subscription.addCallback(() => undefined);
+      subscription.subscribeMarket(CH_ID, 7);
+      await vi.waitFor(() => expect(server.getStreamCount("orders", CH_ID)).toBe(1));
+
+      // Disconnect while the reconnect is pending
+      server.dropStreams();
+      await vi.waitFor(() => expect(subscription.connected).toBe(false));
+      await subscription.disconnect();
+
+      await new Promise((resolve) => setTimeout(resolve, 400));
+      expect(server.getRequests("/api/ccxt/stream/orders")).toHaveLength(1);
+      expect(server.getStreamCount("orders", CH_ID)).toBe(0);
+    });
+
+    it("should open one order stream when subscribed while reconnecting", async () => {
+      const subscription = new AftermathFillSubscription(
+        new AftermathClient(baseUrl),
+        baseUrl,
+        200
+      );
+      subscription.addCallback(() => undefined);
+      subscription.subscribeMarket(CH_ID, 7);
+      await vi.waitFor(() => expect(server.getStreamCount("orders", CH_ID)).toBe(1));
+
+      // Subscribe again, as placing an order does, while the reconnect is pending; the slow
+      // stream would still be opening when the reconnect fires
+      server.delayRequests("/api/ccxt/stream/orders", 300);
+      server.dropStreams();
+      await vi.waitFor(() => expect(subscription.connected).toBe(false));
+      subscription.subscribeMarket(CH_ID, 7);
+
+      await vi.waitFor(() => expect(server.getStreamCount("orders", CH_ID)).toBe(1));
+      await new Promise((resolve) => setTimeout(resolve, 400));
+      expect(server.getRequests("/api/ccxt/stream/orders")).toHaveLength(2);
+      expect(server.getStreamCount("orders", CH_ID)).toBe(1);
+
+      await subscription.disconnect();
+      await vi.waitFor(() => expect(server.getStreamCount("orders", CH_ID)).toBe(0));
+    });
+
+    it("should stream position changes until the position closes", async () => {
+      const positions: Position[] = [];
+      await adapter.subscribePositions((position) => positions.push(position));
+      await vi.waitFor(() => expect(server.getStreamCount("positions", "7")).toBe(1));
+
+      const open = {
+        symbol: SYMBOL,
+        side: "short" as const,
+        contracts: 0.3,
+        entryPrice: 100,
+        unrealizedPnl: 0,
+        collateral: 60,
+      };
+      server.pushPosition(open);
+      server.pushPosition({ ...open, contracts: 0 });
+
+      await vi.waitFor(() => expect(positions).toHaveLength(2));
+      expect(positions[0]).toMatchObject({ symbol: SYMBOL, side: "short", size: 0.3 });
+      expect(positions[1]).toMatchObject({ symbol: SYMBOL, side: "none", size: 0 });
+      expect(await adapter.getPositions()).toEqual([]);
+    });
+
+    it("should reopen the position stream after it drops", async () => {
+      const positions: Position[] = [];
+      await adapter.subscribePositions((position) => positions.push(position));
+      await vi.waitFor(() => expect(server.getStreamCount("positions", "7")).toBe(1));
+
+      server.dropStreams();
+      await vi.waitFor(() =>
+        expect(server.getRequests("/api/ccxt/stream/positions")).toHaveLength(2)
+      );
+      await vi.waitFor(() => expect(server.getStreamCount("positions", "7")).toBe(1));
+
+      server.pushPosition({
+        symbol: SYMBOL,
+        side: "long",
+        contracts: 1,
+        entryPrice: 100,
+        unrealizedPnl: 0,
+        collateral: 100,
+      });
+      await vi.waitFor(() => expect(positions).toHaveLength(1));
+    });
+
+    it("should stream public trades", async () => {
+      const trades: Trade[] = [];
+      await adapter.subscribeTrades("BTC", (trade) => trades.push(trade));
+      await vi.waitFor(() => expect(server.getStreamCount("trades", CH_ID)).toBe(1));
+
+      server.pushTrade(CH_ID, { side: "sell", price: 99.9, amount: 0.4 });
+      await vi.waitFor(() => expect(trades).toHaveLength(1));
+      expect(trades[0]).toMatchObject({ symbol: SYMBOL, side: "sell", price: 99.9, size: 0.4 });
+    });
+  });
+});
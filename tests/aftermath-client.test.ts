@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { AftermathApiError, AftermathClient } from "../src/exchanges/aftermath/client.js";
+import { MockAftermathServer } from "./mocks/aftermath-server.js";
+
+const MARKETS = "/api/ccxt/markets";
+const SUBMIT = "/api/ccxt/submit/createOrders";
+
+describe("AftermathClient", () => {
+  let server: MockAftermathServer;
+  let client: AftermathClient;
+
+  beforeEach(async () => {
+    server = new MockAftermathServer({ walletAddress: "0x1" });
+    const baseUrl = await server.start();
+    client = new AftermathClient(baseUrl, {
+      timeoutMs: 1_000,
+      maxRetries: 2,
+      retryBaseDelayMs: 1,
+      requestsPerSecond: 0,
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it("should retry reads through 5xx and 429 responses", async () => {
+    server.failRequests(MARKETS, 503, 1);
+    await expect(client.get(MARKETS)).resolves.toHaveProperty("0xbtc");
+
+    server.failRequests(MARKETS, 429, 2);
+    await expect(client.get(MARKETS)).resolves.toHaveProperty("0xbtc");
+    expect(server.getRequests(MARKETS)).toHaveLength(5);
+  });
+
+  it("should give up with the status, endpoint and parsed body", async () => {
+    server.failRequests(MARKETS, 500);
+
+    const error = await client.get(MARKETS).catch((e) => e);
+    expect(error).toBeInstanceOf(AftermathApiError);
+    expect(error).toMatchObject({
+      method: "GET",
+      endpoint: MARKETS,
+      status: 500,
+      body: { error: "Injected failure" },
+      retryable: true,
+    });
+    expect(server.getRequests(MARKETS)).toHaveLength(3);
+  });
+
+  it("should not retry client errors", async () => {
+    server.failRequests(MARKETS, 404);
+
+    await expect(client.get(MARKETS)).rejects.toMatchObject({ status: 404, retryable: false });
+    expect(server.getRequests(MARKETS)).toHaveLength(1);
+  });
+
+  it("should retry submissions only when rate limited", async () => {
+    server.failRequests(SUBMIT, 502);
+    await expect(client.post(SUBMIT, {})).rejects.toMatchObject({ status: 502 });
+    expect(server.getRequests(SUBMIT)).toHaveLength(1);
+
+    server.failRequests(SUBMIT, 429);
+    await expect(client.post(SUBMIT, {})).rejects.toMatchObject({ status: 429 });
+    expect(server.getRequests(SUBMIT)).toHaveLength(4);
+  });
+
+  it("should time out slow requests, with per-request overrides", async () => {
+    server.delayRequests(MARKETS, 200);
+
+    await expect(client.get(MARKETS, undefined, { timeoutMs: 50 })).rejects.toThrow(
+      "timed out after 50ms"
+    );
+    expect(server.getRequests(MARKETS)).toHaveLength(3);
+
+    await expect(client.get(MARKETS)).resolves.toHaveProperty("0xbtc");
+  });
+});
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiServer } from "../src/api/server.js";
+import { MarketMaker } from "../src/bots/mm/index.js";
+import type { IExchange } from "../src/exchanges/types.js";
+
+const TOKEN = "test-token";
+
+/**
+ * The API tests never start the bot, so the exchange is never called
+ */
+const unusedExchange = {} as IExchange;
+
+describe("ApiServer", () => {
+  let mm: MarketMaker;
+  let api: ApiServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    mm = new MarketMaker(
+      "paper",
+      "BTC",
+      {
+        priceSource: "composite",
+        priceSources: [{ source: "venue", weight: 1 }],
+        spreadBps: 10,
+      },
+      { exchange: unusedExchange }
+    );
+    api = new ApiServer(mm, { port: 0, token: TOKEN });
+    await api.start();
+    baseUrl = `http://127.0.0.1:${api.getPort()}`;
+  });
+
+  afterEach(async () => {
+    await api.stop();
+  });
+
+  function request(path: string, init: RequestInit = {}, token = TOKEN): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${token}`, ...init.headers },
+    });
+  }
+
+  it("should reject requests without the bearer token", async () => {
+    const response = await request("/status", {}, "wrong-token");
+    expect(response.status).toBe(401);
+  });
+
+  it("should serve the status", async () => {
+    const response = await request("/status");
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ state: "stopped", symbol: "BTC" });
+  });
+
+  it("should update live-tunable config fields", async () => {
+    const response = await request("/config", {
+      method: "PATCH",
+      body: JSON.stringify({ spreadBps: 15, orderSizeUsd: 50 }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual([
+      { field: "spreadBps", from: 10, to: 15 },
+      { field: "orderSizeUsd", from: 100, to: 50 },
+    ]);
+    expect(mm.getConfig().spreadBps).toBe(15);
+  });
+
+  it("should reject invalid or fixed config fields", async () => {
+    for (const body of [{ spreadBps: -1 }, { spreadBps: "wide" }, { symbol: "ETH" }]) {
+      const response = await request("/config", { method: "PATCH", body: JSON.stringify(body) });
+      expect(response.status).toBe(400);
+    }
+    expect(mm.getConfig()).toMatchObject({ spreadBps: 10, symbol: "BTC" });
+  });
+
+  it("should report control actions that do not apply to the current state", async () => {
+    const response = await request("/pause", { method: "POST" });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Cannot pause while stopped" });
+  });
+
+  it("should report exchange failures as server errors", async () => {
+    vi.spyOn(mm, "pause").mockRejectedValue(new Error("Exchange unavailable"));
+
+    const response = await request("/pause", { method: "POST" });
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Exchange unavailable" });
+  });
+
+  it("should serve metrics in the Prometheus text format", async () => {
+    const response = await request("/metrics");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/plain");
+    expect(await response.text()).toContain("# TYPE mm_exchange_requests_total counter");
+  });
+
+  it("should distinguish unknown routes from wrong methods", async () => {
+    expect((await request("/nope")).status).toBe(404);
+    expect((await request("/pause")).status).toBe(405);
+    expect((await request("/status?symbol=ETH")).status).toBe(404);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { type BacktestConfig, Backtester } from "../src/backtest/engine.js";
+import { QueueFillModel } from "../src/backtest/fill-model.js";
+import type { MarketDataEvent } from "../src/recorder/reader.js";
+import type { OrderRequest, Orderbook } from "../src/types.js";
+
+function book(bids: [number, number][], asks: [number, number][]): Orderbook {
+  return { symbol: "BTC", bids, asks, timestamp: 0 };
+}
+
+function bid(price: number, size: number): OrderRequest {
+  return { symbol: "BTC", side: "buy", type: "limit", price, size, postOnly: true };
+}
+
+describe("QueueFillModel", () => {
+  it("should reach the book only after the latency", () => {
+    const model = new QueueFillModel(50);
+    const id = model.place(bid(99, 1), 0);
+
+    expect(model.getNextActionTime()).toBe(50);
+    expect(model.advance(49, book([[99, 2]], [[101, 2]]))).toEqual([]);
+    expect(model.getOpenOrders(49)).toEqual([]);
+
+    model.advance(50, book([[99, 2]], [[101, 2]]));
+    expect(model.getOpenOrders(50).map((o) => o.id)).toEqual([id]);
+  });
+
+  it("should fill trades at our price only after the queue ahead", () => {
+    const model = new QueueFillModel(0);
+    const id = model.place(bid(99, 1), 0);
+    model.advance(0, book([[99, 2]], [[101, 2]]));
+
+    // 2 ahead of us: the first trade only eats into the queue
+    expect(model.onTrade("sell", 99, 1.5, 1)).toEqual([]);
+    expect(model.onTrade("sell", 99, 1, 2)).toEqual([
+      { type: "fill", orderId: id, side: "buy", price: 99, size: 0.5 },
+    ]);
+  });
+
+  it("should move up the queue when displayed size at our price shrinks", () => {
+    const model = new QueueFillModel(0);
+    model.place(bid(99, 1), 0);
+    model.advance(0, book([[99, 5]], [[101, 2]]));
+
+    model.onBook(book([[99, 1]], [[101, 2]]), 1);
+    const events = model.onTrade("sell", 99, 1.5, 2);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ size: 0.5 });
+  });
+
+  it("should fill first when a trade goes through our price", () => {
+    const model = new QueueFillModel(0);
+    model.place(bid(99, 1), 0);
+    model.advance(0, book([[99, 5]], [[101, 2]]));
+
+    expect(model.onTrade("sell", 98, 3, 1)).toMatchObject([{ size: 1 }]);
+    expect(model.getOpenOrders(1)).toEqual([]);
+  });
+
+  it("should fill when the opposite side of the book crosses our price", () => {
+    const model = new QueueFillModel(0);
+    model.place(bid(99, 1), 0);
+    model.advance(0, book([[98, 5]], [[101, 2]]));
+
+    expect(model.onBook(book([[97, 5]], [[98.5, 0.4]]), 1)).toMatchObject([{ size: 0.4 }]);
+  });
+
+  it("should reject a post-only order that would cross when it arrives", () => {
+    const model = new QueueFillModel(10);
+    const id = model.place(bid(100, 1), 0);
+
+    expect(model.advance(10, book([[99, 1]], [[100, 1]]))).toEqual([
+      { type: "rejected", orderId: id, reason: "post-only would cross" },
+    ]);
+  });
+
+  it("should keep filling a canceled order until the cancel arrives", () => {
+    const model = new QueueFillModel(10);
+    model.place(bid(99, 1), 0);
+    model.advance(10, book([[98, 1]], [[101, 1]]));
+
+    model.cancel("1", 20);
+    expect(model.onTrade("sell", 98, 0.3, 25)).toMatchObject([{ size: 0.3 }]);
+    model.advance(30, null);
+    expect(model.getOpenOrders(30)).toEqual([]);
+  });
+});
+
+describe("Backtester", () => {
+  const config: BacktestConfig = {
+    symbol: "BTC",
+    market: { tickSize: 0.1, sizePrecision: 2, minSize: 0.01 },
+    overrides: {
+      spreadBps: 10,
+      orderSizeUsd: 100.5,
+      warmupSeconds: 1,
+      updateThrottleMs: 100,
+      maxPriceAgeMs: 0,
+    },
+    latencyMs: 20,
+    makerFeeBps: 1,
+  };
+
+  // A flat 100 market with one sell hitting our bid and one buy lifting our ask
+  function* scenario(): Generator<MarketDataEvent> {
+    const start = Date.UTC(2025, 0, 1);
+    for (let t = 0; t <= 10_000; t += 100) {
+      yield { type: "book", ts: start + t, bids: [[99.95, 5]], asks: [[100.05, 5]] };
+      yield { type: "price", ts: start + t, price: 100 };
+      if (t === 5_000) yield { type: "trade", ts: start + t, side: "sell", price: 99.9, size: 10 };
+      if (t === 8_000) yield { type: "trade", ts: start + t, side: "buy", price: 100.1, size: 10 };
+    }
+  }
+
+  it("should quote around fair price and round trip on fills", async () => {
+    const result = await new Backtester(config).run(scenario());
+
+    expect(result.events).toBe(204);
+    expect(result.fills).toMatchObject({ total: 2, buys: 1, sells: 1 });
+    expect(result.finalPosition).toBe(0);
+    // Bought 1.01 at 99.9 and sold it at 100.1, less 1 bps fees on both sides
+    expect(result.pnl.feesUsd).toBeCloseTo((1.01 * 99.9 + 1.01 * 100.1) / 10000);
+    expect(result.pnl.realizedUsd).toBeCloseTo(1.01 * 0.2 - result.pnl.feesUsd);
+    expect(result.pnl.totalUsd).toBeCloseTo(result.pnl.realizedUsd);
+    expect(result.maxPositionUsd).toBeCloseTo(1.01 * 100);
+  });
+
+  it("should be deterministic", async () => {
+    const first = await new Backtester(config).run(scenario());
+    const second = await new Backtester(config).run(scenario());
+
+    expect(second).toEqual(first);
+  });
+
+  it("should reject an invalid strategy config", () => {
+    expect(() => new Backtester({ ...config, overrides: { spreadBps: 0 } })).toThrow(
+      "spreadBps must be positive"
+    );
+  });
+});
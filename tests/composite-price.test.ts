@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  CompositePriceFeed,
+  aggregatePrices,
+  parseCompositeSources,
+} from "../src/pricing/composite.js";
+
+describe("parseCompositeSources", () => {
+  it("should parse sources with weights and optional staleness", () => {
+    expect(parseCompositeSources("binance:0.5, venue:0.2:5000,hyperps")).toEqual([
+      { source: "binance", weight: 0.5 },
+      { source: "venue", weight: 0.2, staleMs: 5000 },
+      { source: "hyperps", weight: 1 },
+    ]);
+  });
+
+  it("should reject unknown sources", () => {
+    expect(() => parseCompositeSources("coinbase:1")).toThrow("Unknown price source");
+  });
+});
+
+describe("aggregatePrices", () => {
+  const prices = [
+    { price: 100, weight: 1 },
+    { price: 101, weight: 1 },
+    { price: 150, weight: 2 },
+  ];
+
+  it("should compute the weighted mean", () => {
+    expect(aggregatePrices(prices, "weighted")).toBeCloseTo(125.25);
+  });
+
+  it("should ignore an outlier with the trimmed mean", () => {
+    expect(aggregatePrices(prices, "trimmed")).toBe(101);
+  });
+
+  it("should compute the weighted median", () => {
+    expect(aggregatePrices(prices.slice(0, 2), "median")).toBe(100.5);
+    expect(aggregatePrices(prices, "median")).toBe(125.5);
+    expect(aggregatePrices([...prices, { price: 99, weight: 1 }], "median")).toBe(101);
+  });
+
+  it("should return null without prices", () => {
+    expect(aggregatePrices([], "weighted")).toBeNull();
+  });
+});
+
+describe("CompositePriceFeed", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should drop a source once it goes stale", async () => {
+    const updates: number[] = [];
+    const feed = new CompositePriceFeed(
+      "BTC",
+      [{ source: "venue", weight: 1, staleMs: 1000 }],
+      "weighted",
+      (price) => updates.push(price)
+    );
+    await feed.connect();
+
+    feed.updateVenuePrice(100, Date.now());
+    expect(updates).toEqual([100]);
+    expect(feed.getLiveSources()).toEqual(["venue"]);
+
+    vi.advanceTimersByTime(1500);
+    expect(feed.getLiveSources()).toEqual([]);
+    expect(feed.getSourceStatus()[0]).toMatchObject({ price: 100, ageMs: 1500, live: false });
+  });
+});
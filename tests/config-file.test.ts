@@ -0,0 +1,197 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  type ConfigFile,
+  applyCredentials,
+  loadConfigFile,
+  parseConfigFile,
+  resolveConfig,
+} from "../src/bots/mm/config-file.js";
+import { ConfigError } from "../src/bots/mm/config-schema.js";
+import { loadConfigFromEnv } from "../src/bots/mm/config.js";
+
+function configError(fn: () => unknown): ConfigError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigError);
+    return error as ConfigError;
+  }
+  throw new Error("expected a ConfigError");
+}
+
+describe("loadConfigFromEnv", () => {
+  it("should parse typed values", () => {
+    expect(
+      loadConfigFromEnv({
+        SPREAD_BPS: "7.5",
+        FLATTEN_ON_HALT: "true",
+        PRICE_SOURCE: "Composite",
+        QUOTE_LEVELS: "10:1,20:2",
+      })
+    ).toEqual({
+      spreadBps: 7.5,
+      flattenOnHalt: true,
+      priceSource: "composite",
+      quoteLevels: [
+        { spreadBps: 10, sizeMultiplier: 1 },
+        { spreadBps: 20, sizeMultiplier: 2 },
+      ],
+    });
+  });
+
+  it("should reject malformed values instead of yielding NaN", () => {
+    const error = configError(() =>
+      loadConfigFromEnv({ SPREAD_BPS: "ten", UPDATE_THROTTLE_MS: "1.5", FLATTEN_ON_HALT: "yes" })
+    );
+
+    expect(error.issues).toEqual([
+      'SPREAD_BPS: expected a number, got "ten"',
+      'UPDATE_THROTTLE_MS: expected an integer, got "1.5"',
+      'FLATTEN_ON_HALT: expected true or false, got "yes"',
+    ]);
+  });
+});
+
+describe("parseConfigFile", () => {
+  it("should report every problem with its path", () => {
+    const error = configError(() =>
+      parseConfigFile(
+        {
+          spread_bps: 10,
+          orderSizeUsd: "50",
+          profiles: { tight: { exchange: "paper", quoteLevels: [{ spreadBps: 5 }] } },
+          symbols: { BTC: { profile: "wide" } },
+        },
+        "mm.yaml"
+      )
+    );
+
+    expect(error.issues).toEqual([
+      "spread_bps: unknown field (did you mean spreadBps?)",
+      'orderSizeUsd: expected a number, got "50"',
+      "profiles.tight.quoteLevels[0].sizeMultiplier: missing",
+      "profiles.tight.exchange: can only be set at the top level",
+      'symbols.BTC.profile: profile "wide" is not defined under profiles',
+    ]);
+    expect(error.message).toContain("Invalid config (mm.yaml):\n  spread_bps");
+  });
+
+  it("should only accept secrets as references", () => {
+    const error = configError(() =>
+      parseConfigFile({ credentials: { hyperliquid: { privateKey: "0xabc" } } }, "mm.yaml")
+    );
+
+    expect(error.issues).toEqual([
+      "credentials.hyperliquid.privateKey: must reference the secret as { env: NAME } or { file: PATH }",
+    ]);
+  });
+});
+
+describe("resolveConfig", () => {
+  const file: ConfigFile = parseConfigFile(
+    {
+      exchange: "paper",
+      orderSizeUsd: 50,
+      profile: "wide",
+      profiles: { tight: { spreadBps: 5, orderSizeUsd: 20 }, wide: { spreadBps: 25 } },
+      symbols: { BTC: { profile: "tight", maxPositionUsd: 5000 }, SOL: null },
+    },
+    "mm.yaml"
+  );
+
+  it("should layer defaults, environment, file, profile, symbol section and flags", () => {
+    const { config, origins } = resolveConfig("BTC", {
+      env: { warmupSeconds: 5, orderSizeUsd: 10 },
+      file,
+      cli: { orderSizeUsd: 30 },
+    });
+
+    expect(config).toMatchObject({
+      exchange: "paper",
+      symbol: "BTC",
+      spreadBps: 5,
+      orderSizeUsd: 30,
+      maxPositionUsd: 5000,
+      warmupSeconds: 5,
+    });
+    expect(origins.exchange).toEqual({ source: "file", detail: "mm.yaml" });
+    expect(origins.spreadBps).toEqual({ source: "file", detail: "mm.yaml profiles.tight" });
+    expect(origins.maxPositionUsd).toEqual({ source: "file", detail: "mm.yaml symbols.BTC" });
+    expect(origins.warmupSeconds).toEqual({ source: "env", detail: "WARMUP_SECONDS" });
+    expect(origins.orderSizeUsd).toEqual({ source: "cli", detail: undefined });
+    expect(origins.takeProfitBps).toEqual({ source: "default", detail: undefined });
+  });
+
+  it("should use the file's profile for symbols without one, under --profile", () => {
+    expect(resolveConfig("SOL", { env: {}, file }).config.spreadBps).toBe(25);
+    expect(resolveConfig("BTC", { env: {}, file, profile: "wide" }).config.spreadBps).toBe(25);
+  });
+
+  it("should reject unknown profiles and name the origin of invalid values", () => {
+    expect(configError(() => resolveConfig("BTC", { env: {}, file, profile: "x" })).issues).toEqual(
+      ['profile "x" is not defined (defined: tight, wide)']
+    );
+    expect(
+      configError(() =>
+        resolveConfig("BTC", { env: { spreadBps: 1 }, file, cli: { spreadBps: 0 } })
+      ).issues
+    ).toEqual(["spreadBps must be positive (set by cli)"]);
+  });
+});
+
+describe("config files on disk", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "mm-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should load the example file", () => {
+    const file = loadConfigFile("mm.example.yaml");
+
+    expect(Object.keys(file.symbols)).toEqual(["BTC", "ETH", "SOL"]);
+    for (const symbol of Object.keys(file.symbols)) {
+      expect(() => resolveConfig(symbol, { env: {}, file })).not.toThrow();
+    }
+  });
+
+  it("should resolve credential references into the adapters' variables", () => {
+    writeFileSync(join(dir, "sui.key"), "suiprivkey1abc\n");
+    writeFileSync(
+      join(dir, "mm.json"),
+      JSON.stringify({
+        credentials: {
+          hyperliquid: { privateKey: { env: "MY_HL_KEY" }, testnet: true },
+          aftermath: { privateKey: { file: "sui.key" } },
+        },
+      })
+    );
+    const env: NodeJS.ProcessEnv = { MY_HL_KEY: "0xabc" };
+
+    applyCredentials(loadConfigFile(join(dir, "mm.json")), env);
+
+    expect(env).toMatchObject({
+      HL_PRIVATE_KEY: "0xabc",
+      HL_TESTNET: "true",
+      SUI_PRIVATE_KEY: "suiprivkey1abc",
+    });
+  });
+
+  it("should report missing secrets", () => {
+    writeFileSync(
+      join(dir, "mm.yaml"),
+      "credentials:\n  hyperliquid:\n    privateKey: { env: MISSING_KEY }\n"
+    );
+
+    expect(
+      configError(() => applyCredentials(loadConfigFile(join(dir, "mm.yaml")), {})).issues
+    ).toEqual(["credentials.hyperliquid.privateKey: environment variable MISSING_KEY is not set"]);
+  });
+});
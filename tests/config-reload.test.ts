@@ -0,0 +1,167 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ConfigError } from "../src/bots/mm/config-schema.js";
+import { type MarketMakerConfig, diffConfig } from "../src/bots/mm/config.js";
+import { MarketMaker } from "../src/bots/mm/index.js";
+import { ConfigReloader, applyConfigReload } from "../src/bots/mm/reload.js";
+import type { IExchange } from "../src/exchanges/types.js";
+import { logger } from "../src/utils/logger.js";
+
+/**
+ * The engines are never started, so the exchange is never called
+ */
+const unusedExchange = {} as IExchange;
+
+function createEngine(symbol: string): MarketMaker {
+  return new MarketMaker(
+    "paper",
+    symbol,
+    { priceSource: "composite", priceSources: [{ source: "venue", weight: 1 }], spreadBps: 10 },
+    { exchange: unusedExchange }
+  );
+}
+
+describe("applyConfigReload", () => {
+  let engines: Map<string, MarketMaker>;
+
+  beforeEach(() => {
+    engines = new Map([
+      ["BTC", createEngine("BTC")],
+      ["ETH", createEngine("ETH")],
+    ]);
+  });
+
+  function reloaded(changes: Record<string, Partial<MarketMakerConfig>>) {
+    const configs: Record<string, MarketMakerConfig> = {};
+    for (const [symbol, engine] of engines) {
+      configs[symbol] = { ...engine.getConfig(), ...changes[symbol] };
+    }
+    return configs;
+  }
+
+  it("should apply live-tunable changes in place", () => {
+    const applied = applyConfigReload(
+      engines,
+      reloaded({ BTC: { spreadBps: 15, orderSizeUsd: 50 } }),
+      "mm.yaml"
+    );
+
+    expect(applied).toEqual({
+      BTC: [
+        { field: "spreadBps", from: 10, to: 15 },
+        { field: "orderSizeUsd", from: 100, to: 50 },
+      ],
+      ETH: [],
+    });
+    expect(engines.get("BTC")?.getConfig()).toMatchObject({ spreadBps: 15, orderSizeUsd: 50 });
+    expect(engines.get("ETH")?.getConfig().spreadBps).toBe(10);
+  });
+
+  it("should reject changes to fixed fields with the diff, changing nothing", () => {
+    const error = (() => {
+      try {
+        applyConfigReload(
+          engines,
+          reloaded({ BTC: { spreadBps: 15 }, ETH: { exchange: "hyperliquid", warmupSeconds: 1 } }),
+          "mm.yaml"
+        );
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as ConfigError).issues).toEqual([
+      'ETH: cannot change while running: warmupSeconds 10 -> 1, exchange "paper" -> "hyperliquid"',
+    ]);
+    expect(engines.get("BTC")?.getConfig().spreadBps).toBe(10);
+  });
+
+  it("should reject invalid values and symbol changes", () => {
+    expect(() => applyConfigReload(engines, reloaded({ ETH: { spreadBps: 0 } }), "SIGHUP")).toThrow(
+      "ETH: spreadBps must be positive"
+    );
+
+    const { BTC } = reloaded({});
+    expect(() => applyConfigReload(engines, { BTC }, "SIGHUP")).toThrow(
+      "symbols cannot change while running (running: BTC,ETH; reloaded: BTC)"
+    );
+  });
+});
+
+describe("diffConfig", () => {
+  it("should report fields removed from the new config", () => {
+    const before = createEngine("BTC").getConfig();
+    const { takeProfitBps, ...after } = before;
+
+    expect(diffConfig(before, after as MarketMakerConfig)).toEqual([
+      { field: "takeProfitBps", from: takeProfitBps, to: undefined },
+    ]);
+  });
+});
+
+describe("ConfigReloader", () => {
+  let dir: string;
+  let reloader: ConfigReloader;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "mm-reload-"));
+  });
+
+  afterEach(() => {
+    reloader.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should apply edits of the watched file and keep the config after a bad edit", async () => {
+    const path = join(dir, "mm.json");
+    writeFileSync(path, JSON.stringify({ spreadBps: 10 }));
+    const mm = createEngine("BTC");
+    reloader = new ConfigReloader(
+      mm,
+      () => ({ BTC: { ...mm.getConfig(), ...JSON.parse(readFileSync(path, "utf8")) } }),
+      { path, debounceMs: 10 }
+    );
+    reloader.start();
+
+    writeFileSync(path, JSON.stringify({ spreadBps: 20 }));
+    await vi.waitFor(() => expect(mm.getConfig().spreadBps).toBe(20));
+
+    expect(reloader.reload("test")).toEqual({ BTC: [] });
+    writeFileSync(path, JSON.stringify({ spreadBps: 30, symbol: "ETH" }));
+    expect(reloader.reload("test")).toBeNull();
+    expect(mm.getConfig()).toMatchObject({ symbol: "BTC", spreadBps: 20 });
+  });
+
+  it("should reload on SIGHUP", () => {
+    const mm = createEngine("BTC");
+    reloader = new ConfigReloader(mm, () => ({ BTC: { ...mm.getConfig(), spreadBps: 12 } }));
+    reloader.start();
+
+    process.emit("SIGHUP", "SIGHUP");
+
+    expect(mm.getConfig().spreadBps).toBe(12);
+  });
+
+  it("should warn when a reload replaces values changed since the last load", () => {
+    const warn = vi.spyOn(logger, "warn");
+    const mm = createEngine("BTC");
+    let file: Partial<MarketMakerConfig> = {};
+    const loaded = mm.getConfig();
+    reloader = new ConfigReloader(mm, () => ({ BTC: { ...loaded, ...file } }));
+
+    mm.updateConfig({ spreadBps: 15, orderSizeUsd: 50 });
+    file = { orderSizeUsd: 50 };
+    reloader.reload("SIGHUP");
+
+    expect(mm.getConfig()).toMatchObject({ spreadBps: 10, orderSizeUsd: 50 });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain("BTC: spreadBps 15 -> 10");
+
+    reloader.reload("SIGHUP");
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TimeDecayedEma } from "../src/pricing/ema.js";
+import { FairPriceCalculator } from "../src/pricing/fair-price.js";
+
+describe("TimeDecayedEma", () => {
+  it("should initialize with the first price", () => {
+    const ema = new TimeDecayedEma(1000);
+
+    expect(ema.getValue()).toBeNull();
+    expect(ema.update(100, 0)).toBe(100);
+  });
+
+  it("should decay by elapsed time rather than by update count", () => {
+    // One update after a full window vs. many small updates spanning the same window
+    const sparse = new TimeDecayedEma(1000);
+    sparse.update(100, 0);
+    sparse.update(200, 1000);
+
+    const dense = new TimeDecayedEma(1000);
+    dense.update(100, 0);
+    for (let t = 10; t <= 1000; t += 10) {
+      dense.update(200, t);
+    }
+
+    const expected = 100 + 100 * (1 - Math.exp(-1));
+    expect(sparse.getValue()).toBeCloseTo(expected);
+    expect(dense.getValue()).toBeCloseTo(expected);
+  });
+
+  it("should handle irregular update intervals", () => {
+    const ema = new TimeDecayedEma(1000);
+    ema.update(100, 0);
+    ema.update(110, 50);
+    ema.update(90, 2050);
+    ema.update(120, 2100);
+
+    let expected = 100;
+    expected += (1 - Math.exp(-50 / 1000)) * (110 - expected);
+    expected += (1 - Math.exp(-2000 / 1000)) * (90 - expected);
+    expected += (1 - Math.exp(-50 / 1000)) * (120 - expected);
+    expect(ema.getValue()).toBeCloseTo(expected, 10);
+  });
+
+  it("should ignore updates with the same or an older timestamp", () => {
+    const ema = new TimeDecayedEma(1000);
+    ema.update(100, 1000);
+    ema.update(500, 1000);
+    ema.update(500, 900);
+
+    expect(ema.getValue()).toBe(100);
+  });
+
+  it("should reject a non-positive window", () => {
+    expect(() => new TimeDecayedEma(0)).toThrow("window");
+  });
+});
+
+describe("FairPriceCalculator", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should apply the window in wall-clock time", async () => {
+    const calculator = new FairPriceCalculator("BTC", {
+      priceSource: "composite",
+      sources: [{ source: "venue", weight: 1 }],
+      windowMs: 60_000,
+      warmupMs: 1,
+      minPrices: 1,
+    });
+    await calculator.connect();
+
+    calculator.updateVenuePrice(100, Date.now());
+    vi.advanceTimersByTime(60_000);
+    calculator.updateVenuePrice(200, Date.now());
+
+    expect(calculator.getFairPrice()).toBeCloseTo(100 + 100 * (1 - Math.exp(-1)));
+    calculator.disconnect();
+  });
+
+  it("should report staleness by price age and connection", async () => {
+    const calculator = new FairPriceCalculator("BTC", {
+      priceSource: "composite",
+      sources: [{ source: "venue", weight: 1, staleMs: 60_000 }],
+    });
+
+    expect(calculator.isStale(5000)).toBe(true); // not connected
+    await calculator.connect();
+    expect(calculator.isStale(5000)).toBe(true); // no price yet
+
+    calculator.updateVenuePrice(100, Date.now());
+    expect(calculator.isStale(5000)).toBe(false);
+
+    vi.advanceTimersByTime(6000);
+    expect(calculator.getPriceAgeMs()).toBe(6000);
+    expect(calculator.isStale(5000)).toBe(true);
+
+    calculator.updateVenuePrice(101, Date.now());
+    expect(calculator.isStale(5000)).toBe(false);
+    calculator.disconnect();
+  });
+});
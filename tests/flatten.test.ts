@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { type FlattenOptions, flattenPosition } from "../src/bots/mm/flatten.js";
+import type { IExchange } from "../src/exchanges/types.js";
+import type { Market, OrderRequest, OrderResult, Orderbook, Position } from "../src/types.js";
+import { VirtualClock } from "../src/utils/clock.js";
+
+const market: Market = {
+  id: "BTC",
+  symbol: "BTC/USD:USD",
+  base: "BTC",
+  quote: "USD",
+  pricePrecision: 1,
+  sizePrecision: 4,
+  minSize: 0.0001,
+  tickSize: 0.1,
+};
+
+const book: Orderbook = {
+  symbol: "BTC",
+  bids: [[99.9, 1]],
+  asks: [[100.1, 1]],
+  timestamp: 0,
+};
+
+/**
+ * Exchange stub holding one position, filled by the test's fill rule
+ */
+class StubExchange implements Partial<IExchange> {
+  size = 0;
+  placed: OrderRequest[] = [];
+  canceled: string[] = [];
+  /** Amount of a limit order that fills when it is placed (market orders fill in full) */
+  fill: (order: OrderRequest) => number = () => 0;
+  private nextOrderId = 1;
+
+  async getMarkets(): Promise<Market[]> {
+    return [market];
+  }
+
+  async getPositions(): Promise<Position[]> {
+    if (this.size === 0) {
+      return [];
+    }
+    return [
+      {
+        symbol: market.symbol,
+        side: this.size > 0 ? "long" : "short",
+        size: Math.abs(this.size),
+        entryPrice: 100,
+        unrealizedPnl: 0,
+      },
+    ];
+  }
+
+  async placeOrder(order: OrderRequest): Promise<OrderResult> {
+    this.placed.push(order);
+    const filled = order.type === "market" ? order.size : this.fill(order);
+    this.size -= Math.sign(this.size) * filled;
+    return {
+      orderId: String(this.nextOrderId++),
+      status: filled >= order.size ? "closed" : "open",
+      timestamp: 0,
+    };
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    this.canceled.push(orderId);
+  }
+}
+
+describe("flattenPosition", () => {
+  let clock: VirtualClock;
+  let exchange: StubExchange;
+
+  beforeEach(() => {
+    clock = new VirtualClock(0);
+    exchange = new StubExchange();
+  });
+
+  async function flatten(options: Partial<FlattenOptions> = {}, runMs = 60_000) {
+    const run = flattenPosition(exchange as unknown as IExchange, {
+      symbol: "BTC",
+      stepBps: 10,
+      stepIntervalMs: 2_000,
+      maxSlippageBps: 30,
+      timeoutMs: 10_000,
+      getOrderbook: () => book,
+      scheduler: clock,
+      ...options,
+    });
+    // Let it read the position and place its first order before time moves
+    await clock.advanceAsync(0);
+    await clock.advanceAsync(runMs);
+    return run;
+  }
+
+  it("should do nothing without a position", async () => {
+    const result = await flatten();
+
+    expect(result).toEqual({ startSize: 0, remainingSize: 0, steps: 0, usedFallback: false });
+    expect(exchange.placed).toEqual([]);
+  });
+
+  it("should step through the touch up to the slippage limit, then send a market order", async () => {
+    exchange.size = 1;
+
+    const result = await flatten();
+
+    expect(exchange.placed.map((o) => [o.type, o.side, o.price, o.reduceOnly])).toEqual([
+      ["limit", "sell", 100.1, true],
+      ["limit", "sell", 100, true],
+      ["limit", "sell", 99.9, true],
+      ["limit", "sell", 99.8, true],
+      ["limit", "sell", 99.7, true],
+      ["market", "sell", 98, true],
+    ]);
+    expect(exchange.canceled).toEqual(["1", "2", "3", "4", "5"]);
+    expect(result).toEqual({ startSize: 1, remainingSize: 0, steps: 5, usedFallback: true });
+  });
+
+  it("should shrink orders after partial fills and stop once flat", async () => {
+    exchange.size = -1;
+    // Half of every order fills until the bid reaches the far touch
+    exchange.fill = (order) => ((order.price ?? 0) >= 100.1 ? order.size : order.size / 2);
+
+    const result = await flatten({ fallbackSlippageBps: 0 });
+
+    expect(exchange.placed.map((o) => [o.side, o.price, o.size])).toEqual([
+      ["buy", 99.9, 1],
+      ["buy", 100, 0.5],
+      ["buy", 100.1, 0.25],
+    ]);
+    expect(result).toEqual({ startSize: 1, remainingSize: 0, steps: 3, usedFallback: false });
+  });
+
+  it("should leave the rest open when the market order fallback is off", async () => {
+    exchange.size = 0.3;
+
+    const result = await flatten({ fallbackSlippageBps: 0, timeoutMs: 3_000 });
+
+    expect(exchange.placed.map((o) => o.type)).toEqual(["limit", "limit"]);
+    expect(result).toMatchObject({ remainingSize: 0.3, usedFallback: false });
+  });
+});
@@ -0,0 +1,110 @@
+import type { ISubscription, UserFillsWsEvent } from "@nktkas/hyperliquid";
+import { describe, expect, it } from "vitest";
+import { HyperliquidFillSubscription } from "../src/exchanges/hyperliquid/fills.js";
+import type { Fill } from "../src/types.js";
+import { VirtualClock } from "../src/utils/clock.js";
+
+type HyperliquidFill = UserFillsWsEvent["fills"][number];
+
+const USER = "0x0000000000000000000000000000000000000001";
+
+function fill(tid: number, time: number): HyperliquidFill {
+  return {
+    coin: "BTC",
+    px: "100000",
+    sz: "0.01",
+    side: "B",
+    time,
+    startPosition: "0",
+    dir: "Open Long",
+    closedPnl: "0",
+    hash: "0x0",
+    oid: tid,
+    crossed: false,
+    fee: "0.1",
+    tid,
+    feeToken: "USDC",
+  } as HyperliquidFill;
+}
+
+/**
+ * userFills client whose subscriptions can be failed, optionally refusing new ones
+ */
+class StubSubscriptionClient {
+  listeners: ((data: UserFillsWsEvent) => void)[] = [];
+  controllers: AbortController[] = [];
+  refuse = 0;
+
+  async userFills(
+    _params: { user: string },
+    listener: (data: UserFillsWsEvent) => void
+  ): Promise<ISubscription> {
+    if (this.refuse > 0) {
+      this.refuse--;
+      throw new Error("refused");
+    }
+    const controller = new AbortController();
+    this.listeners.push(listener);
+    this.controllers.push(controller);
+    return { failureSignal: controller.signal, unsubscribe: async () => undefined };
+  }
+
+  push(fills: HyperliquidFill[], isSnapshot = false): void {
+    this.listeners.at(-1)?.({ user: USER, fills, isSnapshot } as UserFillsWsEvent);
+  }
+
+  fail(): void {
+    this.controllers.at(-1)?.abort();
+  }
+}
+
+/**
+ * Let pending (re)subscribe promises settle
+ */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("HyperliquidFillSubscription", () => {
+  it("should resubscribe with backoff after a failure and deliver the fills missed meanwhile", async () => {
+    const client = new StubSubscriptionClient();
+    const clock = new VirtualClock();
+    const subscription = new HyperliquidFillSubscription({
+      client,
+      scheduler: clock,
+      resubscribeDelayMs: 1000,
+    });
+    const fills: Fill[] = [];
+    await subscription.subscribeFills(USER, (f) => fills.push(f));
+
+    client.push([fill(1, 1000)], true);
+    client.push([fill(2, 2000)]);
+    expect(fills.map((f) => f.id)).toEqual(["2"]);
+
+    client.refuse = 1;
+    client.fail();
+    expect(subscription.connected).toBe(false);
+
+    // The first attempt is refused, the second waits twice as long
+    clock.advance(1000);
+    await settle();
+    expect(client.listeners).toHaveLength(1);
+    clock.advance(1999);
+    await settle();
+    expect(client.listeners).toHaveLength(1);
+    clock.advance(1);
+    await settle();
+    expect(client.listeners).toHaveLength(2);
+    expect(subscription.connected).toBe(true);
+
+    // Fill 3 was made while unsubscribed; the older ones are already counted
+    client.push([fill(1, 1000), fill(2, 2000), fill(3, 3000)], true);
+    client.push([fill(4, 4000)]);
+    expect(fills.map((f) => f.id)).toEqual(["2", "3", "4"]);
+
+    await subscription.disconnect();
+    client.fail();
+    clock.advance(60_000);
+    expect(client.listeners).toHaveLength(2);
+  });
+});
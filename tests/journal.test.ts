@@ -0,0 +1,169 @@
+import { appendFileSync, mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Journal, type JournalRecord, readJournal } from "../src/journal/index.js";
+import { summarizePnl } from "../src/journal/pnl.js";
+import { VirtualClock } from "../src/utils/clock.js";
+
+const DAY = Date.UTC(2025, 0, 1);
+
+function fill(
+  side: "buy" | "sell",
+  size: number,
+  price: number,
+  overrides: Partial<JournalRecord & { type: "fill" }> = {}
+): JournalRecord {
+  return {
+    type: "fill",
+    ts: DAY,
+    runId: "run",
+    exchange: "paper",
+    symbol: "BTC",
+    fillId: `${side}-${size}-${price}-${overrides.ts ?? DAY}`,
+    orderId: "1",
+    side,
+    size,
+    price,
+    fee: 0,
+    liquidity: "maker",
+    fairPrice: null,
+    ...overrides,
+  };
+}
+
+async function collect(iterable: AsyncIterable<JournalRecord>): Promise<JournalRecord[]> {
+  const records: JournalRecord[] = [];
+  for await (const record of iterable) {
+    records.push(record);
+  }
+  return records;
+}
+
+describe("Journal", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "journal-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should write records that the reader streams back", async () => {
+    const journal = new Journal({ dir, exchange: "paper", symbol: "BTC", runId: "run-1" });
+    journal.record({ type: "order_cancelled", orderId: "7" }, 1000);
+    journal.record({ type: "orders_cancelled_all" }, 2000);
+    await journal.close();
+
+    expect(readdirSync(join(dir, "paper", "BTC"))).toHaveLength(1);
+    expect(await collect(readJournal(dir))).toEqual([
+      {
+        ts: 1000,
+        runId: "run-1",
+        exchange: "paper",
+        symbol: "BTC",
+        type: "order_cancelled",
+        orderId: "7",
+      },
+      { ts: 2000, runId: "run-1", exchange: "paper", symbol: "BTC", type: "orders_cancelled_all" },
+    ]);
+  });
+
+  it("should file each record under the UTC day of its timestamp", async () => {
+    const clock = new VirtualClock(DAY + 60_000);
+    const journal = new Journal({ dir, exchange: "paper", symbol: "BTC", clock });
+    journal.record({ type: "order_cancelled", orderId: "1" }, DAY - 1);
+    journal.record({ type: "order_cancelled", orderId: "2" });
+    await journal.close();
+
+    expect(readdirSync(join(dir, "paper", "BTC")).sort()).toEqual([
+      "2024-12-31.jsonl",
+      "2025-01-01.jsonl",
+    ]);
+    const records = await collect(readJournal(dir, { until: "2024-12-31" }));
+    expect(records.map((r) => r.ts)).toEqual([DAY - 1]);
+    expect((await collect(readJournal(dir, { since: "2025-01-01" }))).map((r) => r.ts)).toEqual([
+      DAY + 60_000,
+    ]);
+  });
+
+  it("should filter by symbol and run, and skip malformed lines", async () => {
+    for (const [symbol, runId] of [
+      ["BTC", "a"],
+      ["ETH", "a"],
+      ["BTC", "b"],
+    ]) {
+      const journal = new Journal({ dir, exchange: "paper", symbol, runId });
+      journal.record({ type: "orders_cancelled_all" });
+      await journal.close();
+    }
+    const [file] = readdirSync(join(dir, "paper", "BTC"));
+    appendFileSync(join(dir, "paper", "BTC", file), '{"ts":1,"trunc');
+
+    const records = await collect(readJournal(dir, { symbol: "BTC", runId: "a" }));
+    expect(records.map((r) => [r.symbol, r.runId])).toEqual([["BTC", "a"]]);
+  });
+
+  it("should read nothing from a missing directory", async () => {
+    expect(await collect(readJournal(join(dir, "missing")))).toEqual([]);
+  });
+});
+
+describe("summarizePnl", () => {
+  it("should compute realized PnL, fees, maker ratio and spread captured", () => {
+    const rows = summarizePnl([
+      fill("buy", 1, 99, { fairPrice: 100, fee: 0.01 }),
+      fill("sell", 1, 102, { fairPrice: 101, fee: 0.01, liquidity: "taker" }),
+    ]);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      day: "2025-01-01",
+      fills: 2,
+      volumeUsd: 201,
+      realizedPnlUsd: 3,
+    });
+    expect(rows[0].feesUsd).toBeCloseTo(0.02);
+    expect(rows[0].netPnlUsd).toBeCloseTo(2.98);
+    expect(rows[0].makerRatio).toBeCloseTo(99 / 201);
+    // 1 below fair on the buy, 1 above fair on the sell
+    expect(rows[0].avgSpreadBps).toBeCloseTo((2 / 201) * 10000);
+  });
+
+  it("should carry positions across days and split rows by day", () => {
+    const nextDay = DAY + 24 * 60 * 60 * 1000;
+    const records = [
+      fill("sell", 2, 100),
+      fill("buy", 1, 90, { ts: nextDay }),
+      fill("buy", 1, 90, { ts: nextDay }), // duplicate fill id
+    ];
+
+    const daily = summarizePnl(records, "day");
+    expect(daily.map((r) => [r.day, r.fills, r.realizedPnlUsd])).toEqual([
+      ["2025-01-01", 1, 0],
+      ["2025-01-02", 1, 10],
+    ]);
+
+    const [total] = summarizePnl(records, "total");
+    expect(total).toMatchObject({ day: "total", fills: 2, volumeUsd: 290, avgSpreadBps: null });
+  });
+
+  it("should count paper fills of different runs that reuse fill ids", () => {
+    const records = [
+      fill("buy", 1, 100, { runId: "run-1", fillId: "1" }),
+      fill("sell", 1, 101, { runId: "run-1", fillId: "2", ts: DAY + 1 }),
+      fill("buy", 1, 100, { runId: "run-2", fillId: "1", ts: DAY + 2 }),
+      fill("sell", 1, 102, { runId: "run-2", fillId: "2", ts: DAY + 3 }),
+      fill("sell", 1, 102, { runId: "run-2", fillId: "2", ts: DAY + 3 }), // replayed
+    ];
+
+    const [total] = summarizePnl(records, "total");
+    expect(total).toMatchObject({ fills: 4, realizedPnlUsd: 3 });
+
+    // Venue fill ids are unique across runs
+    const venue = records.map((r) => ({ ...r, exchange: "hyperliquid" }));
+    expect(summarizePnl(venue, "total")[0].fills).toBe(2);
+  });
+});
@@ -0,0 +1,233 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MarketMakerGroup } from "../src/bots/mm/group.js";
+import { createExchange } from "../src/exchanges/index.js";
+import { PaperAdapter } from "../src/exchanges/paper/index.js";
+import type { IExchange } from "../src/exchanges/types.js";
+import type { Account, Market, Order, OrderResult, Orderbook, Position } from "../src/types.js";
+import { VirtualClock } from "../src/utils/clock.js";
+
+// Groups that create their own exchange get a paper exchange over the test's stub
+vi.mock("../src/exchanges/index.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/exchanges/index.js")>()),
+  createExchange: vi.fn(),
+}));
+
+function market(base: string): Market {
+  return {
+    id: base,
+    symbol: `${base}/USD:USD`,
+    base,
+    quote: "USD",
+    pricePrecision: 1,
+    sizePrecision: 4,
+    minSize: 0.0001,
+    tickSize: 0.1,
+  };
+}
+
+/**
+ * Exchange stub with pushable orderbooks and a settable account
+ */
+class StubExchange implements IExchange {
+  readonly name = "stub";
+  connected = false;
+  connectCount = 0;
+  account: Account = { address: "0x0", equity: 1000, margin: 0, availableMargin: 1000 };
+  private listeners = new Map<string, (book: Orderbook) => void>();
+  private nextOrderId = 0;
+
+  async connect(): Promise<void> {
+    this.connectCount++;
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  async getMarkets(): Promise<Market[]> {
+    return [market("BTC"), market("ETH"), market("ETHFI")];
+  }
+
+  async subscribeOrderbook(symbol: string, callback: (book: Orderbook) => void): Promise<void> {
+    this.listeners.set(symbol, callback);
+  }
+
+  async unsubscribeOrderbook(symbol: string): Promise<void> {
+    this.listeners.delete(symbol);
+  }
+
+  async subscribeFills(): Promise<void> {
+    // No fills in these tests
+  }
+
+  async getAccount(): Promise<Account> {
+    return this.account;
+  }
+
+  async getPositions(): Promise<Position[]> {
+    return [];
+  }
+
+  async getOpenOrders(): Promise<Order[]> {
+    return [];
+  }
+
+  async placeOrder(): Promise<OrderResult> {
+    return { orderId: String(this.nextOrderId++), status: "open", timestamp: Date.now() };
+  }
+
+  async cancelOrder(): Promise<void> {
+    // Orders are not tracked
+  }
+
+  async cancelAllOrders(): Promise<void> {
+    // Orders are not tracked
+  }
+
+  push(symbol: string, mid: number): void {
+    this.listeners.get(symbol)?.({
+      symbol,
+      bids: [[mid - 0.5, 1]],
+      asks: [[mid + 0.5, 1]],
+      timestamp: Date.now(),
+    });
+  }
+}
+
+const OVERRIDES = {
+  priceSource: "composite" as const,
+  priceSources: [{ source: "venue" as const, weight: 1 }],
+  warmupSeconds: 1,
+};
+
+describe("MarketMakerGroup", () => {
+  let exchange: StubExchange;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    exchange = new StubExchange();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function startGroup(group: MarketMakerGroup): Promise<void> {
+    const started = group.start();
+    for (let i = 0; i < 30; i++) {
+      exchange.push("BTC", 100_000);
+      exchange.push("ETH", 3000);
+      await vi.advanceTimersByTimeAsync(100);
+    }
+    await started;
+  }
+
+  it("should reject overrides for symbols outside the list", () => {
+    expect(
+      () => new MarketMakerGroup("paper", ["BTC"], OVERRIDES, { ETH: {} }, { exchange })
+    ).toThrow("not in the symbol list");
+  });
+
+  it("should run one engine per symbol on the shared exchange", async () => {
+    await exchange.connect();
+    const group = new MarketMakerGroup(
+      "paper",
+      ["BTC", "ETH", "BTC"],
+      OVERRIDES,
+      { ETH: { spreadBps: 20 } },
+      { exchange }
+    );
+    expect(group.getSymbols()).toEqual(["BTC", "ETH"]);
+
+    await startGroup(group);
+
+    const status = group.getStatus();
+    expect(status.map((s) => [s.symbol, s.state])).toEqual([
+      ["BTC", "running"],
+      ["ETH", "running"],
+    ]);
+    expect(exchange.connectCount).toBe(1);
+
+    await group.stop();
+    expect(exchange.connected).toBe(true);
+  });
+
+  it("should pause and resume every engine from one margin check", async () => {
+    const group = new MarketMakerGroup("paper", ["BTC", "ETH"], OVERRIDES, {}, { exchange });
+    await startGroup(group);
+
+    exchange.account = { ...exchange.account, availableMargin: 50 };
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(group.getStatus().map((s) => s.state)).toEqual(["paused", "paused"]);
+
+    exchange.account = { ...exchange.account, availableMargin: 1000 };
+    await vi.advanceTimersByTimeAsync(9_900);
+    exchange.push("BTC", 100_000);
+    exchange.push("ETH", 3000);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(group.getStatus().map((s) => s.state)).toEqual(["running", "running"]);
+
+    await group.stop();
+  });
+
+  it("should apply the tightest loss limit once to the shared account", async () => {
+    const group = new MarketMakerGroup(
+      "paper",
+      ["BTC", "ETH"],
+      OVERRIDES,
+      { ETH: { maxDrawdownUsd: 100 } },
+      { exchange }
+    );
+    await startGroup(group);
+
+    exchange.account = { ...exchange.account, equity: 950 };
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(group.getStatus().map((s) => s.risk.haltReason)).toEqual([null, null]);
+
+    // One account loss halts every engine, including the one without a limit of its own
+    exchange.account = { ...exchange.account, equity: 900 };
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(group.getStatus().map((s) => [s.state, s.risk.drawdown])).toEqual([
+      ["halted", 100],
+      ["halted", 100],
+    ]);
+
+    // One engine cannot reset the limits it shares with the other
+    expect(() => group.getEngine("BTC")?.resume()).toThrow("resume the group");
+
+    group.resume();
+    expect(group.getStatus().map((s) => [s.state, s.risk.drawdown])).toEqual([
+      ["running", 0],
+      ["running", 0],
+    ]);
+    expect(() => group.resume()).toThrow("No engine is paused or halted");
+
+    await group.stop();
+  });
+
+  it("should run a paper exchange it creates on the group's clock", async () => {
+    vi.useRealTimers();
+    const clock = new VirtualClock(Date.UTC(2025, 0, 1));
+    let paper: PaperAdapter | undefined;
+    vi.mocked(createExchange).mockImplementation((_name, options) => {
+      paper = new PaperAdapter({ underlying: exchange, scheduler: options?.scheduler });
+      return paper;
+    });
+    clock.setInterval(() => exchange.push("BTC", 100_000), 100);
+
+    const group = new MarketMakerGroup("paper", ["BTC"], OVERRIDES, {}, { scheduler: clock });
+    const started = group.start();
+    await clock.advanceAsync(3_000);
+    await started;
+
+    const orders = (await paper?.getOpenOrders()) ?? [];
+    expect(orders.length).toBeGreaterThan(0);
+    for (const order of orders) {
+      expect(order.timestamp).toBeGreaterThanOrEqual(Date.UTC(2025, 0, 1));
+      expect(order.timestamp).toBeLessThanOrEqual(clock.now());
+    }
+
+    await group.stop();
+  });
+});
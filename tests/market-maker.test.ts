@@ -0,0 +1,417 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { MarketMaker, type MarketMakerConfig } from "../src/bots/mm/index.js";
+import type { IExchange } from "../src/exchanges/types.js";
+import type { PriceCallback } from "../src/pricing/index.js";
+import type {
+  Account,
+  Market,
+  Order,
+  OrderModification,
+  OrderRequest,
+  OrderResult,
+  Position,
+} from "../src/types.js";
+import { VirtualClock } from "../src/utils/clock.js";
+
+const START = Date.UTC(2025, 0, 1);
+
+const market: Market = {
+  id: "BTC",
+  symbol: "BTC/USD:USD",
+  base: "BTC",
+  quote: "USD",
+  pricePrecision: 1,
+  sizePrecision: 4,
+  minSize: 0.0001,
+  tickSize: 0.1,
+};
+
+/**
+ * Exchange stub that records order calls with the virtual time they were made at
+ */
+class StubExchange implements IExchange {
+  readonly name = "stub";
+  connected = true;
+  account: Account = { address: "0x0", equity: 1000, margin: 0, availableMargin: 1000 };
+  positions: Position[] = [];
+  placed: { ts: number; order: OrderRequest }[] = [];
+  cancelAllCount = 0;
+  bookHealthy = true;
+  /** Order update listener, for the test to push updates as a streaming exchange would */
+  onOrder?: (order: Order) => void;
+  /** Position change listener */
+  onPosition?: (position: Position) => void;
+  private nextOrderId = 1;
+
+  constructor(private clock: VirtualClock) {}
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  async getMarkets(): Promise<Market[]> {
+    return [market];
+  }
+
+  async subscribeOrderbook(): Promise<void> {
+    // No book, so quotes follow the fair price alone
+  }
+
+  async unsubscribeOrderbook(): Promise<void> {
+    // Nothing to stop
+  }
+
+  isBookHealthy(): boolean {
+    return this.bookHealthy;
+  }
+
+  async subscribeFills(): Promise<void> {
+    // No fills in these tests
+  }
+
+  async subscribeOrders(callback: (order: Order) => void): Promise<void> {
+    this.onOrder = callback;
+  }
+
+  async subscribePositions(callback: (position: Position) => void): Promise<void> {
+    this.onPosition = callback;
+  }
+
+  async getAccount(): Promise<Account> {
+    return this.account;
+  }
+
+  async getPositions(): Promise<Position[]> {
+    return this.positions;
+  }
+
+  async getOpenOrders(): Promise<Order[]> {
+    return [];
+  }
+
+  async placeOrder(order: OrderRequest): Promise<OrderResult> {
+    this.placed.push({ ts: this.clock.now() - START, order });
+    if (order.reduceOnly) {
+      // Closing orders fill at once
+      this.positions = [];
+      return { orderId: String(this.nextOrderId++), status: "closed", timestamp: this.clock.now() };
+    }
+    return { orderId: String(this.nextOrderId++), status: "open", timestamp: this.clock.now() };
+  }
+
+  async cancelOrder(): Promise<void> {
+    // Orders are not tracked
+  }
+
+  async cancelAllOrders(): Promise<void> {
+    this.cancelAllCount++;
+  }
+}
+
+/**
+ * Price feed the test pushes prices into
+ */
+class StubPriceFeed {
+  /** Make connection checks throw, as an unexpected error in the main loop */
+  fail = false;
+  private isConnected = false;
+  private lastPrice: number | null = null;
+  private lastTimestamp: number | null = null;
+
+  constructor(
+    private clock: VirtualClock,
+    private callback: PriceCallback
+  ) {}
+
+  async connect(): Promise<void> {
+    this.isConnected = true;
+  }
+
+  disconnect(): void {
+    this.isConnected = false;
+  }
+
+  push(price: number): void {
+    this.lastPrice = price;
+    this.lastTimestamp = this.clock.now();
+    this.callback(price, this.clock.now());
+  }
+
+  getLastPrice(): number | null {
+    return this.lastPrice;
+  }
+
+  getLastTimestamp(): number | null {
+    return this.lastTimestamp;
+  }
+
+  get connected(): boolean {
+    if (this.fail) throw new Error("feed check failed");
+    return this.isConnected;
+  }
+}
+
+describe("MarketMaker timing", () => {
+  let clock: VirtualClock;
+  let exchange: StubExchange;
+  let feed: StubPriceFeed;
+  let mm: MarketMaker;
+  let price: number;
+
+  /**
+   * Create a market maker on a virtual clock with a price pushed every 100ms
+   */
+  function create(overrides: Partial<MarketMakerConfig>, monitorMargin = false): void {
+    clock = new VirtualClock(START);
+    exchange = new StubExchange(clock);
+    price = 100;
+    mm = new MarketMaker(
+      "paper",
+      "BTC",
+      { warmupSeconds: 2, updateThrottleMs: 500, maxPriceAgeMs: 0, ...overrides },
+      {
+        exchange,
+        monitorMargin,
+        scheduler: clock,
+        priceFeed: (onPrice) => {
+          feed = new StubPriceFeed(clock, onPrice);
+          return feed;
+        },
+      }
+    );
+    clock.setInterval(() => feed.push(price), 100);
+  }
+
+  /**
+   * Create a market maker and run it through its 2 second warmup
+   */
+  async function start(overrides: Partial<MarketMakerConfig>, monitorMargin = false) {
+    create(overrides, monitorMargin);
+    const started = mm.start();
+    await clock.advanceAsync(3_000);
+    await started;
+  }
+
+  afterEach(async () => {
+    feed.fail = false;
+    await mm.stop();
+  });
+
+  it("should not quote until warmup has passed", async () => {
+    create({ warmupSeconds: 5 });
+    const started = mm.start();
+    await clock.advanceAsync(4_900);
+
+    expect(mm.getStatus().state).toBe("warming_up");
+    expect(exchange.placed).toEqual([]);
+
+    await clock.advanceAsync(1_000);
+    await started;
+    expect(mm.getStatus().state).toBe("running");
+    expect(exchange.placed.map((p) => p.order.side)).toEqual(["buy", "sell"]);
+  });
+
+  it("should requote at most once per throttle period", async () => {
+    await start({ updateThrottleMs: 1_000, fairPriceWindowMs: 1_000 });
+
+    // Move the price every tick, far enough to make every loop requote
+    clock.setInterval(() => {
+      price += 1;
+    }, 100);
+    exchange.placed = [];
+    await clock.advanceAsync(5_000);
+
+    const times = [...new Set(exchange.placed.map((p) => p.ts))];
+    expect(times.length).toBeGreaterThan(1);
+    for (const [index, ts] of times.entries()) {
+      if (index > 0) {
+        expect(ts - times[index - 1]).toBeGreaterThanOrEqual(1_000);
+      }
+    }
+  });
+
+  it("should amend orders that drift a few ticks from the quote", async () => {
+    await start({ fairPriceWindowMs: 1_000 });
+    const modified: OrderModification[] = [];
+    exchange.modifyOrders = async (modifications) => {
+      modified.push(...modifications);
+      return modifications.map((_, index) => ({
+        orderId: `amended-${index}`,
+        status: "open",
+        timestamp: clock.now(),
+      }));
+    };
+    exchange.placed = [];
+
+    // 30bps is well inside the spread-based stale threshold but several ticks away
+    price = 100.3;
+    await clock.advanceAsync(5_000);
+
+    expect(exchange.placed).toEqual([]);
+    const lastBid = modified.filter((m) => m.order.side === "buy").at(-1);
+    const lastAsk = modified.filter((m) => m.order.side === "sell").at(-1);
+    expect(lastBid?.order.price).toBeGreaterThan(100);
+    expect(lastAsk?.order.price).toBeGreaterThan(100.2);
+  });
+
+  it("should hold quotes while the exchange book is out of sync", async () => {
+    create({});
+    exchange.bookHealthy = false;
+    const started = mm.start();
+    await clock.advanceAsync(5_000);
+    await started;
+
+    expect(mm.getStatus()).toMatchObject({ state: "running", isBookHealthy: false });
+    expect(exchange.placed).toEqual([]);
+
+    exchange.bookHealthy = true;
+    await clock.advanceAsync(1_000);
+    expect(mm.getStatus().isBookHealthy).toBe(true);
+    expect(exchange.placed.map((p) => p.order.side)).toEqual(["buy", "sell"]);
+  });
+
+  it("should requote a canceled order and track pushed positions", async () => {
+    await start({});
+    const [bid] = exchange.placed;
+    exchange.placed = [];
+
+    exchange.onOrder?.({
+      id: "1",
+      symbol: market.symbol,
+      type: "limit",
+      side: "buy",
+      price: bid.order.price,
+      size: bid.order.size,
+      filled: 0,
+      remaining: bid.order.size,
+      status: "canceled",
+      timestamp: clock.now(),
+    });
+    await clock.advanceAsync(1_000);
+    expect(exchange.placed.map((p) => p.order.side)).toEqual(["buy"]);
+
+    exchange.onPosition?.({
+      symbol: market.symbol,
+      side: "long",
+      size: 0.5,
+      entryPrice: 100,
+      markPrice: 100,
+      unrealizedPnl: 0,
+      leverage: 1,
+      margin: 50,
+    });
+    expect(mm.getStatus().position).toMatchObject({ side: "long", size: 0.5 });
+  });
+
+  it("should pause below minimum margin and resume only with a 20% buffer", async () => {
+    await start({ minMarginRatio: 0.1 }, true);
+    expect(mm.getStatus().state).toBe("running");
+
+    exchange.account = { ...exchange.account, availableMargin: 50 };
+    await clock.advanceAsync(10_000);
+    expect(mm.getStatus().state).toBe("paused");
+    const cancels = exchange.cancelAllCount;
+
+    // Above the minimum, but inside the buffer
+    exchange.account = { ...exchange.account, availableMargin: 110 };
+    await clock.advanceAsync(10_000);
+    expect(mm.getStatus().state).toBe("paused");
+
+    exchange.account = { ...exchange.account, availableMargin: 130 };
+    await clock.advanceAsync(10_000);
+    expect(mm.getStatus().state).toBe("running");
+    expect(exchange.cancelAllCount).toBe(cancels);
+  });
+
+  it("should halt on a drawdown until resumed, then count from the current PnL", async () => {
+    await start({ maxDrawdownUsd: 50 }, true);
+
+    exchange.account = { ...exchange.account, equity: 1_030 };
+    await clock.advanceAsync(10_000);
+    exchange.account = { ...exchange.account, equity: 985 };
+    await clock.advanceAsync(10_000);
+    expect(mm.getStatus().state).toBe("running");
+
+    exchange.account = { ...exchange.account, equity: 975 };
+    await clock.advanceAsync(10_000);
+    expect(mm.getStatus()).toMatchObject({
+      state: "halted",
+      risk: { runPnl: -25, peakPnl: 30, drawdown: 55, haltReason: "drawdown" },
+    });
+    const cancels = exchange.cancelAllCount;
+    expect(cancels).toBeGreaterThan(0);
+
+    // Latched: margin recovery and time do not lift it
+    exchange.placed = [];
+    await clock.advanceAsync(30_000);
+    expect(mm.getStatus().state).toBe("halted");
+    expect(() => mm.resume()).not.toThrow();
+    expect(mm.getStatus()).toMatchObject({
+      state: "running",
+      risk: { drawdown: 0, haltReason: null },
+    });
+    expect(exchange.placed).toEqual([]);
+
+    await clock.advanceAsync(10_000);
+    expect(mm.getStatus().state).toBe("running");
+    expect(exchange.placed.length).toBeGreaterThan(0);
+  });
+
+  it("should halt on the daily loss and flatten when configured", async () => {
+    await start({ maxDailyLossUsd: 20, flattenOnHalt: true }, true);
+    exchange.positions = [
+      { symbol: market.symbol, side: "long", size: 0.5, entryPrice: 100, unrealizedPnl: 0 },
+    ];
+
+    exchange.account = { ...exchange.account, equity: 975 };
+    exchange.placed = [];
+    await clock.advanceAsync(10_000);
+
+    expect(mm.getStatus()).toMatchObject({
+      state: "halted",
+      risk: { dailyPnl: -25, haltReason: "daily_loss" },
+    });
+    expect(exchange.placed.map((p) => p.order)).toMatchObject([
+      { side: "sell", size: 0.5, reduceOnly: true },
+    ]);
+  });
+
+  it("should flatten on stop when asked", async () => {
+    await start({});
+    exchange.positions = [
+      { symbol: market.symbol, side: "short", size: 0.2, entryPrice: 100, unrealizedPnl: 0 },
+    ];
+    exchange.placed = [];
+
+    await mm.stop({ flatten: true });
+    expect(exchange.placed.map((p) => p.order)).toMatchObject([
+      { side: "buy", size: 0.2, reduceOnly: true },
+    ]);
+    expect(mm.getStatus().position.side).toBe("none");
+  });
+
+  it("should pause after ten loop errors until resumed", async () => {
+    await start({ updateThrottleMs: 100, maxPriceAgeMs: 60_000 });
+
+    feed.fail = true;
+    await clock.advanceAsync(900);
+    feed.fail = false;
+    expect(mm.getStatus().state).toBe("running");
+
+    feed.fail = true;
+    await clock.advanceAsync(100);
+    feed.fail = false;
+    expect(mm.getStatus().state).toBe("paused");
+
+    // Resuming clears the error count
+    mm.resume();
+    feed.fail = true;
+    await clock.advanceAsync(900);
+    feed.fail = false;
+    expect(mm.getStatus().state).toBe("running");
+  });
+});
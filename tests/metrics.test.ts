@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { MetricsRegistry, metrics, observeRequest } from "../src/utils/metrics.js";
+
+describe("MetricsRegistry", () => {
+  it("should render counters and gauges in the Prometheus text format", () => {
+    const registry = new MetricsRegistry();
+    registry.counter("test_requests_total", "Requests").inc({ route: "/status" }, 2);
+    registry.gauge("test_price", "Price").set({ symbol: 'B"TC' }, 100.5);
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP test_requests_total Requests",
+        "# TYPE test_requests_total counter",
+        'test_requests_total{route="/status"} 2',
+        "# HELP test_price Price",
+        "# TYPE test_price gauge",
+        'test_price{symbol="B\\"TC"} 100.5',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should render cumulative histogram buckets", () => {
+    const registry = new MetricsRegistry();
+    const histogram = registry.histogram("test_latency_seconds", "Latency", [0.1, 1]);
+    histogram.observe({}, 0.05);
+    histogram.observe({}, 0.5);
+    histogram.observe({}, 2);
+
+    expect(registry.render()).toContain(
+      [
+        'test_latency_seconds_bucket{le="0.1"} 1',
+        'test_latency_seconds_bucket{le="1"} 2',
+        'test_latency_seconds_bucket{le="+Inf"} 3',
+        "test_latency_seconds_sum 2.55",
+        "test_latency_seconds_count 3",
+      ].join("\n")
+    );
+  });
+
+  it("should run collectors before rendering until unregistered", () => {
+    const registry = new MetricsRegistry();
+    const gauge = registry.gauge("test_value", "Value");
+    let value = 1;
+    const unregister = registry.addCollector(() => gauge.set({}, value));
+
+    expect(registry.render()).toContain("test_value 1");
+    value = 2;
+    unregister();
+    expect(registry.render()).toContain("test_value 1");
+  });
+
+  it("should reject a name registered with another type", () => {
+    const registry = new MetricsRegistry();
+    registry.counter("test_metric", "Metric");
+    expect(() => registry.gauge("test_metric", "Metric")).toThrow("already registered");
+  });
+});
+
+describe("observeRequest", () => {
+  it("should count successful and failed requests", async () => {
+    const requests = metrics.counter("mm_exchange_requests_total", "");
+    const ok = { exchange: "test", operation: "place_order", status: "ok" };
+    const failed = { ...ok, status: "error" };
+
+    await observeRequest("test", "place_order", async () => "id");
+    await expect(
+      observeRequest("test", "place_order", async () => {
+        throw new Error("rejected");
+      })
+    ).rejects.toThrow("rejected");
+
+    expect(requests.get(ok)).toBe(1);
+    expect(requests.get(failed)).toBe(1);
+    expect(metrics.render()).toContain(
+      'mm_exchange_request_duration_seconds_count{exchange="test",operation="place_order"} 2'
+    );
+  });
+});
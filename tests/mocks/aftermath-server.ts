@@ -0,0 +1,658 @@
+import { randomBytes } from "node:crypto";
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Ed25519PublicKey } from "@mysten/sui/keypairs/ed25519";
+
+/**
+ * Market served by the mock
+ */
+export interface MockMarket {
+  chId: string;
+  base: string;
+  /** Price decimals (tick size is 10^-pricePrecision) */
+  pricePrecision: number;
+  /** Size decimals (min size is 10^-sizePrecision) */
+  sizePrecision: number;
+}
+
+/**
+ * Order resting on the mock, in the CCXT shape the API returns
+ */
+export interface MockOrder {
+  id: string;
+  symbol: string;
+  side: "buy" | "sell";
+  type: "market" | "limit";
+  status: "open" | "closed" | "canceled";
+  price: number;
+  amount: number;
+  filled: number;
+  remaining: number;
+  cost: number;
+  timestamp: number;
+  reduceOnly?: boolean;
+}
+
+/**
+ * Position reported by the mock, in the CCXT shape the API returns
+ */
+export interface MockPosition {
+  symbol: string;
+  side: "long" | "short";
+  contracts: number;
+  entryPrice: number;
+  unrealizedPnl: number;
+  collateral: number;
+}
+
+/**
+ * Orderbook delta as sent on the stream, with [price, amountDelta] levels
+ */
+export interface MockOrderbookDelta {
+  bids: [number, number][];
+  asks: [number, number][];
+  timestamp: number;
+  nonce: number;
+}
+
+/**
+ * Stream served by the mock, keyed by chId (positions: by account number)
+ */
+export type MockStream = "orderbook" | "orders" | "positions" | "trades";
+
+export interface MockAftermathServerConfig {
+  /** Wallet that owns the mock account (other wallets have none) */
+  walletAddress: string;
+  /** Markets to list (default: BTC) */
+  markets?: MockMarket[];
+  /** Balance per currency */
+  balances?: Record<string, { free: number; used: number; total: number }>;
+}
+
+/**
+ * Request received by the mock
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Built transaction waiting for its signature
+ */
+interface PendingTransaction {
+  kind: "createOrders" | "cancelOrders";
+  body: Record<string, unknown>;
+  digest: Uint8Array;
+  sender: string;
+}
+
+const DEFAULT_MARKETS: MockMarket[] = [
+  { chId: "0xbtc", base: "BTC", pricePrecision: 1, sizePrecision: 4 },
+];
+
+const CAPABILITY_ID = "0xcap";
+const ACCOUNT_ID = "0xaccount";
+const ACCOUNT_NUMBER = 7;
+
+/**
+ * In-process mock of the Aftermath CCXT REST API and SSE streams
+ * Transactions are built with a random signing digest; submitting one checks the Ed25519
+ * signature over that digest and that it comes from the sender, then applies it to the
+ * mock's orders and streams the resulting order updates. Orderbook deltas, fills, positions
+ * and trades are pushed from the test.
+ */
+export class MockAftermathServer {
+  /** Every request received, in order */
+  readonly requests: MockRequest[] = [];
+  /** Open and canceled orders by ID */
+  readonly orders: Map<string, MockOrder> = new Map();
+  /** Positions reported for the account */
+  positions: MockPosition[] = [];
+  private config: MockAftermathServerConfig;
+  private markets: MockMarket[];
+  private books: Map<
+    string,
+    { bids: [number, number][]; asks: [number, number][]; nonce: number }
+  > = new Map();
+  private pending: Map<string, PendingTransaction> = new Map();
+  private streams: Map<string, Set<ServerResponse>> = new Map();
+  private failures: Map<string, { status: number; remaining: number }> = new Map();
+  private delays: Map<string, number> = new Map();
+  private server: Server | null = null;
+  private nextOrderId = 1;
+  private nextTradeId = 1;
+
+  /**
+   * Create a mock server
+   * @param config - Account owner, markets and balances
+   */
+  constructor(config: MockAftermathServerConfig) {
+    this.config = config;
+    this.markets = config.markets ?? DEFAULT_MARKETS;
+    for (const market of this.markets) {
+      this.books.set(market.chId, { bids: [], asks: [], nonce: 0 });
+    }
+  }
+
+  /**
+   * Start listening on a free port
+   * @returns Base URL of the mock
+   */
+  async start(): Promise<string> {
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    this.server = server;
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Stop listening and close open connections and streams
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Replace a market's book, bumping its nonce
+   * @param chId - Market ID
+   * @param bids - Bid levels, best first
+   * @param asks - Ask levels, best first
+   */
+  setOrderbook(chId: string, bids: [number, number][], asks: [number, number][]): void {
+    const book = this.getBook(chId);
+    book.bids = bids.map(([p, s]) => [p, s]);
+    book.asks = asks.map(([p, s]) => [p, s]);
+    book.nonce++;
+  }
+
+  /**
+   * Apply a delta to a market's book and stream it with the next nonce
+   * @param chId - Market ID
+   * @param delta - [price, amountDelta] changes per side
+   * @param send - Set to false to lose the delta on the way (the book still changes)
+   * @returns The delta as sent
+   */
+  pushOrderbookDelta(
+    chId: string,
+    delta: { bids?: [number, number][]; asks?: [number, number][] },
+    send = true
+  ): MockOrderbookDelta {
+    const book = this.getBook(chId);
+    const sent: MockOrderbookDelta = {
+      bids: delta.bids ?? [],
+      asks: delta.asks ?? [],
+      timestamp: Date.now(),
+      nonce: ++book.nonce,
+    };
+    applyLevels(book.bids, sent.bids, true);
+    applyLevels(book.asks, sent.asks, false);
+    if (send) {
+      this.sendOrderbookEvent(chId, sent);
+    }
+    return sent;
+  }
+
+  /**
+   * Stream a raw orderbook event without touching the mock's book (e.g., a stale delta)
+   * @param chId - Market ID
+   * @param event - Event payload
+   */
+  sendOrderbookEvent(chId: string, event: unknown): void {
+    this.send("orderbook", chId, event);
+  }
+
+  /**
+   * Fill part or all of an open order and stream the update with its trade
+   * @param id - Order ID
+   * @param amount - Amount filled (default: the remaining amount)
+   * @param price - Fill price (default: the order's price)
+   * @param withTrade - Set to false to send only the cumulative filled size and average price
+   * @returns The order update as sent
+   */
+  fillOrder(id: string, amount?: number, price?: number, withTrade = true): MockOrder {
+    const order = this.orders.get(id);
+    if (!order || order.status !== "open") {
+      throw new Error(`Order not open: ${id}`);
+    }
+    const filled = amount ?? order.remaining;
+    const fillPrice = price ?? order.price;
+    order.filled += filled;
+    order.remaining = Math.max(0, order.remaining - filled);
+    order.cost += filled * fillPrice;
+    if (order.remaining === 0) {
+      order.status = "closed";
+    }
+
+    const trade = {
+      id: `t${this.nextTradeId++}`,
+      order: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      price: fillPrice,
+      amount: filled,
+      takerOrMaker: "maker",
+      fee: { cost: 0, currency: "USDC" },
+      timestamp: Date.now(),
+    };
+    const update = withTrade
+      ? { ...order, trades: [trade] }
+      : { ...order, average: order.cost / order.filled };
+    this.send("orders", this.chIdOf(order.symbol), update);
+    return update;
+  }
+
+  /**
+   * Stream an order's current state again, without trades, as a reconnect snapshot would
+   * @param id - Order ID
+   */
+  resendOrder(id: string): void {
+    const order = this.orders.get(id);
+    if (!order) {
+      throw new Error(`Unknown order: ${id}`);
+    }
+    const average = order.filled > 0 ? order.cost / order.filled : undefined;
+    this.send("orders", this.chIdOf(order.symbol), { ...order, average });
+  }
+
+  /**
+   * Set the account's position in a market and stream it (zero contracts closes it)
+   * @param position - New position
+   */
+  pushPosition(position: MockPosition): void {
+    this.positions = this.positions.filter((p) => p.symbol !== position.symbol);
+    if (position.contracts !== 0) {
+      this.positions.push(position);
+    }
+    this.send("positions", String(ACCOUNT_NUMBER), position);
+  }
+
+  /**
+   * Stream a public trade
+   * @param chId - Market ID
+   * @param trade - Trade side, price and amount
+   */
+  pushTrade(chId: string, trade: { side: "buy" | "sell"; price: number; amount: number }): void {
+    const market = this.getMarket(chId);
+    this.send("trades", chId, {
+      id: `t${this.nextTradeId++}`,
+      symbol: symbolOf(market),
+      ...trade,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Number of open streams of a kind
+   * @param stream - Stream kind
+   * @param key - Market ID (positions: account number)
+   */
+  getStreamCount(stream: MockStream, key: string): number {
+    return this.streams.get(`${stream}:${key}`)?.size ?? 0;
+  }
+
+  /**
+   * End every open stream, as a server restart or network drop would
+   */
+  dropStreams(): void {
+    for (const streams of this.streams.values()) {
+      for (const res of streams) {
+        res.end();
+      }
+      streams.clear();
+    }
+  }
+
+  /**
+   * Answer requests to a path with an error status until cleared
+   * @param path - Request path (e.g., /api/ccxt/orderbook)
+   * @param status - HTTP status to answer with
+   * @param times - Number of requests to fail (default: all)
+   */
+  failRequests(path: string, status = 500, times = Number.POSITIVE_INFINITY): void {
+    this.failures.set(path, { status, remaining: times });
+  }
+
+  /**
+   * Hold requests to a path before answering them, until cleared
+   * @param path - Request path
+   * @param ms - Delay in milliseconds
+   */
+  delayRequests(path: string, ms: number): void {
+    this.delays.set(path, ms);
+  }
+
+  /**
+   * Stop failing and delaying requests
+   */
+  clearFailures(): void {
+    this.failures.clear();
+    this.delays.clear();
+  }
+
+  /**
+   * Orders still resting
+   */
+  getOpenOrders(): MockOrder[] {
+    return Array.from(this.orders.values()).filter((o) => o.status === "open");
+  }
+
+  /**
+   * Requests received on one path
+   */
+  getRequests(path: string): MockRequest[] {
+    return this.requests.filter((r) => r.path === path);
+  }
+
+  private getBook(chId: string) {
+    const book = this.books.get(chId);
+    if (!book) {
+      throw new Error(`Unknown market: ${chId}`);
+    }
+    return book;
+  }
+
+  private getMarket(chId: unknown): MockMarket {
+    const market = this.markets.find((m) => m.chId === chId);
+    if (!market) {
+      throw new HttpError(404, `Unknown market: ${chId}`);
+    }
+    return market;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const body = req.method === "POST" ? await readJson(req) : {};
+      this.requests.push({ method: req.method ?? "GET", path: url.pathname, body });
+
+      const delay = this.delays.get(url.pathname);
+      if (delay) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+
+      const failure = this.failures.get(url.pathname);
+      if (failure && failure.remaining > 0) {
+        failure.remaining--;
+        throw new HttpError(failure.status, "Injected failure");
+      }
+
+      if (req.method === "GET" && url.pathname.startsWith("/api/ccxt/stream/")) {
+        this.openStream(url, res);
+        return;
+      }
+
+      const result = await this.route(`${req.method} ${url.pathname}`, body);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(result));
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+    }
+  }
+
+  private async route(route: string, body: Record<string, unknown>): Promise<unknown> {
+    switch (route) {
+      case "GET /api/ccxt/markets":
+        return Object.fromEntries(this.markets.map((m) => [m.chId, toCcxtMarket(m)]));
+      case "POST /api/ccxt/accounts":
+        if (body.address !== this.config.walletAddress) return [];
+        return [
+          { id: CAPABILITY_ID, type: "capability", accountNumber: ACCOUNT_NUMBER },
+          { id: ACCOUNT_ID, type: "account", accountNumber: ACCOUNT_NUMBER, code: "USDC" },
+        ];
+      case "POST /api/ccxt/balance":
+        this.checkAccount(body.account);
+        return { balances: this.config.balances ?? {}, timestamp: Date.now() };
+      case "POST /api/ccxt/positions":
+        this.checkAccountNumber(body.accountNumber);
+        return this.positions;
+      case "POST /api/ccxt/orderbook": {
+        const market = this.getMarket(body.chId);
+        const book = this.getBook(market.chId);
+        return {
+          symbol: symbolOf(market),
+          bids: book.bids,
+          asks: book.asks,
+          timestamp: Date.now(),
+          nonce: book.nonce,
+        };
+      }
+      case "POST /api/ccxt/myPendingOrders": {
+        this.checkAccountNumber(body.accountNumber);
+        const symbol = symbolOf(this.getMarket(body.chId));
+        return this.getOpenOrders().filter((o) => o.symbol === symbol);
+      }
+      case "POST /api/ccxt/build/createOrders":
+        return this.build("createOrders", body);
+      case "POST /api/ccxt/build/cancelOrders":
+        return this.build("cancelOrders", body);
+      case "POST /api/ccxt/submit/createOrders":
+        return this.createOrders(await this.submit("createOrders", body));
+      case "POST /api/ccxt/submit/cancelOrders":
+        return this.cancelOrders(await this.submit("cancelOrders", body));
+      default:
+        throw new HttpError(404, `No route for ${route}`);
+    }
+  }
+
+  private checkAccount(account: unknown): void {
+    if (account !== CAPABILITY_ID && account !== ACCOUNT_ID) {
+      throw new HttpError(404, `Unknown account: ${account}`);
+    }
+  }
+
+  private checkAccountNumber(accountNumber: unknown): void {
+    if (accountNumber !== ACCOUNT_NUMBER) {
+      throw new HttpError(404, `Unknown account number: ${accountNumber}`);
+    }
+  }
+
+  /**
+   * Remember a transaction and hand out the digest to sign
+   */
+  private build(kind: PendingTransaction["kind"], body: Record<string, unknown>) {
+    this.checkAccount(body.accountId);
+    const sender = (body.metadata as { sender?: string } | undefined)?.sender;
+    if (sender !== this.config.walletAddress) {
+      throw new HttpError(400, `Sender does not own the account: ${sender}`);
+    }
+
+    const transactionBytes = randomBytes(16).toString("base64");
+    const digest = new Uint8Array(randomBytes(32));
+    this.pending.set(transactionBytes, { kind, body, digest, sender });
+    return { transactionBytes, signingDigest: Buffer.from(digest).toString("base64") };
+  }
+
+  /**
+   * Check the signature of a built transaction and take it off the pending list
+   * Signatures are flag (0x00 for Ed25519) + 64-byte signature + 32-byte public key
+   */
+  private async submit(
+    kind: PendingTransaction["kind"],
+    body: Record<string, unknown>
+  ): Promise<PendingTransaction> {
+    const tx = this.pending.get(String(body.transactionBytes));
+    if (!tx || tx.kind !== kind) {
+      throw new HttpError(400, "Unknown transaction");
+    }
+
+    const signatures = body.signatures as string[] | undefined;
+    const bytes = Buffer.from(signatures?.[0] ?? "", "base64");
+    if (bytes.length !== 97 || bytes[0] !== 0x00) {
+      throw new HttpError(400, "Malformed signature");
+    }
+    const publicKey = new Ed25519PublicKey(bytes.subarray(65));
+    if (publicKey.toSuiAddress() !== tx.sender) {
+      throw new HttpError(400, "Signature is not from the sender");
+    }
+    if (!(await publicKey.verify(tx.digest, new Uint8Array(bytes.subarray(1, 65))))) {
+      throw new HttpError(400, "Invalid signature");
+    }
+
+    this.pending.delete(String(body.transactionBytes));
+    return tx;
+  }
+
+  private createOrders(tx: PendingTransaction): MockOrder[] {
+    const requests = tx.body.orders as {
+      chId: string;
+      type: "market" | "limit";
+      side: "buy" | "sell";
+      amount: number;
+      price: number;
+      reduceOnly?: boolean;
+    }[];
+
+    return requests.map((request) => {
+      const order: MockOrder = {
+        id: String(this.nextOrderId++),
+        symbol: symbolOf(this.getMarket(request.chId)),
+        side: request.side,
+        type: request.type,
+        status: "open",
+        price: request.price,
+        amount: request.amount,
+        filled: 0,
+        remaining: request.amount,
+        cost: 0,
+        timestamp: Date.now(),
+        reduceOnly: request.reduceOnly,
+      };
+      this.orders.set(order.id, order);
+      this.send("orders", request.chId, order);
+      return { ...order };
+    });
+  }
+
+  private cancelOrders(tx: PendingTransaction): MockOrder[] {
+    const symbol = symbolOf(this.getMarket(tx.body.chId));
+    return (tx.body.orderIds as string[]).map((id) => {
+      const order = this.orders.get(id);
+      if (!order || order.status !== "open" || order.symbol !== symbol) {
+        throw new HttpError(400, `Order not open: ${id}`);
+      }
+      order.status = "canceled";
+      this.send("orders", tx.body.chId as string, order);
+      return { ...order };
+    });
+  }
+
+  private openStream(url: URL, res: ServerResponse): void {
+    const stream = url.pathname.slice("/api/ccxt/stream/".length) as MockStream;
+    let key: string;
+    if (stream === "positions") {
+      key = url.searchParams.get("accountNumber") ?? "";
+      if (key !== String(ACCOUNT_NUMBER)) {
+        throw new HttpError(404, `Unknown account: ${key}`);
+      }
+    } else if (["orderbook", "orders", "trades"].includes(stream)) {
+      key = this.getMarket(url.searchParams.get("chId")).chId;
+    } else {
+      throw new HttpError(404, `Not found: ${url.pathname}`);
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.write(": connected\n\n");
+
+    const streams = this.streams.get(`${stream}:${key}`) ?? new Set();
+    streams.add(res);
+    this.streams.set(`${stream}:${key}`, streams);
+    res.on("close", () => streams.delete(res));
+  }
+
+  private send(stream: MockStream, key: string, event: unknown): void {
+    for (const res of this.streams.get(`${stream}:${key}`) ?? []) {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    }
+  }
+
+  private chIdOf(symbol: string): string {
+    const market = this.markets.find((m) => symbolOf(m) === symbol);
+    if (!market) {
+      throw new Error(`Unknown symbol: ${symbol}`);
+    }
+    return market.chId;
+  }
+}
+
+/**
+ * Error carrying an HTTP status code
+ */
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function symbolOf(market: MockMarket): string {
+  return `${market.base}/USDC:USDC`;
+}
+
+function toCcxtMarket(market: MockMarket) {
+  return {
+    id: market.chId,
+    symbol: symbolOf(market),
+    base: market.base,
+    quote: "USDC",
+    settle: "USDC",
+    type: "swap",
+    swap: true,
+    active: true,
+    contract: true,
+    linear: true,
+    contractSize: 1,
+    precision: {
+      amount: market.sizePrecision,
+      price: market.pricePrecision,
+      base: market.sizePrecision,
+      quote: market.pricePrecision,
+    },
+    limits: {
+      amount: { min: Number((10 ** -market.sizePrecision).toFixed(market.sizePrecision)) },
+    },
+    info: {},
+  };
+}
+
+/**
+ * Add [price, amountDelta] changes to book levels, dropping emptied levels
+ */
+function applyLevels(levels: [number, number][], changes: [number, number][], isBid: boolean) {
+  for (const [price, amountDelta] of changes) {
+    const index = levels.findIndex(([p]) => p === price);
+    if (index >= 0) {
+      levels[index][1] += amountDelta;
+      if (levels[index][1] <= 0) levels.splice(index, 1);
+    } else if (amountDelta > 0) {
+      levels.push([price, amountDelta]);
+    }
+  }
+  levels.sort((a, b) => (isBid ? b[0] - a[0] : a[0] - b[0]));
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let raw = "";
+  for await (const chunk of req) {
+    raw += chunk;
+  }
+  return raw ? (JSON.parse(raw) as Record<string, unknown>) : {};
+}
@@ -0,0 +1,332 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { PaperAdapter } from "../src/exchanges/paper/index.js";
+import type { IExchange } from "../src/exchanges/types.js";
+import type {
+  Account,
+  Fill,
+  Market,
+  Order,
+  OrderResult,
+  Orderbook,
+  Position,
+} from "../src/types.js";
+import { VirtualClock } from "../src/utils/clock.js";
+
+const BTC_MARKET: Market = {
+  id: "0",
+  symbol: "BTC/USD:USD",
+  base: "BTC",
+  quote: "USD",
+  pricePrecision: 1,
+  sizePrecision: 4,
+  minSize: 0.0001,
+  tickSize: 0.1,
+};
+
+/**
+ * Minimal market data source whose orderbook can be pushed by the test
+ */
+class StubExchange implements IExchange {
+  readonly name = "stub";
+  connected = false;
+  private listener: ((book: Orderbook) => void) | null = null;
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  async getMarkets(): Promise<Market[]> {
+    return [BTC_MARKET];
+  }
+
+  async subscribeOrderbook(_symbol: string, callback: (book: Orderbook) => void): Promise<void> {
+    this.listener = callback;
+  }
+
+  async unsubscribeOrderbook(): Promise<void> {
+    this.listener = null;
+  }
+
+  async getAccount(): Promise<Account> {
+    throw new Error("not used");
+  }
+
+  async getPositions(): Promise<Position[]> {
+    return [];
+  }
+
+  async getOpenOrders(): Promise<Order[]> {
+    return [];
+  }
+
+  async placeOrder(): Promise<OrderResult> {
+    throw new Error("not used");
+  }
+
+  async cancelOrder(): Promise<void> {
+    throw new Error("not used");
+  }
+
+  async cancelAllOrders(): Promise<void> {
+    throw new Error("not used");
+  }
+
+  push(book: Orderbook): void {
+    this.listener?.(book);
+  }
+}
+
+function book(bid: number, ask: number, size = 1): Orderbook {
+  return {
+    symbol: "BTC",
+    bids: [[bid, size]],
+    asks: [[ask, size]],
+    timestamp: Date.now(),
+  };
+}
+
+describe("PaperAdapter", () => {
+  let underlying: StubExchange;
+  let paper: PaperAdapter;
+
+  beforeEach(async () => {
+    underlying = new StubExchange();
+    paper = new PaperAdapter({
+      underlying,
+      initialCollateral: 1000,
+      makerFeeBps: 0,
+      takerFeeBps: 10,
+    });
+    await paper.connect();
+    await paper.subscribeOrderbook("BTC", () => undefined);
+    underlying.push(book(100, 101));
+  });
+
+  it("should rest a post-only order that does not cross", async () => {
+    const result = await paper.placeOrder({
+      symbol: "BTC",
+      side: "buy",
+      type: "limit",
+      price: 99,
+      size: 1,
+      postOnly: true,
+    });
+
+    expect(result.status).toBe("open");
+    const orders = await paper.getOpenOrders("BTC");
+    expect(orders).toHaveLength(1);
+    expect(orders[0].symbol).toBe("BTC/USD:USD");
+  });
+
+  it("should reject a post-only order that would cross", async () => {
+    await expect(
+      paper.placeOrder({
+        symbol: "BTC",
+        side: "buy",
+        type: "limit",
+        price: 101,
+        size: 1,
+        postOnly: true,
+      })
+    ).rejects.toThrow("post-only");
+  });
+
+  it("should fill a resting order when the book trades through it", async () => {
+    await paper.placeOrder({
+      symbol: "BTC",
+      side: "buy",
+      type: "limit",
+      price: 99,
+      size: 1,
+      postOnly: true,
+    });
+
+    underlying.push(book(98, 99));
+
+    expect(await paper.getOpenOrders()).toHaveLength(0);
+    const [position] = await paper.getPositions();
+    expect(position.side).toBe("long");
+    expect(position.size).toBe(1);
+    expect(position.entryPrice).toBe(99);
+  });
+
+  it("should partially fill against limited crossing liquidity", async () => {
+    await paper.placeOrder({
+      symbol: "BTC",
+      side: "sell",
+      type: "limit",
+      price: 102,
+      size: 2,
+      postOnly: true,
+    });
+
+    underlying.push(book(102, 103, 0.5));
+
+    const [order] = await paper.getOpenOrders();
+    expect(order.filled).toBe(0.5);
+    expect(order.remaining).toBe(1.5);
+  });
+
+  it("should track realized PnL and taker fees", async () => {
+    await paper.placeOrder({ symbol: "BTC", side: "buy", type: "market", price: 0, size: 1 });
+    underlying.push(book(110, 111));
+    await paper.placeOrder({ symbol: "BTC", side: "sell", type: "market", price: 0, size: 1 });
+
+    const ledger = paper.getPaperAccount();
+    expect(ledger.getRealizedPnl()).toBeCloseTo(9); // bought 101, sold 110
+    expect(ledger.getFeesPaid()).toBeCloseTo(0.101 + 0.11);
+    expect((await paper.getAccount()).equity).toBeCloseTo(1000 + 9 - 0.211);
+    expect(await paper.getPositions()).toHaveLength(0);
+  });
+
+  it("should drop the unfilled remainder of a market order", async () => {
+    const result = await paper.placeOrder({
+      symbol: "BTC",
+      side: "buy",
+      type: "market",
+      price: 0,
+      size: 2,
+    });
+
+    expect(result.status).toBe("closed");
+    expect(await paper.getOpenOrders()).toHaveLength(0);
+    expect((await paper.getPositions())[0].size).toBe(1);
+  });
+
+  it("should report unrealized PnL at the book mid", async () => {
+    await paper.placeOrder({ symbol: "BTC", side: "buy", type: "market", price: 0, size: 1 });
+    underlying.push(book(104, 106, 5));
+
+    const [position] = await paper.getPositions();
+    expect(position.unrealizedPnl).toBeCloseTo(105 - 101);
+  });
+
+  it("should reject reduce-only orders that would increase the position", async () => {
+    await expect(
+      paper.placeOrder({
+        symbol: "BTC",
+        side: "sell",
+        type: "limit",
+        price: 105,
+        size: 1,
+        reduceOnly: true,
+      })
+    ).rejects.toThrow("reduce-only");
+  });
+
+  it("should cancel orders by id and by symbol", async () => {
+    const first = await paper.placeOrder({
+      symbol: "BTC",
+      side: "buy",
+      type: "limit",
+      price: 95,
+      size: 1,
+    });
+    await paper.placeOrder({ symbol: "BTC", side: "sell", type: "limit", price: 105, size: 1 });
+
+    await paper.cancelOrder(first.orderId);
+    expect(await paper.getOpenOrders()).toHaveLength(1);
+
+    await paper.cancelAllOrders("BTC");
+    expect(await paper.getOpenOrders()).toHaveLength(0);
+  });
+
+  it("should amend a resting order to a new price", async () => {
+    const original = await paper.placeOrder({
+      symbol: "BTC",
+      side: "buy",
+      type: "limit",
+      price: 95,
+      size: 1,
+      postOnly: true,
+    });
+
+    const [amended] = await paper.modifyOrders([
+      {
+        orderId: original.orderId,
+        order: { symbol: "BTC", side: "buy", type: "limit", price: 97, size: 2, postOnly: true },
+      },
+    ]);
+
+    const orders = await paper.getOpenOrders();
+    expect(orders).toHaveLength(1);
+    expect(orders[0]).toMatchObject({ id: amended.orderId, price: 97, size: 2 });
+  });
+
+  it("should keep the original order when its replacement is rejected", async () => {
+    const original = await paper.placeOrder({
+      symbol: "BTC",
+      side: "buy",
+      type: "limit",
+      price: 95,
+      size: 1,
+      postOnly: true,
+    });
+
+    // Post-only at the ask would cross
+    const [amended] = await paper.modifyOrders([
+      {
+        orderId: original.orderId,
+        order: { symbol: "BTC", side: "buy", type: "limit", price: 101, size: 1, postOnly: true },
+      },
+    ]);
+
+    expect(amended).toMatchObject({ orderId: original.orderId, status: "rejected" });
+    const orders = await paper.getOpenOrders();
+    expect(orders).toHaveLength(1);
+    expect(orders[0]).toMatchObject({ id: original.orderId, price: 95 });
+  });
+
+  it("should stamp orders and fills with the injected scheduler", async () => {
+    const clock = new VirtualClock(1_000);
+    const clocked = new PaperAdapter({ underlying, takerFeeBps: 10, scheduler: clock });
+    await clocked.connect();
+    await clocked.subscribeOrderbook("BTC", () => undefined);
+    underlying.push(book(100, 101));
+
+    const fills: Fill[] = [];
+    await clocked.subscribeFills((fill) => fills.push(fill));
+    clock.advance(500);
+    const result = await clocked.placeOrder({
+      symbol: "BTC",
+      side: "buy",
+      type: "market",
+      price: 0,
+      size: 1,
+    });
+
+    expect(result.timestamp).toBe(1_500);
+    expect(fills[0].timestamp).toBe(1_500);
+  });
+
+  it("should emit maker and taker fills to subscribers", async () => {
+    const fills: Fill[] = [];
+    await paper.subscribeFills((fill) => fills.push(fill));
+
+    const resting = await paper.placeOrder({
+      symbol: "BTC",
+      side: "sell",
+      type: "limit",
+      price: 102,
+      size: 1,
+      postOnly: true,
+    });
+    await paper.placeOrder({ symbol: "BTC", side: "buy", type: "market", price: 0, size: 1 });
+    underlying.push(book(102, 103));
+
+    expect(fills).toHaveLength(2);
+    expect(fills[0]).toMatchObject({ side: "buy", price: 101, liquidity: "taker" });
+    expect(fills[0].fee).toBeCloseTo(0.101);
+    expect(fills[1]).toMatchObject({
+      orderId: resting.orderId,
+      side: "sell",
+      price: 102,
+      liquidity: "maker",
+      fee: 0,
+    });
+  });
+});
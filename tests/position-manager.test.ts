@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CONFIG, type MarketMakerConfig } from "../src/bots/mm/config.js";
+import { PositionManager } from "../src/bots/mm/position.js";
+import type { Fill } from "../src/types.js";
+
+const config: MarketMakerConfig = {
+  ...DEFAULT_CONFIG,
+  exchange: "paper",
+  symbol: "BTC",
+};
+
+function fill(side: "buy" | "sell", size: number, price: number): Fill {
+  return {
+    id: `${side}-${size}-${price}`,
+    orderId: "1",
+    symbol: "BTC/USD:USD",
+    side,
+    price,
+    size,
+    fee: 0,
+    liquidity: "maker",
+    timestamp: 0,
+  };
+}
+
+describe("PositionManager.applyFill", () => {
+  it("should open and increase a position with a blended entry price", () => {
+    const manager = new PositionManager(config);
+
+    manager.applyFill(fill("buy", 1, 100));
+    manager.applyFill(fill("buy", 1, 110), 110);
+
+    const position = manager.getPosition();
+    expect(position.side).toBe("long");
+    expect(position.size).toBe(2);
+    expect(position.entryPrice).toBe(105);
+    expect(position.unrealizedPnl).toBeCloseTo(10);
+    expect(manager.getSignedNotional()).toBe(220);
+  });
+
+  it("should keep the entry price when reducing", () => {
+    const manager = new PositionManager(config);
+
+    manager.applyFill(fill("sell", 2, 100));
+    manager.applyFill(fill("buy", 1, 90));
+
+    const position = manager.getPosition();
+    expect(position.side).toBe("short");
+    expect(position.size).toBe(1);
+    expect(position.entryPrice).toBe(100);
+  });
+
+  it("should open at the fill price when flipping through zero", () => {
+    const manager = new PositionManager(config);
+
+    manager.applyFill(fill("buy", 1, 100));
+    manager.applyFill(fill("sell", 3, 120));
+
+    const position = manager.getPosition();
+    expect(position.side).toBe("short");
+    expect(position.size).toBe(2);
+    expect(position.entryPrice).toBe(120);
+  });
+
+  it("should go flat when a fill closes the position", () => {
+    const manager = new PositionManager(config);
+
+    manager.applyFill(fill("buy", 1, 100));
+    manager.applyFill(fill("sell", 1, 101));
+
+    expect(manager.getPosition().side).toBe("none");
+    expect(manager.getSignedNotional()).toBe(0);
+  });
+
+  it("should realize PnL on the reducing part of fills, net of fees", () => {
+    const manager = new PositionManager(config);
+
+    manager.applyFill({ ...fill("buy", 2, 100), fee: 0.1 });
+    manager.applyFill(fill("sell", 1, 110));
+    manager.applyFill(fill("sell", 2, 90));
+
+    // +10 on the first unit, -10 on the second, fee 0.1; the flip opens 1 short at 90
+    expect(manager.getRealizedPnl()).toBeCloseTo(-0.1);
+    expect(manager.getPosition()).toMatchObject({ side: "short", size: 1, entryPrice: 90 });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CONFIG, type MarketMakerConfig, parseQuoteLevels } from "../src/bots/mm/config.js";
+import { Quoter } from "../src/bots/mm/quoter.js";
+import type { Market } from "../src/types.js";
+
+const BTC_MARKET: Market = {
+  id: "0",
+  symbol: "BTC/USD:USD",
+  base: "BTC",
+  quote: "USD",
+  pricePrecision: 0,
+  sizePrecision: 4,
+  minSize: 0.0001,
+  tickSize: 1,
+};
+
+function createQuoter(overrides: Partial<MarketMakerConfig> = {}): Quoter {
+  const quoter = new Quoter({
+    ...DEFAULT_CONFIG,
+    exchange: "paper",
+    symbol: "BTC",
+    ...overrides,
+  });
+  quoter.setMarket(BTC_MARKET);
+  return quoter;
+}
+
+describe("parseQuoteLevels", () => {
+  it("should parse spread and size multiplier pairs", () => {
+    expect(parseQuoteLevels("10:1, 20:1.5,40")).toEqual([
+      { spreadBps: 10, sizeMultiplier: 1 },
+      { spreadBps: 20, sizeMultiplier: 1.5 },
+      { spreadBps: 40, sizeMultiplier: 1 },
+    ]);
+  });
+
+  it("should reject malformed levels", () => {
+    expect(() => parseQuoteLevels("10:x")).toThrow("Invalid quote level");
+  });
+});
+
+describe("Quoter ladder", () => {
+  it("should quote a single level at spreadBps by default", () => {
+    const quote = createQuoter().generateQuotes(10000, 0);
+
+    expect(quote.bids).toEqual([{ price: 9990, size: 0.0101, level: 0 }]);
+    expect(quote.asks).toEqual([{ price: 10010, size: 0.01, level: 0 }]);
+  });
+
+  it("should quote every configured level with scaled sizes", () => {
+    const quoter = createQuoter({ quoteLevels: parseQuoteLevels("10:1,20:1.5,40:2") });
+    const quote = quoter.generateQuotes(10000, 0);
+
+    expect(quote.bids.map((l) => l.price)).toEqual([9990, 9980, 9960]);
+    expect(quote.asks.map((l) => l.price)).toEqual([10010, 10020, 10040]);
+    expect(quote.asks.map((l) => l.size)).toEqual([0.01, 0.015, 0.02]);
+    expect(quoter.quoteToOrders(quote)).toHaveLength(6);
+  });
+
+  it("should keep levels one tick apart when they collapse after rounding", () => {
+    const quote = createQuoter({ quoteLevels: parseQuoteLevels("1,1.5") }).generateQuotes(1000, 0);
+
+    expect(quote.bids.map((l) => l.price)).toEqual([999, 998]);
+    expect(quote.asks.map((l) => l.price)).toEqual([1001, 1002]);
+  });
+
+  it("should cap the notional quoted per side", () => {
+    const quote = createQuoter({
+      quoteLevels: parseQuoteLevels("10:1,20:1,40:1"),
+      maxSideNotionalUsd: 250,
+    }).generateQuotes(10000, 0);
+
+    expect(quote.asks).toHaveLength(3);
+    const notional = quote.asks.reduce((sum, l) => sum + l.price * l.size, 0);
+    expect(notional).toBeLessThanOrEqual(250);
+    expect(quote.asks[2].size).toBeLessThan(quote.asks[0].size);
+  });
+
+  it("should only quote the reducing side at the take-profit spread in close mode", () => {
+    const quoter = createQuoter({ quoteLevels: parseQuoteLevels("10:1,20:1") });
+    const quote = quoter.generateQuotes(10000, 600);
+
+    expect(quote.isCloseMode).toBe(true);
+    expect(quote.bids).toHaveLength(0);
+    expect(quote.asks.map((l) => l.price)).toEqual([10005, 10010]);
+    expect(quoter.quoteToOrders(quote).every((o) => o.reduceOnly)).toBe(true);
+  });
+});
+
+describe("Quoter inventory skew", () => {
+  const skewConfig = { skewRiskAversion: 0.1, skewVolatilityBps: 10, maxSkewBps: 50 };
+
+  it("should not skew when risk aversion is zero", () => {
+    const quote = createQuoter().generateQuotes(10000, 200);
+
+    expect(quote.skewBps).toBe(0);
+    expect(quote.reservationPrice).toBe(10000);
+  });
+
+  it("should shift the reservation price against a long position", () => {
+    const quoter = createQuoter(skewConfig);
+    const quote = quoter.generateQuotes(10000, 200);
+
+    // q = 2 order sizes -> -2 * 0.1 * 10^2 = -20 bps
+    expect(quote.skewBps).toBeCloseTo(-20);
+    expect(quote.reservationPrice).toBeCloseTo(9980);
+    expect(quote.bids[0].price).toBe(9970); // 10 + 20 bps below fair
+    expect(quote.asks[0].price).toBe(10000); // 10 - 20 bps, floored at fair
+  });
+
+  it("should shift the reservation price up for a short position", () => {
+    const quote = createQuoter(skewConfig).generateQuotes(10000, -50);
+
+    expect(quote.skewBps).toBeCloseTo(5);
+    expect(quote.bids[0].price).toBe(9995);
+    expect(quote.asks[0].price).toBe(10015);
+  });
+
+  it("should cap the skew at maxSkewBps", () => {
+    const quoter = createQuoter({ ...skewConfig, maxSkewBps: 15 });
+
+    expect(quoter.getSkewBps(400)).toBe(-15);
+    expect(quoter.getSkewBps(-400)).toBe(15);
+  });
+
+  it("should quote without skew in close mode", () => {
+    const quote = createQuoter(skewConfig).generateQuotes(10000, 600);
+
+    expect(quote.skewBps).toBe(0);
+    expect(quote.asks[0].price).toBe(10005);
+  });
+});
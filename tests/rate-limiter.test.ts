@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { VirtualClock } from "../src/utils/clock.js";
+import { RateLimiter } from "../src/utils/rate-limiter.js";
+
+describe("RateLimiter", () => {
+  it("should let a burst through and space out the rest in order", async () => {
+    const clock = new VirtualClock();
+    const limiter = new RateLimiter(4, 2, clock);
+    const granted: [number, number][] = [];
+
+    const requests = [0, 1, 2, 3, 4].map((i) =>
+      limiter.acquire().then(() => granted.push([i, clock.now()]))
+    );
+    await clock.advanceAsync(0);
+    expect(granted).toEqual([
+      [0, 0],
+      [1, 0],
+    ]);
+
+    await clock.advanceAsync(1_000);
+    await Promise.all(requests);
+    expect(granted).toEqual([
+      [0, 0],
+      [1, 0],
+      [2, 250],
+      [3, 500],
+      [4, 750],
+    ]);
+  });
+
+  it("should refill while idle up to the burst size", async () => {
+    const clock = new VirtualClock();
+    const limiter = new RateLimiter(1, 2, clock);
+    await limiter.acquire();
+    await limiter.acquire();
+
+    clock.advance(10_000);
+    await limiter.acquire();
+    await limiter.acquire();
+    let third = false;
+    limiter.acquire().then(() => {
+      third = true;
+    });
+    await clock.advanceAsync(999);
+    expect(third).toBe(false);
+    await clock.advanceAsync(1);
+    expect(third).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { isPlanEmpty, reconcileOrders } from "../src/bots/mm/reconciler.js";
+import type { Order, OrderRequest, Side } from "../src/types.js";
+
+const tolerance = { tickSize: 0.5, priceTicks: 1, sizeRatio: 0.1 };
+
+function want(side: Side, price: number, size = 1, reduceOnly = false): OrderRequest {
+  return { symbol: "BTC", side, type: "limit", price, size, postOnly: true, reduceOnly };
+}
+
+function resting(id: string, side: Side, price: number, remaining = 1): Order {
+  return {
+    id,
+    symbol: "BTC/USD:USD",
+    type: "limit",
+    side,
+    price,
+    size: 1,
+    filled: 1 - remaining,
+    remaining,
+    status: "open",
+    timestamp: 0,
+    reduceOnly: false,
+  };
+}
+
+describe("reconcileOrders", () => {
+  it("should keep orders within the price and size tolerance", () => {
+    const plan = reconcileOrders(
+      [want("buy", 99.5), want("sell", 100.5, 1.05)],
+      [resting("1", "buy", 100), resting("2", "sell", 100.5)],
+      tolerance
+    );
+
+    expect(plan.keep.map((o) => o.id)).toEqual(["1", "2"]);
+    expect(isPlanEmpty(plan)).toBe(true);
+  });
+
+  it("should amend orders that moved beyond the tolerance", () => {
+    const plan = reconcileOrders([want("buy", 98)], [resting("1", "buy", 100)], tolerance);
+
+    expect(plan.amend).toHaveLength(1);
+    expect(plan.amend[0].current.id).toBe("1");
+    expect(plan.amend[0].desired.price).toBe(98);
+    expect(plan.cancel).toHaveLength(0);
+    expect(plan.place).toHaveLength(0);
+  });
+
+  it("should amend a partially filled order back to full size", () => {
+    const plan = reconcileOrders([want("sell", 101)], [resting("1", "sell", 101, 0.5)], tolerance);
+
+    expect(plan.keep).toHaveLength(0);
+    expect(plan.amend).toHaveLength(1);
+  });
+
+  it("should only touch the levels of a ladder that changed", () => {
+    const plan = reconcileOrders(
+      [want("buy", 99), want("buy", 98), want("buy", 96)],
+      [resting("1", "buy", 99), resting("2", "buy", 98), resting("3", "buy", 97)],
+      tolerance
+    );
+
+    expect(plan.keep.map((o) => o.id)).toEqual(["1", "2"]);
+    expect(plan.amend.map((a) => [a.current.id, a.desired.price])).toEqual([["3", 96]]);
+  });
+
+  it("should cancel surplus orders and place missing ones", () => {
+    const plan = reconcileOrders(
+      [want("sell", 101), want("sell", 102)],
+      [resting("1", "buy", 99), resting("2", "sell", 101)],
+      tolerance
+    );
+
+    expect(plan.keep.map((o) => o.id)).toEqual(["2"]);
+    expect(plan.cancel.map((o) => o.id)).toEqual(["1"]);
+    expect(plan.place.map((o) => o.price)).toEqual([102]);
+  });
+
+  it("should not keep an order whose reduce-only flag differs", () => {
+    const plan = reconcileOrders(
+      [want("sell", 101, 1, true)],
+      [resting("1", "sell", 101)],
+      tolerance
+    );
+
+    expect(plan.keep).toHaveLength(0);
+    expect(plan.amend).toHaveLength(1);
+  });
+});
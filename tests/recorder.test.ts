@@ -0,0 +1,253 @@
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gzipSync } from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { IExchange } from "../src/exchanges/types.js";
+import type { PriceCallback } from "../src/pricing/index.js";
+import { type MarketDataEvent, applyBookEvent, readMarketData } from "../src/recorder/reader.js";
+import { MarketDataRecorder } from "../src/recorder/recorder.js";
+import { MarketDataWriter } from "../src/recorder/writer.js";
+import type { Orderbook, Trade } from "../src/types.js";
+
+async function readAll(dir: string): Promise<MarketDataEvent[]> {
+  const events: MarketDataEvent[] = [];
+  for await (const event of readMarketData(dir)) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("market data", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "recorder-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should merge files in time order, including gzip files", async () => {
+    const lines = (events: object[]) => `${events.map((e) => JSON.stringify(e)).join("\n")}\n`;
+    writeFileSync(
+      join(dir, "book.jsonl"),
+      lines([
+        { type: "book", ts: 1, bids: [[99, 1]], asks: [[101, 1]] },
+        { type: "book_delta", ts: 3, bids: [[99, 0]], asks: [] },
+      ])
+    );
+    writeFileSync(
+      join(dir, "prices.jsonl.gz"),
+      gzipSync(
+        lines([
+          { type: "price", ts: 2, price: 100 },
+          { type: "price", ts: 4, price: 101 },
+        ])
+      )
+    );
+    writeFileSync(join(dir, "notes.txt"), "ignored");
+
+    const events: MarketDataEvent[] = [];
+    for await (const event of readMarketData(dir)) {
+      events.push(event);
+    }
+    expect(events.map((e) => `${e.type}@${e.ts}`)).toEqual([
+      "book@1",
+      "price@2",
+      "book_delta@3",
+      "price@4",
+    ]);
+  });
+
+  it("should apply deltas and drop the book on a nonce gap", () => {
+    let current = applyBookEvent(
+      null,
+      { type: "book", ts: 1, bids: [[99, 1]], asks: [[101, 1]], nonce: 1 },
+      "BTC"
+    );
+    current = applyBookEvent(
+      current,
+      { type: "book_delta", ts: 2, bids: [[99.5, 2]], asks: [[101, 0]], nonce: 2 },
+      "BTC"
+    );
+    expect(current).toMatchObject({
+      bids: [
+        [99.5, 2],
+        [99, 1],
+      ],
+      asks: [],
+      nonce: 2,
+    });
+
+    expect(
+      applyBookEvent(current, { type: "book_delta", ts: 3, bids: [], asks: [], nonce: 4 }, "BTC")
+    ).toBeNull();
+  });
+});
+
+describe("MarketDataWriter", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "recorder-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should rotate gzip files on period boundaries and read them back", async () => {
+    const start = Date.UTC(2025, 0, 1, 12, 59, 0);
+    const writer = new MarketDataWriter({
+      dir,
+      exchange: "paper",
+      symbol: "BTC/USD:USD",
+      rotateMs: 3_600_000,
+    });
+
+    writer.write({ type: "price", ts: start, price: 100 });
+    writer.write({ type: "price", ts: start + 30_000, price: 101 });
+    writer.write({ type: "price", ts: start + 60_000, price: 102 });
+    await writer.close();
+
+    const files = readdirSync(join(dir, "paper", "BTC_USD_USD")).sort();
+    expect(files).toEqual(["20250101T125900.jsonl.gz", "20250101T130000.jsonl.gz"]);
+    expect((await readAll(dir)).map((e) => e.type === "price" && e.price)).toEqual([100, 101, 102]);
+  });
+
+  it("should read what it can from a truncated file", async () => {
+    const lines = [1, 2, 3].map((ts) => JSON.stringify({ type: "price", ts, price: ts }));
+    const gz = gzipSync(`${lines.join("\n")}\n`);
+    writeFileSync(join(dir, "cut.jsonl.gz"), gz.subarray(0, gz.length - 8));
+
+    expect((await readAll(dir)).map((e) => e.ts)).toEqual([1, 2, 3]);
+  });
+});
+
+describe("MarketDataRecorder", () => {
+  let dir: string;
+  let onBook: (book: Orderbook) => void;
+  let onTrade: (trade: Trade) => void;
+  let onPrice: PriceCallback;
+
+  const exchange = {
+    name: "paper",
+    connected: true,
+    subscribeOrderbook: async (_symbol: string, callback: (book: Orderbook) => void) => {
+      onBook = callback;
+    },
+    subscribeTrades: async (_symbol: string, callback: (trade: Trade) => void) => {
+      onTrade = callback;
+    },
+    unsubscribeOrderbook: vi.fn(async () => undefined),
+    disconnect: vi.fn(async () => undefined),
+  } as unknown as IExchange;
+
+  function book(bids: [number, number][], asks: [number, number][]): Orderbook {
+    return { symbol: "BTC", bids, asks, timestamp: 0 };
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "recorder-"));
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.UTC(2025, 0, 1));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should write a snapshot, then deltas, trades and prices", async () => {
+    const recorder = new MarketDataRecorder(exchange, "BTC", {
+      dir,
+      rotateMs: 3_600_000,
+      snapshotIntervalMs: 60_000,
+      depth: 2,
+      trades: true,
+      priceSource: "binance",
+      priceFeed: (callback) => {
+        onPrice = callback;
+        return { connect: vi.fn(async () => undefined), disconnect: vi.fn() } as never;
+      },
+    });
+    await recorder.start();
+
+    onBook(
+      book(
+        [
+          [99, 1],
+          [98, 1],
+          [97, 1],
+        ],
+        [[101, 1]]
+      )
+    );
+    vi.advanceTimersByTime(100);
+    onBook(
+      book(
+        [
+          [99, 2],
+          [98, 1],
+        ],
+        [[101, 1]]
+      )
+    );
+    onBook(
+      book(
+        [
+          [99, 2],
+          [98, 1],
+        ],
+        [[101, 1]]
+      )
+    );
+    onTrade({ symbol: "BTC", side: "sell", price: 99, size: 0.5, timestamp: 0 });
+    onPrice(100, 0);
+    vi.advanceTimersByTime(60_000);
+    onBook(book([[99, 2]], [[100.5, 1]]));
+    await recorder.stop();
+
+    const events = await readAll(dir);
+    expect(events).toEqual([
+      {
+        type: "book",
+        ts: 1735689600000,
+        bids: [
+          [99, 1],
+          [98, 1],
+        ],
+        asks: [[101, 1]],
+        nonce: 1,
+      },
+      { type: "book_delta", ts: 1735689600100, bids: [[99, 2]], asks: [], nonce: 2 },
+      { type: "trade", ts: 1735689600100, side: "sell", price: 99, size: 0.5 },
+      { type: "price", ts: 1735689600100, price: 100, source: "binance" },
+      { type: "book", ts: 1735689660100, bids: [[99, 2]], asks: [[100.5, 1]], nonce: 3 },
+    ]);
+    expect(recorder.getStats()).toEqual({
+      snapshots: 2,
+      deltas: 1,
+      prices: 1,
+      trades: 1,
+      files: 1,
+    });
+
+    // The recording replays to the book that was last seen
+    let current: Orderbook | null = null;
+    for (const event of events.slice(0, 2)) {
+      if (event.type === "book" || event.type === "book_delta") {
+        current = applyBookEvent(current, event, "BTC");
+      }
+    }
+    expect(current).toMatchObject({
+      bids: [
+        [99, 2],
+        [98, 1],
+      ],
+      asks: [[101, 1]],
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MarketMaker } from "../src/bots/mm/index.js";
+import { ReplayExchange } from "../src/exchanges/replay/index.js";
+import { ReplayPriceFeed } from "../src/pricing/replay.js";
+import type { MarketDataEvent } from "../src/recorder/reader.js";
+import type { Market, Orderbook } from "../src/types.js";
+import { VirtualClock } from "../src/utils/clock.js";
+
+const START = Date.UTC(2025, 0, 1);
+
+const market: Market = {
+  id: "BTC",
+  symbol: "BTC/USD:USD",
+  base: "BTC",
+  quote: "USD",
+  pricePrecision: 2,
+  sizePrecision: 4,
+  minSize: 0.0001,
+  tickSize: 0.01,
+};
+
+/**
+ * 20 seconds of a 100 market that steps up to 102 after 10 seconds
+ */
+function capture(): MarketDataEvent[] {
+  const events: MarketDataEvent[] = [
+    { type: "book", ts: START, bids: [[99.9, 5]], asks: [[100.1, 5]], nonce: 1 },
+  ];
+  for (let t = 0; t <= 20_000; t += 100) {
+    events.push({ type: "price", ts: START + t, price: t < 10_000 ? 100 : 102, source: "test" });
+  }
+  events.push({
+    type: "book_delta",
+    ts: START + 10_000,
+    bids: [
+      [99.9, 0],
+      [101.9, 5],
+    ],
+    asks: [
+      [100.1, 0],
+      [102.1, 5],
+    ],
+    nonce: 2,
+  });
+  return events.sort((a, b) => a.ts - b.ts);
+}
+
+describe("replay", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "replay-"));
+    path = join(dir, "capture.jsonl");
+    writeFileSync(
+      path,
+      `${capture()
+        .map((e) => JSON.stringify(e))
+        .join("\n")}\n`
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should deliver books and prices as the clock passes them", async () => {
+    const clock = new VirtualClock(START - 1);
+    const exchange = new ReplayExchange({ path, clock, market });
+    const books: Orderbook[] = [];
+    const prices: [number, number][] = [];
+    const feed = new ReplayPriceFeed(path, clock, (price, ts) => prices.push([price, ts]));
+
+    await exchange.connect();
+    await exchange.subscribeOrderbook("BTC", (book) => books.push(book));
+    await feed.connect();
+    expect(books).toEqual([]);
+    expect(prices).toEqual([]);
+
+    clock.advanceTo(START + 150);
+    expect(books).toHaveLength(1);
+    expect(prices).toEqual([
+      [100, START],
+      [100, START + 100],
+    ]);
+
+    clock.advanceTo(START + 10_000);
+    expect(books.at(-1)).toMatchObject({ bids: [[101.9, 5]], asks: [[102.1, 5]], nonce: 2 });
+    expect(feed.getLastPrice()).toBe(102);
+    expect(feed.getLastTimestamp()).toBe(START + 10_000);
+
+    feed.disconnect();
+    await exchange.disconnect();
+    clock.advanceTo(START + 20_000);
+    expect(feed.getLastTimestamp()).toBe(START + 10_000);
+  });
+
+  it("should log every order action the market maker sends", async () => {
+    const clock = new VirtualClock(START);
+    const exchange = new ReplayExchange({ path, clock, market });
+    await exchange.connect();
+
+    const mm = new MarketMaker(
+      "paper",
+      "BTC",
+      {
+        spreadBps: 10,
+        orderSizeUsd: 100,
+        warmupSeconds: 1,
+        updateThrottleMs: 500,
+        fairPriceWindowMs: 1000,
+      },
+      {
+        exchange,
+        monitorMargin: false,
+        priceFeed: (onPrice) => new ReplayPriceFeed(path, clock, onPrice),
+        scheduler: clock,
+      }
+    );
+    const started = mm.start();
+    await vi.waitFor(() => expect(mm.getStatus().state).toBe("warming_up"));
+
+    await clock.advanceAsync(20_000);
+    await started;
+    await mm.stop();
+
+    expect(exchange.getActions().map((a) => `${a.type}@${a.ts - START}`)).toEqual([
+      "cancel_all@1000",
+      "place@1500",
+      "place@1500",
+      "cancel@10000",
+      "place@10000",
+      "cancel@10000",
+      "place@10000",
+      "cancel@10500",
+      "place@10500",
+      "cancel@11000",
+      "place@11000",
+      "cancel@11500",
+      "place@11500",
+      "cancel@12000",
+      "place@12000",
+      "cancel@12500",
+      "place@12500",
+      "cancel@12500",
+      "place@12500",
+      "cancel@13000",
+      "place@13000",
+      "cancel@13000",
+      "place@13000",
+      "cancel@13500",
+      "place@13500",
+      "cancel@13500",
+      "place@13500",
+      "cancel@14000",
+      "place@14000",
+      "cancel@14000",
+      "place@14000",
+      "cancel@14500",
+      "place@14500",
+      "cancel@15000",
+      "place@15000",
+      "cancel@17000",
+      "place@17000",
+      "cancel_all@20000",
+    ]);
+    // Quotes hold at 100 +/- 10 bps, then follow the fair price EMA up to 102,
+    // amended whenever it moves them by more than a tick
+    expect(
+      exchange
+        .getOrderRequests()
+        .map((o) => `${o.side} ${o.size} @ ${o.price.toFixed(2)}${o.postOnly ? " post" : ""}`)
+    ).toEqual([
+      "buy 1.0011 @ 99.90 post",
+      "sell 0.9991 @ 100.10 post",
+      "buy 0.9992 @ 100.09 post",
+      "sell 0.9813 @ 101.91 post",
+      "buy 0.9921 @ 100.80 post",
+      "buy 0.9879 @ 101.23 post",
+      "buy 0.9854 @ 101.49 post",
+      "buy 0.9838 @ 101.65 post",
+      "buy 0.9829 @ 101.74 post",
+      "sell 0.9808 @ 101.96 post",
+      "buy 0.9824 @ 101.80 post",
+      "sell 0.9802 @ 102.02 post",
+      "buy 0.982 @ 101.84 post",
+      "sell 0.98 @ 102.05 post",
+      "buy 0.9818 @ 101.86 post",
+      "sell 0.9798 @ 102.07 post",
+      "sell 0.9796 @ 102.09 post",
+      "buy 0.9816 @ 101.88 post",
+      "sell 0.9794 @ 102.11 post",
+    ]);
+  });
+});
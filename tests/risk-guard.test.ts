@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CONFIG, type MarketMakerConfig } from "../src/bots/mm/config.js";
+import { RiskGuard } from "../src/bots/mm/risk.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 1, 12);
+
+function guard(overrides: Partial<MarketMakerConfig>): RiskGuard {
+  return new RiskGuard({ ...DEFAULT_CONFIG, exchange: "paper", symbol: "BTC", ...overrides });
+}
+
+describe("RiskGuard", () => {
+  it("should carry equity snapshots forward with the engine PnL", () => {
+    const risk = guard({});
+    // An existing position's PnL at start is not a gain of this run
+    risk.updatePositionPnl(40);
+    expect(risk.getPnl()).toBe(0);
+
+    risk.updatePositionPnl(30);
+    expect(risk.getPnl()).toBe(-10);
+
+    risk.updateEquity(1_000);
+    expect(risk.getPnl()).toBe(-10);
+
+    // Funding and fees show up in equity, moves since the snapshot in the engine PnL
+    risk.updateEquity(985);
+    risk.updatePositionPnl(35);
+    expect(risk.getPnl()).toBe(-20);
+  });
+
+  it("should add up the PnL of engines sharing an account and count equity once", () => {
+    const risk = new RiskGuard({ maxDailyLossUsd: 0, maxDrawdownUsd: 50 });
+    risk.updatePositionPnl(0, "BTC");
+    risk.updatePositionPnl(10, "ETH");
+    risk.updateEquity(1_000);
+    risk.check(START);
+
+    risk.updatePositionPnl(-30, "BTC");
+    risk.updatePositionPnl(-10, "ETH");
+    expect(risk.getPnl()).toBe(-50);
+    expect(risk.check(START)).toEqual({ reason: "drawdown", loss: 50, limit: 50 });
+
+    // Each engine passes on the same account snapshot
+    risk.updateEquity(950);
+    risk.updateEquity(950);
+    expect(risk.getPnl()).toBe(-50);
+  });
+
+  it("should restart the daily PnL at UTC midnight", () => {
+    const risk = guard({ maxDailyLossUsd: 100 });
+    risk.updateEquity(1_000);
+    risk.check(START);
+
+    risk.updateEquity(920);
+    expect(risk.check(START)).toBeNull();
+    expect(risk.getStatus(START).dailyPnl).toBe(-80);
+
+    risk.updateEquity(910);
+    expect(risk.check(START + DAY)).toBeNull();
+    expect(risk.getStatus(START + DAY)).toMatchObject({ runPnl: -90, dailyPnl: 0 });
+
+    risk.updateEquity(810);
+    expect(risk.check(START + DAY)).toEqual({ reason: "daily_loss", loss: 100, limit: 100 });
+  });
+
+  it("should measure drawdown from the peak and accept losses on reset", () => {
+    const risk = guard({ maxDrawdownUsd: 50 });
+    risk.updateEquity(1_000);
+    risk.updateEquity(1_100);
+    risk.check(START);
+
+    risk.updateEquity(1_050);
+    expect(risk.check(START)).toEqual({ reason: "drawdown", loss: 50, limit: 50 });
+
+    risk.reset();
+    expect(risk.check(START)).toBeNull();
+    expect(risk.getStatus(START)).toMatchObject({ runPnl: 50, peakPnl: 50, drawdown: 0 });
+  });
+
+  it("should not check disabled limits", () => {
+    const risk = guard({});
+    risk.updateEquity(1_000);
+    risk.check(START);
+    risk.updateEquity(1);
+    expect(risk.check(START)).toBeNull();
+  });
+});